@@ -8,11 +8,15 @@ import AddProperty from "@/pages/AddProperty";
 import SignIn from "@/pages/SignIn"; // Unified login component
 import SimpleLogin from "@/pages/SimpleLogin";
 import SignUp from "@/pages/SignUp";
+import ForgotPassword from "@/pages/ForgotPassword";
+import ResetPassword from "@/pages/ResetPassword";
+import VerifyEmail from "@/pages/VerifyEmail";
 import SearchTest from "@/pages/SearchTest";
 import AboutUs from "@/pages/AboutUs";
 import Contact from "@/pages/Contact";
 import Neighborhoods from "@/pages/Neighborhoods";
 import Mortgage from "@/pages/Mortgage";
+import EstimateHome from "@/pages/EstimateHome";
 import Blog from "@/pages/Blog";
 import Profile from "@/pages/Profile";
 import MyProperties from "@/pages/MyProperties";
@@ -27,6 +31,8 @@ import OuluData from "@/pages/OuluData";
 // Admin pages and components
 import AdminDashboard from "@/pages/admin";
 import AdminProperties from "@/pages/admin/Properties";
+import AdminDuplicates from "@/pages/admin/Duplicates";
+import AdminGeocoding from "@/pages/admin/Geocoding";
 import AdminUsers from "@/pages/admin/Users";
 import AdminLocations from "@/pages/admin/Locations";
 import AdminMessages from "@/pages/admin/Messages";
@@ -36,6 +42,7 @@ import AdminLogs from "@/pages/admin/Logs";
 import AdminCreateProperty from "@/pages/admin/CreateProperty";
 import AdminCreateUser from "@/pages/admin/CreateUser";
 import { AdminRoute } from "@/components/auth/AdminRoute";
+import { ImpersonationBanner } from "@/components/ImpersonationBanner";
 import { AdminProvider } from "@/contexts/AdminContext";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { SiteSettingsProvider } from "@/contexts/SiteSettingsContext";
@@ -57,6 +64,9 @@ function Router() {
       <Route path="/signin" component={SignIn} />
       <Route path="/simple-login" component={SimpleLogin} />
       <Route path="/signup" component={SignUp} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/verify-email" component={VerifyEmail} />
       <Route path="/locations" component={Locations} />
       <Route path="/search-test" component={SearchTest} />
       <Route path="/about" component={AboutUs} />
@@ -65,6 +75,7 @@ function Router() {
       <Route path="/agents" component={FindAgentsPage} />
       <Route path="/neighborhoods" component={Neighborhoods} />
       <Route path="/mortgage" component={Mortgage} />
+      <Route path="/estimate" component={EstimateHome} />
       <Route path="/blog" component={Blog} />
       <Route path="/blog/:slug" component={BlogPostDetail} />
       <Route path="/profile" component={Profile} />
@@ -87,6 +98,12 @@ function Router() {
       <Route path="/admin/properties/create">
         {() => <AdminRoute component={AdminCreateProperty} />}
       </Route>
+      <Route path="/admin/duplicates">
+        {() => <AdminRoute component={AdminDuplicates} />}
+      </Route>
+      <Route path="/admin/geocoding">
+        {() => <AdminRoute component={AdminGeocoding} />}
+      </Route>
       <Route path="/admin/users">
         {() => <AdminRoute component={AdminUsers} />}
       </Route>
@@ -132,6 +149,7 @@ function App() {
     <SiteSettingsProvider>
       <AuthProvider>
         <AdminProvider>
+          <ImpersonationBanner />
           <Router />
           <Toaster />
         </AdminProvider>
@@ -6,7 +6,17 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useTranslation } from 'react-i18next';
+import { ENERGY_CLASSES, PLOT_OWNERSHIPS } from '@shared/schema';
+import type { AreaUnit } from '@shared/units';
+import { useAreaUnit } from '@/lib/formatters';
 
 type AdvancedFiltersProps = {
   initialFilters?: Record<string, any>; // Receive initial state
@@ -29,12 +39,29 @@ interface AdvancedFiltersState {
   onlyWithPhotos: boolean;
   onlyWithVideos: boolean;
   verifiedProperties: boolean; // Corresponds to verified
+  priceDropped: boolean;
+  maxMaintenanceCharge: string;
+  maxLoanShare: string;
+  minEnergyClass: string; // '' means any class
+  minBuildYear: string;
+  plotOwnership: string[];
+  maxDeposit: string;
+  availableBy: string; // YYYY-MM-DD
+  maxLeaseMonths: string;
+  petsAllowed: boolean;
+  smokingAllowed: boolean;
 }
 
+// Area slider bounds in each unit; filters are sent in square metres
+const AREA_SLIDER: Record<AreaUnit, { max: number; step: number }> = {
+  sqm: { max: 1000, step: 10 },
+  sqft: { max: 10000, step: 100 },
+};
+
 // Define the default state for resetting
 const defaultAdvancedFiltersState: AdvancedFiltersState = {
   propertyType: [],
-  areaRange: [0, 5000],
+  areaRange: [0, AREA_SLIDER.sqm.max],
   budgetRange: [0, 10000000],
   minArea: '',
   maxArea: '',
@@ -46,6 +73,17 @@ const defaultAdvancedFiltersState: AdvancedFiltersState = {
   onlyWithPhotos: false,
   onlyWithVideos: false,
   verifiedProperties: false,
+  priceDropped: false,
+  maxMaintenanceCharge: '',
+  maxLoanShare: '',
+  minEnergyClass: '',
+  minBuildYear: '',
+  plotOwnership: [],
+  maxDeposit: '',
+  availableBy: '',
+  maxLeaseMonths: '',
+  petsAllowed: false,
+  smokingAllowed: false,
 };
 
 // Helper to safely parse int or return undefined
@@ -63,7 +101,12 @@ const safeParseFloat = (value: any): number | undefined => {
 };
 
 // --- Function to derive internal state from external filters ---
-const deriveInternalState = (externalFilters: Record<string, any>): AdvancedFiltersState => {
+// Areas arrive in square metres and are shown in the visitor's unit
+const deriveInternalState = (
+  externalFilters: Record<string, any>,
+  areaUnit: AreaUnit,
+  areaFromSquareMetres: (squareMetres: number) => number,
+): AdvancedFiltersState => {
   console.log("[AdvancedFilters] Deriving internal state from externalFilters:", externalFilters);
 
   // --- Helper to safely check for truthy boolean values (handles true, 'true') ---
@@ -81,10 +124,12 @@ const deriveInternalState = (externalFilters: Record<string, any>): AdvancedFilt
   }
 
   // --- Area ---
-  const initialMinAreaNum = safeParseInt(externalFilters.minArea);
-  const initialMaxAreaNum = safeParseInt(externalFilters.maxArea);
-  const minAreaStr = String(externalFilters.minArea ?? '');
-  const maxAreaStr = String(externalFilters.maxArea ?? '');
+  const minAreaSqm = safeParseFloat(externalFilters.minArea);
+  const maxAreaSqm = safeParseFloat(externalFilters.maxArea);
+  const initialMinAreaNum = minAreaSqm !== undefined ? areaFromSquareMetres(minAreaSqm) : undefined;
+  const initialMaxAreaNum = maxAreaSqm !== undefined ? areaFromSquareMetres(maxAreaSqm) : undefined;
+  const minAreaStr = initialMinAreaNum !== undefined ? String(initialMinAreaNum) : '';
+  const maxAreaStr = initialMaxAreaNum !== undefined ? String(initialMaxAreaNum) : '';
 
   // --- Price/Budget ---
   const initialMinPriceNum = safeParseInt(externalFilters.minPrice); // Use minPrice
@@ -116,6 +161,14 @@ const deriveInternalState = (externalFilters: Record<string, any>): AdvancedFilt
           : [String(externalFilters.facingDirection)];
   }
 
+  // --- Plot Ownership (housing company) ---
+  let initialPlotOwnership: string[] = [];
+  if (externalFilters.plotOwnership) {
+      initialPlotOwnership = Array.isArray(externalFilters.plotOwnership)
+          ? externalFilters.plotOwnership.map(String)
+          : String(externalFilters.plotOwnership).split(',');
+  }
+
   // --- Booleans (Using the isTruthy helper) ---
   const onlyWithPhotosBool = isTruthy(externalFilters.onlyWithPhotos);
   const onlyWithVideosBool = isTruthy(externalFilters.onlyWithVideos);
@@ -126,7 +179,7 @@ const deriveInternalState = (externalFilters: Record<string, any>): AdvancedFilt
     propertyType: initialPropertyType,
     areaRange: [
       initialMinAreaNum !== undefined ? initialMinAreaNum : defaultAdvancedFiltersState.areaRange[0],
-      initialMaxAreaNum !== undefined ? initialMaxAreaNum : defaultAdvancedFiltersState.areaRange[1]
+      initialMaxAreaNum !== undefined ? initialMaxAreaNum : AREA_SLIDER[areaUnit].max
     ],
     budgetRange: [
       initialMinPriceNum !== undefined ? initialMinPriceNum : defaultAdvancedFiltersState.budgetRange[0],
@@ -142,6 +195,17 @@ const deriveInternalState = (externalFilters: Record<string, any>): AdvancedFilt
     onlyWithPhotos: onlyWithPhotosBool,
     onlyWithVideos: onlyWithVideosBool,
     verifiedProperties: verifiedBool, // Assign the correctly derived boolean value
+    priceDropped: isTruthy(externalFilters.priceDropped),
+    maxMaintenanceCharge: String(externalFilters.maxMaintenanceCharge ?? ''),
+    maxLoanShare: String(externalFilters.maxLoanShare ?? ''),
+    minEnergyClass: String(externalFilters.minEnergyClass ?? ''),
+    minBuildYear: String(externalFilters.minBuildYear ?? ''),
+    plotOwnership: initialPlotOwnership,
+    maxDeposit: String(externalFilters.maxDeposit ?? ''),
+    availableBy: String(externalFilters.availableBy ?? ''),
+    maxLeaseMonths: String(externalFilters.maxLeaseMonths ?? ''),
+    petsAllowed: isTruthy(externalFilters.petsAllowed),
+    smokingAllowed: isTruthy(externalFilters.smokingAllowed),
   };
   console.log("[AdvancedFilters] Derived internal state:", derived);
   return derived;
@@ -150,15 +214,17 @@ const deriveInternalState = (externalFilters: Record<string, any>): AdvancedFilt
 
 export default function AdvancedFilters({ initialFilters = {}, onFilterChange, onClose }: AdvancedFiltersProps) {
   const { t } = useTranslation('advancedFilters');
+  const { unit: areaUnit, label: areaLabel, fromSquareMetres, toSquareMetres } = useAreaUnit();
+  const areaSlider = AREA_SLIDER[areaUnit];
   // Initialize state using the derivation function
-  const [filters, setFilters] = useState<AdvancedFiltersState>(() => deriveInternalState(initialFilters));
+  const [filters, setFilters] = useState<AdvancedFiltersState>(() => deriveInternalState(initialFilters, areaUnit, fromSquareMetres));
 
-  // Sync state if initialFilters prop changes after mount
+  // Sync state if initialFilters prop or the area unit changes after mount
   useEffect(() => {
     console.log("[AdvancedFilters] useEffect: Syncing with initialFilters prop", initialFilters);
     // When the initialFilters prop changes, re-derive the internal state
-    setFilters(deriveInternalState(initialFilters));
-  }, [initialFilters]); // Dependency array ensures this runs when the prop changes
+    setFilters(deriveInternalState(initialFilters, areaUnit, fromSquareMetres));
+  }, [initialFilters, areaUnit]); // Dependency array ensures this runs when the prop changes
 
 
   // --- Event Handlers (Remain the same) ---
@@ -219,7 +285,7 @@ export default function AdvancedFilters({ initialFilters = {}, onFilterChange, o
     // Sync sliders if input changes
     if (field === 'minArea' || field === 'maxArea') {
       const min = field === 'minArea' ? safeParseInt(value) ?? 0 : filters.areaRange[0];
-      const max = field === 'maxArea' ? safeParseInt(value) ?? 5000 : filters.areaRange[1];
+      const max = field === 'maxArea' ? safeParseInt(value) ?? areaSlider.max : filters.areaRange[1];
       setFilters(prev => ({ ...prev, areaRange: [min, max] as [number, number] }));
     }
     if (field === 'minBudget' || field === 'maxBudget') {
@@ -230,6 +296,12 @@ export default function AdvancedFilters({ initialFilters = {}, onFilterChange, o
   };
 
 
+  // Area inputs in the visitor's unit as the square metres the API filters on
+  const areaInSquareMetres = (value: string): number | undefined => {
+    const area = safeParseFloat(value);
+    return area === undefined ? undefined : Math.round(toSquareMetres(area) * 10) / 10;
+  };
+
   const applyFilters = () => {
     // Prepare the filter object to be sent back, mapping internal state keys to backend keys.
     const filtersToSend: Record<string, any> = {
@@ -237,13 +309,24 @@ export default function AdvancedFilters({ initialFilters = {}, onFilterChange, o
       ownership: filters.ownership.length > 0 ? filters.ownership : undefined,
       postedBy: filters.postedBy.length > 0 ? filters.postedBy : undefined,
       facingDirection: filters.facing.length > 0 ? filters.facing : undefined,
-      minArea: safeParseFloat(filters.minArea),
-      maxArea: safeParseFloat(filters.maxArea),
+      minArea: areaInSquareMetres(filters.minArea),
+      maxArea: areaInSquareMetres(filters.maxArea),
       minPrice: safeParseFloat(filters.minBudget),
       maxPrice: safeParseFloat(filters.maxBudget),
       onlyWithPhotos: filters.onlyWithPhotos,
       onlyWithVideos: filters.onlyWithVideos,
       verified: filters.verifiedProperties, // Map verifiedProperties back to verified
+      priceDropped: filters.priceDropped,
+      maxMaintenanceCharge: safeParseFloat(filters.maxMaintenanceCharge),
+      maxLoanShare: safeParseFloat(filters.maxLoanShare),
+      minEnergyClass: filters.minEnergyClass || undefined,
+      minBuildYear: safeParseInt(filters.minBuildYear),
+      plotOwnership: filters.plotOwnership.length > 0 ? filters.plotOwnership : undefined,
+      maxDeposit: safeParseFloat(filters.maxDeposit),
+      availableBy: filters.availableBy || undefined,
+      maxLeaseMonths: safeParseInt(filters.maxLeaseMonths),
+      petsAllowed: filters.petsAllowed,
+      smokingAllowed: filters.smokingAllowed,
     };
 
     console.log("AdvancedFilters applying (sending to parent):", filtersToSend);
@@ -252,7 +335,7 @@ export default function AdvancedFilters({ initialFilters = {}, onFilterChange, o
   };
 
   const resetFilters = () => {
-    setFilters(defaultAdvancedFiltersState);
+    setFilters({ ...defaultAdvancedFiltersState, areaRange: [0, areaSlider.max] });
     onFilterChange?.({});
   };
 
@@ -300,9 +383,9 @@ export default function AdvancedFilters({ initialFilters = {}, onFilterChange, o
 
         {/* Area Range Section */}
         <div>
-          <h3 className="font-medium text-lg mb-3">{t('area')}</h3>
+          <h3 className="font-medium text-lg mb-3">{t('area')} ({areaLabel})</h3>
           <div>
-            <Slider min={0} max={10000} step={100} value={filters.areaRange} onValueChange={handleAreaRangeChange} className="mb-4" />
+            <Slider min={0} max={areaSlider.max} step={areaSlider.step} value={filters.areaRange} onValueChange={handleAreaRangeChange} className="mb-4" />
             <div className="flex items-center space-x-2">
               <Input type="number" placeholder={t('min')} value={filters.minArea} onChange={(e) => handleInputChange('minArea', e.target.value)} className="w-full" />
               <span>{t('common.to', 'to')}</span>
@@ -391,6 +474,87 @@ export default function AdvancedFilters({ initialFilters = {}, onFilterChange, o
               <Checkbox id="adv-verified" checked={filters.verifiedProperties} onCheckedChange={() => handleToggleChange('verifiedProperties')} />
               <Label htmlFor="adv-verified">{t('verified')}</Label>
             </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="adv-price-dropped" checked={filters.priceDropped} onCheckedChange={() => handleToggleChange('priceDropped')} />
+              <Label htmlFor="adv-price-dropped">{t('priceDropped')}</Label>
+            </div>
+          </div>
+        </div>
+
+        {/* Housing Company Section */}
+        <div>
+          <h3 className="font-medium text-lg mb-3">{t('housingCompany')}</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="adv-max-maintenance">{t('maxMaintenanceCharge')}</Label>
+              <Input id="adv-max-maintenance" type="number" min={0} placeholder={t('max')} value={filters.maxMaintenanceCharge} onChange={(e) => handleInputChange('maxMaintenanceCharge', e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="adv-max-loan-share">{t('maxLoanShare')}</Label>
+              <Input id="adv-max-loan-share" type="number" min={0} placeholder={t('max')} value={filters.maxLoanShare} onChange={(e) => handleInputChange('maxLoanShare', e.target.value)} />
+            </div>
+            <div>
+              <Label>{t('minEnergyClass')}</Label>
+              <Select value={filters.minEnergyClass || 'any'} onValueChange={(value) => handleInputChange('minEnergyClass', value === 'any' ? '' : value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">{t('anyEnergyClass')}</SelectItem>
+                  {ENERGY_CLASSES.map((energyClass) => (
+                    <SelectItem key={energyClass} value={energyClass}>
+                      {energyClass === 'A' ? energyClass : t('energyClassOrBetter', { class: energyClass })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="adv-min-build-year">{t('minBuildYear')}</Label>
+              <Input id="adv-min-build-year" type="number" min={1800} placeholder={t('min')} value={filters.minBuildYear} onChange={(e) => handleInputChange('minBuildYear', e.target.value)} />
+            </div>
+          </div>
+          <div className="mt-3 space-y-2">
+            <Label>{t('plotOwnership')}</Label>
+            {PLOT_OWNERSHIPS.map((key) => (
+              <div className="flex items-center space-x-2" key={key}>
+                <Checkbox
+                  id={`adv-plot-${key}`}
+                  checked={filters.plotOwnership.includes(key)}
+                  onCheckedChange={() => handleCheckboxChange('plotOwnership', key)}
+                />
+                <Label htmlFor={`adv-plot-${key}`}>{t(key === 'own' ? 'ownPlot' : 'leasedPlot')}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Rental Terms Section */}
+        <div>
+          <h3 className="font-medium text-lg mb-3">{t('rental')}</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="adv-max-deposit">{t('maxDeposit')}</Label>
+              <Input id="adv-max-deposit" type="number" min={0} placeholder={t('max')} value={filters.maxDeposit} onChange={(e) => handleInputChange('maxDeposit', e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="adv-available-by">{t('availableBy')}</Label>
+              <Input id="adv-available-by" type="date" value={filters.availableBy} onChange={(e) => handleInputChange('availableBy', e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="adv-max-lease">{t('maxLeaseMonths')}</Label>
+              <Input id="adv-max-lease" type="number" min={1} placeholder={t('max')} value={filters.maxLeaseMonths} onChange={(e) => handleInputChange('maxLeaseMonths', e.target.value)} />
+            </div>
+          </div>
+          <div className="mt-3 space-y-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="adv-pets-allowed" checked={filters.petsAllowed} onCheckedChange={() => handleToggleChange('petsAllowed')} />
+              <Label htmlFor="adv-pets-allowed">{t('petsAllowed')}</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="adv-smoking-allowed" checked={filters.smokingAllowed} onCheckedChange={() => handleToggleChange('smokingAllowed')} />
+              <Label htmlFor="adv-smoking-allowed">{t('smokingAllowed')}</Label>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,75 @@
+import React from 'react';
+import type { AreaPriceComparison as Comparison } from '@shared/schema';
+import { useAreaUnit, useCurrency } from '@/lib/formatters';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+// Dates arrive as JSON strings
+export type AreaPriceComparisonResponse = Omit<Comparison, 'computedAt'> & { computedAt: string };
+
+interface AreaPriceComparisonProps {
+  comparison: AreaPriceComparisonResponse;
+  postalCode: string | null;
+  className?: string;
+}
+
+// Within this many percent of the median the price is called typical for the area
+const AT_MEDIAN_PERCENT = 2;
+
+/**
+ * "X% above/below area median" for a listing's price per m², as a short colored label.
+ */
+export const AreaMedianLabel: React.FC<{ comparison: AreaPriceComparisonResponse; className?: string }> = ({ comparison, className }) => {
+  const { t } = useLanguage();
+  const percent = comparison.differencePercent;
+  if (Math.abs(percent) < AT_MEDIAN_PERCENT) {
+    return <span className={`text-slate-600 ${className ?? ''}`}>{t('propertyDetail.areaPrice.atMedian')}</span>;
+  }
+  return (
+    <span className={`${percent > 0 ? 'text-amber-700' : 'text-green-700'} ${className ?? ''}`}>
+      {t(percent > 0 ? 'propertyDetail.areaPrice.above' : 'propertyDetail.areaPrice.below', { percent: Math.abs(percent) })}
+    </span>
+  );
+};
+
+/**
+ * The listing's asking price per m² against the median of comparable listings in its area,
+ * from the comparables returned with the listing.
+ */
+export const AreaPriceComparison: React.FC<AreaPriceComparisonProps> = ({ comparison, postalCode, className }) => {
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+  const { label, toSquareMetres } = useAreaUnit();
+  // Prices per m² as prices per the preferred unit
+  const perArea = (pricePerSqm: number) =>
+    t('propertyDetail.areaPrice.perArea', { price: formatPrice(Math.round(pricePerSqm * toSquareMetres(1))), unit: label });
+
+  const basis = comparison.basis === 'radius'
+    ? t('propertyDetail.areaPrice.withinRadius', { count: comparison.comparableCount, km: comparison.radiusKm ?? 0 })
+    : t('propertyDetail.areaPrice.inPostalCode', { count: comparison.comparableCount, postalCode: postalCode ?? '' });
+
+  return (
+    <section className={className}>
+      <h2 className="text-xl font-semibold mb-4">{t('propertyDetail.areaPrice.title')}</h2>
+      <AreaMedianLabel comparison={comparison} className="text-lg font-semibold" />
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-4">
+        <div>
+          <div className="text-sm text-slate-500">{t('propertyDetail.areaPrice.thisListing')}</div>
+          <div className="font-medium">{perArea(comparison.pricePerSqm)}</div>
+        </div>
+        <div>
+          <div className="text-sm text-slate-500">{t('propertyDetail.areaPrice.areaMedian')}</div>
+          <div className="font-medium">{perArea(comparison.medianPricePerSqm)}</div>
+        </div>
+        <div>
+          <div className="text-sm text-slate-500">{t('propertyDetail.areaPrice.medianPrice')}</div>
+          <div className="font-medium">{formatPrice(comparison.medianPrice)}</div>
+        </div>
+      </div>
+      <p className="text-sm text-slate-500 mt-3">
+        {basis} · {t('propertyDetail.areaPrice.updated', { date: new Date(comparison.computedAt).toLocaleDateString() })}
+      </p>
+    </section>
+  );
+};
+
+export default AreaPriceComparison;
@@ -0,0 +1,38 @@
+// src/components/AreaUnitSelector.tsx
+import { AREA_UNITS } from '@shared/units';
+import { useAreaUnit } from '@/lib/formatters';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+
+export function AreaUnitSelector() {
+  const { t } = useLanguage();
+  const { unit, label, setUnit } = useAreaUnit();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="flex items-center gap-1 px-2 text-sm font-medium text-inherit hover:bg-white/10"
+          title={t('units.selectorTitle')}
+        >
+          <span>{label}</span>
+          <i className="ri-ruler-line ml-1"></i>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-44">
+        {AREA_UNITS.map((option) => (
+          <DropdownMenuItem
+            key={option}
+            className={unit === option ? 'bg-slate-100 text-primary-600 font-medium' : ''}
+            onClick={() => setUnit(option)}
+          >
+            {t(`units.${option}Name`)}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
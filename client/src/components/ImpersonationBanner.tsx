@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQueryClient } from "@tanstack/react-query";
+import { Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { stopImpersonation } from "@/lib/unifiedAuth";
+
+/**
+ * Sticky banner shown on every page while an admin is viewing the site as another user.
+ * Refreshes the session user once the impersonation expires on the server.
+ */
+export function ImpersonationBanner() {
+  const { user, refetchUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [now, setNow] = useState(Date.now());
+  const [isStopping, setIsStopping] = useState(false);
+  const impersonation = user?.impersonation;
+
+  useEffect(() => {
+    if (!impersonation) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000 * 15);
+    return () => window.clearInterval(timer);
+  }, [impersonation]);
+
+  useEffect(() => {
+    if (impersonation && now >= impersonation.expiresAt) {
+      refetchUser();
+    }
+  }, [impersonation, now, refetchUser]);
+
+  if (!user || !impersonation) {
+    return null;
+  }
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    try {
+      await stopImpersonation();
+      queryClient.clear(); // Cached data belongs to the impersonated user
+      setLocation('/admin/users');
+    } catch (error: any) {
+      toast({ title: "Error", description: `Failed to stop impersonation: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  const minutesLeft = Math.max(0, Math.ceil((impersonation.expiresAt - now) / 60000));
+
+  return (
+    <div className="sticky top-0 z-[100] flex flex-wrap items-center justify-center gap-3 bg-amber-500 px-4 py-2 text-sm text-black">
+      <Eye className="h-4 w-4" />
+      <span>
+        Viewing as <strong>{user.name}</strong> ({user.email}) — read-only, {minutesLeft} min left.
+        Started by {impersonation.name}.
+      </span>
+      <Button size="sm" variant="outline" className="h-7 bg-white" onClick={handleStop} disabled={isStopping}>
+        Stop viewing
+      </Button>
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
-import { useMemo, useEffect, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
+import { useMemo, useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { MapContainer, TileLayer, Marker, Popup, useMapEvents } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 import type { Property } from "@shared/schema";
 import type { LeafletEvent } from 'leaflet';
-import { useCurrency } from "@/lib/formatters";
+import { useAreaUnit, useCurrency } from "@/lib/formatters";
+import { apiRequest } from "@/lib/queryClient";
+import { useLanguage } from "@/contexts/LanguageContext";
 
 // Fix for leaflet icons
 // Using any type assertion to avoid TypeScript errors with _getIconUrl
@@ -20,10 +23,64 @@ L.Icon.Default.mergeOptions({
 interface MapViewProps {
   properties: Property[];
   onPropertyClick?: (property: Property) => void;
+  // Offered in the popup of a clicked point, with the city found there
+  onAreaSelect?: (city: string) => void;
 }
 
-export default function MapView({ properties, onPropertyClick }: MapViewProps) {
+interface ReversePlace {
+  address: string | null;
+  postalCode: string | null;
+  city: string;
+  distanceMetres: number;
+}
+
+// Shows the nearest known address of a clicked point on the map
+function AddressLookup({ onAreaSelect }: Pick<MapViewProps, 'onAreaSelect'>) {
+  const { t } = useLanguage();
+  const [point, setPoint] = useState<L.LatLng | null>(null);
+  useMapEvents({ click: (event) => setPoint(event.latlng) });
+
+  const { data: place, isLoading, isError } = useQuery<ReversePlace>({
+    queryKey: ['/geocoding/reverse', point?.lat, point?.lng],
+    queryFn: () => apiRequest<ReversePlace>('GET', `/geocoding/reverse?lat=${point!.lat}&lon=${point!.lng}`),
+    enabled: !!point,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  if (!point) return null;
+  return (
+    <Popup position={point} eventHandlers={{ remove: () => setPoint(null) }}>
+      <div className="p-1 max-w-[250px] text-xs text-slate-600">
+        {isLoading ? (
+          <p>{t('propertyListings.map.lookingUp')}</p>
+        ) : isError || !place ? (
+          <p>{t('propertyListings.map.noAddress')}</p>
+        ) : (
+          <>
+            {place.address && <p className="font-semibold text-sm text-slate-900">{place.address}</p>}
+            <p>{[place.postalCode, place.city].filter(Boolean).join(' ')}</p>
+            {place.distanceMetres > 100 && (
+              <p className="mt-1">{t('propertyListings.map.distance', { distance: place.distanceMetres })}</p>
+            )}
+            {onAreaSelect && (
+              <button
+                className="mt-2 px-2 py-1 bg-blue-600 text-white text-xs rounded w-full"
+                onClick={() => onAreaSelect(place.city)}
+              >
+                {t('propertyListings.map.showListingsIn', { city: place.city })}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </Popup>
+  );
+}
+
+export default function MapView({ properties, onPropertyClick, onAreaSelect }: MapViewProps) {
   const { formatPrice } = useCurrency();
+  const { formatArea } = useAreaUnit();
   // Filter properties with valid coordinates
   const validProperties = properties.filter(
     property => property.latitude && property.longitude
@@ -70,6 +127,8 @@ export default function MapView({ properties, onPropertyClick }: MapViewProps) {
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         noWrap={true}
       />
+
+      <AddressLookup onAreaSelect={onAreaSelect} />
       
       {validProperties.map(property => (
         <Marker 
@@ -83,7 +142,7 @@ export default function MapView({ properties, onPropertyClick }: MapViewProps) {
             <div className="p-1 max-w-[250px]">
               <h3 className="font-semibold text-sm">{property.title}</h3>
               <p className="text-xs text-slate-600 mt-1">{formatPrice(property.price)}</p>
-              <p className="text-xs text-slate-600">{property.bedrooms} BHK {property.propertyType} | {property.area} sq.ft</p>
+              <p className="text-xs text-slate-600">{property.bedrooms} BHK {property.propertyType} | {formatArea(property.area)}</p>
               <p className="text-xs text-slate-600 mt-1">{property.address}, {property.city}</p>
               <button 
                 className="mt-2 px-2 py-1 bg-blue-600 text-white text-xs rounded w-full"
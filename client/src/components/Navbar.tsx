@@ -7,6 +7,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { SimpleUserButton } from "./SimpleUserButton"; // Assumes this uses useLanguage internally or takes t as prop
 import { LanguageSelector } from "./LanguageSelector"; // Assumes this uses useLanguage internally
+import { AreaUnitSelector } from "./AreaUnitSelector";
 import { useSiteSettings } from "@/contexts/SiteSettingsContext";
 import { Menu, X } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
@@ -32,6 +33,7 @@ const mainNavLinks: NavItem[] = [
 const secondaryNavLinks: NavItem[] = [
   { href: "/neighborhoods", labelKey: "neighborhoods" },
   { href: "/mortgage", labelKey: "mortgage" },
+  { href: "/estimate", labelKey: "estimate" },
   { href: "/blog", labelKey: "blog" },
 ];
 
@@ -162,7 +164,10 @@ export default function Navbar() {
               </a>
             )}
           </div>
-          <LanguageSelector />
+          <div className="flex items-center">
+            <AreaUnitSelector />
+            <LanguageSelector />
+          </div>
         </div>
       </div>
 
@@ -182,6 +187,7 @@ export default function Navbar() {
               <NavLink key={link.href} href={link.href}>{t(`navbar.${link.labelKey}`)}</NavLink>
             ))}
             <NavLink href="/mortgage">{t('navbar.mortgage')}</NavLink>
+            <NavLink href="/estimate">{t('navbar.estimate')}</NavLink>
             <NavLink href="/neighborhoods">{t('navbar.neighborhoods')}</NavLink>
             <NavLink href="/blog">{t('navbar.blog')}</NavLink>
           </div>
@@ -0,0 +1,111 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Loader2 } from 'lucide-react';
+import type { PropertyEvent } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useCurrency } from '@/lib/formatters';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface PriceHistoryProps {
+  propertyId: number;
+  currentPrice: number;
+  className?: string;
+}
+
+// Dates arrive as JSON strings
+type PropertyEventResponse = Omit<PropertyEvent, 'createdAt'> & { createdAt: string };
+
+/**
+ * Price chart and status timeline of a listing, from GET /api/properties/:id/history.
+ */
+export const PriceHistory: React.FC<PriceHistoryProps> = ({ propertyId, currentPrice, className }) => {
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+  const { data, isLoading, error } = useQuery<{ events: PropertyEventResponse[] }>({
+    queryKey: ['/properties', propertyId, 'history'],
+    queryFn: () => apiRequest('GET', `/properties/${propertyId}/history`),
+  });
+
+  // One point per price, plus today so the line reaches the current price
+  const chartData = React.useMemo(() => {
+    const points = (data?.events ?? [])
+      .filter((event) => event.type !== 'status_changed')
+      .map((event) => ({ time: new Date(event.createdAt).getTime(), price: event.price }));
+    if (points.length > 0) {
+      points.push({ time: Date.now(), price: currentPrice });
+    }
+    return points;
+  }, [data, currentPrice]);
+
+  const describe = (event: PropertyEventResponse) => {
+    switch (event.type) {
+      case 'listed':
+        return t('propertyDetail.priceHistory.listed', { price: formatPrice(event.price) });
+      case 'price_changed':
+        return t(
+          event.price < (event.previousPrice ?? event.price) ? 'propertyDetail.priceHistory.priceReduced' : 'propertyDetail.priceHistory.priceIncreased',
+          { from: formatPrice(event.previousPrice ?? 0), to: formatPrice(event.price) },
+        );
+      default:
+        return t('propertyDetail.priceHistory.statusChanged', {
+          status: t(`propertyDetail.priceHistory.status.${event.status}`),
+        });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return null;
+  }
+
+  return (
+    <section className={className}>
+      <h2 className="text-xl font-semibold mb-4">{t('propertyDetail.priceHistory.title')}</h2>
+      {data.events.length === 0 ? (
+        <p className="text-slate-500">{t('propertyDetail.priceHistory.empty')}</p>
+      ) : (
+        <>
+          {chartData.length > 2 && (
+            <div className="h-[240px] mb-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(time) => new Date(time).toLocaleDateString()}
+                  />
+                  <YAxis width={90} tickFormatter={(price) => formatPrice(price)} domain={['auto', 'auto']} />
+                  <Tooltip
+                    labelFormatter={(time) => new Date(time as number).toLocaleDateString()}
+                    formatter={(price) => [formatPrice(price as number), t('propertyDetail.priceHistory.price')]}
+                  />
+                  <Line type="stepAfter" dataKey="price" stroke="#4f46e5" strokeWidth={2} dot />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+          <ul className="space-y-2">
+            {[...data.events].reverse().map((event) => (
+              <li key={event.id} className="flex justify-between gap-4 text-sm">
+                <span className="text-slate-700">{describe(event)}</span>
+                <span className="text-slate-500 whitespace-nowrap">{new Date(event.createdAt).toLocaleDateString()}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default PriceHistory;
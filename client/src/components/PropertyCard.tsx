@@ -1,19 +1,26 @@
 import { useState, useEffect } from "react"; // Import useEffect
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
-import type { Property } from "@shared/schema";
+import type { Property, PropertySearchResult } from "@shared/schema";
 import FavoriteButton from "./FavoriteButton";
-import { useCurrency } from "@/lib/formatters";
+import SearchSnippet from "./SearchSnippet";
+import { useAreaUnit, useCurrency } from "@/lib/formatters";
 import { Skeleton } from "@/components/ui/skeleton"; // Import Skeleton
 import { Image as ImageIcon } from 'lucide-react'; // Import an icon for fallback
 import { useLanguage } from '@/contexts/LanguageContext';
+import { imageSrcSet, imageVariant } from '@/lib/images';
 
 type PropertyCardProps = {
-  property: Property;
+  property: PropertySearchResult; // Search results also show the matching part of the description
   onOpenModal?: (property: Property) => void;
+  imageSizes?: string; // `sizes` attribute for choosing between uploaded image variants
 };
 
-export default function PropertyCard({ property, onOpenModal }: PropertyCardProps) {
+export default function PropertyCard({
+  property,
+  onOpenModal,
+  imageSizes = "(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw",
+}: PropertyCardProps) {
   // Removed local isFavorite state, as FavoriteButton handles its own state via useQuery
   // const [isFavorite, setIsFavorite] = useState(false);
 
@@ -24,6 +31,7 @@ export default function PropertyCard({ property, onOpenModal }: PropertyCardProp
 
   // Use the centralized currency formatter
   const { formatPrice: formatCurrencyPrice } = useCurrency();
+  const { formatArea } = useAreaUnit();
   const { t } = useLanguage();
 
   const formatUnsplashUrl = (url: string | null | undefined): string => {
@@ -37,8 +45,9 @@ export default function PropertyCard({ property, onOpenModal }: PropertyCardProp
   };
 
   const propertyImage = property.images && property.images.length > 0
-    ? formatUnsplashUrl(property.images[0])
+    ? formatUnsplashUrl(imageVariant(property.images[0], 'medium'))
     : ""; // Use empty string if no image
+  const propertyImageSrcSet = property.images?.[0] ? imageSrcSet(property.images[0]) : undefined;
 
   const fallbackImage = "https://images.unsplash.com/photo-1560518883-ce09059eeffa?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&q=80"; // Default fallback
 
@@ -100,6 +109,8 @@ export default function PropertyCard({ property, onOpenModal }: PropertyCardProp
         )}
         <img
           src={propertyImage || fallbackImage} // Use fallback if propertyImage is empty initially
+          srcSet={propertyImageSrcSet}
+          sizes={propertyImageSrcSet ? imageSizes : undefined}
           alt={property.title}
           className={`w-full h-full object-cover transition-opacity duration-300 ${imageLoading || imageError ? 'opacity-0' : 'opacity-100'}`} // Fade in image
           onLoad={() => {
@@ -123,6 +134,11 @@ export default function PropertyCard({ property, onOpenModal }: PropertyCardProp
             {t('propertyCard.verified')}
           </span>
         )}
+        {property.previousPrice != null && property.price < property.previousPrice && (
+          <span className="absolute bottom-3 left-3 bg-red-600 text-white px-3 py-1 text-xs font-semibold rounded z-10">
+            {t('propertyCard.priceReduced')}
+          </span>
+        )}
         <div className="absolute top-3 right-3 z-10">
           <FavoriteButton
             propertyId={property.id}
@@ -149,6 +165,10 @@ export default function PropertyCard({ property, onOpenModal }: PropertyCardProp
           <span className="truncate">{property.address}, {property.city}</span>
         </p>
 
+        {property.searchSnippet && (
+          <SearchSnippet snippet={property.searchSnippet} className="text-sm text-slate-600 mb-3 line-clamp-3" />
+        )}
+
         <div className="flex justify-between text-sm text-slate-700 mb-4">
           <div className="flex items-center">
             <i className="ri-hotel-bed-line mr-1"></i>
@@ -160,7 +180,7 @@ export default function PropertyCard({ property, onOpenModal }: PropertyCardProp
           </div>
           <div className="flex items-center">
             <i className="ri-ruler-line mr-1"></i>
-            <span>{property.area} {t('propertyCard.areaUnit')}</span>
+            <span>{formatArea(property.area)}</span>
           </div>
         </div>
 
@@ -67,6 +67,7 @@ export default function PropertyCarousel({ properties, onOpenModal }: PropertyCa
               <PropertyCard 
                 property={property} 
                 onOpenModal={onOpenModal} 
+                imageSizes="(max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw" // Matches --slide-size in PropertyCarousel.css
               />
             </div>
           ))}
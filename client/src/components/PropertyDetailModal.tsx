@@ -25,7 +25,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/contexts/AuthContext";
-import { useCurrency } from "@/lib/formatters";
+import { useAreaUnit, useCurrency } from "@/lib/formatters";
 import FavoriteButton from "./FavoriteButton";
 import { useLanguage } from '@/contexts/LanguageContext';
 
@@ -69,6 +69,7 @@ export default function PropertyDetailModal({ property, isOpen, onClose }: Prope
   const queryClient = useQueryClient();
   // Use the centralized currency formatter
   const { formatPrice: formatCurrencyPrice } = useCurrency();
+  const { formatArea } = useAreaUnit();
   // Get user from auth context
   const { user } = useAuth();
   const { t } = useLanguage();
@@ -294,7 +295,7 @@ export default function PropertyDetailModal({ property, isOpen, onClose }: Prope
               <div className="grid grid-cols-3 gap-4 mb-6">
                 <div className="bg-slate-100 p-3 rounded-lg">
                   <p className="text-sm text-slate-500">{t('propertyDetailModal.area')}</p>
-                  <p className="font-semibold">{property.area} {t('propertyCard.areaUnit')}</p>
+                  <p className="font-semibold">{formatArea(property.area)}</p>
                 </div>
                 <div className="bg-slate-100 p-3 rounded-lg">
                   <p className="text-sm text-slate-500">{t('propertyDetailModal.bedrooms')}</p>
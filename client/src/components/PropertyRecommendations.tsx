@@ -1,12 +1,12 @@
 import { useState } from "react";
 import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Property } from "@shared/schema";
+import type { RecommendationReason, RecommendedProperty } from "@shared/schema";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { useLanguage } from '@/contexts/LanguageContext';
-import { useCurrency } from '@/lib/formatters';
+import { useAreaUnit, useCurrency } from '@/lib/formatters';
 
 interface PropertyRecommendationsProps {
   propertyId: number;
@@ -14,10 +14,11 @@ interface PropertyRecommendationsProps {
 }
 
 export default function PropertyRecommendations({ propertyId, limit = 4 }: PropertyRecommendationsProps) {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const { formatPrice: formatCurrencyPrice } = useCurrency();
+  const { formatArea } = useAreaUnit();
 
-  const { data: recommendations, isLoading, error } = useQuery<Property[]>({
+  const { data: recommendations, isLoading, error } = useQuery<RecommendedProperty[]>({
     queryKey: [`/properties/${propertyId}/recommendations`, { limit }],
     enabled: !!propertyId,
   });
@@ -30,6 +31,23 @@ export default function PropertyRecommendations({ propertyId, limit = 4 }: Prope
     return formattedPrice;
   };
 
+  // The two strongest reasons as one phrase: "Similar price, 1.2 km away"
+  const describeReasons = (reasons: RecommendationReason[]) => {
+    const phrase = reasons.slice(0, 2).map((reason) => {
+      switch (reason.kind) {
+        case 'distance':
+          return t('propertyRecommendations.reasons.distance', { km: reason.km.toLocaleString(language) });
+        case 'features':
+          return t('propertyRecommendations.reasons.features', { count: reason.shared });
+        case 'coFavorites':
+          return t('propertyRecommendations.reasons.coFavorites', { count: reason.users });
+        default:
+          return t(`propertyRecommendations.reasons.${reason.kind}`);
+      }
+    }).join(', ');
+    return phrase.charAt(0).toUpperCase() + phrase.slice(1);
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-4">
@@ -92,9 +110,15 @@ export default function PropertyRecommendations({ propertyId, limit = 4 }: Prope
                     <i className="ri-hotel-bed-line mr-1"></i> {t('propertyCard.beds', { count: property.bedrooms })}
                   </span>
                   <span className="flex items-center">
-                    <i className="ri-home-8-line mr-1"></i> {property.area} {t('propertyCard.areaUnit')}
+                    <i className="ri-home-8-line mr-1"></i> {formatArea(property.area)}
                   </span>
                 </div>
+                {property.reasons.length > 0 && (
+                  <p className="text-xs text-primary-700 mt-2 line-clamp-1">
+                    <i className="ri-sparkling-line mr-1"></i>
+                    {describeReasons(property.reasons)}
+                  </p>
+                )}
               </CardContent>
             </Card>
         </Link>
@@ -0,0 +1,45 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import type { Valuation } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useLanguage } from '@/contexts/LanguageContext';
+import ValuationResult from '@/components/ValuationResult';
+
+interface PropertyValuationProps {
+  propertyId: number;
+  city: string;
+  className?: string;
+}
+
+/**
+ * Estimated value of a listing against its asking price, from GET /api/properties/:id/valuation.
+ */
+export const PropertyValuation: React.FC<PropertyValuationProps> = ({ propertyId, city, className }) => {
+  const { t } = useLanguage();
+  const { data, isLoading, error } = useQuery<Valuation>({
+    queryKey: ['/properties', propertyId, 'valuation'],
+    queryFn: () => apiRequest('GET', `/properties/${propertyId}/valuation`),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return null;
+  }
+
+  return (
+    <section className={className}>
+      <h2 className="text-xl font-semibold mb-4">{t('valuation.title')}</h2>
+      <ValuationResult valuation={data} city={city} />
+    </section>
+  );
+};
+
+export default PropertyValuation;
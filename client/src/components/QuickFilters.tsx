@@ -51,6 +51,7 @@ interface FiltersState {
   transactionType?: string;
   furnishingDetails?: string | string[];
   heatingAvailable?: boolean;
+  priceDropped?: boolean;
   sortBy?: string;
   sortDir?: 'asc' | 'desc';
   [key: string]: any; // Allow other potential keys
@@ -116,7 +117,7 @@ export default function QuickFilters({
     for (const key in initialFilters) {
       const value = initialFilters[key];
       // --- Use isTruthy for boolean conversion ---
-      if (['onlyWithPhotos', 'onlyWithVideos', 'verified', 'featured', 'heatingAvailable'].includes(key)) {
+      if (['onlyWithPhotos', 'onlyWithVideos', 'verified', 'featured', 'heatingAvailable', 'priceDropped', 'petsAllowed', 'smokingAllowed'].includes(key)) {
         initial[key] = isTruthy(value); // Correct boolean check
       } else if (['bedrooms', 'bathrooms', 'minPrice', 'maxPrice', 'minArea', 'maxArea'].includes(key)) {
         const numVal = key.includes('Price') || key.includes('Area') ? safeParseFloat(value) : safeParseInt(value);
@@ -139,7 +140,7 @@ export default function QuickFilters({
      for (const key in initialFilters) {
       const value = initialFilters[key];
       // --- Use isTruthy for boolean conversion ---
-      if (['onlyWithPhotos', 'onlyWithVideos', 'verified', 'featured', 'heatingAvailable'].includes(key)) {
+      if (['onlyWithPhotos', 'onlyWithVideos', 'verified', 'featured', 'heatingAvailable', 'priceDropped', 'petsAllowed', 'smokingAllowed'].includes(key)) {
         updatedFilters[key] = isTruthy(value); // Correct boolean check
       } else if (['bedrooms', 'bathrooms', 'minPrice', 'maxPrice', 'minArea', 'maxArea'].includes(key)) {
         const numVal = key.includes('Price') || key.includes('Area') ? safeParseFloat(value) : safeParseInt(value);
@@ -196,7 +197,7 @@ export default function QuickFilters({
         finalFilters[key] = value;
 
         // --- Ensure correct types one last time (optional, but safe) ---
-        if (['onlyWithPhotos', 'onlyWithVideos', 'verified', 'featured', 'heatingAvailable'].includes(key)) {
+        if (['onlyWithPhotos', 'onlyWithVideos', 'verified', 'featured', 'heatingAvailable', 'priceDropped', 'petsAllowed', 'smokingAllowed'].includes(key)) {
             finalFilters[key] = value === true;
         } else if (['bedrooms', 'bathrooms', 'minPrice', 'maxPrice', 'minArea', 'maxArea'].includes(key)) {
             const numVal = key.includes('Price') || key.includes('Area') ? safeParseFloat(value) : safeParseInt(value);
@@ -261,7 +262,9 @@ export default function QuickFilters({
                'propertyType', 'minArea', 'maxArea', 'minPrice', 'maxPrice',
                'ownership', 'postedBy', 'facingDirection', 'onlyWithPhotos',
                'onlyWithVideos', 'verified', 'amenities', 'furnishingDetails',
-               'heatingAvailable', 'transactionType', 'status'
+               'heatingAvailable', 'transactionType', 'status', 'priceDropped',
+               'maxMaintenanceCharge', 'maxLoanShare', 'minEnergyClass', 'minBuildYear', 'plotOwnership',
+               'maxDeposit', 'availableBy', 'maxLeaseMonths', 'petsAllowed', 'smokingAllowed'
            ];
            advancedFilterKeys.forEach(key => {
                delete newState[key];
@@ -286,7 +289,7 @@ export default function QuickFilters({
                if (key === 'facing') targetKey = 'facingDirection';
 
                // --- Type Conversions ---
-               if (['onlyWithPhotos', 'onlyWithVideos', 'verified', 'featured', 'heatingAvailable'].includes(targetKey)) {
+               if (['onlyWithPhotos', 'onlyWithVideos', 'verified', 'featured', 'heatingAvailable', 'priceDropped', 'petsAllowed', 'smokingAllowed'].includes(targetKey)) {
                   processedValue = isTruthy(value); // Use isTruthy here too
                } else if (['bedrooms', 'bathrooms', 'minPrice', 'maxPrice', 'minArea', 'maxArea'].includes(targetKey)) {
                   const numVal = targetKey.includes('Price') || targetKey.includes('Area') ? safeParseFloat(value) : safeParseInt(value);
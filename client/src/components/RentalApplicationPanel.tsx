@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { FileText, Loader2 } from 'lucide-react';
+import { INCOME_RANGES } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { applicationStatusClasses, isOpenApplication, type RentalApplicationView } from '@/lib/rentalApplications';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface RentalApplicationPanelProps {
+  propertyId: number;
+  ownerId: number;
+  listingStatus: string;
+  className?: string;
+}
+
+const emptyApplication = { householdSize: '1', incomeRange: '', moveInDate: '', pets: false, message: '' };
+
+/**
+ * Rental application of a rent or pg listing. Prospective tenants apply or follow and
+ * withdraw their application here; the landlord is pointed to the applications they received.
+ */
+export const RentalApplicationPanel: React.FC<RentalApplicationPanelProps> = ({ propertyId, ownerId, listingStatus, className }) => {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(emptyApplication);
+  const isOwner = !!user && user.id === ownerId;
+
+  const { data: mine, isLoading } = useQuery<{ applications: RentalApplicationView[] }>({
+    queryKey: ['/rental-applications/mine'],
+    queryFn: () => apiRequest('GET', '/rental-applications/mine'),
+    enabled: !!user && !isOwner,
+  });
+
+  const { data: received } = useQuery<{ applications: RentalApplicationView[] }>({
+    queryKey: ['/rental-applications/received', propertyId],
+    queryFn: () => apiRequest('GET', `/rental-applications/received?propertyId=${propertyId}`),
+    enabled: isOwner,
+  });
+
+  const onError = (error: Error) => toast({ title: t('rentalApplications.failed'), description: error.message, variant: 'destructive' });
+
+  const applyMutation = useMutation<unknown, Error, typeof emptyApplication>({
+    mutationFn: (application) => apiRequest('POST', `/rental-applications/property/${propertyId}`, {
+      ...application,
+      householdSize: Number(application.householdSize),
+    }),
+    onSuccess: () => {
+      toast({ title: t('rentalApplications.submitted'), description: t('rentalApplications.submittedDescription') });
+      setOpen(false);
+      setForm(emptyApplication);
+      queryClient.invalidateQueries({ queryKey: ['/rental-applications/mine'] });
+    },
+    onError,
+  });
+
+  const withdrawMutation = useMutation<unknown, Error, number>({
+    mutationFn: (applicationId) => apiRequest('DELETE', `/rental-applications/${applicationId}`),
+    onSuccess: () => {
+      toast({ title: t('rentalApplications.withdrawn') });
+      queryClient.invalidateQueries({ queryKey: ['/rental-applications/mine'] });
+    },
+    onError,
+  });
+
+  if (isOwner) {
+    const openCount = received?.applications.filter(isOpenApplication).length ?? 0;
+    return (
+      <section className={className}>
+        <h2 className="text-xl font-semibold mb-4">{t('rentalApplications.title')}</h2>
+        <p className="text-slate-600">
+          {t('rentalApplications.openCount', { count: openCount })}{' '}
+          <Link href="/my-properties" className="text-primary-600 hover:underline">{t('rentalApplications.review')}</Link>
+        </p>
+      </section>
+    );
+  }
+
+  const application = mine?.applications.find((item) => item.propertyId === propertyId && item.status !== 'withdrawn');
+
+  return (
+    <section className={className}>
+      <h2 className="text-xl font-semibold mb-4">{t('rentalApplications.title')}</h2>
+      {isLoading ? (
+        <div className="flex justify-center items-center h-20">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : application ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border bg-white p-4">
+          <div className="space-y-1">
+            <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${applicationStatusClasses[application.status]}`}>
+              {t(`rentalApplications.status.${application.status}`)}
+            </span>
+            <p className="text-sm text-slate-500">
+              {t('rentalApplications.appliedOn', { date: new Date(application.createdAt).toLocaleDateString() })}
+            </p>
+          </div>
+          {isOpenApplication(application) && (
+            <Button variant="outline" size="sm" disabled={withdrawMutation.isPending} onClick={() => withdrawMutation.mutate(application.id)}>
+              {t('rentalApplications.withdraw')}
+            </Button>
+          )}
+        </div>
+      ) : listingStatus !== 'active' ? (
+        <p className="text-slate-500">{t('rentalApplications.unavailable')}</p>
+      ) : !user ? (
+        <Link href={`/signin?redirect=/property/${propertyId}`} className="text-primary-600 hover:underline">
+          {t('rentalApplications.signInToApply')}
+        </Link>
+      ) : (
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <FileText className="mr-2 h-4 w-4" /> {t('rentalApplications.apply')}
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[520px]">
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                applyMutation.mutate(form);
+              }}
+            >
+              <DialogHeader>
+                <DialogTitle>{t('rentalApplications.apply')}</DialogTitle>
+                <DialogDescription>{t('rentalApplications.description')}</DialogDescription>
+              </DialogHeader>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="application-household">{t('rentalApplications.householdSize')}</Label>
+                  <Input id="application-household" type="number" min={1} max={20} required value={form.householdSize} onChange={(e) => setForm({ ...form, householdSize: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="application-move-in">{t('rentalApplications.moveInDate')}</Label>
+                  <Input id="application-move-in" type="date" required value={form.moveInDate} onChange={(e) => setForm({ ...form, moveInDate: e.target.value })} />
+                </div>
+                <div className="col-span-2">
+                  <Label>{t('rentalApplications.incomeRange')}</Label>
+                  <Select value={form.incomeRange} onValueChange={(incomeRange) => setForm({ ...form, incomeRange })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={t('rentalApplications.selectIncome')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INCOME_RANGES.map((range) => (
+                        <SelectItem key={range} value={range}>{t(`rentalApplications.income.${range}`)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2 flex items-center space-x-2">
+                  <Checkbox id="application-pets" checked={form.pets} onCheckedChange={(checked) => setForm({ ...form, pets: checked === true })} />
+                  <Label htmlFor="application-pets">{t('rentalApplications.pets')}</Label>
+                </div>
+                <div className="col-span-2">
+                  <Label htmlFor="application-message">{t('rentalApplications.message')}</Label>
+                  <Textarea id="application-message" maxLength={2000} rows={4} placeholder={t('rentalApplications.messagePlaceholder')} value={form.message} onChange={(e) => setForm({ ...form, message: e.target.value })} />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={applyMutation.isPending || !form.incomeRange}>
+                  {applyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t('rentalApplications.send')}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      )}
+    </section>
+  );
+};
+
+export default RentalApplicationPanel;
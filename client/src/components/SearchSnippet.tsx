@@ -0,0 +1,23 @@
+import React from 'react';
+
+interface SearchSnippetProps {
+  // Excerpt from the search API with matched words wrapped in <mark>
+  snippet: string;
+  className?: string;
+}
+
+/**
+ * A search result excerpt with the matched words highlighted. The excerpt is user-written text, so
+ * only the <mark> pairs become elements; everything else renders as plain text.
+ */
+export const SearchSnippet: React.FC<SearchSnippetProps> = ({ snippet, className }) => (
+  <p className={className}>
+    {snippet.split(/<mark>([\s\S]*?)<\/mark>/).map((part, index) =>
+      index % 2 === 1
+        ? <mark key={index} className="bg-amber-100 text-inherit rounded-sm px-0.5">{part}</mark>
+        : <React.Fragment key={index}>{part}</React.Fragment>
+    )}
+  </p>
+);
+
+export default SearchSnippet;
@@ -10,52 +10,22 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu';
-import { getCurrentUser, isAdmin as checkIsAdmin, logout } from '@/lib/authHelpers';
+import { useAuth } from '@/contexts/AuthContext';
 
 export function UserProfileButton() {
-  // Simplified approach: directly use helpers without context
-  const [currentUser, setCurrentUser] = useState<any>(getCurrentUser());
-  const [loading, setLoading] = useState(false);
-  
-  useEffect(() => {
-    // Function to update user data from localStorage
-    const updateUserData = () => {
-      const user = getCurrentUser();
-      setCurrentUser(user);
-      
-      if (user) {
-        console.log("UserProfileButton: User found:", user.name || user.email || "User");
-      } else {
-        console.log("UserProfileButton: No user found");
-      }
-    };
-    
-    // Initial update
-    updateUserData();
-    
-    // Set up listeners for auth state changes
-    const handleAuthChange = () => updateUserData();
-    
-    window.addEventListener('storage', handleAuthChange);
-    
-    return () => {
-      window.removeEventListener('storage', handleAuthChange);
-    };
-  }, []); // No dependencies
+  // User state comes from the server-verified session in AuthContext
+  const { user: currentUser, isLoading: loading, logout } = useAuth();
   
   // Simple logout function
   const logOut = async () => {
-    try {
-      logout();
-      return Promise.resolve();
-    } catch (error) {
-      console.error("Error during logout:", error);
-      return Promise.reject(error);
+    const success = await logout();
+    if (!success) {
+      throw new Error("Logout failed");
     }
   };
   
   // Function to check admin status
-  const isAdmin = () => checkIsAdmin();
+  const isAdmin = () => currentUser?.role === 'admin';
 
   const [open, setOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -88,8 +58,7 @@ export function UserProfileButton() {
   const getUserInitials = () => {
     if (!currentUser) return 'U';
     
-    // Handle both AuthUser format and Firebase format
-    const displayName = currentUser.name || currentUser.displayName;
+    const displayName = currentUser.name;
     if (!displayName) return 'U';
     
     const nameParts = displayName.split(' ');
@@ -121,7 +90,7 @@ export function UserProfileButton() {
               {currentUser.photoURL ? (
                 <AvatarImage 
                   src={currentUser.photoURL} 
-                  alt={(currentUser.name || currentUser.displayName || 'User')} 
+                  alt={currentUser.name || 'User'} 
                 />
               ) : (
                 <AvatarFallback className="bg-primary-100 text-primary-600">
@@ -134,7 +103,7 @@ export function UserProfileButton() {
         <DropdownMenuContent className="w-56" align="end" forceMount>
           <DropdownMenuLabel className="font-normal">
             <div className="flex flex-col space-y-1">
-              <p className="text-sm font-medium leading-none">{currentUser.name || currentUser.displayName || 'User'}</p>
+              <p className="text-sm font-medium leading-none">{currentUser.name || 'User'}</p>
               <p className="text-xs leading-none text-muted-foreground text-slate-500 truncate">
                 {currentUser.email}
               </p>
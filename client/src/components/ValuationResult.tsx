@@ -0,0 +1,111 @@
+import React from 'react';
+import { Link } from 'wouter';
+import type { Valuation, ValuationConfidence } from '@shared/schema';
+import { Badge } from '@/components/ui/badge';
+import { useAreaUnit, useCurrency } from '@/lib/formatters';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface ValuationResultProps {
+  valuation: Valuation;
+  // City of the home, named when the estimate falls back to the city median
+  city: string;
+}
+
+const confidenceClasses: Record<ValuationConfidence, string> = {
+  high: 'bg-green-100 text-green-800 hover:bg-green-100',
+  medium: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+  low: 'bg-slate-200 text-slate-700 hover:bg-slate-200',
+};
+
+// Within this many percent of the estimate the asking price is called in line with it
+const IN_LINE_PERCENT = 3;
+
+/**
+ * An estimated value range with its confidence and the comparable listings behind it, or a note
+ * that there are too few comparables. Shared by the listing page and the "estimate my home" page.
+ */
+export const ValuationResult: React.FC<ValuationResultProps> = ({ valuation, city }) => {
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+  const { label, formatArea, toSquareMetres } = useAreaUnit();
+  const perArea = (pricePerSqm: number) =>
+    t('valuation.perArea', { price: formatPrice(Math.round(pricePerSqm * toSquareMetres(1))), unit: label });
+
+  const { estimate, confidence } = valuation;
+
+  const asking = () => {
+    const percent = valuation.differencePercent;
+    if (percent === undefined) return null;
+    if (Math.abs(percent) < IN_LINE_PERCENT) return t('valuation.askingInLine');
+    return t(percent > 0 ? 'valuation.askingAbove' : 'valuation.askingBelow', { percent: Math.abs(percent) });
+  };
+
+  return (
+    <div className="space-y-4">
+      {estimate && confidence ? (
+        <div>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-2xl font-bold text-primary-600">{formatPrice(estimate.value)}</span>
+            <Badge className={confidenceClasses[confidence]}>{t(`valuation.confidence.${confidence}`)}</Badge>
+          </div>
+          <p className="text-slate-600 mt-1">
+            {t('valuation.range', { low: formatPrice(estimate.low), high: formatPrice(estimate.high) })}
+            {' · '}{perArea(estimate.pricePerSqm)}
+          </p>
+          {asking() && <p className="font-medium mt-1">{asking()}</p>}
+          <p className="text-sm text-slate-500 mt-2">
+            {valuation.basis === 'city'
+              ? t('valuation.basisCity', { city })
+              : t('valuation.basisNearby', { count: valuation.comparableCount })}
+          </p>
+        </div>
+      ) : (
+        <p className="text-slate-600">{t('valuation.insufficient', { count: valuation.comparableCount })}</p>
+      )}
+
+      {valuation.comparables.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-2">{t('valuation.comparablesTitle')}</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="font-normal pr-4 pb-1">{t('valuation.columns.listing')}</th>
+                  <th className="font-normal pr-4 pb-1">{t('valuation.columns.price')}</th>
+                  <th className="font-normal pr-4 pb-1">{t('valuation.columns.area')}</th>
+                  <th className="font-normal pr-4 pb-1 hidden sm:table-cell">{t('valuation.columns.perArea')}</th>
+                  <th className="font-normal pr-4 pb-1 hidden sm:table-cell">{t('valuation.columns.distance')}</th>
+                  <th className="font-normal pb-1 hidden md:table-cell">{t('valuation.columns.weight')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {valuation.comparables.map((comparable) => (
+                  <tr key={comparable.id} className="border-t align-top">
+                    <td className="py-1 pr-4">
+                      <Link href={`/property/${comparable.id}`} className="hover:underline">{comparable.title}</Link>
+                      <div className="text-xs text-slate-500">
+                        {comparable.address}, {comparable.city} · {t(`valuation.status.${comparable.status}`)}
+                        {comparable.buildYear ? ` · ${comparable.buildYear}` : ''}
+                      </div>
+                    </td>
+                    <td className="py-1 pr-4 whitespace-nowrap">{formatPrice(comparable.price)}</td>
+                    <td className="py-1 pr-4 whitespace-nowrap">{formatArea(comparable.area)}</td>
+                    <td className="py-1 pr-4 whitespace-nowrap hidden sm:table-cell">{perArea(comparable.pricePerSqm)}</td>
+                    <td className="py-1 pr-4 whitespace-nowrap hidden sm:table-cell">
+                      {comparable.distanceKm !== null ? t('valuation.distanceKm', { km: comparable.distanceKm }) : '—'}
+                    </td>
+                    <td className="py-1 whitespace-nowrap hidden md:table-cell">{Math.round(comparable.weight * 100)} %</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500">{t('valuation.disclaimer')}</p>
+    </div>
+  );
+};
+
+export default ValuationResult;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { CalendarClock, Loader2, Trash2, Users } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { formatViewingTime, type ViewingSlotView } from '@/lib/viewings';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface ViewingSlotsProps {
+  propertyId: number;
+  ownerId: number;
+  className?: string;
+}
+
+const emptySlot = { date: '', start: '', end: '', type: 'private', capacity: '1', notes: '' };
+
+/**
+ * Upcoming viewings of a listing. Buyers book and cancel a place here;
+ * the owner adds and removes slots and sees how full they are.
+ */
+export const ViewingSlots: React.FC<ViewingSlotsProps> = ({ propertyId, ownerId, className }) => {
+  const { t, language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newSlot, setNewSlot] = useState(emptySlot);
+  const canManage = !!user && (user.id === ownerId || user.role === 'admin');
+
+  const { data, isLoading } = useQuery<{ slots: ViewingSlotView[] }>({
+    queryKey: ['/viewings/property', propertyId, user?.id],
+    queryFn: () => apiRequest('GET', `/viewings/property/${propertyId}`),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/viewings/property', propertyId] });
+    queryClient.invalidateQueries({ queryKey: ['/viewings/mine'] });
+  };
+  const onError = (error: Error) => toast({ title: t('viewings.failed'), description: error.message, variant: 'destructive' });
+
+  const bookMutation = useMutation<unknown, Error, number>({
+    mutationFn: (slotId) => apiRequest('POST', `/viewings/slots/${slotId}/book`),
+    onSuccess: () => {
+      toast({ title: t('viewings.booked'), description: t('viewings.bookedDescription') });
+      refresh();
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation<unknown, Error, number>({
+    mutationFn: (bookingId) => apiRequest('DELETE', `/viewings/bookings/${bookingId}`),
+    onSuccess: () => {
+      toast({ title: t('viewings.cancelled') });
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation<unknown, Error, number>({
+    mutationFn: (slotId) => apiRequest('DELETE', `/viewings/slots/${slotId}`),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const createMutation = useMutation<unknown, Error, typeof emptySlot>({
+    mutationFn: (slot) => apiRequest('POST', `/viewings/property/${propertyId}`, {
+      type: slot.type,
+      // Local date and time of the browser, sent as absolute times
+      startsAt: new Date(`${slot.date}T${slot.start}`).toISOString(),
+      endsAt: new Date(`${slot.date}T${slot.end}`).toISOString(),
+      capacity: Number(slot.capacity),
+      notes: slot.notes,
+    }),
+    onSuccess: () => {
+      toast({ title: t('viewings.added') });
+      setNewSlot(emptySlot);
+      refresh();
+    },
+    onError,
+  });
+
+  const isBusy = bookMutation.isPending || cancelMutation.isPending || deleteMutation.isPending;
+  const slots = data?.slots ?? [];
+
+  // Nothing to show buyers when no viewings are offered
+  if (!canManage && !isLoading && slots.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className={className}>
+      <h2 className="text-xl font-semibold mb-4">{t('viewings.title')}</h2>
+      {isLoading ? (
+        <div className="flex justify-center items-center h-20">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : slots.length === 0 ? (
+        <p className="text-slate-500">{t('viewings.empty')}</p>
+      ) : (
+        <ul className="divide-y rounded-lg border bg-white">
+          {slots.map((slot) => (
+            <li key={slot.id} className="flex flex-wrap items-center justify-between gap-3 p-4">
+              <div>
+                <p className="font-medium flex items-center gap-2">
+                  <CalendarClock className="h-4 w-4 text-primary" />
+                  {formatViewingTime(slot.startsAt, slot.endsAt, language)}
+                  {slot.type === 'open_house' && <Badge variant="secondary">{t('viewings.openHouse')}</Badge>}
+                </p>
+                {slot.notes && <p className="text-sm text-slate-500 mt-1">{slot.notes}</p>}
+                <p className="text-sm text-slate-500 mt-1 flex items-center gap-1">
+                  <Users className="h-3.5 w-3.5" />
+                  {canManage
+                    ? t('viewings.bookedCount', { booked: slot.booked, capacity: slot.capacity })
+                    : slot.remaining > 0
+                      ? t('viewings.placesLeft', { count: slot.remaining })
+                      : t('viewings.full')}
+                </p>
+              </div>
+              {canManage ? (
+                <Button variant="ghost" size="sm" disabled={isBusy} onClick={() => deleteMutation.mutate(slot.id)} aria-label={t('viewings.remove')}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              ) : slot.myBookingId ? (
+                <Button variant="outline" size="sm" disabled={isBusy} onClick={() => cancelMutation.mutate(slot.myBookingId!)}>
+                  {t('viewings.cancel')}
+                </Button>
+              ) : !user ? (
+                <Link href={`/signin?redirect=/property/${propertyId}`} className="text-sm text-primary-600 hover:underline">
+                  {t('viewings.signInToBook')}
+                </Link>
+              ) : (
+                <Button size="sm" disabled={isBusy || slot.remaining === 0} onClick={() => bookMutation.mutate(slot.id)}>
+                  {t('viewings.book')}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManage && (
+        <form
+          className="mt-4 grid grid-cols-2 md:grid-cols-6 gap-3 items-end rounded-lg border bg-white p-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate(newSlot);
+          }}
+        >
+          <div className="col-span-2">
+            <Label htmlFor="viewing-date">{t('viewings.date')}</Label>
+            <Input id="viewing-date" type="date" required value={newSlot.date} onChange={(e) => setNewSlot({ ...newSlot, date: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="viewing-start">{t('viewings.start')}</Label>
+            <Input id="viewing-start" type="time" required value={newSlot.start} onChange={(e) => setNewSlot({ ...newSlot, start: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="viewing-end">{t('viewings.end')}</Label>
+            <Input id="viewing-end" type="time" required value={newSlot.end} onChange={(e) => setNewSlot({ ...newSlot, end: e.target.value })} />
+          </div>
+          <div>
+            <Label>{t('viewings.type')}</Label>
+            <Select value={newSlot.type} onValueChange={(type) => setNewSlot({ ...newSlot, type, capacity: type === 'open_house' ? '20' : '1' })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="private">{t('viewings.private')}</SelectItem>
+                <SelectItem value="open_house">{t('viewings.openHouse')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="viewing-capacity">{t('viewings.capacity')}</Label>
+            <Input id="viewing-capacity" type="number" min={1} max={100} required value={newSlot.capacity} onChange={(e) => setNewSlot({ ...newSlot, capacity: e.target.value })} />
+          </div>
+          <div className="col-span-2 md:col-span-5">
+            <Label htmlFor="viewing-notes">{t('viewings.notes')}</Label>
+            <Input id="viewing-notes" maxLength={500} placeholder={t('viewings.notesPlaceholder')} value={newSlot.notes} onChange={(e) => setNewSlot({ ...newSlot, notes: e.target.value })} />
+          </div>
+          <Button type="submit" disabled={createMutation.isPending}>
+            {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('viewings.add')}
+          </Button>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default ViewingSlots;
@@ -0,0 +1,253 @@
+// src/components/admin/AdminDuplicates.tsx
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Check, Loader2, RefreshCw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { imageVariant } from "@/lib/images";
+import { useAreaUnit } from "@/lib/formatters";
+import { useToast } from "@/hooks/use-toast";
+
+interface PairListing {
+  id: number;
+  userId: number;
+  title: string;
+  address: string;
+  city: string;
+  postalCode: string | null;
+  price: number;
+  area: number;
+  bedrooms: number;
+  images: string[] | null;
+  moderationStatus: string;
+  createdAt: string;
+}
+
+interface DuplicatePair {
+  id: number;
+  propertyId: number;
+  duplicateId: number;
+  score: number;
+  reasons: string[];
+  status: string;
+  resolvedAt: string | null;
+  detectedAt: string;
+  property: PairListing | null;
+  duplicate: PairListing | null;
+}
+
+interface DuplicatesResponse {
+  pairs: DuplicatePair[];
+  pagination: { total: number; page: number; limit: number; totalPages: number };
+}
+
+const reasonLabels: Record<string, string> = {
+  address: "Same address",
+  coordinates: "Same location",
+  area_bedrooms: "Same size and bedrooms",
+  images: "Same photos",
+};
+
+type MergeAction = { pair: DuplicatePair; keep: PairListing; remove: PairListing } | null;
+
+/**
+ * Review screen for likely duplicate listings found at creation time and by the nightly detection.
+ * Admins merge a pair by keeping one listing, or dismiss it as not a duplicate.
+ */
+export function AdminDuplicates() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { formatArea } = useAreaUnit();
+  const [status, setStatus] = useState("open");
+  const [page, setPage] = useState(1);
+  const [mergeAction, setMergeAction] = useState<MergeAction>(null);
+
+  const { data, isLoading } = useQuery<DuplicatesResponse, Error>({
+    queryKey: ['/admin/duplicates', status, page],
+    queryFn: async () => await apiRequest<DuplicatesResponse>('GET', `/admin/duplicates?status=${status}&page=${page}`),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/admin/duplicates'] });
+    queryClient.invalidateQueries({ queryKey: ['/admin/properties'] });
+  };
+
+  const detectMutation = useMutation<{ listings: number; pairs: number }, Error>({
+    mutationFn: async () => await apiRequest('POST', '/admin/duplicates/detect'),
+    onSuccess: (result) => {
+      toast({ title: "Detection finished", description: `Checked ${result.listings} listings and found ${result.pairs} likely duplicate pairs.` });
+      refresh();
+    },
+    onError: (error) => toast({ title: "Error", description: `Detection failed: ${error.message}`, variant: "destructive" }),
+  });
+
+  const dismissMutation = useMutation<unknown, Error, number>({
+    mutationFn: async (id) => await apiRequest('PUT', `/admin/duplicates/${id}/dismiss`),
+    onSuccess: () => {
+      toast({ title: "Success", description: "Pair dismissed. It will not be reported again." });
+      refresh();
+    },
+    onError: (error) => toast({ title: "Error", description: `Failed to dismiss pair: ${error.message}`, variant: "destructive" }),
+  });
+
+  const mergeMutation = useMutation<unknown, Error, { id: number; keepId: number }>({
+    mutationFn: async ({ id, keepId }) => await apiRequest('PUT', `/admin/duplicates/${id}/merge`, { keepId }),
+    onSuccess: () => {
+      toast({ title: "Success", description: "Listings merged." });
+      refresh();
+    },
+    onError: (error) => toast({ title: "Error", description: `Failed to merge listings: ${error.message}`, variant: "destructive" }),
+    onSettled: () => setMergeAction(null),
+  });
+
+  const isBusy = dismissMutation.isPending || mergeMutation.isPending;
+
+  const renderListing = (pair: DuplicatePair, listing: PairListing | null, other: PairListing | null) => {
+    if (!listing) {
+      return <div className="flex-1 rounded-md border p-4 text-muted-foreground">Listing no longer exists</div>;
+    }
+    const cover = listing.images?.[0];
+    return (
+      <div className="flex-1 rounded-md border p-4 space-y-2">
+        {cover && <img src={imageVariant(cover, 'thumbnail')} alt="" className="w-full h-32 object-cover rounded" />}
+        <Link href={`/property/${listing.id}`} className="font-medium hover:underline block">
+          #{listing.id} {listing.title}
+        </Link>
+        <div className="text-sm text-muted-foreground">
+          {listing.address}, {listing.postalCode ? `${listing.postalCode} ` : ""}{listing.city}
+        </div>
+        <div className="text-sm">
+          {listing.price.toLocaleString()} € · {formatArea(listing.area)} · {listing.bedrooms} bedrooms
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Owner ID {listing.userId} · {listing.moderationStatus} · listed {new Date(listing.createdAt).toLocaleDateString()}
+        </div>
+        {pair.status === 'open' && other && (
+          <Button size="sm" variant="outline" disabled={isBusy} onClick={() => setMergeAction({ pair, keep: listing, remove: other })}>
+            <Check className="mr-1 h-4 w-4" /> Keep this one
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Duplicate Listings</h2>
+          <p className="text-muted-foreground">
+            Pairs that look like the same home, checked when a listing is created and every night.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={status} onValueChange={(value) => { setStatus(value); setPage(1); }}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="dismissed">Dismissed</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" disabled={detectMutation.isPending} onClick={() => detectMutation.mutate()}>
+            {detectMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Run detection now
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : data && data.pairs.length > 0 ? (
+        <div className="space-y-4">
+          {data.pairs.map((pair) => (
+            <div key={pair.id} className="rounded-lg border bg-white p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={pair.score >= 0.8 ? "destructive" : "secondary"}>{Math.round(pair.score * 100)}% match</Badge>
+                  {pair.reasons.map((reason) => (
+                    <Badge key={reason} variant="outline">{reasonLabels[reason] ?? reason}</Badge>
+                  ))}
+                </div>
+                {pair.status === 'open' ? (
+                  <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => dismissMutation.mutate(pair.id)}>
+                    <XCircle className="mr-1 h-4 w-4" /> Not duplicates
+                  </Button>
+                ) : (
+                  <span className="text-sm text-muted-foreground">
+                    Dismissed {pair.resolvedAt ? new Date(pair.resolvedAt).toLocaleDateString() : ""}
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-col md:flex-row gap-4">
+                {renderListing(pair, pair.property, pair.duplicate)}
+                {renderListing(pair, pair.duplicate, pair.property)}
+              </div>
+            </div>
+          ))}
+
+          {data.pagination.totalPages > 1 && (
+            <div className="flex justify-center items-center gap-4">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>Previous</Button>
+              <span className="text-sm">Page {page} of {data.pagination.totalPages}</span>
+              <Button variant="outline" size="sm" disabled={page >= data.pagination.totalPages} onClick={() => setPage(page + 1)}>Next</Button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-10 border border-dashed rounded-lg text-muted-foreground">
+          {status === 'open' ? "No likely duplicates to review." : "No dismissed pairs."}
+        </div>
+      )}
+
+      <AlertDialog open={!!mergeAction} onOpenChange={(open) => !open && setMergeAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge these listings?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{mergeAction?.keep.title}" (#{mergeAction?.keep.id}) is kept. "{mergeAction?.remove.title}" (#{mergeAction?.remove.id}) is
+              deleted, and its favorites and messages move to the kept listing. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isBusy}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isBusy}
+              className="bg-red-600 hover:bg-red-700"
+              onClick={(e) => {
+                e.preventDefault();
+                if (mergeAction) {
+                  mergeMutation.mutate({ id: mergeAction.pair.id, keepId: mergeAction.keep.id });
+                }
+              }}
+            >
+              {mergeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Merge"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+// src/components/admin/AdminGeocoding.tsx
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Database, Loader2, LocateFixed } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface UnresolvedListing {
+  id: number;
+  title: string;
+  address: string;
+  postalCode: string | null;
+  city: string;
+  moderationStatus: string;
+}
+
+interface GeocodingStatus {
+  provider: string;
+  datasetFile: string | null;
+  addresses: number;
+  postalCodes: number;
+  unresolved: { listings: UnresolvedListing[]; total: number };
+}
+
+interface BackfillReport {
+  checked: number;
+  resolved: number;
+  byPrecision: { address: number; street: number; postal_code: number };
+  unresolved: UnresolvedListing[];
+}
+
+/**
+ * Status of the offline geocoder: the imported address dataset and the listings it could not
+ * place on the map. Admins reload the dataset and run the backfill from here.
+ */
+export function AdminGeocoding() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [report, setReport] = useState<BackfillReport | null>(null);
+
+  const { data, isLoading } = useQuery<GeocodingStatus, Error>({
+    queryKey: ['/admin/geocoding'],
+    queryFn: async () => await apiRequest<GeocodingStatus>('GET', '/admin/geocoding'),
+  });
+
+  const reloadMutation = useMutation<{ places: number; skipped: number }, Error>({
+    mutationFn: async () => await apiRequest('POST', '/admin/geocoding/dataset'),
+    onSuccess: (result) => {
+      toast({ title: "Dataset loaded", description: `Loaded ${result.places} places, skipped ${result.skipped} invalid rows.` });
+      queryClient.invalidateQueries({ queryKey: ['/admin/geocoding'] });
+    },
+    onError: (error) => toast({ title: "Error", description: `Failed to load dataset: ${error.message}`, variant: "destructive" }),
+  });
+
+  const backfillMutation = useMutation<BackfillReport, Error>({
+    mutationFn: async () => await apiRequest('POST', '/admin/geocoding/backfill'),
+    onSuccess: (result) => {
+      setReport(result);
+      queryClient.invalidateQueries({ queryKey: ['/admin/geocoding'] });
+      queryClient.invalidateQueries({ queryKey: ['/admin/properties'] });
+    },
+    onError: (error) => toast({ title: "Error", description: `Backfill failed: ${error.message}`, variant: "destructive" }),
+  });
+
+  // The report of the last run shows every unresolved listing; otherwise the first page from the status
+  const unresolved = report?.unresolved ?? data?.unresolved.listings ?? [];
+  const unresolvedTotal = report?.unresolved.length ?? data?.unresolved.total ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Geocoding</h2>
+          <p className="text-muted-foreground">
+            Coordinates for listings are looked up from their address when they are saved, and every night for listings still missing them.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" disabled={reloadMutation.isPending || !data?.datasetFile} onClick={() => reloadMutation.mutate()}>
+            {reloadMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Database className="mr-2 h-4 w-4" />}
+            Reload dataset
+          </Button>
+          <Button disabled={backfillMutation.isPending} onClick={() => backfillMutation.mutate()}>
+            {backfillMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LocateFixed className="mr-2 h-4 w-4" />}
+            Run backfill now
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : data && (
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="rounded-lg border bg-white p-4">
+            <div className="text-sm text-muted-foreground">Provider</div>
+            <div className="text-lg font-semibold">{data.provider}</div>
+            <div className="text-xs text-muted-foreground break-all">{data.datasetFile ?? "GEOCODING_DATASET is not set"}</div>
+          </div>
+          <div className="rounded-lg border bg-white p-4">
+            <div className="text-sm text-muted-foreground">Dataset</div>
+            <div className="text-lg font-semibold">{data.addresses.toLocaleString()} addresses</div>
+            <div className="text-xs text-muted-foreground">{data.postalCodes.toLocaleString()} postal code areas</div>
+          </div>
+          <div className="rounded-lg border bg-white p-4">
+            <div className="text-sm text-muted-foreground">Listings without coordinates</div>
+            <div className="text-lg font-semibold">{data.unresolved.total.toLocaleString()}</div>
+            <div className="text-xs text-muted-foreground">Not shown on the map</div>
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="rounded-lg border bg-white p-4 text-sm">
+          Checked {report.checked} listings and located {report.resolved}: {report.byPrecision.address} by exact address,{" "}
+          {report.byPrecision.street} by street and {report.byPrecision.postal_code} by postal code area.{" "}
+          {report.unresolved.length} could not be located.
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Unresolved addresses ({unresolvedTotal})</h3>
+        <p className="text-sm text-muted-foreground">
+          Fix the address of these listings, enter their coordinates, or add the addresses to the dataset.
+        </p>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Postal code</TableHead>
+                <TableHead>City</TableHead>
+                <TableHead className="hidden md:table-cell">Moderation</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {unresolved.map((listing) => (
+                <TableRow key={listing.id}>
+                  <TableCell className="font-medium">{listing.id}</TableCell>
+                  <TableCell>
+                    <Link href={`/property/${listing.id}`} className="hover:underline">{listing.title}</Link>
+                  </TableCell>
+                  <TableCell>{listing.address}</TableCell>
+                  <TableCell>{listing.postalCode ?? "—"}</TableCell>
+                  <TableCell>{listing.city}</TableCell>
+                  <TableCell className="hidden md:table-cell">{listing.moderationStatus}</TableCell>
+                </TableRow>
+              ))}
+              {unresolved.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                    Every listing has coordinates.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 // src/components/admin/AdminProperties.tsx
 import React, { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Loader2, Search, Edit, Trash2, CheckCircle, Star, X, Plus } from "lucide-react";
+import { Loader2, Search, Edit, Trash2, CheckCircle, Star, X, Plus, ThumbsUp, ThumbsDown, History } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -47,8 +55,10 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { apiRequest } from "@/lib/queryClient"; // Import apiRequest
 import { PropertyForm } from "@/components/admin/PropertyForm";
+import { PropertyRevisions } from "@/components/admin/PropertyRevisions";
 import { useToast } from "@/hooks/use-toast"; // Import useToast
 import { useSiteSettings } from "@/contexts/SiteSettingsContext";
 
@@ -62,6 +72,8 @@ interface PropertyData {
   status: string;
   featured: boolean;
   verified: boolean;
+  moderationStatus: string;
+  rejectionReason: string | null;
   createdAt: string;
 }
 
@@ -88,6 +100,11 @@ export function AdminProperties() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingPropertyId, setEditingPropertyId] = useState<number | null>(null);
+  const [moderationFilter, setModerationFilter] = useState("all");
+  const [rejectingProperty, setRejectingProperty] = useState<PropertyData | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [tab, setTab] = useState("listings");
+  const [historyPropertyId, setHistoryPropertyId] = useState<number | null>(null);
 
   useEffect(() => {
     const handler = setTimeout(() => {
@@ -105,7 +122,7 @@ export function AdminProperties() {
 
   // Get properties with pagination using apiRequest
   const { data, isLoading, isError, error, isFetching } = useQuery<PropertiesResponse, Error>({
-    queryKey: ['/admin/properties', page, limit, debouncedSearchQuery], // Use debounced value
+    queryKey: ['/admin/properties', page, limit, debouncedSearchQuery, moderationFilter], // Use debounced value
     queryFn: async () => {
       const queryParams = new URLSearchParams({
         page: page.toString(),
@@ -115,11 +132,37 @@ export function AdminProperties() {
       if (debouncedSearchQuery) {
         queryParams.append('search', debouncedSearchQuery);
       }
+      queryParams.append('moderationStatus', moderationFilter);
       return await apiRequest<PropertiesResponse>('GET', `/admin/properties?${queryParams.toString()}`);
     },
     keepPreviousData: true,
   });
 
+  // Size of the review queue, shown on the queue button
+  const { data: pendingData } = useQuery<PropertiesResponse, Error>({
+    queryKey: ['/admin/properties', 'pending-count'],
+    queryFn: async () => await apiRequest<PropertiesResponse>('GET', '/admin/properties?moderationStatus=pending&limit=1'),
+  });
+  const pendingCount = pendingData?.pagination.total ?? 0;
+
+  // Approve/reject mutations for the review queue
+  const moderatePropertyMutation = useMutation<unknown, Error, { id: number; approve: boolean; reason?: string }>({
+    mutationFn: async (payload) => {
+      return payload.approve
+        ? await apiRequest('PUT', `/admin/properties/${payload.id}/approve`)
+        : await apiRequest('PUT', `/admin/properties/${payload.id}/reject`, { reason: payload.reason });
+    },
+    onSuccess: (_, variables) => {
+      toast({ title: "Success", description: `Property ${variables.approve ? 'published' : 'rejected'}. The owner has been notified.` });
+      setRejectingProperty(null);
+      setRejectionReason("");
+      queryClient.invalidateQueries({ queryKey: ['/admin/properties'] });
+    },
+    onError: (error, variables) => {
+      toast({ title: "Error", description: `Failed to ${variables.approve ? 'approve' : 'reject'} property: ${error.message}`, variant: "destructive" });
+    },
+  });
+
   // Delete property mutation using apiRequest
   const deletePropertyMutation = useMutation<unknown, Error, number>({
     mutationFn: async (id: number) => {
@@ -181,6 +224,11 @@ export function AdminProperties() {
     }
   };
 
+  const handleShowHistory = (propertyId: number) => {
+    setHistoryPropertyId(propertyId);
+    setTab("history");
+  };
+
   const handleOpenEditDialog = (propertyId: number) => {
     setEditingPropertyId(propertyId);
     setIsEditDialogOpen(true);
@@ -239,205 +287,306 @@ export function AdminProperties() {
         </Dialog>
       </div>
 
-      {/* Search and filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <form className="flex-1" onSubmit={(e) => e.preventDefault()}> {/* Prevent default form submission */}
-          <div className="relative">
-            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
-            <Input
-              type="search"
-              placeholder="Search properties by title, city..."
-              className="pl-8"
-              value={searchInput} // Bind to the immediate input state
-              onChange={(e) => setSearchInput(e.target.value)} // Update the immediate input state
-            />
+      <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="listings">Listings</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="history">
+          <PropertyRevisions key={historyPropertyId ?? "all"} propertyId={historyPropertyId} onClearProperty={() => setHistoryPropertyId(null)} />
+        </TabsContent>
+
+        <TabsContent value="listings" className="space-y-6">
+          {/* Search and filters */}
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Button
+              variant={moderationFilter === "pending" ? "default" : "outline"}
+              onClick={() => { setModerationFilter(moderationFilter === "pending" ? "all" : "pending"); setPage(1); }}
+            >
+              Review queue ({pendingCount})
+            </Button>
+            <Select value={moderationFilter} onValueChange={(value) => { setModerationFilter(value); setPage(1); }}>
+              <SelectTrigger className="sm:w-48">
+                <SelectValue placeholder="Moderation status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All listings</SelectItem>
+                <SelectItem value="pending">Pending review</SelectItem>
+                <SelectItem value="published">Published</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="draft">Drafts</SelectItem>
+              </SelectContent>
+            </Select>
+            <form className="flex-1" onSubmit={(e) => e.preventDefault()}> {/* Prevent default form submission */}
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
+                <Input
+                  type="search"
+                  placeholder="Search properties by title, city..."
+                  className="pl-8"
+                  value={searchInput} // Bind to the immediate input state
+                  onChange={(e) => setSearchInput(e.target.value)} // Update the immediate input state
+                />
+              </div>
+            </form>
           </div>
-        </form>
-      </div>
 
-      {/* Properties table */}
-      <div className="rounded-md border">
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead>ID</TableHead>
-              <TableHead>Title</TableHead>
-              <TableHead>Price</TableHead>
-              <TableHead>Type</TableHead>
-              <TableHead className="hidden md:table-cell">City</TableHead>
-              <TableHead className="hidden md:table-cell">Status</TableHead>
-              <TableHead className="hidden md:table-cell">Featured</TableHead>
-              <TableHead className="hidden md:table-cell">Verified</TableHead>
-              <TableHead>Actions</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {isLoading && ( // Show subtle loading state during refetch
-              <TableRow>
-                <TableCell colSpan={9} className="text-center py-8">
-                  <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
-                </TableCell>
-              </TableRow>
-            )}
-            {!isLoading && data.properties.map((property) => (
-              <TableRow key={property.id}>
-                <TableCell className="font-medium">{property.id}</TableCell>
-                <TableCell>{property.title}</TableCell>
-                <TableCell>
-                  {new Intl.NumberFormat('en-US', {
-                    style: 'currency',
-                    currency: 'EUR', // TODO: Use currency settings from context/config
-                    maximumFractionDigits: 0,
-                  }).format(property.price)}
-                </TableCell>
-                <TableCell>
-                  {formatPropertyType(property.propertyType)}
-                  <span className="text-xs ml-1 text-gray-500">
-                    ({formatListingType(property.listingType)})
-                  </span>
-                </TableCell>
-                <TableCell className="hidden md:table-cell">{property.city}</TableCell>
-                <TableCell className="hidden md:table-cell">
-                  <span className={`px-2 py-1 rounded-full text-xs ${property.status === "active"
-                    ? "bg-green-100 text-green-800"
-                    : "bg-gray-100 text-gray-800"
-                    }`}>
-                    {property.status}
-                  </span>
-                </TableCell>
-                <TableCell className="hidden md:table-cell">
-                  {property.featured ?
-                    <CheckCircle className="h-5 w-5 text-green-500" /> :
-                    <X className="h-5 w-5 text-gray-300" />
-                  }
-                </TableCell>
-                <TableCell className="hidden md:table-cell">
-                  {property.verified ?
-                    <CheckCircle className="h-5 w-5 text-green-500" /> :
-                    <X className="h-5 w-5 text-gray-300" />
-                  }
-                </TableCell>
-                <TableCell>
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="ghost" className="h-8 w-8 p-0">
-                        <span className="sr-only">Open menu</span>
-                        {/* SVG for more options */}
-                        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4"><circle cx="12" cy="12" r="1" /><circle cx="12" cy="5" r="1" /><circle cx="12" cy="19" r="1" /></svg>
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                      <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-                        <DialogTrigger asChild>
-                          <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
-                            <Edit className="mr-2 h-4 w-4" />
-                            <span>Edit</span>
-                          </DropdownMenuItem>
-                        </DialogTrigger>
-                        {/* Ensure PropertyForm uses apiRequest internally */}
-                        <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
-                          <DialogHeader>
-                            <DialogTitle>Edit Property</DialogTitle>
-                            <DialogDescription>
-                              Update the property details below.
-                            </DialogDescription>
-                          </DialogHeader>
-                          <PropertyForm propertyId={property.id} onSuccessCallback={() => setIsEditDialogOpen(false)} />
-                        </DialogContent>
-                      </Dialog>
-                      <DropdownMenuItem
-                        onClick={() => featurePropertyMutation.mutate({
-                          id: property.id,
-                          feature: !property.featured
-                        })}
-                        disabled={featurePropertyMutation.isLoading}
+          {/* Properties table */}
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ID</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="hidden md:table-cell">City</TableHead>
+                  <TableHead className="hidden md:table-cell">Status</TableHead>
+                  <TableHead>Moderation</TableHead>
+                  <TableHead className="hidden md:table-cell">Featured</TableHead>
+                  <TableHead className="hidden md:table-cell">Verified</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && ( // Show subtle loading state during refetch
+                  <TableRow>
+                    <TableCell colSpan={10} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                )}
+                {!isLoading && data.properties.map((property) => (
+                  <TableRow key={property.id}>
+                    <TableCell className="font-medium">{property.id}</TableCell>
+                    <TableCell>{property.title}</TableCell>
+                    <TableCell>
+                      {new Intl.NumberFormat('en-US', {
+                        style: 'currency',
+                        currency: 'EUR', // TODO: Use currency settings from context/config
+                        maximumFractionDigits: 0,
+                      }).format(property.price)}
+                    </TableCell>
+                    <TableCell>
+                      {formatPropertyType(property.propertyType)}
+                      <span className="text-xs ml-1 text-gray-500">
+                        ({formatListingType(property.listingType)})
+                      </span>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">{property.city}</TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      <span className={`px-2 py-1 rounded-full text-xs ${property.status === "active"
+                        ? "bg-green-100 text-green-800"
+                        : "bg-gray-100 text-gray-800"
+                        }`}>
+                        {property.status}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs ${moderationBadgeClasses[property.moderationStatus] || "bg-gray-100 text-gray-800"}`}
+                        title={property.rejectionReason || undefined}
                       >
-                        <Star className="mr-2 h-4 w-4" />
-                        <span>{property.featured ? "Unfeature" : "Feature"}</span>
-                      </DropdownMenuItem>
-                      <DropdownMenuItem
-                        onClick={() => verifyPropertyMutation.mutate({
-                          id: property.id,
-                          verify: !property.verified
-                        })}
-                        disabled={verifyPropertyMutation.isLoading}
-                      >
-                        <CheckCircle className="mr-2 h-4 w-4" />
-                        <span>{property.verified ? "Unverify" : "Verify"}</span>
-                      </DropdownMenuItem>
-                      <DropdownMenuSeparator />
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <DropdownMenuItem onSelect={(e) => e.preventDefault()} className="text-red-600">
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            <span>Delete</span>
-                          </DropdownMenuItem>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              This action cannot be undone. This will permanently delete the property "{property.title}".
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={() => deletePropertyMutation.mutate(property.id)}
-                              disabled={deletePropertyMutation.isLoading}
-                              className="bg-red-600 hover:bg-red-700"
+                        {property.moderationStatus}
+                      </span>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      {property.featured ?
+                        <CheckCircle className="h-5 w-5 text-green-500" /> :
+                        <X className="h-5 w-5 text-gray-300" />
+                      }
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      {property.verified ?
+                        <CheckCircle className="h-5 w-5 text-green-500" /> :
+                        <X className="h-5 w-5 text-gray-300" />
+                      }
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" className="h-8 w-8 p-0">
+                            <span className="sr-only">Open menu</span>
+                            {/* SVG for more options */}
+                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4"><circle cx="12" cy="12" r="1" /><circle cx="12" cy="5" r="1" /><circle cx="12" cy="19" r="1" /></svg>
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                          {(property.moderationStatus === "pending" || property.moderationStatus === "rejected") && (
+                            <DropdownMenuItem
+                              onClick={() => moderatePropertyMutation.mutate({ id: property.id, approve: true })}
+                              disabled={moderatePropertyMutation.isPending}
                             >
-                              {deletePropertyMutation.isLoading ? 'Deleting...' : 'Delete'}
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                </TableCell>
-              </TableRow>
-            ))}
-            {!isLoading && data.properties.length === 0 && (
-              <TableRow>
-                <TableCell colSpan={9} className="text-center py-8 text-gray-500">
-                  No properties found. Try adjusting your search or adding new properties.
-                </TableCell>
-              </TableRow>
-            )}
-          </TableBody>
-        </Table>
-      </div>
+                              <ThumbsUp className="mr-2 h-4 w-4" />
+                              <span>Approve & Publish</span>
+                            </DropdownMenuItem>
+                          )}
+                          {(property.moderationStatus === "pending" || property.moderationStatus === "published") && (
+                            <DropdownMenuItem onClick={() => setRejectingProperty(property)}>
+                              <ThumbsDown className="mr-2 h-4 w-4" />
+                              <span>Reject</span>
+                            </DropdownMenuItem>
+                          )}
+                          <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
+                            <DialogTrigger asChild>
+                              <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+                                <Edit className="mr-2 h-4 w-4" />
+                                <span>Edit</span>
+                              </DropdownMenuItem>
+                            </DialogTrigger>
+                            {/* Ensure PropertyForm uses apiRequest internally */}
+                            <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+                              <DialogHeader>
+                                <DialogTitle>Edit Property</DialogTitle>
+                                <DialogDescription>
+                                  Update the property details below.
+                                </DialogDescription>
+                              </DialogHeader>
+                              <PropertyForm propertyId={property.id} onSuccessCallback={() => setIsEditDialogOpen(false)} />
+                            </DialogContent>
+                          </Dialog>
+                          <DropdownMenuItem onClick={() => handleShowHistory(property.id)}>
+                            <History className="mr-2 h-4 w-4" />
+                            <span>History</span>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => featurePropertyMutation.mutate({
+                              id: property.id,
+                              feature: !property.featured
+                            })}
+                            disabled={featurePropertyMutation.isLoading}
+                          >
+                            <Star className="mr-2 h-4 w-4" />
+                            <span>{property.featured ? "Unfeature" : "Feature"}</span>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => verifyPropertyMutation.mutate({
+                              id: property.id,
+                              verify: !property.verified
+                            })}
+                            disabled={verifyPropertyMutation.isLoading}
+                          >
+                            <CheckCircle className="mr-2 h-4 w-4" />
+                            <span>{property.verified ? "Unverify" : "Verify"}</span>
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <DropdownMenuItem onSelect={(e) => e.preventDefault()} className="text-red-600">
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                <span>Delete</span>
+                              </DropdownMenuItem>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  This action cannot be undone. This will permanently delete the property "{property.title}".
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => deletePropertyMutation.mutate(property.id)}
+                                  disabled={deletePropertyMutation.isLoading}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  {deletePropertyMutation.isLoading ? 'Deleting...' : 'Delete'}
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {!isLoading && data.properties.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={10} className="text-center py-8 text-gray-500">
+                      No properties found. Try adjusting your search or adding new properties.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
 
-      {/* Pagination */}
-      {data.pagination.pages > 1 && (
-        <Pagination>
-          <PaginationContent>
-            <PaginationItem>
-              <PaginationPrevious
-                onClick={() => handlePageChange(page - 1)}
-                className={page === 1 ? "pointer-events-none opacity-50" : "cursor-pointer"}
-              />
-            </PaginationItem>
-            <PaginationItem className="flex items-center mx-2">
-              <span className="text-sm">
-                Page {page} of {data.pagination.pages}
-              </span>
-            </PaginationItem>
-            {/* Consider adding page number links here for better UX */}
-            <PaginationItem>
-              <PaginationNext
-                onClick={() => handlePageChange(page + 1)}
-                className={page === data.pagination.pages ? "pointer-events-none opacity-50" : "cursor-pointer"}
+          {/* Reject dialog */}
+          <Dialog
+            open={!!rejectingProperty}
+            onOpenChange={(open) => { if (!open) { setRejectingProperty(null); setRejectionReason(""); } }}
+          >
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Reject listing</DialogTitle>
+                <DialogDescription>
+                  "{rejectingProperty?.title}" will be hidden from the public. The owner receives this reason by email and can fix the listing and submit it again.
+                </DialogDescription>
+              </DialogHeader>
+              <Textarea
+                placeholder="What needs to change before the listing can be published?"
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                rows={4}
               />
-            </PaginationItem>
-          </PaginationContent>
-        </Pagination>
-      )}
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setRejectingProperty(null)}>Cancel</Button>
+                <Button
+                  variant="destructive"
+                  disabled={!rejectionReason.trim() || moderatePropertyMutation.isPending}
+                  onClick={() => rejectingProperty && moderatePropertyMutation.mutate({
+                    id: rejectingProperty.id,
+                    approve: false,
+                    reason: rejectionReason.trim(),
+                  })}
+                >
+                  {moderatePropertyMutation.isPending ? 'Rejecting...' : 'Reject'}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
+          {/* Pagination */}
+          {data.pagination.pages > 1 && (
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    onClick={() => handlePageChange(page - 1)}
+                    className={page === 1 ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                  />
+                </PaginationItem>
+                <PaginationItem className="flex items-center mx-2">
+                  <span className="text-sm">
+                    Page {page} of {data.pagination.pages}
+                  </span>
+                </PaginationItem>
+                {/* Consider adding page number links here for better UX */}
+                <PaginationItem>
+                  <PaginationNext
+                    onClick={() => handlePageChange(page + 1)}
+                    className={page === data.pagination.pages ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
 
+const moderationBadgeClasses: Record<string, string> = {
+  published: "bg-green-100 text-green-800",
+  pending: "bg-amber-100 text-amber-800",
+  rejected: "bg-red-100 text-red-800",
+  draft: "bg-gray-100 text-gray-800",
+};
+
 // Helper function to format property types (Keep as is or move to utils)
 function formatPropertyType(type: string): string {
   const mappings: Record<string, string> = {
@@ -1,7 +1,7 @@
 // src/components/admin/AdminUsers.tsx
 import React, { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Loader2, Search, Edit, Trash2, Plus, UserCheck, UserX } from "lucide-react";
+import { Loader2, Search, Edit, Trash2, Plus, UserCheck, UserX, Unlock, Eye } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -44,6 +44,8 @@ import {
 import { UserForm } from "@/components/admin/UserForm";
 import { apiRequest } from "@/lib/queryClient"; // Import apiRequest
 import { useToast } from "@/hooks/use-toast"; // Import useToast
+import { useLocation } from "wouter";
+import { startImpersonation } from "@/lib/unifiedAuth";
 
 interface UserData {
   id: number;
@@ -55,6 +57,12 @@ interface UserData {
   createdAt: string;
 }
 
+interface LockedAccount {
+  userId: number;
+  failedCount: number;
+  lockedUntil: string;
+}
+
 export function AdminUsers() {
   const queryClient = useQueryClient();
   const { toast } = useToast(); // Initialize toast
@@ -73,6 +81,42 @@ export function AdminUsers() {
     }
   });
 
+  // Accounts locked after too many failed logins
+  const { data: lockedAccounts } = useQuery<LockedAccount[], Error>({
+    queryKey: ['/admin/security/locked-accounts'],
+    queryFn: async () => await apiRequest<LockedAccount[]>('GET', '/admin/security/locked-accounts'),
+  });
+  const lockedUntilByUser = new Map(lockedAccounts?.map(account => [account.userId, account.lockedUntil]));
+
+  // Unlock user mutation
+  const unlockUserMutation = useMutation<unknown, Error, number>({
+    mutationFn: async (id: number) => {
+      return await apiRequest('POST', `/admin/users/${id}/unlock`);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "User account unlocked." });
+      queryClient.invalidateQueries({ queryKey: ['/admin/security/locked-accounts'] });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: `Failed to unlock user: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  // Start viewing the site as the user (read-only, time-limited)
+  const [, setLocation] = useLocation();
+  const impersonateUserMutation = useMutation<unknown, Error, UserData>({
+    mutationFn: async (user: UserData) => {
+      return await startImpersonation(user.id);
+    },
+    onSuccess: (_, user) => {
+      queryClient.clear(); // Drop admin data before rendering the user's pages
+      setLocation(user.role === "agent" ? "/my-properties" : "/messages");
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: `Failed to view as user: ${error.message}`, variant: "destructive" });
+    },
+  });
+
   // Delete user mutation using apiRequest
   const deleteUserMutation = useMutation<unknown, Error, number>({
     mutationFn: async (id: number) => {
@@ -187,6 +231,7 @@ export function AdminUsers() {
               <TableHead>Email</TableHead>
               <TableHead>Username</TableHead>
               <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
               <TableHead>Created</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
@@ -208,6 +253,15 @@ export function AdminUsers() {
                     {user.role}
                   </Badge>
                 </TableCell>
+                <TableCell>
+                  {lockedUntilByUser.has(user.id) ? (
+                    <Badge variant="destructive" title={`Locked until ${new Date(lockedUntilByUser.get(user.id)!).toLocaleString()}`}>
+                      Locked
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">Active</Badge>
+                  )}
+                </TableCell>
                 <TableCell>
                   {new Date(user.createdAt).toLocaleDateString()}
                 </TableCell>
@@ -281,6 +335,26 @@ export function AdminUsers() {
                         </DropdownMenuItem>
                       )}
 
+                      {user.role !== "admin" && (
+                        <DropdownMenuItem
+                          onClick={() => impersonateUserMutation.mutate(user)}
+                          disabled={impersonateUserMutation.isPending}
+                        >
+                          <Eye className="mr-2 h-4 w-4" />
+                          <span>View as User</span>
+                        </DropdownMenuItem>
+                      )}
+
+                      {lockedUntilByUser.has(user.id) && (
+                        <DropdownMenuItem
+                          onClick={() => unlockUserMutation.mutate(user.id)}
+                          disabled={unlockUserMutation.isPending}
+                        >
+                          <Unlock className="mr-2 h-4 w-4" />
+                          <span>Unlock Account</span>
+                        </DropdownMenuItem>
+                      )}
+
                       <DropdownMenuSeparator />
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
@@ -315,7 +389,7 @@ export function AdminUsers() {
             ))}
             {(!filteredUsers || filteredUsers.length === 0) && (
               <TableRow>
-                <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                <TableCell colSpan={8} className="text-center py-8 text-gray-500">
                   {searchQuery ? 'No users found matching your search.' : 'No users found.'}
                 </TableCell>
               </TableRow>
@@ -0,0 +1,177 @@
+// src/components/admin/ErasureRequests.tsx
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Trash2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ErasureRequest {
+  id: number;
+  userId: number | null;
+  status: string;
+  reason: string | null;
+  dueAt: string;
+  requestedAt: string;
+  user: { id: number; name: string; email: string; role: string } | null;
+}
+
+type PendingAction = { type: 'complete' | 'reject'; request: ErasureRequest } | null;
+
+/**
+ * Pending GDPR erasure requests. Requests are erased automatically once due;
+ * admins can erase them sooner or reject them with a reason.
+ */
+export function ErasureRequests() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [action, setAction] = useState<PendingAction>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const { data: requests, isLoading } = useQuery<ErasureRequest[], Error>({
+    queryKey: ['/admin/erasure-requests'],
+    queryFn: async () => await apiRequest<ErasureRequest[]>('GET', '/admin/erasure-requests'),
+  });
+
+  const onSettled = () => {
+    setAction(null);
+    setRejectionReason("");
+    queryClient.invalidateQueries({ queryKey: ['/admin/erasure-requests'] });
+    queryClient.invalidateQueries({ queryKey: ['/admin/users'] });
+  };
+
+  const completeMutation = useMutation<unknown, Error, number>({
+    mutationFn: async (id: number) => await apiRequest('POST', `/admin/erasure-requests/${id}/complete`),
+    onSuccess: () => toast({ title: "Success", description: "Account and data erased." }),
+    onError: (error) => toast({ title: "Error", description: `Failed to erase account: ${error.message}`, variant: "destructive" }),
+    onSettled,
+  });
+
+  const rejectMutation = useMutation<unknown, Error, { id: number; reason: string }>({
+    mutationFn: async ({ id, reason }) => await apiRequest('POST', `/admin/erasure-requests/${id}/reject`, { reason }),
+    onSuccess: () => toast({ title: "Success", description: "Erasure request rejected." }),
+    onError: (error) => toast({ title: "Error", description: `Failed to reject request: ${error.message}`, variant: "destructive" }),
+    onSettled,
+  });
+
+  const isBusy = completeMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-xl font-semibold tracking-tight">Pending Erasure Requests</h3>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead>Due</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin inline-block" />
+                </TableCell>
+              </TableRow>
+            ) : requests && requests.length > 0 ? (
+              requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell>
+                    <div className="font-medium">{request.user?.name ?? "—"}</div>
+                    <div className="text-sm text-muted-foreground">{request.user?.email}</div>
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate">{request.reason || <span className="text-muted-foreground">None given</span>}</TableCell>
+                  <TableCell>{new Date(request.requestedAt).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {new Date(request.dueAt) <= new Date()
+                      ? <Badge variant="destructive">Overdue</Badge>
+                      : new Date(request.dueAt).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" variant="destructive" disabled={isBusy} onClick={() => setAction({ type: 'complete', request })}>
+                      <Trash2 className="mr-1 h-4 w-4" /> Erase now
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={isBusy} onClick={() => setAction({ type: 'reject', request })}>
+                      <XCircle className="mr-1 h-4 w-4" /> Reject
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                  No pending erasure requests.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog open={!!action} onOpenChange={(open) => !open && setAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {action?.type === 'complete' ? "Erase this account now?" : "Reject erasure request?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {action?.type === 'complete'
+                ? `All data of ${action.request.user?.name ?? "this user"} is deleted or anonymized. This cannot be undone.`
+                : "The user keeps their account. Give the legal reason for keeping the data."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {action?.type === 'reject' && (
+            <Textarea
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="Reason for rejection"
+            />
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isBusy}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isBusy || (action?.type === 'reject' && !rejectionReason.trim())}
+              className={action?.type === 'complete' ? "bg-red-600 hover:bg-red-700" : undefined}
+              onClick={(e) => {
+                e.preventDefault();
+                if (!action) return;
+                if (action.type === 'complete') {
+                  completeMutation.mutate(action.request.id);
+                } else {
+                  rejectMutation.mutate({ id: action.request.id, reason: rejectionReason.trim() });
+                }
+              }}
+            >
+              {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : action?.type === 'complete' ? "Erase" : "Reject"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
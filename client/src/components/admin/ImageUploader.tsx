@@ -0,0 +1,145 @@
+import { useRef, useState } from "react";
+import { ArrowLeft, ArrowRight, Loader2, Star, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { imageVariant, uploadImages } from "@/lib/images";
+
+const ACCEPT = "image/jpeg,image/png,image/webp";
+const MAX_FILE_MB = 10;
+const MAX_FILES_PER_UPLOAD = 10;
+
+interface ImageUploaderProps {
+  value: string[];
+  onChange: (images: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Listing photo editor: uploads files, orders the photos and picks the cover, which is the first one.
+ * Image URLs hosted elsewhere can still be added by hand.
+ */
+export function ImageUploader({ value, onChange, disabled }: ImageUploaderProps) {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [externalUrl, setExternalUrl] = useState("");
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (fileInput.current) fileInput.current.value = "";
+    if (files.length === 0) return;
+
+    const tooLarge = files.filter((file) => file.size > MAX_FILE_MB * 1024 * 1024);
+    if (tooLarge.length > 0) {
+      toast({
+        title: "Image too large",
+        description: `${tooLarge.map((file) => file.name).join(", ")} exceeds ${MAX_FILE_MB} MB.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const uploaded: string[] = [];
+      for (let i = 0; i < files.length; i += MAX_FILES_PER_UPLOAD) {
+        const images = await uploadImages(files.slice(i, i + MAX_FILES_PER_UPLOAD));
+        uploaded.push(...images.map((image) => image.url));
+      }
+      onChange([...value, ...uploaded]);
+    } catch (error: any) {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= value.length) return;
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const makeCover = (index: number) => {
+    onChange([value[index], ...value.filter((_, i) => i !== index)]);
+  };
+
+  const remove = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const addExternalUrl = () => {
+    const url = externalUrl.trim();
+    if (!url) return;
+    onChange([...value, url]);
+    setExternalUrl("");
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+          {value.map((url, index) => (
+            <div key={`${url}-${index}`} className="relative rounded-md border overflow-hidden bg-slate-100">
+              <img src={imageVariant(url, 'thumbnail')} alt={`Image ${index + 1}`} className="w-full h-28 object-cover" />
+              {index === 0 && (
+                <span className="absolute top-1 left-1 bg-primary-600 text-white px-2 py-0.5 text-xs font-semibold rounded">
+                  Cover
+                </span>
+              )}
+              <div className="flex justify-between bg-white/90 p-1">
+                <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={disabled || index === 0} onClick={() => move(index, -1)} title="Move left">
+                  <ArrowLeft className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={disabled || index === 0} onClick={() => makeCover(index)} title="Set as cover">
+                  <Star className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={disabled || index === value.length - 1} onClick={() => move(index, 1)} title="Move right">
+                  <ArrowRight className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-7 w-7 text-red-600" disabled={disabled} onClick={() => remove(index)} title="Remove">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          ref={fileInput}
+          type="file"
+          accept={ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button type="button" variant="outline" disabled={disabled || isUploading} onClick={() => fileInput.current?.click()}>
+          {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          {isUploading ? "Uploading..." : "Upload photos"}
+        </Button>
+        <div className="flex flex-1 min-w-[16rem] gap-2">
+          <Input
+            placeholder="Or paste an image URL"
+            value={externalUrl}
+            disabled={disabled}
+            onChange={(e) => setExternalUrl(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addExternalUrl();
+              }
+            }}
+          />
+          <Button type="button" variant="ghost" disabled={disabled || !externalUrl.trim()} onClick={addExternalUrl}>
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
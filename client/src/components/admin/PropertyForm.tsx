@@ -1,5 +1,5 @@
 // src/components/admin/PropertyForm.tsx
-import React, { useState, useEffect } from "react"; // Added useEffect
+import React, { useState, useEffect, useRef } from "react"; // Added useEffect
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
@@ -28,7 +28,21 @@ import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label"; // Keep Label import
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { ImageUploader } from "./ImageUploader";
 import { apiRequest } from "@/lib/queryClient"; // Ensure apiRequest is imported
+import { ENERGY_CLASSES, PLOT_OWNERSHIPS } from "@shared/schema";
+import { toSquareMetres as areaInSquareMetres } from "@shared/units";
+import { useAreaUnit } from "@/lib/formatters";
+import { RENTAL_LISTING_TYPES } from "@/lib/rentalApplications";
+
+// Optional amounts and years are kept as strings like the other number inputs
+const optionalNumber = (message: string) =>
+  z.string().optional().refine((val) => !val || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0), { message });
+const parseOptional = (val: string | undefined) => (val ? parseFloat(val) : null);
+// Yes/no questions a listing may leave unanswered
+const parseYesNo = (val: string | undefined) => (val === "yes" ? true : val === "no" ? false : null);
+const toYesNo = (val: boolean | null) => (val === true ? "yes" : val === false ? "no" : "none");
 
 // Define the form schema
 const formSchema = z.object({
@@ -54,12 +68,26 @@ const formSchema = z.object({
   postalCode: z.string().min(4, "Postal code must be at least 4 characters long"),
   latitude: z.string().optional(),
   longitude: z.string().optional(),
-  images: z.string().optional(), // Make images optional initially
+  images: z.array(z.string()).optional(), // Ordered image URLs; the first one is the cover
   userId: z.string().refine((val) => !isNaN(parseInt(val)), {
     message: "User ID must be a valid number",
   }),
   isFeatured: z.boolean().default(false),
   isVerified: z.boolean().default(false),
+  // Housing company details (Finnish apartments)
+  salesPrice: optionalNumber("Sales price must be a valid non-negative number"),
+  loanShare: optionalNumber("Loan share must be a valid non-negative number"),
+  maintenanceCharge: optionalNumber("Maintenance charge must be a valid non-negative number"),
+  financingCharge: optionalNumber("Financing charge must be a valid non-negative number"),
+  energyClass: z.string().optional(),
+  buildYear: z.string().optional().refine((val) => !val || /^\d{4}$/.test(val), { message: "Build year must be a four-digit year" }),
+  plotOwnership: z.string().optional(),
+  // Rental terms (rent and pg listings)
+  deposit: optionalNumber("Deposit must be a valid non-negative number"),
+  availableFrom: z.string().optional(),
+  minLeaseMonths: z.string().optional().refine((val) => !val || (/^\d+$/.test(val) && parseInt(val) >= 1), { message: "Minimum lease must be a whole number of months" }),
+  petsAllowed: z.string().optional(),
+  smokingAllowed: z.string().optional(),
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -98,15 +126,41 @@ interface Property {
   featured: boolean;
   verified: boolean;
   features?: string[];
+  moderationStatus: string;
+  salesPrice: number | null;
+  loanShare: number | null;
+  maintenanceCharge: number | null;
+  financingCharge: number | null;
+  energyClass: string | null;
+  buildYear: number | null;
+  plotOwnership: string | null;
+  deposit: number | null;
+  availableFrom: string | null;
+  minLeaseMonths: number | null;
+  petsAllowed: boolean | null;
+  smokingAllowed: boolean | null;
+}
+
+interface PossibleDuplicate {
+  id: number;
+  title: string;
+  city: string;
+  score: number;
+  reasons: string[];
 }
 
 export function PropertyForm({ propertyId, onSuccessCallback }: { propertyId?: number }) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const isEditing = !!propertyId;
+  // Listings created by non-admins are reviewed before they are published
+  const needsReview = user?.role !== 'admin';
   const [features, setFeatures] = useState<string[]>([]);
   const [featureInput, setFeatureInput] = useState<string>("");
+  // The area is entered in the visitor's unit and saved in square metres
+  const { unit: areaUnit, label: areaLabel, fromSquareMetres, toSquareMetres } = useAreaUnit();
 
   // Fetch users for user selection using apiRequest
   const { data: users = [], isLoading: isLoadingUsers } = useQuery<User[], Error>({
@@ -137,8 +191,11 @@ export function PropertyForm({ propertyId, onSuccessCallback }: { propertyId?: n
   const defaultValues: Partial<FormValues> = {
     title: "", description: "", price: "", area: "", bedrooms: "0", bathrooms: "0",
     propertyType: "", listingType: "", status: "active", address: "", city: "",
-    postalCode: "", latitude: "", longitude: "", images: "", userId: "",
+    postalCode: "", latitude: "", longitude: "", images: [], userId: "",
     isFeatured: false, isVerified: false,
+    salesPrice: "", loanShare: "", maintenanceCharge: "", financingCharge: "",
+    energyClass: "none", buildYear: "", plotOwnership: "none",
+    deposit: "", availableFrom: "", minLeaseMonths: "", petsAllowed: "none", smokingAllowed: "none",
   };
 
   // Initialize the form
@@ -154,7 +211,7 @@ export function PropertyForm({ propertyId, onSuccessCallback }: { propertyId?: n
         title: property.title,
         description: property.description,
         price: property.price.toString(),
-        area: property.area.toString(),
+        area: fromSquareMetres(property.area).toString(),
         bedrooms: property.bedrooms.toString(),
         bathrooms: property.bathrooms.toString(),
         propertyType: property.propertyType,
@@ -165,15 +222,48 @@ export function PropertyForm({ propertyId, onSuccessCallback }: { propertyId?: n
         postalCode: property.postalCode || "",
         latitude: property.latitude?.toString() || "",
         longitude: property.longitude?.toString() || "",
-        images: property.images?.join(",") || "",
+        images: property.images || [],
         userId: property.userId.toString(),
         isFeatured: property.featured,
         isVerified: property.verified,
+        salesPrice: property.salesPrice?.toString() || "",
+        loanShare: property.loanShare?.toString() || "",
+        maintenanceCharge: property.maintenanceCharge?.toString() || "",
+        financingCharge: property.financingCharge?.toString() || "",
+        energyClass: property.energyClass || "none",
+        buildYear: property.buildYear?.toString() || "",
+        plotOwnership: property.plotOwnership || "none",
+        deposit: property.deposit?.toString() || "",
+        availableFrom: property.availableFrom || "",
+        minLeaseMonths: property.minLeaseMonths?.toString() || "",
+        petsAllowed: toYesNo(property.petsAllowed),
+        smokingAllowed: toYesNo(property.smokingAllowed),
       });
       setFeatures(property.features || []);
     }
   }, [property, isEditing, form]);
 
+  // Keep the entered area when the unit is switched while the form is open
+  const previousAreaUnit = useRef(areaUnit);
+  useEffect(() => {
+    if (previousAreaUnit.current === areaUnit) return;
+    const entered = parseFloat(form.getValues("area"));
+    if (!isNaN(entered)) {
+      form.setValue("area", fromSquareMetres(areaInSquareMetres(entered, previousAreaUnit.current)).toString());
+    }
+    previousAreaUnit.current = areaUnit;
+  }, [areaUnit, form]);
+
+  // The debt-free price is the sales price plus the loan share
+  const [salesPriceInput, loanShareInput] = form.watch(["salesPrice", "loanShare"]);
+  useEffect(() => {
+    if (salesPriceInput && loanShareInput && !isNaN(parseFloat(salesPriceInput)) && !isNaN(parseFloat(loanShareInput))) {
+      form.setValue("price", String(parseFloat(salesPriceInput) + parseFloat(loanShareInput)), { shouldValidate: true });
+    }
+  }, [salesPriceInput, loanShareInput, form]);
+
+  const isRental = RENTAL_LISTING_TYPES.includes(form.watch("listingType"));
+
   // Define city options based on fetched locations
   // Use a Set to get unique city names
   const cityOptions = Array.from(new Set(locations.map(loc => loc.city)))
@@ -215,10 +305,24 @@ export function PropertyForm({ propertyId, onSuccessCallback }: { propertyId?: n
   };
 
   // Create property mutation (already uses apiRequest)
-  const createPropertyMutation = useMutation<Property, Error, any>({ // Use 'any' for preparedData type flexibility
-    mutationFn: async (data) => await apiRequest<Property>('POST', '/properties', data),
-    onSuccess: () => {
-      toast({ title: "Success", description: "Property created successfully" });
+  const createPropertyMutation = useMutation<Property & { possibleDuplicates?: PossibleDuplicate[] }, Error, any>({ // Use 'any' for preparedData type flexibility
+    mutationFn: async (data) => await apiRequest('POST', '/properties', data),
+    onSuccess: (created) => {
+      const description = created.moderationStatus === 'draft'
+        ? "Draft saved. Submit it for review from My Properties when it is ready."
+        : created.moderationStatus === 'pending'
+          ? "Property submitted for review. It will be visible once an administrator approves it."
+          : "Property created successfully";
+      if (created.possibleDuplicates?.length) {
+        const similar = created.possibleDuplicates.map((match) => `${match.title} (${match.city})`).join(", ");
+        toast({
+          title: "Possible duplicate",
+          description: `${description.replace(/\.?$/, ".")} It looks similar to: ${similar}. Remove it if the home was listed twice.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: "Success", description });
+      }
       queryClient.invalidateQueries({ queryKey: ['/admin/properties'] });
       queryClient.invalidateQueries({ queryKey: ['/properties'] });
       form.reset(defaultValues);
@@ -249,23 +353,39 @@ export function PropertyForm({ propertyId, onSuccessCallback }: { propertyId?: n
   });
 
   // Handle form submission
-  const onSubmit = async (values: FormValues) => {
+  const onSubmit = async (values: FormValues, moderationStatus?: 'draft') => {
     setIsSubmitting(true);
 
     // Convert string inputs to appropriate types
     const preparedData = {
       ...values, // Spread validated form values
       price: parseFloat(values.price),
-      area: parseFloat(values.area),
+      // An unchanged area is sent as stored, so converting it back and forth does not alter it
+      area: property && values.area === fromSquareMetres(property.area).toString()
+        ? property.area
+        : Math.round(toSquareMetres(parseFloat(values.area)) * 100) / 100,
       bedrooms: parseInt(values.bedrooms),
       bathrooms: parseInt(values.bathrooms),
       features, // Add the features array
       latitude: values.latitude ? parseFloat(values.latitude) : null,
       longitude: values.longitude ? parseFloat(values.longitude) : null,
-      images: values.images?.split(",").map(img => img.trim()).filter(img => img) || [], // Handle optional images
+      images: values.images || [],
       userId: parseInt(values.userId),
       featured: values.isFeatured, // Rename for backend consistency if needed
       verified: values.isVerified, // Rename for backend consistency if needed
+      salesPrice: parseOptional(values.salesPrice),
+      loanShare: parseOptional(values.loanShare),
+      maintenanceCharge: parseOptional(values.maintenanceCharge),
+      financingCharge: parseOptional(values.financingCharge),
+      energyClass: values.energyClass && values.energyClass !== "none" ? values.energyClass : null,
+      buildYear: values.buildYear ? parseInt(values.buildYear) : null,
+      plotOwnership: values.plotOwnership && values.plotOwnership !== "none" ? values.plotOwnership : null,
+      deposit: parseOptional(values.deposit),
+      availableFrom: values.availableFrom || null,
+      minLeaseMonths: values.minLeaseMonths ? parseInt(values.minLeaseMonths) : null,
+      petsAllowed: parseYesNo(values.petsAllowed),
+      smokingAllowed: parseYesNo(values.smokingAllowed),
+      ...(moderationStatus && { moderationStatus }),
     };
 
     // Remove isFeatured and isVerified if names differ in backend schema
@@ -297,7 +417,7 @@ export function PropertyForm({ propertyId, onSuccessCallback }: { propertyId?: n
 
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 py-4">
+      <form onSubmit={form.handleSubmit((values) => onSubmit(values))} className="space-y-6 py-4">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Basic Information */}
           <div className="space-y-4">
@@ -307,9 +427,9 @@ export function PropertyForm({ propertyId, onSuccessCallback }: { propertyId?: n
             {/* Description */}
             <FormField control={form.control} name="description" render={({ field }) => (<FormItem><FormLabel>Description*</FormLabel><FormControl><Textarea placeholder="Enter property description" className="min-h-[100px]" {...field} /></FormControl><FormMessage /></FormItem>)}/>
             {/* Price */}
-            <FormField control={form.control} name="price" render={({ field }) => (<FormItem><FormLabel>Price*</FormLabel><FormControl><Input type="number" step="0.01" placeholder="Enter property price" {...field} /></FormControl><FormMessage /></FormItem>)}/>
+            <FormField control={form.control} name="price" render={({ field }) => (<FormItem><FormLabel>Price*</FormLabel><FormControl><Input type="number" step="0.01" placeholder="Enter property price" {...field} /></FormControl><FormDescription>For housing-company apartments, the debt-free price</FormDescription><FormMessage /></FormItem>)}/>
             {/* Area */}
-            <FormField control={form.control} name="area" render={({ field }) => (<FormItem><FormLabel>Area (sq.m)*</FormLabel><FormControl><Input type="number" step="0.1" placeholder="Enter property area" {...field} /></FormControl><FormMessage /></FormItem>)}/>
+            <FormField control={form.control} name="area" render={({ field }) => (<FormItem><FormLabel>Area ({areaLabel})*</FormLabel><FormControl><Input type="number" step="0.1" placeholder="Enter property area" {...field} /></FormControl><FormMessage /></FormItem>)}/>
             {/* Bedrooms/Bathrooms */}
             <div className="grid grid-cols-2 gap-4">
               <FormField control={form.control} name="bedrooms" render={({ field }) => (<FormItem><FormLabel>Bedrooms*</FormLabel><FormControl><Input type="number" placeholder="0" {...field} onChange={e => field.onChange(e.target.value)} /></FormControl><FormMessage /></FormItem>)}/>
@@ -378,8 +498,8 @@ export function PropertyForm({ propertyId, onSuccessCallback }: { propertyId?: n
             <FormField control={form.control} name="images" render={({ field }) => (
               <FormItem>
                 <FormLabel>Images</FormLabel>
-                <FormControl><Input placeholder="Enter image URLs separated by commas" {...field} value={field.value || ""} /></FormControl>
-                <FormDescription>Multiple URLs separated by commas</FormDescription>
+                <FormControl><ImageUploader value={field.value || []} onChange={field.onChange} disabled={isSubmitting} /></FormControl>
+                <FormDescription>JPEG, PNG or WebP, up to 10 MB each. The first photo is the cover.</FormDescription>
                 <FormMessage />
               </FormItem>
             )}/>
@@ -418,10 +538,98 @@ export function PropertyForm({ propertyId, onSuccessCallback }: { propertyId?: n
           </div>
         </div>
 
-        <div className="flex justify-end">
+        {/* Housing Company */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium">Housing Company</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <FormField control={form.control} name="salesPrice" render={({ field }) => (<FormItem><FormLabel>Sales Price (€)</FormLabel><FormControl><Input type="number" step="0.01" placeholder="Myyntihinta" {...field} value={field.value || ""} /></FormControl><FormMessage /></FormItem>)}/>
+            <FormField control={form.control} name="loanShare" render={({ field }) => (<FormItem><FormLabel>Loan Share (€)</FormLabel><FormControl><Input type="number" step="0.01" placeholder="Velkaosuus" {...field} value={field.value || ""} /></FormControl><FormDescription>Price is set to sales price + loan share</FormDescription><FormMessage /></FormItem>)}/>
+            <FormField control={form.control} name="maintenanceCharge" render={({ field }) => (<FormItem><FormLabel>Maintenance Charge (€/month)</FormLabel><FormControl><Input type="number" step="0.01" placeholder="Hoitovastike" {...field} value={field.value || ""} /></FormControl><FormMessage /></FormItem>)}/>
+            <FormField control={form.control} name="financingCharge" render={({ field }) => (<FormItem><FormLabel>Financing Charge (€/month)</FormLabel><FormControl><Input type="number" step="0.01" placeholder="Rahoitusvastike" {...field} value={field.value || ""} /></FormControl><FormMessage /></FormItem>)}/>
+            <FormField control={form.control} name="energyClass" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Energy Class</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">Not specified</SelectItem>
+                    {ENERGY_CLASSES.map((energyClass) => (<SelectItem key={energyClass} value={energyClass}>{energyClass}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}/>
+            <FormField control={form.control} name="buildYear" render={({ field }) => (<FormItem><FormLabel>Build Year</FormLabel><FormControl><Input type="number" placeholder="e.g., 1985" {...field} value={field.value || ""} /></FormControl><FormMessage /></FormItem>)}/>
+            <FormField control={form.control} name="plotOwnership" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Plot</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">Not specified</SelectItem>
+                    {PLOT_OWNERSHIPS.map((plot) => (<SelectItem key={plot} value={plot}>{plot === "own" ? "Own plot" : "Leased plot"}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}/>
+          </div>
+        </div>
+
+        {/* Rental Terms */}
+        {isRental && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium">Rental Terms</h3>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <FormField control={form.control} name="deposit" render={({ field }) => (<FormItem><FormLabel>Deposit (€)</FormLabel><FormControl><Input type="number" step="0.01" placeholder="e.g., 1500" {...field} value={field.value || ""} /></FormControl><FormMessage /></FormItem>)}/>
+            <FormField control={form.control} name="availableFrom" render={({ field }) => (<FormItem><FormLabel>Available From</FormLabel><FormControl><Input type="date" {...field} value={field.value || ""} /></FormControl><FormDescription>Leave empty if available now</FormDescription><FormMessage /></FormItem>)}/>
+            <FormField control={form.control} name="minLeaseMonths" render={({ field }) => (<FormItem><FormLabel>Minimum Lease (months)</FormLabel><FormControl><Input type="number" min={1} placeholder="e.g., 12" {...field} value={field.value || ""} /></FormControl><FormMessage /></FormItem>)}/>
+            <FormField control={form.control} name="petsAllowed" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pets</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">Not specified</SelectItem>
+                    <SelectItem value="yes">Allowed</SelectItem>
+                    <SelectItem value="no">Not allowed</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}/>
+            <FormField control={form.control} name="smokingAllowed" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Smoking</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">Not specified</SelectItem>
+                    <SelectItem value="yes">Allowed</SelectItem>
+                    <SelectItem value="no">Not allowed</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}/>
+          </div>
+        </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {!isEditing && needsReview && (
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isSubmitting}
+              onClick={form.handleSubmit((values) => onSubmit(values, 'draft'))}
+            >
+              Save as Draft
+            </Button>
+          )}
           <Button type="submit" disabled={isSubmitting}>
             {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            {isEditing ? "Update Property" : "Create Property"}
+            {isEditing ? "Update Property" : needsReview ? "Submit for Review" : "Create Property"}
           </Button>
         </div>
       </form>
@@ -0,0 +1,211 @@
+// src/components/admin/PropertyRevisions.tsx
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Revision {
+  id: number;
+  propertyId: number;
+  propertyTitle: string;
+  actorId: number | null;
+  actorName: string | null;
+  source: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  revertedRevisionId: number | null;
+  createdAt: string;
+}
+
+interface RevisionsResponse {
+  revisions: Revision[];
+  pagination: { total: number; page: number; limit: number; totalPages: number };
+}
+
+interface PropertyRevisionsProps {
+  // Only the history of this listing; all listings when null
+  propertyId: number | null;
+  onClearProperty: () => void;
+}
+
+const sourceLabels: Record<string, string> = {
+  edit: "Owner edit",
+  admin: "Admin edit",
+  import: "Bulk import",
+  revert: "Revert",
+  rental: "Rental accepted",
+  geocode: "Geocoding",
+  moderation: "Moderation",
+  merge: "Account merge",
+};
+
+// Changes made by a workflow rather than an edit, which the server does not revert
+const unrevertableSources = new Set(["moderation", "merge", "rental"]);
+
+// camelCase field names as words: "maintenanceCharge" -> "Maintenance charge"
+const fieldLabel = (field: string) => {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.length === 0 ? "—" : value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Audit trail of listing changes: who changed which fields, from what to what. Edits, imports and
+ * geocoding can be reverted, which sets their fields back to the old values and is recorded as a
+ * revision itself.
+ */
+export function PropertyRevisions({ propertyId, onClearProperty }: PropertyRevisionsProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [page, setPage] = useState(1);
+  const [reverting, setReverting] = useState<Revision | null>(null);
+
+  const { data, isLoading } = useQuery<RevisionsResponse, Error>({
+    queryKey: ['/admin/property-revisions', propertyId, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: page.toString() });
+      if (propertyId !== null) {
+        params.append('propertyId', propertyId.toString());
+      }
+      return await apiRequest<RevisionsResponse>('GET', `/admin/property-revisions?${params.toString()}`);
+    },
+  });
+
+  const revertMutation = useMutation<{ skipped: string[] }, Error, number>({
+    mutationFn: async (id) => await apiRequest('POST', `/admin/property-revisions/${id}/revert`),
+    onSuccess: (result) => {
+      toast({
+        title: "Success",
+        description: result.skipped.length > 0
+          ? `Revision reverted. ${result.skipped.map(fieldLabel).join(", ")} could not be restored.`
+          : "Revision reverted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/admin/property-revisions'] });
+      queryClient.invalidateQueries({ queryKey: ['/admin/properties'] });
+    },
+    onError: (error) => toast({ title: "Error", description: `Failed to revert revision: ${error.message}`, variant: "destructive" }),
+    onSettled: () => setReverting(null),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-muted-foreground">
+          Every change to a listing, with who made it and the old and new values.
+        </p>
+        {propertyId !== null && (
+          <Button variant="outline" size="sm" onClick={onClearProperty}>
+            Property #{propertyId} <X className="ml-1 h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : data && data.revisions.length > 0 ? (
+        <div className="space-y-4">
+          {data.revisions.map((revision) => (
+            <div key={revision.id} className="rounded-lg border bg-white p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Link href={`/property/${revision.propertyId}`} className="font-medium hover:underline">
+                    #{revision.propertyId} {revision.propertyTitle}
+                  </Link>
+                  <Badge variant="outline">{sourceLabels[revision.source] ?? revision.source}</Badge>
+                  <span className="text-muted-foreground">
+                    {revision.actorName ?? (revision.actorId ? `User ID ${revision.actorId}` : "System")}
+                    {" · "}{new Date(revision.createdAt).toLocaleString()}
+                    {revision.revertedRevisionId && ` · reverts #${revision.revertedRevisionId}`}
+                  </span>
+                </div>
+                {!unrevertableSources.has(revision.source) && (
+                  <Button size="sm" variant="outline" disabled={revertMutation.isPending} onClick={() => setReverting(revision)}>
+                    <RotateCcw className="mr-1 h-4 w-4" /> Revert
+                  </Button>
+                )}
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="font-normal pr-4 w-40">Field</th>
+                    <th className="font-normal pr-4">Before</th>
+                    <th className="font-normal">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(revision.changes).map(([field, { from, to }]) => (
+                    <tr key={field} className="align-top border-t">
+                      <td className="py-1 pr-4 font-medium">{fieldLabel(field)}</td>
+                      <td className="py-1 pr-4 text-red-700 whitespace-pre-line break-words max-w-xs">{formatValue(from)}</td>
+                      <td className="py-1 text-green-700 whitespace-pre-line break-words max-w-xs">{formatValue(to)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+
+          {data.pagination.totalPages > 1 && (
+            <div className="flex justify-center items-center gap-4">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>Previous</Button>
+              <span className="text-sm">Page {page} of {data.pagination.totalPages}</span>
+              <Button variant="outline" size="sm" disabled={page >= data.pagination.totalPages} onClick={() => setPage(page + 1)}>Next</Button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-10 border border-dashed rounded-lg text-muted-foreground">
+          No changes recorded yet.
+        </div>
+      )}
+
+      <AlertDialog open={!!reverting} onOpenChange={(open) => !open && setReverting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revert this change?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {reverting && Object.keys(reverting.changes).map(fieldLabel).join(", ")} of "{reverting?.propertyTitle}" go back to
+              their values before this change, overwriting any later edits to them. Removed photos cannot be restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revertMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={revertMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (reverting) {
+                  revertMutation.mutate(reverting.id);
+                }
+              }}
+            >
+              {revertMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Revert"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
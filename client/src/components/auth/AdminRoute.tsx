@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from 'react';
-import { useLocation, Redirect } from 'wouter';
+import React from 'react';
+import { Redirect } from 'wouter';
 import { Loader2 } from 'lucide-react';
-import { isAdmin } from '@/lib/authHelpers';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface AdminRouteProps {
   component: React.ComponentType<any>;
@@ -9,24 +9,11 @@ interface AdminRouteProps {
 }
 
 export const AdminRoute: React.FC<AdminRouteProps> = ({ component: Component, ...rest }) => {
-  const [loading, setLoading] = useState(true);
-  const [authorized, setAuthorized] = useState(false);
-  const [location] = useLocation();
+  // AuthContext verifies the session with the server, so the role here is not
+  // just whatever happens to be cached in localStorage
+  const { user, isLoading } = useAuth();
 
-  useEffect(() => {
-    // Check if the user is an admin
-    const checkAdmin = () => {
-      const adminStatus = isAdmin();
-      setAuthorized(adminStatus);
-      setLoading(false);
-    };
-    
-    // Short delay to ensure localStorage is checked
-    const timer = setTimeout(checkAdmin, 300);
-    return () => clearTimeout(timer);
-  }, []);
-
-  if (loading) {
+  if (isLoading) {
     return (
       <div className="flex items-center justify-center h-screen">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -34,10 +21,10 @@ export const AdminRoute: React.FC<AdminRouteProps> = ({ component: Component, ..
     );
   }
 
-  if (!authorized) {
+  if (!user || user.role !== 'admin') {
     // Redirect to simple admin login
     return <Redirect to="/admin/login" />;
   }
 
   return <Component {...rest} />;
-};
\ No newline at end of file
+};
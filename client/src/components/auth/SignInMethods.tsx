@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Spinner } from "@/components/Spinner";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  requestGoogleIdToken,
+  linkGoogleIdentity,
+  type LinkIdentityResult,
+  type SignInMethods as SignInMethodsData,
+} from "@/lib/unifiedAuth";
+
+interface PendingMerge {
+  idToken: string;
+  account: { name: string; email: string };
+}
+
+/**
+ * Profile section listing the password and linked Google accounts of the user, with
+ * actions to link, unlink, set or change them. Linking a Google account that belongs
+ * to another account offers to merge that account into this one.
+ */
+export function SignInMethods() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isBusy, setIsBusy] = useState(false);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [showPasswordForm, setShowPasswordForm] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+
+  const { data: methods, isLoading } = useQuery<SignInMethodsData>({
+    queryKey: ['/users/identities'],
+    queryFn: () => apiRequest<SignInMethodsData>('GET', '/users/identities'),
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/users/identities'] });
+
+  const showError = (message?: string) => {
+    toast({ title: t('auth.failTitle'), description: message, variant: "destructive" });
+  };
+
+  const handleLinkResult = async (result: LinkIdentityResult, idToken: string) => {
+    if (result.success) {
+      toast({ title: t(pendingMerge ? 'profile.signInMethods.mergedToast' : 'profile.signInMethods.linkedToast') });
+      setPendingMerge(null);
+      await refresh();
+    } else if (result.conflict && result.conflictingAccount) {
+      setPendingMerge({ idToken, account: result.conflictingAccount });
+    } else {
+      showError(result.message);
+    }
+  };
+
+  const linkGoogle = async () => {
+    setIsBusy(true);
+    try {
+      const idToken = await requestGoogleIdToken();
+      await handleLinkResult(await linkGoogleIdentity(idToken), idToken);
+    } catch (error: any) {
+      if (error.code !== 'auth/popup-closed-by-user') {
+        showError(error.message);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const confirmMerge = async () => {
+    if (!pendingMerge) return;
+    setIsBusy(true);
+    try {
+      await handleLinkResult(await linkGoogleIdentity(pendingMerge.idToken, true), pendingMerge.idToken);
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const unlink = async (identityId: number) => {
+    setIsBusy(true);
+    try {
+      const response = await apiRequest<{ success: boolean; message?: string }>('DELETE', `/users/identities/${identityId}`);
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      toast({ title: t('profile.signInMethods.unlinkedToast') });
+      await refresh();
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const submitPassword = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsBusy(true);
+    try {
+      const response = await apiRequest<{ success: boolean; message?: string }>('PUT', '/users/identities/password', {
+        currentPassword: methods?.hasPassword ? currentPassword : undefined,
+        newPassword,
+      });
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      toast({ title: t('profile.signInMethods.passwordSavedToast') });
+      setShowPasswordForm(false);
+      setCurrentPassword("");
+      setNewPassword("");
+      await refresh();
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (isLoading || !methods) {
+    return <Spinner size="sm" />;
+  }
+
+  const methodCount = (methods.hasPassword ? 1 : 0) + methods.identities.length;
+
+  return (
+    <div className="space-y-3 border-b pb-3">
+      <span className="text-sm text-muted-foreground">{t('profile.signInMethods.title')}</span>
+
+      <ul className="space-y-2">
+        <li className="flex items-center justify-between">
+          <span className="text-sm font-medium">{t('profile.signInMethods.password')}</span>
+          <span className="text-sm text-slate-500">
+            {methods.hasPassword ? t('profile.signInMethods.passwordSet') : t('profile.signInMethods.passwordNotSet')}
+          </span>
+        </li>
+        {methods.identities.map((identity) => (
+          <li key={identity.id} className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium">
+              {t('profile.signInMethods.google')} <span className="font-normal text-slate-500">{identity.email}</span>
+            </span>
+            <Button size="sm" variant="ghost" disabled={isBusy || methodCount <= 1} onClick={() => unlink(identity.id)}>
+              {t('profile.signInMethods.unlink')}
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      {showPasswordForm ? (
+        <form onSubmit={submitPassword} className="space-y-2">
+          {methods.hasPassword && (
+            <Input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              placeholder={t('profile.signInMethods.currentPassword')}
+              autoComplete="current-password"
+              disabled={isBusy}
+            />
+          )}
+          <Input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder={t('profile.signInMethods.newPassword')}
+            autoComplete="new-password"
+            disabled={isBusy}
+          />
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={isBusy || newPassword.length < 6}>
+              {isBusy ? <Spinner size="sm" className="py-0" /> : t('profile.signInMethods.savePassword')}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setShowPasswordForm(false)}>
+              {t('auth.twoFactor.cancel')}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" disabled={isBusy} onClick={linkGoogle}>
+            {t('profile.signInMethods.linkGoogle')}
+          </Button>
+          <Button size="sm" variant="outline" disabled={isBusy} onClick={() => setShowPasswordForm(true)}>
+            {methods.hasPassword ? t('profile.signInMethods.changePassword') : t('profile.signInMethods.setPassword')}
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(open) => !open && setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('profile.signInMethods.mergeTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('profile.signInMethods.mergeDescription', {
+                name: pendingMerge?.account.name ?? '',
+                email: pendingMerge?.account.email ?? '',
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isBusy}>{t('auth.twoFactor.cancel')}</AlertDialogCancel>
+            <AlertDialogAction disabled={isBusy} onClick={(e) => { e.preventDefault(); confirmMerge(); }}>
+              {t('profile.signInMethods.mergeConfirm')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
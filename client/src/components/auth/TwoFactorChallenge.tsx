@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Spinner } from "@/components/Spinner";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  verifyTwoFactorLogin,
+  startTwoFactorSetup,
+  enableTwoFactor,
+  getCurrentUser,
+  type TwoFactorEnrolment,
+  type User,
+} from "@/lib/unifiedAuth";
+
+interface TwoFactorChallengeProps {
+  // 'verify' asks for a code at sign-in, 'setup' enrols a new authenticator
+  mode: 'verify' | 'setup';
+  onComplete: (user: User | null) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Second step of a sign-in (or a profile enrolment) for accounts with TOTP two-factor authentication.
+ */
+export function TwoFactorChallenge({ mode, onComplete, onCancel }: TwoFactorChallengeProps) {
+  const { t } = useLanguage();
+  const [code, setCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [enrolment, setEnrolment] = useState<TwoFactorEnrolment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    if (mode !== 'setup') return;
+    startTwoFactorSetup()
+      .then(setEnrolment)
+      .catch((err: Error) => setError(err.message));
+  }, [mode]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (mode === 'verify') {
+        const result = await verifyTwoFactorLogin(code);
+        if (result.success && result.user) {
+          onComplete(result.user);
+        } else {
+          setError(result.message || t('auth.twoFactor.invalidCode'));
+          setCode("");
+        }
+      } else {
+        setBackupCodes(await enableTwoFactor(code));
+      }
+    } catch (err: any) {
+      setError(err.message || t('auth.twoFactor.invalidCode'));
+      setCode("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // After enrolment the backup codes are shown exactly once
+  if (backupCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600">{t('auth.twoFactor.backupCodesDescription')}</p>
+        <ul className="grid grid-cols-2 gap-2 rounded-md bg-slate-100 p-4 font-mono text-sm">
+          {backupCodes.map((backupCode) => <li key={backupCode}>{backupCode}</li>)}
+        </ul>
+        <Button className="w-full" onClick={() => onComplete(getCurrentUser())}>
+          {t('auth.twoFactor.backupCodesSaved')}
+        </Button>
+      </div>
+    );
+  }
+
+  if (mode === 'setup' && !enrolment) {
+    return error ? <p className="text-sm text-red-600 text-center">{error}</p> : <Spinner />;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {mode === 'setup' && enrolment && (
+        <div className="space-y-3 text-center">
+          <p className="text-sm text-slate-600">{t('auth.twoFactor.setupDescription')}</p>
+          <img src={enrolment.qrCodeDataUrl} alt={t('auth.twoFactor.qrCodeAlt')} className="mx-auto h-48 w-48" />
+          <p className="text-xs text-slate-500">
+            {t('auth.twoFactor.manualEntry')} <code className="break-all">{enrolment.secret}</code>
+          </p>
+        </div>
+      )}
+
+      {mode === 'verify' && (
+        <p className="text-sm text-slate-600 text-center">
+          {useBackupCode ? t('auth.twoFactor.backupCodePrompt') : t('auth.twoFactor.codePrompt')}
+        </p>
+      )}
+
+      <div className="flex justify-center">
+        {useBackupCode ? (
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="xxxxx-xxxxx"
+            autoComplete="off"
+            disabled={isSubmitting}
+          />
+        ) : (
+          <InputOTP maxLength={6} value={code} onChange={setCode} disabled={isSubmitting} autoFocus>
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => <InputOTPSlot key={index} index={index} />)}
+            </InputOTPGroup>
+          </InputOTP>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+      <Button type="submit" className="w-full" disabled={isSubmitting || code.length < 6}>
+        {isSubmitting ? <Spinner size="sm" className="py-0" /> : t('auth.twoFactor.submit')}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        {mode === 'verify' ? (
+          <button
+            type="button"
+            className="text-primary-600 hover:underline"
+            onClick={() => { setUseBackupCode(!useBackupCode); setCode(""); setError(null); }}
+          >
+            {useBackupCode ? t('auth.twoFactor.useAuthenticator') : t('auth.twoFactor.useBackupCode')}
+          </button>
+        ) : <span />}
+        {onCancel && (
+          <button type="button" className="text-slate-500 hover:underline" onClick={onCancel}>
+            {t('auth.twoFactor.cancel')}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/Spinner";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import { TwoFactorChallenge } from "./TwoFactorChallenge";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  canEnrol: boolean;
+  backupCodesRemaining: number;
+}
+
+type PendingAction = 'setup' | 'disable' | 'backupCodes' | null;
+
+/**
+ * Profile section to enrol, disable or refresh the backup codes of TOTP two-factor authentication.
+ */
+export function TwoFactorSettings() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { refetchUser } = useAuth();
+  const queryClient = useQueryClient();
+  const [action, setAction] = useState<PendingAction>(null);
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/users/2fa'],
+    queryFn: () => apiRequest<TwoFactorStatus>('GET', '/users/2fa'),
+  });
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['/users/2fa'] });
+    await refetchUser();
+  };
+
+  const closeAction = () => {
+    setAction(null);
+    setCode("");
+  };
+
+  const submitCode = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const path = action === 'disable' ? '/users/2fa/disable' : '/users/2fa/backup-codes';
+      const response = await apiRequest<{ success: boolean; message?: string; backupCodes?: string[] }>('POST', path, { code });
+      if (!response.success) {
+        throw new Error(response.message || t('auth.twoFactor.invalidCode'));
+      }
+      if (response.backupCodes) {
+        setBackupCodes(response.backupCodes);
+      } else {
+        toast({ title: t('profile.twoFactor.disabledToast') });
+      }
+      closeAction();
+      await refresh();
+    } catch (error: any) {
+      toast({ title: t('auth.failTitle'), description: error.message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading || !status) {
+    return <Spinner size="sm" />;
+  }
+
+  if (!status.canEnrol) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 border-b pb-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">{t('profile.twoFactor.title')}</span>
+        <Badge variant={status.enabled ? 'secondary' : 'outline'}>
+          {status.enabled ? t('profile.twoFactor.enabled') : t('profile.twoFactor.disabled')}
+        </Badge>
+      </div>
+
+      {status.enabled && (
+        <p className="text-sm text-slate-600">
+          {t('profile.twoFactor.backupCodesRemaining', { count: status.backupCodesRemaining })}
+        </p>
+      )}
+      {status.required && !status.enabled && (
+        <p className="text-sm text-red-600">{t('profile.twoFactor.requiredNotice')}</p>
+      )}
+
+      {backupCodes && (
+        <div className="space-y-2">
+          <p className="text-sm text-slate-600">{t('auth.twoFactor.backupCodesDescription')}</p>
+          <ul className="grid grid-cols-2 gap-2 rounded-md bg-slate-100 p-4 font-mono text-sm">
+            {backupCodes.map((backupCode) => <li key={backupCode}>{backupCode}</li>)}
+          </ul>
+          <Button variant="outline" size="sm" onClick={() => setBackupCodes(null)}>
+            {t('auth.twoFactor.backupCodesSaved')}
+          </Button>
+        </div>
+      )}
+
+      {action === 'setup' && (
+        <TwoFactorChallenge
+          mode="setup"
+          onComplete={() => { closeAction(); refresh(); }}
+          onCancel={closeAction}
+        />
+      )}
+
+      {(action === 'disable' || action === 'backupCodes') && (
+        <form onSubmit={submitCode} className="flex gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={t('profile.twoFactor.codePlaceholder')}
+            autoComplete="one-time-code"
+            disabled={isSubmitting}
+          />
+          <Button type="submit" disabled={isSubmitting || code.length < 6}>
+            {isSubmitting ? <Spinner size="sm" className="py-0" /> : t('auth.twoFactor.submit')}
+          </Button>
+          <Button type="button" variant="ghost" onClick={closeAction}>{t('auth.twoFactor.cancel')}</Button>
+        </form>
+      )}
+
+      {!action && !backupCodes && (
+        <div className="flex flex-wrap gap-2">
+          {!status.enabled && (
+            <Button size="sm" onClick={() => setAction('setup')}>{t('profile.twoFactor.enable')}</Button>
+          )}
+          {status.enabled && (
+            <Button size="sm" variant="outline" onClick={() => setAction('backupCodes')}>
+              {t('profile.twoFactor.regenerateBackupCodes')}
+            </Button>
+          )}
+          {status.enabled && !status.required && (
+            <Button size="sm" variant="outline" onClick={() => setAction('disable')}>
+              {t('profile.twoFactor.disable')}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,7 +11,9 @@ import {
   MessageSquare,
   Settings,
   AlertTriangle,
-  MapPin
+  MapPin,
+  Copy,
+  LocateFixed
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { isAdmin, logout } from "@/lib/unifiedAuth";
@@ -85,6 +87,20 @@ export function AdminLayout({ children }: AdminLayoutProps) {
               label="Properties"
               active={location === "/admin/properties"}
             />
+
+            <NavItem 
+              href="/admin/duplicates" 
+              icon={<Copy className="h-4 w-4 mr-2" />}
+              label="Duplicates"
+              active={location === "/admin/duplicates"}
+            />
+
+            <NavItem 
+              href="/admin/geocoding" 
+              icon={<LocateFixed className="h-4 w-4 mr-2" />}
+              label="Geocoding"
+              active={location === "/admin/geocoding"}
+            />
             
             <NavItem 
               href="/admin/users" 
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/Spinner";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ApiKey {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  rateLimitPerMinute: number;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface ApiKeyList {
+  keys: ApiKey[];
+  availableScopes: string[];
+}
+
+/**
+ * Profile section where agents create and revoke partner API keys for their CRM integrations.
+ */
+export function ApiKeySettings() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>(['properties:read']);
+  const [rateLimit, setRateLimit] = useState("60");
+  const [isBusy, setIsBusy] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<ApiKeyList>({
+    queryKey: ['/users/api-keys'],
+    queryFn: () => apiRequest<ApiKeyList>('GET', '/users/api-keys'),
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/users/api-keys'] });
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes((current) => checked ? [...current, scope] : current.filter((s) => s !== scope));
+  };
+
+  const createKey = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsBusy(true);
+    try {
+      const response = await apiRequest<{ key: string }>('POST', '/users/api-keys', {
+        name,
+        scopes,
+        rateLimitPerMinute: parseInt(rateLimit, 10) || 60,
+      });
+      setCreatedKey(response.key);
+      setShowForm(false);
+      setName("");
+      await refresh();
+    } catch (error: any) {
+      toast({ title: t('auth.failTitle'), description: error.message, variant: "destructive" });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const revokeKey = async (keyId: number) => {
+    setIsBusy(true);
+    try {
+      await apiRequest('DELETE', `/users/api-keys/${keyId}`);
+      toast({ title: t('profile.apiKeys.revokedToast') });
+      await refresh();
+    } catch (error: any) {
+      toast({ title: t('auth.failTitle'), description: error.message, variant: "destructive" });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (isLoading || !data) {
+    return <Spinner size="sm" />;
+  }
+
+  return (
+    <div className="space-y-3 border-b pb-3">
+      <div>
+        <span className="text-sm text-muted-foreground">{t('profile.apiKeys.title')}</span>
+        <p className="text-xs text-slate-500">{t('profile.apiKeys.description')}</p>
+      </div>
+
+      {createdKey && (
+        <div className="space-y-2 rounded-md bg-slate-100 p-3">
+          <p className="text-sm text-slate-600">{t('profile.apiKeys.copyNotice')}</p>
+          <code className="block break-all text-sm">{createdKey}</code>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => navigator.clipboard.writeText(createdKey)}>
+              {t('profile.apiKeys.copy')}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setCreatedKey(null)}>{t('profile.apiKeys.done')}</Button>
+          </div>
+        </div>
+      )}
+
+      {data.keys.length > 0 ? (
+        <ul className="space-y-2">
+          {data.keys.map((key) => (
+            <li key={key.id} className="flex items-start justify-between gap-2">
+              <div className="space-y-1">
+                <div className="text-sm font-medium">
+                  {key.name} <code className="font-normal text-slate-500">{key.prefix}…</code>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {key.scopes.map((scope) => <Badge key={scope} variant="outline">{scope}</Badge>)}
+                  {key.revokedAt && <Badge variant="destructive">{t('profile.apiKeys.revoked')}</Badge>}
+                </div>
+                <p className="text-xs text-slate-500">
+                  {t('profile.apiKeys.rateLimit', { count: key.rateLimitPerMinute })}
+                  {' · '}
+                  {key.lastUsedAt
+                    ? t('profile.apiKeys.lastUsed', { date: new Date(key.lastUsedAt).toLocaleString() })
+                    : t('profile.apiKeys.neverUsed')}
+                </p>
+              </div>
+              {!key.revokedAt && (
+                <Button size="sm" variant="ghost" className="text-red-600" disabled={isBusy} onClick={() => revokeKey(key.id)}>
+                  {t('profile.apiKeys.revoke')}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500">{t('profile.apiKeys.empty')}</p>
+      )}
+
+      {showForm ? (
+        <form onSubmit={createKey} className="space-y-3">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t('profile.apiKeys.namePlaceholder')}
+            disabled={isBusy}
+          />
+          <div className="flex flex-wrap gap-4">
+            {data.availableScopes.map((scope) => (
+              <div key={scope} className="flex items-center gap-2">
+                <Checkbox
+                  id={`api-key-scope-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                />
+                <Label htmlFor={`api-key-scope-${scope}`} className="text-sm">{scope}</Label>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="api-key-rate-limit" className="text-sm">{t('profile.apiKeys.rateLimitLabel')}</Label>
+            <Input
+              id="api-key-rate-limit"
+              type="number"
+              min={1}
+              max={600}
+              className="w-24"
+              value={rateLimit}
+              onChange={(e) => setRateLimit(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={isBusy || !name.trim() || scopes.length === 0}>
+              {isBusy ? <Spinner size="sm" className="py-0" /> : t('profile.apiKeys.create')}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setShowForm(false)}>
+              {t('auth.twoFactor.cancel')}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button size="sm" variant="outline" onClick={() => setShowForm(true)}>{t('profile.apiKeys.new')}</Button>
+      )}
+    </div>
+  );
+}
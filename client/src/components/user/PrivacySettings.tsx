@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Spinner } from "@/components/Spinner";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ErasureRequest {
+  id: number;
+  dueAt: string;
+  requestedAt: string;
+}
+
+/**
+ * Profile section to download all personal data and to request (or cancel) account erasure.
+ */
+export function PrivacySettings() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isBusy, setIsBusy] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const { data, isLoading } = useQuery<{ request: ErasureRequest | null }>({
+    queryKey: ['/users/privacy/erasure'],
+    queryFn: () => apiRequest<{ request: ErasureRequest | null }>('GET', '/users/privacy/erasure'),
+  });
+  const pendingRequest = data?.request;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast({ title: t('auth.failTitle'), description: error.message, variant: "destructive" });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const downloadData = () => run(async () => {
+    const archive = await apiRequest<unknown>('GET', '/users/privacy/export');
+    const url = URL.createObjectURL(new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `homeharbor-data-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  });
+
+  const requestErasure = () => run(async () => {
+    const response = await apiRequest<{ success: boolean; message?: string }>('POST', '/users/privacy/erasure', {
+      reason: reason.trim() || undefined,
+    });
+    if (!response.success) {
+      throw new Error(response.message);
+    }
+    setConfirmOpen(false);
+    setReason("");
+    toast({ title: t('profile.privacy.erasureRequestedToast') });
+    await queryClient.invalidateQueries({ queryKey: ['/users/privacy/erasure'] });
+  });
+
+  const cancelErasure = () => run(async () => {
+    await apiRequest('DELETE', '/users/privacy/erasure');
+    toast({ title: t('profile.privacy.erasureCancelledToast') });
+    await queryClient.invalidateQueries({ queryKey: ['/users/privacy/erasure'] });
+  });
+
+  if (isLoading) {
+    return <Spinner size="sm" />;
+  }
+
+  return (
+    <div className="space-y-3 border-b pb-3">
+      <span className="text-sm text-muted-foreground">{t('profile.privacy.title')}</span>
+
+      {pendingRequest && (
+        <p className="text-sm text-red-600">
+          {t('profile.privacy.erasurePending', { date: new Date(pendingRequest.dueAt).toLocaleDateString() })}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" disabled={isBusy} onClick={downloadData}>
+          {t('profile.privacy.downloadData')}
+        </Button>
+        {pendingRequest ? (
+          <Button size="sm" variant="outline" disabled={isBusy} onClick={cancelErasure}>
+            {t('profile.privacy.cancelErasure')}
+          </Button>
+        ) : user?.role !== 'admin' && (
+          <Button size="sm" variant="outline" className="text-red-600" disabled={isBusy} onClick={() => setConfirmOpen(true)}>
+            {t('profile.privacy.requestErasure')}
+          </Button>
+        )}
+      </div>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('profile.privacy.erasureTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('profile.privacy.erasureDescription')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={t('profile.privacy.reasonPlaceholder')}
+            maxLength={1000}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isBusy}>{t('auth.twoFactor.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isBusy}
+              className="bg-red-600 hover:bg-red-700"
+              onClick={(e) => { e.preventDefault(); requestErasure(); }}
+            >
+              {t('profile.privacy.confirmErasure')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useRef, useState } from "react";
+import { Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { importProperties, importTemplateUrl, type ImportReport } from "@/lib/propertyImport";
+
+interface PropertyImportDialogProps {
+  onImported?: () => void;
+}
+
+/**
+ * Bulk listing import for agents: checks a CSV or XLSX file with a dry run,
+ * shows the rows that would be skipped, and imports the valid rows on confirmation.
+ */
+export function PropertyImportDialog({ onImported }: PropertyImportDialogProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setReport(null);
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!file) return;
+    setIsBusy(true);
+    try {
+      const result = await importProperties(file, dryRun);
+      if (dryRun) {
+        setReport(result);
+      } else {
+        toast({
+          title: t('propertyImport.imported'),
+          description: t('propertyImport.importedDescription', { created: result.created, updated: result.updated }),
+        });
+        reset();
+        setOpen(false);
+        onImported?.();
+      }
+    } catch (error: any) {
+      toast({ title: t('propertyImport.failed'), description: error.message, variant: "destructive" });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const invalidRows = report?.rows.filter((row) => row.errors.length > 0) ?? [];
+  const importable = report ? report.created + report.updated : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileSpreadsheet className="mr-2 h-4 w-4" /> {t('propertyImport.open')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('propertyImport.title')}</DialogTitle>
+          <DialogDescription>{t('propertyImport.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.xlsx"
+              className="text-sm"
+              onChange={(e) => { setFile(e.target.files?.[0] ?? null); setReport(null); }}
+            />
+            <a href={importTemplateUrl} className="inline-flex items-center text-sm text-primary-600 hover:underline">
+              <Download className="mr-1 h-4 w-4" /> {t('propertyImport.template')}
+            </a>
+          </div>
+
+          {report && (
+            <div className="space-y-3 text-sm">
+              <p>{t('propertyImport.summary', { created: report.created, updated: report.updated, skipped: report.skipped })}</p>
+              {report.ignoredColumns.length > 0 && (
+                <p className="text-slate-500">{t('propertyImport.ignoredColumns', { columns: report.ignoredColumns.join(", ") })}</p>
+              )}
+              {invalidRows.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('propertyImport.row')}</TableHead>
+                      <TableHead>{t('propertyImport.reference')}</TableHead>
+                      <TableHead>{t('propertyImport.errors')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invalidRows.map((row) => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>{row.externalRef || row.title || "—"}</TableCell>
+                        <TableCell>
+                          <ul className="space-y-1">
+                            {row.errors.map((error) => (
+                              <li key={error.field}>
+                                <span className="font-medium">{error.field}</span>: {error.message}
+                              </li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {report ? (
+            <Button disabled={isBusy || importable === 0} onClick={() => run(false)}>
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('propertyImport.import', { count: importable })}
+            </Button>
+          ) : (
+            <Button disabled={isBusy || !file} onClick={() => run(true)}>
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('propertyImport.check')}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Check, Loader2, Star, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { applicationStatusClasses, isOpenApplication, type RentalApplicationView } from "@/lib/rentalApplications";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+interface RentalApplicationsReceivedProps {
+  // Called after an acceptance, which marks the listing rented
+  onListingRented?: () => void;
+}
+
+/**
+ * Applications for the landlord's rental listings, grouped by listing. The landlord
+ * shortlists, declines or accepts them; accepting one rents out the listing.
+ */
+export function RentalApplicationsReceived({ onListingRented }: RentalApplicationsReceivedProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [accepting, setAccepting] = useState<RentalApplicationView | null>(null);
+
+  const { data, isLoading } = useQuery<{ applications: RentalApplicationView[] }>({
+    queryKey: ['/rental-applications/received'],
+    queryFn: () => apiRequest('GET', '/rental-applications/received'),
+  });
+
+  const statusMutation = useMutation<unknown, Error, { id: number; status: string }>({
+    mutationFn: ({ id, status }) => apiRequest('PUT', `/rental-applications/${id}/status`, { status }),
+    onSuccess: (_result, { status }) => {
+      toast({ title: t(`rentalApplications.updated.${status}`) });
+      queryClient.invalidateQueries({ queryKey: ['/rental-applications/received'] });
+      if (status === 'accepted') onListingRented?.();
+    },
+    onError: (error) => toast({ title: t('rentalApplications.failed'), description: error.message, variant: "destructive" }),
+    onSettled: () => setAccepting(null),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const applications = data?.applications ?? [];
+  if (applications.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('rentalApplications.noneReceived')}</p>;
+  }
+
+  const byListing = new Map<number, RentalApplicationView[]>();
+  for (const application of applications) {
+    byListing.set(application.propertyId, [...(byListing.get(application.propertyId) ?? []), application]);
+  }
+
+  return (
+    <div className="space-y-6">
+      {Array.from(byListing.values()).map((group) => (
+        <section key={group[0].propertyId} className="space-y-3">
+          <h3 className="font-semibold">
+            <Link href={`/property/${group[0].property.id}`} className="hover:underline">{group[0].property.title}</Link>
+            <span className="ml-2 text-sm font-normal text-muted-foreground">
+              {group[0].property.address}, {group[0].property.city}
+              {group[0].property.status === 'rented' && ` · ${t('rentalApplications.rented')}`}
+            </span>
+          </h3>
+          {group.map((application) => (
+            <Card key={application.id} className={isOpenApplication(application) ? '' : 'opacity-70'}>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 p-4">
+                <div>
+                  <CardTitle className="text-base font-medium flex items-center gap-2">
+                    {application.contact.name}
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${applicationStatusClasses[application.status]}`}>
+                      {t(`rentalApplications.status.${application.status}`)}
+                    </span>
+                  </CardTitle>
+                  <CardDescription className="mt-1">
+                    {application.contact.email}
+                    {application.contact.phone && ` · ${application.contact.phone}`}
+                  </CardDescription>
+                </div>
+                {isOpenApplication(application) && (
+                  <div className="flex flex-wrap gap-2">
+                    {application.status === 'submitted' && (
+                      <Button variant="outline" size="sm" disabled={statusMutation.isPending} onClick={() => statusMutation.mutate({ id: application.id, status: 'shortlisted' })}>
+                        <Star className="mr-1 h-4 w-4" /> {t('rentalApplications.shortlist')}
+                      </Button>
+                    )}
+                    <Button size="sm" disabled={statusMutation.isPending || application.property.status !== 'active'} onClick={() => setAccepting(application)}>
+                      <Check className="mr-1 h-4 w-4" /> {t('rentalApplications.accept')}
+                    </Button>
+                    <Button variant="ghost" size="sm" disabled={statusMutation.isPending} onClick={() => statusMutation.mutate({ id: application.id, status: 'declined' })}>
+                      <X className="mr-1 h-4 w-4" /> {t('rentalApplications.decline')}
+                    </Button>
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent className="px-4 pb-4 pt-0 text-sm text-muted-foreground space-y-1">
+                <p>
+                  {t('rentalApplications.summary', {
+                    count: application.householdSize,
+                    date: new Date(`${application.moveInDate}T00:00`).toLocaleDateString(),
+                    income: t(`rentalApplications.income.${application.incomeRange}`),
+                  })}
+                  {application.pets && ` · ${t('rentalApplications.hasPets')}`}
+                </p>
+                {application.message && <p className="whitespace-pre-line">{application.message}</p>}
+              </CardContent>
+            </Card>
+          ))}
+        </section>
+      ))}
+
+      <AlertDialog open={!!accepting} onOpenChange={(next) => !next && setAccepting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('rentalApplications.acceptTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('rentalApplications.acceptDescription', { name: accepting?.contact.name ?? '', title: accepting?.property.title ?? '' })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={statusMutation.isPending}>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={statusMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (accepting) statusMutation.mutate({ id: accepting.id, status: 'accepted' });
+              }}
+            >
+              {statusMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : t('rentalApplications.accept')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
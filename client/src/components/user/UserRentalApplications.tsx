@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { applicationStatusClasses, isOpenApplication, type RentalApplicationView } from "@/lib/rentalApplications";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+/**
+ * Rental applications the user sent, with their status and the landlord's contact details.
+ */
+export function UserRentalApplications() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ applications: RentalApplicationView[] }>({
+    queryKey: ['/rental-applications/mine'],
+    queryFn: () => apiRequest('GET', '/rental-applications/mine'),
+  });
+
+  const withdrawMutation = useMutation<unknown, Error, number>({
+    mutationFn: (applicationId) => apiRequest('DELETE', `/rental-applications/${applicationId}`),
+    onSuccess: () => {
+      toast({ title: t('rentalApplications.withdrawn') });
+      queryClient.invalidateQueries({ queryKey: ['/rental-applications/mine'] });
+    },
+    onError: (error) => toast({ title: t('rentalApplications.failed'), description: error.message, variant: "destructive" }),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const applications = data?.applications ?? [];
+  if (applications.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('rentalApplications.noneSent')}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {applications.map((application) => (
+        <Card key={application.id} className={isOpenApplication(application) || application.status === 'accepted' ? '' : 'opacity-60'}>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 p-4">
+            <div>
+              <CardTitle className="text-base font-medium flex items-center gap-2">
+                <Link href={`/property/${application.property.id}`} className="hover:underline">
+                  {application.property.title}
+                </Link>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${applicationStatusClasses[application.status]}`}>
+                  {t(`rentalApplications.status.${application.status}`)}
+                </span>
+              </CardTitle>
+              <CardDescription className="mt-1">
+                {application.property.address}, {application.property.city}
+                {' · '}{t('rentalApplications.appliedOn', { date: new Date(application.createdAt).toLocaleDateString() })}
+              </CardDescription>
+              {application.status === 'accepted' && (
+                <p className="mt-2 text-sm text-muted-foreground">
+                  {t('rentalApplications.landlord')}: {application.contact.name} · {application.contact.email}
+                  {application.contact.phone && ` · ${application.contact.phone}`}
+                </p>
+              )}
+            </div>
+            {isOpenApplication(application) && (
+              <Button variant="outline" size="sm" disabled={withdrawMutation.isPending} onClick={() => withdrawMutation.mutate(application.id)}>
+                {t('rentalApplications.withdraw')}
+              </Button>
+            )}
+          </CardHeader>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { CalendarClock, Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { formatViewingTime, viewingsCalendarUrl, type ViewingBookingView } from "@/lib/viewings";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+interface MyViewings {
+  booked: ViewingBookingView[];
+  hosted: ViewingBookingView[];
+}
+
+/**
+ * Viewings the user booked and bookings on their own listings, with cancellation
+ * and a calendar download.
+ */
+export function UserViewings() {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<MyViewings>({
+    queryKey: ['/viewings/mine'],
+    queryFn: () => apiRequest('GET', '/viewings/mine'),
+  });
+
+  const cancelMutation = useMutation<unknown, Error, number>({
+    mutationFn: (bookingId) => apiRequest('DELETE', `/viewings/bookings/${bookingId}`),
+    onSuccess: () => {
+      toast({ title: t('viewings.cancelled') });
+      queryClient.invalidateQueries({ queryKey: ['/viewings/mine'] });
+      queryClient.invalidateQueries({ queryKey: ['/viewings/property'] });
+    },
+    onError: (error) => toast({ title: t('viewings.failed'), description: error.message, variant: "destructive" }),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const renderBooking = (booking: ViewingBookingView, hosted: boolean) => {
+    const isPast = new Date(booking.slot.endsAt).getTime() <= Date.now();
+    return (
+      <Card key={booking.id} className={booking.status === 'cancelled' || isPast ? 'opacity-60' : ''}>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 p-4">
+          <div>
+            <CardTitle className="text-base font-medium flex items-center gap-2">
+              <CalendarClock className="h-4 w-4 text-primary" />
+              {formatViewingTime(booking.slot.startsAt, booking.slot.endsAt, language)}
+              {booking.slot.type === 'open_house' && <Badge variant="secondary">{t('viewings.openHouse')}</Badge>}
+              {booking.status === 'cancelled' && <Badge variant="outline">{t('viewings.status.cancelled')}</Badge>}
+            </CardTitle>
+            <CardDescription className="mt-1">
+              <Link href={`/property/${booking.property.id}`} className="text-blue-600 hover:underline">
+                {booking.property.title}
+              </Link>
+              {' · '}{booking.property.address}, {booking.property.city}
+            </CardDescription>
+          </div>
+          {booking.status === 'booked' && !isPast && (
+            <Button variant="outline" size="sm" disabled={cancelMutation.isPending} onClick={() => cancelMutation.mutate(booking.id)}>
+              {t('viewings.cancel')}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="px-4 pb-4 pt-0 text-sm text-muted-foreground space-y-1">
+          <p>
+            {t(hosted ? 'viewings.buyer' : 'viewings.seller')}: {booking.contact.name} · {booking.contact.email}
+            {booking.contact.phone && ` · ${booking.contact.phone}`}
+          </p>
+          {booking.note && <p>{t('viewings.note')}: {booking.note}</p>}
+          {booking.slot.notes && <p>{booking.slot.notes}</p>}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const booked = data?.booked ?? [];
+  const hosted = data?.hosted ?? [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-end">
+        <a href={viewingsCalendarUrl} className="inline-flex items-center text-sm text-primary-600 hover:underline">
+          <Download className="mr-1 h-4 w-4" /> {t('viewings.calendar')}
+        </a>
+      </div>
+
+      <section className="space-y-3">
+        <h3 className="text-lg font-semibold">{t('viewings.myBookings')}</h3>
+        {booked.length > 0
+          ? booked.map((booking) => renderBooking(booking, false))
+          : <p className="text-sm text-muted-foreground">{t('viewings.noBookings')}</p>}
+      </section>
+
+      {hosted.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="text-lg font-semibold">{t('viewings.onMyListings')}</h3>
+          {hosted.map((booking) => renderBooking(booking, true))}
+        </section>
+      )}
+    </div>
+  );
+}
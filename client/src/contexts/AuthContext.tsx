@@ -3,6 +3,7 @@
 import React, { createContext, useState, useEffect, useContext, useCallback, ReactNode } from 'react';
 import {
   User,
+  LoginResult,
   getCurrentUser,
   login as apiLogin,
   loginWithGoogle as apiLoginWithGoogle,
@@ -14,8 +15,9 @@ import { Spinner } from '@/components/Spinner'; // Assuming you have a Spinner
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  login: (usernameOrEmail: string, password: string) => Promise<{ success: boolean; message?: string }>;
-  googleLogin: () => Promise<{ success: boolean; message?: string }>;
+  // When `twoFactorRequired`/`twoFactorSetupRequired` is set, the login continues in TwoFactorChallenge
+  login: (usernameOrEmail: string, password: string) => Promise<Omit<LoginResult, 'user'>>;
+  googleLogin: () => Promise<Omit<LoginResult, 'user'>>;
   logout: () => Promise<boolean>;
   refetchUser: () => Promise<void>; // Function to manually refetch user data
 }
@@ -31,9 +33,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setIsLoading(true);
     let currentUser: User | null = getCurrentUser(); // Check local storage first
 
-    if (currentUser && checkApi) {
-        // If user found in storage, verify/refresh with API
-        console.log("[AuthContext] Verifying stored user with API...");
+    if (checkApi) {
+        // The server session is authoritative; the stored user is only a cache
+        console.log("[AuthContext] Verifying session with API...");
         currentUser = await fetchUserProfile(); // fetchUserProfile handles storing/clearing
     } else if (!currentUser) {
         console.log("[AuthContext] No user found in storage.");
@@ -69,21 +71,23 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }, [updateUserState]); // Depend on updateUserState
 
   // Login function
-  const login = useCallback(async (usernameOrEmail: string, password: string): Promise<{ success: boolean; message?: string }> => {
+  const login = useCallback(async (usernameOrEmail: string, password: string): Promise<Omit<LoginResult, 'user'>> => {
     setIsLoading(true);
     const result = await apiLogin(usernameOrEmail, password); // Calls unifiedAuth login
     // unifiedAuth.login handles storing the user, which triggers the event listener to update state
     setIsLoading(false);
-    return { success: result.success, message: result.message };
+    const { success, message, twoFactorRequired, twoFactorSetupRequired } = result;
+    return { success, message, twoFactorRequired, twoFactorSetupRequired };
   }, []);
 
   // Google Login function
-  const googleLogin = useCallback(async (): Promise<{ success: boolean; message?: string }> => {
+  const googleLogin = useCallback(async (): Promise<Omit<LoginResult, 'user'>> => {
     setIsLoading(true);
     const result = await apiLoginWithGoogle(); // Calls unifiedAuth google login
     // unifiedAuth.loginWithGoogle handles storing the user, triggering the event listener
     setIsLoading(false);
-    return { success: result.success, message: result.message };
+    const { success, message, twoFactorRequired, twoFactorSetupRequired } = result;
+    return { success, message, twoFactorRequired, twoFactorSetupRequired };
   }, []);
 
   // Logout function
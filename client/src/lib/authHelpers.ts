@@ -2,6 +2,8 @@
  * Simple authentication helpers for direct auth without context dependencies
  */
 
+import config from '../config';
+
 export interface User {
   id: number;
   name: string;
@@ -43,19 +45,27 @@ export function isAdmin(): boolean {
 
 /**
  * Log out the user
+ * Ends the server-side session, then clears the cached user.
  * @param redirectUrl Optional URL to redirect to after logout
  */
-export function logout(redirectUrl: string = '/'): void {
+export async function logout(redirectUrl: string = '/'): Promise<void> {
   console.log("Logging out user");
+  try {
+    await fetch(`${config.apiBaseUrl}/users/logout`, { method: 'POST', credentials: 'include' });
+  } catch (err) {
+    console.error('Error ending server session:', err);
+  }
+
   // Clear user data from localStorage
   localStorage.removeItem('currentUser');
   
   // Dispatch event for components that listen to auth changes
   window.dispatchEvent(new Event('storage'));
+  window.dispatchEvent(new Event('auth-state-changed'));
   
   // If redirect URL provided, navigate there
   if (redirectUrl) {
     console.log("Redirecting to:", redirectUrl);
     window.location.href = redirectUrl;
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { fromSquareMetres, isAreaUnit, toSquareMetres, type AreaUnit } from '@shared/units';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 // Define currency settings type for clarity
 export interface CurrencySettings {
@@ -89,4 +91,59 @@ export function useCurrency() {
     settings: currencySettings,
     formatPrice: formatPriceWithCurrentSettings,
   };
-}
\ No newline at end of file
+}
+
+// The visitor's area unit is kept in the browser, like their language
+const AREA_UNIT_STORAGE_KEY = 'homeHarborAreaUnit';
+const AREA_UNIT_QUERY_KEY = ['preferences', 'areaUnit'];
+
+const storedAreaUnit = (): AreaUnit => {
+  const saved = localStorage.getItem(AREA_UNIT_STORAGE_KEY);
+  return isAreaUnit(saved) ? saved : 'sqm';
+};
+
+/**
+ * Format an area in the given unit
+ * @param squareMetres - The area as stored, in square metres
+ * @param unit - Unit to show the area in
+ * @param label - Unit label, e.g. "m²"
+ * @returns Formatted area string
+ */
+export function formatArea(squareMetres: number, unit: AreaUnit, label: string): string {
+  const value = fromSquareMetres(squareMetres, unit);
+  return `${value.toLocaleString('en-US', { maximumFractionDigits: unit === 'sqft' ? 0 : 1 })} ${label}`;
+}
+
+/**
+ * React hook for the visitor's preferred area unit and converting areas to and from it
+ * @returns Object with the unit, its label, a setter, and formatter and conversion functions
+ */
+export function useAreaUnit() {
+  const queryClient = useQueryClient();
+  const { t } = useLanguage();
+
+  // Kept in the query cache so every component re-renders when the unit changes
+  const { data: unit } = useQuery<AreaUnit>({
+    queryKey: AREA_UNIT_QUERY_KEY,
+    queryFn: storedAreaUnit,
+    initialData: storedAreaUnit,
+    staleTime: Infinity,
+  });
+
+  const setUnit = (newUnit: AreaUnit) => {
+    localStorage.setItem(AREA_UNIT_STORAGE_KEY, newUnit);
+    queryClient.setQueryData(AREA_UNIT_QUERY_KEY, newUnit);
+  };
+
+  const label = t(`units.${unit}`);
+
+  return {
+    unit,
+    label,
+    setUnit,
+    formatArea: (squareMetres: number) => formatArea(squareMetres, unit, label),
+    // Areas as entered in the preferred unit, rounded for form fields and filters
+    fromSquareMetres: (squareMetres: number) => Math.round(fromSquareMetres(squareMetres, unit) * 10) / 10,
+    toSquareMetres: (value: number) => toSquareMetres(value, unit),
+  };
+}
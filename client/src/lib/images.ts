@@ -0,0 +1,63 @@
+import config from '../config';
+
+export type ImageSize = 'thumbnail' | 'medium' | 'large';
+
+// Uploaded listing photos are stored as <key>-large.webp next to their smaller variants
+const LARGE_SUFFIX = '-large.webp';
+const SUFFIXES: Record<ImageSize, string> = {
+  thumbnail: '-thumb.webp',
+  medium: '-medium.webp',
+  large: LARGE_SUFFIX,
+};
+// Longest edge of each variant, as generated by the server
+const WIDTHS: Record<ImageSize, number> = {
+  thumbnail: 400,
+  medium: 960,
+  large: 1920,
+};
+
+export interface UploadedImage {
+  url: string;
+  mediumUrl: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
+
+const isUploadedImage = (url: string) => url.endsWith(LARGE_SUFFIX);
+
+/**
+ * URL of the given size of a listing image. External image URLs only come in one size.
+ */
+export function imageVariant(url: string, size: ImageSize): string {
+  return isUploadedImage(url) ? url.slice(0, -LARGE_SUFFIX.length) + SUFFIXES[size] : url;
+}
+
+/**
+ * srcSet value letting the browser choose a size of an uploaded image, or undefined for external images.
+ */
+export function imageSrcSet(url: string): string | undefined {
+  if (!isUploadedImage(url)) return undefined;
+  return (Object.keys(WIDTHS) as ImageSize[])
+    .map((size) => `${imageVariant(url, size)} ${WIDTHS[size]}w`)
+    .join(', ');
+}
+
+/**
+ * Uploads listing photos; the returned `url`s are what gets saved in a listing's images.
+ */
+export async function uploadImages(files: File[]): Promise<UploadedImage[]> {
+  const body = new FormData();
+  files.forEach((file) => body.append('images', file));
+
+  const res = await fetch(`${config.apiBaseUrl}/uploads/images`, {
+    method: 'POST',
+    body,
+    credentials: 'include',
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(json.error || `${res.status}: ${res.statusText}`);
+  }
+  return json.images as UploadedImage[];
+}
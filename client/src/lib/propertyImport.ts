@@ -0,0 +1,46 @@
+import config from '../config';
+
+export interface ImportFieldError {
+  field: string;
+  message: string;
+}
+
+export interface ImportRowResult {
+  row: number;
+  externalRef: string | null;
+  title: string | null;
+  action: 'create' | 'update' | 'skip';
+  propertyId?: number;
+  errors: ImportFieldError[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  skipped: number;
+  ignoredColumns: string[];
+  rows: ImportRowResult[];
+}
+
+export const importTemplateUrl = `${config.apiBaseUrl}/properties/import/template`;
+
+/**
+ * Sends a CSV or XLSX listing file to the import endpoint. A dry run only validates the rows;
+ * otherwise the valid rows are imported and the invalid ones skipped.
+ */
+export async function importProperties(file: File, dryRun: boolean): Promise<ImportReport> {
+  const body = new FormData();
+  body.append('file', file);
+
+  const res = await fetch(`${config.apiBaseUrl}/properties/import?dryRun=${dryRun}`, {
+    method: 'POST',
+    body,
+    credentials: 'include',
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(json.error || `${res.status}: ${res.statusText}`);
+  }
+  return json as ImportReport;
+}
@@ -28,7 +28,7 @@ export async function apiRequest<T = any>(
     });
 
     // Adjust the check for auth routes if needed based on relativePath
-    if (relativePath.includes('/login') || relativePath.includes('/firebase-auth') || relativePath.includes('/logout')) {
+    if (relativePath.includes('/login') || relativePath.includes('/firebase-auth') || relativePath.includes('/logout') || relativePath.includes('/2fa/') || relativePath.includes('/identities')) {
       const jsonResponse = await res.json();
       console.log(`Auth API Response:`, jsonResponse);
       return jsonResponse as T;
@@ -0,0 +1,26 @@
+import type { RentalApplication, RentalApplicationStatus } from '@shared/schema';
+
+// Dates arrive as JSON strings
+type Dated<T, K extends keyof T> = Omit<T, K> & { [P in K]: string };
+
+export type RentalApplicationView = Dated<RentalApplication, 'createdAt' | 'updatedAt' | 'decidedAt'> & {
+  status: RentalApplicationStatus;
+  property: { id: number; title: string; address: string; city: string; price: number; status: string };
+  // The landlord for the applicant, the applicant for the landlord
+  contact: { name: string; email: string; phone: string | null };
+};
+
+export const RENTAL_LISTING_TYPES = ['rent', 'pg'];
+
+// Applications the landlord has not decided on yet
+export const isOpenApplication = (application: { status: string }) =>
+  application.status === 'submitted' || application.status === 'shortlisted';
+
+// Badge colours by application status
+export const applicationStatusClasses: Record<RentalApplicationStatus, string> = {
+  submitted: 'bg-slate-100 text-slate-700',
+  shortlisted: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  withdrawn: 'bg-slate-100 text-slate-500',
+};
@@ -25,10 +25,20 @@ export interface User {
   role: 'user' | 'agent' | 'admin';
   photoURL?: string | null;
   firebaseUid?: string | null; // For linking Firebase accounts
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
+  impersonation?: Impersonator | null; // Set while an admin is viewing the site as this user
   createdAt?: string | Date; // Optional, depending on backend response
   // Add any other relevant fields returned by your backend
 }
 
+// The admin behind an impersonated session
+export interface Impersonator {
+  id: number;
+  name: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
 // --- Storage and Event Constants ---
 const USER_STORAGE_KEY = 'currentUser';
 const AUTH_EVENT = 'auth-state-changed'; // Custom event name
@@ -123,26 +133,73 @@ export function isAgent(): boolean {
 
 // --- Authentication Methods ---
 
+/**
+ * Result of a sign-in attempt. When a second factor is needed, `user` is absent and
+ * the login must be finished with `verifyTwoFactorLogin` or the enrolment functions.
+ */
+export interface LoginResult {
+  success: boolean;
+  user?: User;
+  message?: string;
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+}
+
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface LinkedIdentity {
+  id: number;
+  provider: string;
+  providerUid: string;
+  signInProvider: string | null;
+  email: string | null;
+  linkedAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface SignInMethods {
+  hasPassword: boolean;
+  identities: LinkedIdentity[];
+}
+
+/**
+ * Result of linking an identity. `conflict` means it belongs to another account,
+ * which is only merged into this one when linking again with `merge`.
+ */
+export interface LinkIdentityResult {
+  success: boolean;
+  message?: string;
+  conflict?: boolean;
+  conflictingAccount?: { name: string; email: string };
+}
+
 /**
  * Logs in a user with username/email and password via the backend API.
  * @param {string} usernameOrEmail - The user's username or email.
  * @param {string} password - The user's password.
  * @returns {Promise<{success: boolean, user?: User, message?: string}>} Result object.
  */
-export async function login(usernameOrEmail: string, password: string): Promise<{
-  success: boolean;
-  user?: User;
-  message?: string;
-}> {
+export async function login(usernameOrEmail: string, password: string): Promise<LoginResult> {
   console.log(`[unifiedAuth] Attempting login for: ${usernameOrEmail}`);
   try {
     // API request to the backend login endpoint
-    const response = await apiRequest<{ success: boolean; user?: User; message?: string }>(
+    const response = await apiRequest<LoginResult>(
       'POST',
       '/users/login', // Backend endpoint
       { usernameOrEmail, password } // Correct payload key
     );
 
+    if (response.success && (response.twoFactorRequired || response.twoFactorSetupRequired)) {
+      // Password accepted; the session starts once the second factor is completed
+      console.log("[unifiedAuth] Login needs a second factor.");
+      clearUser();
+      return response;
+    }
+
     if (response.success && response.user) {
       console.log("[unifiedAuth] Login successful via API:", response.user);
       storeUser(response.user); // Store user on successful login
@@ -162,23 +219,30 @@ export async function login(usernameOrEmail: string, password: string): Promise<
 /**
  * Registers or authenticates a user via Firebase (Google) and syncs with the backend.
  * @param {FirebaseUser} firebaseUser - The user object from Firebase Auth.
- * @returns {Promise<User | null>} The synced application User object or null on failure.
+ * @returns {Promise<User | LoginResult | null>} The synced application User object, the pending
+ *   second-factor result, or null on failure.
  */
-async function syncFirebaseUserWithBackend(firebaseUser: FirebaseUser): Promise<User | null> {
+async function syncFirebaseUserWithBackend(firebaseUser: FirebaseUser): Promise<User | LoginResult | null> {
   console.log(`[unifiedAuth] Syncing Firebase user ${firebaseUser.email} with backend.`);
   try {
+    // The backend verifies the ID token and derives uid/email from it
+    const idToken = await firebaseUser.getIdToken();
     // API request to the backend Firebase auth endpoint
-    const response = await apiRequest<{ success: boolean; user?: User; message?: string }>(
+    const response = await apiRequest<LoginResult>(
       'POST',
       '/users/firebase-auth', // Backend endpoint for Firebase users
       {
-        uid: firebaseUser.uid,
-        email: firebaseUser.email,
+        idToken,
         name: firebaseUser.displayName,
         photoURL: firebaseUser.photoURL,
       }
     );
 
+    if (response.success && (response.twoFactorRequired || response.twoFactorSetupRequired)) {
+      console.log("[unifiedAuth] Firebase sign-in needs a second factor.");
+      return response;
+    }
+
     if (response.success && response.user) {
       console.log("[unifiedAuth] Firebase user sync successful:", response.user);
       // Ensure the returned user object matches the User interface
@@ -206,11 +270,7 @@ async function syncFirebaseUserWithBackend(firebaseUser: FirebaseUser): Promise<
  * Initiates the Google Sign-In popup flow and syncs the user with the backend.
  * @returns {Promise<{success: boolean, user?: User, message?: string}>} Result object.
  */
-export async function loginWithGoogle(): Promise<{
-  success: boolean;
-  user?: User;
-  message?: string;
-}> {
+export async function loginWithGoogle(): Promise<LoginResult> {
   console.log("[unifiedAuth] Initiating Google Sign-In.");
   try {
     // Clear any previous local session first
@@ -228,6 +288,10 @@ export async function loginWithGoogle(): Promise<{
     // Sync the Firebase user with our backend
     const appUser = await syncFirebaseUserWithBackend(firebaseUser);
 
+    if (appUser && 'success' in appUser) {
+      return appUser; // Second factor pending
+    }
+
     if (appUser) {
       storeUser(appUser); // Store the synced user
       return { success: true, user: appUser };
@@ -249,6 +313,95 @@ export async function loginWithGoogle(): Promise<{
   }
 }
 
+/**
+ * Finishes a sign-in that is waiting for a second factor.
+ * @param {string} code - A code from the authenticator app or a backup code.
+ * @returns {Promise<LoginResult>} Result object with the signed-in user on success.
+ */
+export async function verifyTwoFactorLogin(code: string): Promise<LoginResult> {
+  try {
+    const response = await apiRequest<LoginResult>('POST', '/users/2fa/verify', { code });
+    if (response.success && response.user) {
+      storeUser(response.user);
+    }
+    return response;
+  } catch (error: any) {
+    console.error('[unifiedAuth] Two-factor verification error:', error);
+    return { success: false, message: error.message || 'Verification failed due to a server error.' };
+  }
+}
+
+/**
+ * Starts TOTP enrolment, for the signed-in user or for a login waiting for mandatory enrolment.
+ * @returns {Promise<TwoFactorEnrolment>} The secret, its provisioning URI and a QR code image.
+ */
+export async function startTwoFactorSetup(): Promise<TwoFactorEnrolment> {
+  const response = await apiRequest<{ success: boolean; message?: string } & TwoFactorEnrolment>('POST', '/users/2fa/setup');
+  if (!response.success) {
+    throw new Error(response.message || 'Could not start two-factor setup');
+  }
+  return response;
+}
+
+/**
+ * Confirms TOTP enrolment with a code. Completes a pending login if there is one.
+ * @returns {Promise<string[]>} The backup codes, shown to the user once.
+ */
+export async function enableTwoFactor(code: string): Promise<string[]> {
+  const response = await apiRequest<LoginResult & { backupCodes?: string[] }>('POST', '/users/2fa/enable', { code });
+  if (!response.success || !response.backupCodes) {
+    throw new Error(response.message || 'Invalid authentication code');
+  }
+  if (response.user) {
+    storeUser(response.user);
+  }
+  return response.backupCodes;
+}
+
+/**
+ * Asks the user to pick a Google account, without signing in with it.
+ * @returns {Promise<string>} A Firebase ID token for the chosen account.
+ */
+export async function requestGoogleIdToken(): Promise<string> {
+  const result = await signInWithPopup(auth, googleProvider);
+  const idToken = await result.user.getIdToken();
+  // The app session stays with the current account; the Firebase sign-in was only needed for the token
+  await firebaseSignOut(auth).catch(err => console.error("Firebase sign out failed after linking:", err));
+  return idToken;
+}
+
+/**
+ * Links a Google identity to the signed-in user.
+ * @param {string} idToken - From `requestGoogleIdToken`.
+ * @param {boolean} merge - Merge the account the identity belongs to into this one.
+ */
+export async function linkGoogleIdentity(idToken: string, merge = false): Promise<LinkIdentityResult> {
+  return apiRequest<LinkIdentityResult>('POST', '/users/identities/firebase', { idToken, merge });
+}
+
+/**
+ * Switches the admin's session to another user (read-only, time-limited).
+ * @returns {Promise<User>} The impersonated user, with `impersonation` set.
+ */
+export async function startImpersonation(userId: number): Promise<User> {
+  const response = await apiRequest<{ user: User }>('POST', `/admin/users/${userId}/impersonate`);
+  storeUser(response.user);
+  return response.user;
+}
+
+/**
+ * Returns from an impersonated session to the admin's own session.
+ * @returns {Promise<User | null>} The admin, or null if the session ended meanwhile.
+ */
+export async function stopImpersonation(): Promise<User | null> {
+  const response = await apiRequest<{ success: boolean; user?: User | null }>('POST', '/users/impersonation/stop');
+  if (response.user) {
+    storeUser(response.user);
+    return response.user;
+  }
+  return fetchUserProfile();
+}
+
 /**
  * Logs the user out from Firebase (if applicable) and clears local storage.
  * Notifies the backend about the logout attempt.
@@ -294,23 +447,16 @@ export async function logout(): Promise<boolean> {
 }
 
 /**
- * Fetches the user profile from the backend using the stored email.
- * Useful for verifying the session and getting updated user data.
- * @returns {Promise<User | null>} The user profile or null if not found or error.
+ * Fetches the user of the current server session.
+ * The session cookie is the source of truth; localStorage is only a cache.
+ * @returns {Promise<User | null>} The session user or null if not signed in or error.
  */
 export async function fetchUserProfile(): Promise<User | null> {
-    const storedUser = getCurrentUser();
-    if (!storedUser?.email) {
-        console.log("[unifiedAuth] Cannot fetch profile, no stored user/email.");
-        clearUser(); // Clear potentially inconsistent state
-        return null;
-    }
-
-    console.log(`[unifiedAuth] Fetching profile for email: ${storedUser.email}`);
+    console.log("[unifiedAuth] Fetching current session user");
     try {
         const response = await apiRequest<{ success: boolean; user?: User; message?: string }>(
             'GET',
-            `/users/profile?email=${encodeURIComponent(storedUser.email)}`
+            '/users/current'
         );
 
         if (response.success && response.user) {
@@ -319,14 +465,14 @@ export async function fetchUserProfile(): Promise<User | null> {
             storeUser(response.user);
             return response.user;
         } else {
-            console.warn("[unifiedAuth] Failed to fetch profile or user not found:", response.message);
-            // If profile fetch fails, the stored user might be invalid, so clear it
+            console.warn("[unifiedAuth] No active session:", response.message);
+            // Without a session the stored user is stale, so clear it
             clearUser();
             return null;
         }
     } catch (error: any) {
-        console.error("[unifiedAuth] Error fetching user profile:", error);
-        // If profile fetch fails due to network/server error, clear local state
+        console.log("[unifiedAuth] No active session or session check failed:", error);
+        // A 401 means the session expired or was revoked, so clear local state
         clearUser();
         return null;
     }
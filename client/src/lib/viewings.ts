@@ -0,0 +1,33 @@
+import config from '../config';
+import type { ViewingSlot } from '@shared/schema';
+
+// Dates arrive as JSON strings
+type Dated<T, K extends keyof T> = Omit<T, K> & { [P in K]: string };
+
+export type ViewingSlotView = Dated<ViewingSlot, 'startsAt' | 'endsAt' | 'createdAt'> & {
+  booked: number;
+  remaining: number;
+  myBookingId: number | null;
+};
+
+export interface ViewingBookingView {
+  id: number;
+  status: 'booked' | 'cancelled';
+  note: string | null;
+  createdAt: string;
+  cancelledAt: string | null;
+  slot: { id: number; type: string; startsAt: string; endsAt: string; notes: string | null };
+  property: { id: number; title: string; address: string; city: string };
+  contact: { name: string; email: string; phone: string | null };
+}
+
+export const viewingsCalendarUrl = `${config.apiBaseUrl}/viewings/calendar.ics`;
+
+// e.g. "Sat 14 Jun, 12:00–13:00"
+export function formatViewingTime(startsAt: string, endsAt: string, language: string): string {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  const day = start.toLocaleDateString(language, { weekday: 'short', day: 'numeric', month: 'short' });
+  const time = (date: Date) => date.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' });
+  return `${day}, ${time(start)}–${time(end)}`;
+}
@@ -1,4 +1,4 @@
-import React, { useEffect } from "react"; // Import useEffect
+import React, { useEffect, useState } from "react"; // Import useEffect
 import { useLocation } from "wouter"; // Import useLocation for redirection
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import Navbar from "@/components/Navbar";
@@ -6,11 +6,17 @@ import Footer from "@/components/Footer";
 import { PropertyForm } from "@/components/admin/PropertyForm";
 import { useAuth } from "@/contexts/AuthContext";
 import { Spinner } from "@/components/Spinner"; // Import a Spinner component
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 
 export default function AddProperty() {
   // --- Use AuthContext ---
   const { user, isLoading } = useAuth();
   const [, setLocation] = useLocation(); // Get the setLocation function
+  const { toast } = useToast();
+  const [isResending, setIsResending] = useState(false);
 
   // --- Redirect Logic (Waits for Loading) ---
   useEffect(() => {
@@ -50,6 +56,21 @@ export default function AddProperty() {
      return null;
   }
 
+  // Listing requires a verified email address (admins are exempt)
+  const needsVerification = !user.emailVerified && user.role !== 'admin';
+
+  const resendVerification = async () => {
+    setIsResending(true);
+    try {
+      await apiRequest("POST", "/users/resend-verification");
+      toast({ title: "Email sent", description: `We sent a new verification link to ${user.email}.` });
+    } catch (error: any) {
+      toast({ title: "Could not send email", description: error?.message || "Please try again later.", variant: "destructive" });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
   // --- Render Form (Only if user is loaded and exists) ---
   return (
     <div className="min-h-screen bg-slate-50">
@@ -65,8 +86,20 @@ export default function AddProperty() {
               </CardDescription>
             </CardHeader>
             <CardContent className="pt-6">
-              {/* Pass the user ID to the form if needed */}
-              <PropertyForm userId={user.id} />
+              {needsVerification ? (
+                <Alert>
+                  <AlertTitle>Verify your email address</AlertTitle>
+                  <AlertDescription className="space-y-3">
+                    <p>You need to verify your email address before you can list a property. Check your inbox for the verification link.</p>
+                    <Button variant="outline" size="sm" onClick={resendVerification} disabled={isResending}>
+                      {isResending ? <Spinner size="sm" className="py-0" /> : "Resend verification email"}
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                /* Pass the user ID to the form if needed */
+                <PropertyForm userId={user.id} />
+              )}
             </CardContent>
           </Card>
         </div>
@@ -9,6 +9,8 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
+import { login, logout, type User } from '@/lib/unifiedAuth';
+import { TwoFactorChallenge } from '@/components/auth/TwoFactorChallenge';
 
 const formSchema = z.object({
   username: z.string().min(1, 'Username is required'),
@@ -19,6 +21,7 @@ type FormData = z.infer<typeof formSchema>;
 
 export default function AdminLogin() {
   const [loading, setLoading] = useState(false);
+  const [twoFactorMode, setTwoFactorMode] = useState<'verify' | 'setup' | null>(null);
   const [, navigate] = useLocation();
   const { toast } = useToast();
 
@@ -30,45 +33,46 @@ export default function AdminLogin() {
     },
   });
 
+  const redirectAfterLogin = async (user: User | null) => {
+    // Check if the user is an admin
+    if (user?.role !== 'admin') {
+      await logout(); // Don't leave a non-admin session behind
+      setTwoFactorMode(null);
+      toast({
+        title: 'Access Denied',
+        description: 'This login is for administrators only.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    toast({
+      title: 'Login Successful',
+      description: 'Welcome to the admin dashboard!',
+    });
+    
+    // Redirect to admin dashboard
+    navigate('/admin/dashboard');
+  };
+
   const onSubmit = async (data: FormData) => {
     try {
       setLoading(true);
       
-      const response = await fetch('/users/login', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
-      });
-      
-      const result = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(result.error || 'Login failed');
-      }
+      // Establishes the server session on success
+      const result = await login(data.username, data.password);
       
-      // Check if the user is an admin
-      if (result.role !== 'admin') {
-        toast({
-          title: 'Access Denied',
-          description: 'This login is for administrators only.',
-          variant: 'destructive',
-        });
-        setLoading(false);
+      // Admin accounts always need a second factor (or have to enrol one first)
+      if (result.success && (result.twoFactorRequired || result.twoFactorSetupRequired)) {
+        setTwoFactorMode(result.twoFactorSetupRequired ? 'setup' : 'verify');
         return;
       }
       
-      // Store user data in localStorage for persistence
-      localStorage.setItem('admin_user', JSON.stringify(result));
-      
-      toast({
-        title: 'Login Successful',
-        description: 'Welcome to the admin dashboard!',
-      });
+      if (!result.success || !result.user) {
+        throw new Error(result.message || 'Login failed');
+      }
       
-      // Redirect to admin dashboard
-      navigate('/admin/dashboard');
+      await redirectAfterLogin(result.user);
     } catch (error) {
       console.error('Login error:', error);
       toast({
@@ -92,59 +96,69 @@ export default function AdminLogin() {
         </CardHeader>
         
         <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username</FormLabel>
-                    <FormControl>
-                      <Input 
-                        placeholder="Enter your username" 
-                        {...field} 
-                        disabled={loading}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+          {twoFactorMode ? (
+            <TwoFactorChallenge
+              mode={twoFactorMode}
+              onComplete={redirectAfterLogin}
+              onCancel={() => setTwoFactorMode(null)}
+            />
+          ) : (
+            <>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input 
+                            placeholder="Enter your username" 
+                            {...field} 
+                            disabled={loading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
               
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Password</FormLabel>
-                    <FormControl>
-                      <Input 
-                        type="password" 
-                        placeholder="Enter your password" 
-                        {...field} 
-                        disabled={loading}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="password" 
+                            placeholder="Enter your password" 
+                            {...field} 
+                            disabled={loading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
               
-              <Button 
-                type="submit" 
-                className="w-full" 
-                disabled={loading}
-              >
-                {loading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Logging in...
-                  </>
-                ) : 'Login'}
-              </Button>
-            </form>
-          </Form>
+                  <Button 
+                    type="submit" 
+                    className="w-full" 
+                    disabled={loading}
+                  >
+                    {loading ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Logging in...
+                      </>
+                    ) : 'Login'}
+                  </Button>
+                </form>
+              </Form>
+            </>
+          )}
         </CardContent>
         
         <CardFooter className="flex flex-col space-y-4">
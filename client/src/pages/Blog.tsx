@@ -12,12 +12,16 @@ import { PageHeader } from "@/components/PageHeader";
 import { apiRequest } from "@/lib/queryClient";
 import type { Post } from "@shared/schema";
 import { format } from 'date-fns';
-import { Loader2 } from "lucide-react";
+import { Loader2, Search } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import SearchSnippet from "@/components/SearchSnippet";
+
+// Search results carry the best-matching part of the post's content
+type BlogPost = Post & { searchSnippet?: string };
 
 // --- Define interface for the API response ---
 interface BlogApiResponse {
-  posts: Post[];
+  posts: BlogPost[];
   total: number;
   page: number;
   limit: number;
@@ -25,7 +29,7 @@ interface BlogApiResponse {
 
 // Blog post card component (using data from API)
 interface BlogPostCardProps {
-  post: Post;
+  post: BlogPost;
 }
 
 const BlogPostCard = ({ post }: BlogPostCardProps) => {
@@ -51,7 +55,11 @@ const BlogPostCard = ({ post }: BlogPostCardProps) => {
         <Link href={postUrl}>
           <CardTitle className="text-xl hover:text-primary transition-colors">{post.title}</CardTitle>
         </Link>
-        {post.excerpt && <CardDescription className="line-clamp-3 mt-1">{post.excerpt}</CardDescription>}
+        {post.searchSnippet ? (
+          <SearchSnippet snippet={post.searchSnippet} className="text-sm text-muted-foreground line-clamp-4 mt-1" />
+        ) : (
+          post.excerpt && <CardDescription className="line-clamp-3 mt-1">{post.excerpt}</CardDescription>
+        )}
       </CardHeader>
       <CardContent className="pt-0">
         <div className="flex items-center">
@@ -130,16 +138,21 @@ const FeaturedPost = ({ post }: { post: Post | undefined }) => {
 
 export default function Blog() {
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState(""); // Submitted search; results come best match first
 
   // Fetch published blog posts from the API
   // --- Update the type here ---
   const { data: postsData, isLoading, error } = useQuery<BlogApiResponse>({
-    queryKey: ['/posts', selectedCategory], // Include category in key for filtering
+    queryKey: ['/posts', selectedCategory, search], // Include category and search in key for filtering
     queryFn: async () => {
       const params = new URLSearchParams();
       if (selectedCategory !== 'all') {
         params.append('category', selectedCategory);
       }
+      if (search) {
+        params.append('search', search);
+      }
       // Add pagination params if needed: params.append('limit', '10');
       const queryString = params.toString();
       // --- Make sure the API request uses 'GET' ---
@@ -152,8 +165,8 @@ export default function Blog() {
   // --- Access the posts array from the data object ---
   const actualPosts = postsData?.posts || [];
 
-  // Extract featured post (e.g., the latest one)
-  const featuredPost = actualPosts.length > 0 ? actualPosts[0] : undefined;
+  // Extract featured post (e.g., the latest one); search results are all shown in the grid
+  const featuredPost = actualPosts.length > 0 && !search ? actualPosts[0] : undefined;
   // Other posts (excluding the featured one if it exists)
   const otherPosts = actualPosts.length > 1 ? actualPosts.slice(1) : [];
 
@@ -194,7 +207,19 @@ export default function Blog() {
     }
 
     // --- Use actualPosts here ---
-    const postsToDisplay = selectedCategory === 'all' ? otherPosts : actualPosts;
+    const postsToDisplay = selectedCategory === 'all' && !search ? otherPosts : actualPosts;
+
+    if (postsToDisplay.length === 0 && search) {
+       return (
+          <div className="text-center py-16 bg-slate-50 rounded-lg">
+            <h3 className="text-xl font-medium mb-2">No Matching Posts</h3>
+            <p className="text-slate-500 mb-4">No posts match "{search}".</p>
+            <Button variant="outline" onClick={() => { setSearch(""); setSearchInput(""); }}>
+              Clear Search
+            </Button>
+          </div>
+       );
+    }
 
     if (postsToDisplay.length === 0 && selectedCategory !== 'all') {
        return (
@@ -235,6 +260,27 @@ export default function Blog() {
 
       <div className="container mx-auto px-4 py-8 md:py-12">
 
+        {/* Search */}
+        <form
+          className="flex gap-3 max-w-xl mb-8"
+          onSubmit={(e) => { e.preventDefault(); setSearch(searchInput.trim()); }}
+        >
+          <Input
+            type="search"
+            placeholder="Search articles"
+            value={searchInput}
+            onChange={(e) => {
+              setSearchInput(e.target.value);
+              if (!e.target.value) setSearch("");
+            }}
+            className="flex-grow bg-white"
+          />
+          <Button type="submit">
+            <Search className="h-4 w-4 mr-2" />
+            Search
+          </Button>
+        </form>
+
         {/* Featured Post */}
         {!isLoading && <FeaturedPost post={featuredPost} />}
 
@@ -0,0 +1,165 @@
+// src/pages/EstimateHome.tsx
+
+import React, { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { PROPERTY_TYPES, type Valuation } from "@shared/schema";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { PageHeader } from "@/components/PageHeader";
+import ValuationResult from "@/components/ValuationResult";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest } from "@/lib/queryClient";
+import { useAreaUnit } from "@/lib/formatters";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+interface EstimateForm {
+  address: string;
+  postalCode: string;
+  city: string;
+  listingType: string;
+  propertyType: string;
+  area: string; // In the visitor's area unit
+  buildYear: string;
+  features: string; // Comma-separated
+}
+
+const emptyForm: EstimateForm = {
+  address: "", postalCode: "", city: "", listingType: "buy", propertyType: "apartment",
+  area: "", buildYear: "", features: "",
+};
+
+/**
+ * "Estimate my home": owners describe their home and get a value range from comparable listings
+ * without listing it (POST /api/valuations).
+ */
+export default function EstimateHome() {
+  const { t } = useLanguage();
+  const { label: areaLabel, toSquareMetres } = useAreaUnit();
+  const [form, setForm] = useState<EstimateForm>(emptyForm);
+
+  const estimateMutation = useMutation<Valuation, Error, EstimateForm>({
+    mutationFn: async (values) => await apiRequest<Valuation>('POST', '/valuations', {
+      address: values.address || undefined,
+      postalCode: values.postalCode || undefined,
+      city: values.city,
+      listingType: values.listingType,
+      propertyType: values.propertyType,
+      area: Math.round(toSquareMetres(parseFloat(values.area)) * 100) / 100,
+      buildYear: values.buildYear ? parseInt(values.buildYear, 10) : undefined,
+      features: values.features.split(",").map((feature) => feature.trim()).filter(Boolean),
+    }),
+  });
+
+  const update = (field: keyof EstimateForm, value: string) => setForm((prev) => ({ ...prev, [field]: value }));
+  const canSubmit = form.city.trim() !== "" && parseFloat(form.area) > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) {
+      estimateMutation.mutate(form);
+    }
+  };
+
+  return (
+    <div className="bg-slate-50 min-h-screen">
+      <Navbar />
+      <PageHeader title={t('valuation.form.title')} description={t('valuation.form.description')} />
+
+      <div className="container mx-auto px-4 py-12 grid grid-cols-1 lg:grid-cols-5 gap-8">
+        <Card className="lg:col-span-2 shadow-sm h-fit">
+          <CardHeader>
+            <CardTitle>{t('valuation.form.homeDetails')}</CardTitle>
+            <CardDescription>{t('valuation.form.homeDetailsHint')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="estimate-address">{t('valuation.form.address')}</Label>
+                <Input id="estimate-address" value={form.address} onChange={(e) => update('address', e.target.value)} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="estimate-postal-code">{t('valuation.form.postalCode')}</Label>
+                  <Input id="estimate-postal-code" value={form.postalCode} onChange={(e) => update('postalCode', e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="estimate-city">{t('valuation.form.city')}*</Label>
+                  <Input id="estimate-city" value={form.city} onChange={(e) => update('city', e.target.value)} required />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label>{t('valuation.form.propertyType')}</Label>
+                  <Select value={form.propertyType} onValueChange={(value) => update('propertyType', value)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {PROPERTY_TYPES.map((type) => <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>{t('valuation.form.listingType')}</Label>
+                  <Select value={form.listingType} onValueChange={(value) => update('listingType', value)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="buy">{t('valuation.form.sale')}</SelectItem>
+                      <SelectItem value="rent">{t('valuation.form.rent')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="estimate-area">{t('valuation.form.area', { unit: areaLabel })}*</Label>
+                  <Input id="estimate-area" type="number" min="1" step="0.1" value={form.area} onChange={(e) => update('area', e.target.value)} required />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="estimate-build-year">{t('valuation.form.buildYear')}</Label>
+                  <Input id="estimate-build-year" type="number" min="1800" value={form.buildYear} onChange={(e) => update('buildYear', e.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="estimate-features">{t('valuation.form.features')}</Label>
+                <Input
+                  id="estimate-features"
+                  placeholder={t('valuation.form.featuresHint')}
+                  value={form.features}
+                  onChange={(e) => update('features', e.target.value)}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={!canSubmit || estimateMutation.isPending}>
+                {estimateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('valuation.form.submit')}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3 shadow-sm h-fit">
+          <CardHeader>
+            <CardTitle>{t('valuation.title')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {estimateMutation.isError ? (
+              <Alert variant="destructive">
+                <AlertDescription>{t('valuation.form.error')}</AlertDescription>
+              </Alert>
+            ) : estimateMutation.data ? (
+              <ValuationResult valuation={estimateMutation.data} city={estimateMutation.variables?.city ?? form.city} />
+            ) : (
+              <p className="text-slate-500">{t('valuation.form.empty')}</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
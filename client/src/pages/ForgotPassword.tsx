@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { Spinner } from "@/components/Spinner";
+import { apiRequest } from "@/lib/queryClient";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address."),
+});
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPassword() {
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const [sent, setSent] = useState(false);
+
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: (data: ForgotPasswordFormValues) => apiRequest("POST", "/users/forgot-password", data),
+    onSuccess: () => setSent(true),
+    onError: (error: any) => {
+      console.error("Forgot password error:", error);
+      toast({
+        title: t('auth.failTitle'),
+        description: error?.message || t('auth.forgotPasswordPage.error'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto">
+          <Card>
+            <CardHeader className="space-y-1">
+              <CardTitle className="text-2xl font-heading text-center">{t('auth.forgotPasswordPage.title')}</CardTitle>
+              <CardDescription className="text-center">
+                {t('auth.forgotPasswordPage.description')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {sent ? (
+                <p className="text-center text-slate-600">{t('auth.forgotPasswordPage.sent')}</p>
+              ) : (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit((data) => mutate(data))} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t('auth.emailLabel')}</FormLabel>
+                          <FormControl>
+                            <Input type="email" placeholder={t('auth.emailPlaceholder')} {...field} disabled={isPending} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="submit" className="w-full" disabled={isPending}>
+                      {isPending ? <Spinner size="sm" className="py-0" /> : t('auth.forgotPasswordPage.submit')}
+                    </Button>
+                  </form>
+                </Form>
+              )}
+
+              <div className="mt-4 text-center text-sm">
+                <Link href="/signin">
+                  <span className="text-primary-600 hover:underline cursor-pointer">{t('auth.backToSignIn')}</span>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
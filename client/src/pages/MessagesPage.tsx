@@ -13,7 +13,9 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
-import { AlertCircle, Inbox, Send } from 'lucide-react';
+import { AlertCircle, CalendarClock, FileText, Inbox, Send } from 'lucide-react';
+import { UserViewings } from '@/components/user/UserViewings';
+import { UserRentalApplications } from '@/components/user/UserRentalApplications';
 import { formatDistanceToNow } from 'date-fns'; // For relative time
 import { useLanguage } from '@/contexts/LanguageContext';
 
@@ -45,7 +47,7 @@ export default function MessagesPage() {
   const { t } = useLanguage();
   const { user, isLoading: isAuthLoading } = useAuth();
   const [, setLocation] = useLocation();
-  const [view, setView] = useState<'inbox' | 'sent'>('inbox'); // State to toggle view
+  const [view, setView] = useState<'inbox' | 'sent' | 'viewings' | 'applications'>('inbox'); // State to toggle view
 
   // Redirect if not logged in
   useEffect(() => {
@@ -134,9 +136,27 @@ export default function MessagesPage() {
            >
              <Send className="mr-2 h-4 w-4" /> {t('messages.sent')}
            </Button>
+           <Button
+             variant={view === 'viewings' ? 'secondary' : 'ghost'}
+             onClick={() => setView('viewings')}
+             className="rounded-b-none"
+           >
+             <CalendarClock className="mr-2 h-4 w-4" /> {t('viewings.tab')}
+           </Button>
+           <Button
+             variant={view === 'applications' ? 'secondary' : 'ghost'}
+             onClick={() => setView('applications')}
+             className="rounded-b-none"
+           >
+             <FileText className="mr-2 h-4 w-4" /> {t('rentalApplications.tab')}
+           </Button>
         </div>
 
-        {error ? (
+        {view === 'viewings' ? (
+          <UserViewings />
+        ) : view === 'applications' ? (
+          <UserRentalApplications />
+        ) : error ? (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
             <AlertTitle>{t('messages.errorTitle')}</AlertTitle>
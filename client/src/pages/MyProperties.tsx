@@ -3,7 +3,7 @@ import React, { useEffect } from 'react';
 import { useLocation, Link } from 'wouter';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import type { Property } from '@shared/schema';
 import PropertyCard from '@/components/PropertyCard'; // Assuming this component exists
@@ -13,7 +13,11 @@ import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import { PageHeader } from '@/components/PageHeader';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { AlertCircle, PlusCircle } from 'lucide-react';
+import { AlertCircle, PlusCircle, Send } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { PropertyImportDialog } from '@/components/user/PropertyImportDialog';
+import { RentalApplicationsReceived } from '@/components/user/RentalApplicationsReceived';
+import { RENTAL_LISTING_TYPES } from '@/lib/rentalApplications';
 
 // Function to fetch user's properties
 const fetchUserProperties = async (userId: number): Promise<Property[]> => {
@@ -21,10 +25,18 @@ const fetchUserProperties = async (userId: number): Promise<Property[]> => {
   return apiRequest<Property[]>('GET', `/properties/user/${userId}`);
 };
 
+// Badge colours of listings that are not public yet
+const moderationBadgeClasses: Record<string, string> = {
+  draft: 'bg-slate-100 text-slate-700',
+  pending: 'bg-amber-100 text-amber-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
 export default function MyProperties() {
   const { t } = useLanguage();
   const { user, isLoading: isAuthLoading } = useAuth();
   const [, setLocation] = useLocation();
+  const { toast } = useToast();
 
   // Redirect if not logged in
   useEffect(() => {
@@ -47,6 +59,17 @@ export default function MyProperties() {
     staleTime: 1000 * 60 * 2, // Cache for 2 minutes
   });
 
+  const submitMutation = useMutation<Property, Error, number>({
+    mutationFn: (propertyId) => apiRequest<Property>('POST', `/properties/${propertyId}/submit`),
+    onSuccess: () => {
+      toast({ title: t('myProperties.moderation.submitted'), description: t('myProperties.moderation.submittedDescription') });
+      refetch();
+    },
+    onError: (error) => {
+      toast({ title: t('myProperties.moderation.submitFailed'), description: error.message, variant: 'destructive' });
+    },
+  });
+
   const isLoading = isAuthLoading || (isPropertiesLoading && !!user); // Loading if auth or properties are loading
 
   if (isLoading) {
@@ -79,11 +102,14 @@ export default function MyProperties() {
     <div className="min-h-screen bg-slate-50">
       <Navbar />
       <PageHeader title={t('myProperties.title')} description={t('myProperties.description')}>
-        <Link href="/add-property">
-          <Button>
-            <PlusCircle className="mr-2 h-4 w-4" /> {t('myProperties.listNewProperty')}
-          </Button>
-        </Link>
+        <div className="flex flex-wrap gap-2">
+          <Link href="/add-property">
+            <Button>
+              <PlusCircle className="mr-2 h-4 w-4" /> {t('myProperties.listNewProperty')}
+            </Button>
+          </Link>
+          {(user.role === 'agent' || user.role === 'admin') && <PropertyImportDialog onImported={() => refetch()} />}
+        </div>
       </PageHeader>
 
       <div className="container mx-auto px-4 py-10">
@@ -100,7 +126,33 @@ export default function MyProperties() {
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
             {properties.map((property) => (
               // Assuming PropertyCard doesn't need onOpenModal here, or pass a relevant function
-              <PropertyCard key={property.id} property={property} />
+              <div key={property.id} className="flex flex-col gap-2">
+                <PropertyCard property={property} />
+                {property.moderationStatus !== 'published' && (
+                  <div className="rounded-md border bg-white p-3 text-sm space-y-2">
+                    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${moderationBadgeClasses[property.moderationStatus] ?? ''}`}>
+                      {t(`myProperties.moderation.status.${property.moderationStatus}`)}
+                    </span>
+                    {property.moderationStatus === 'rejected' && property.rejectionReason && (
+                      <p className="text-slate-600">
+                        <span className="font-medium">{t('myProperties.moderation.reason')}</span> {property.rejectionReason}
+                      </p>
+                    )}
+                    {property.moderationStatus === 'pending' ? (
+                      <p className="text-slate-500">{t('myProperties.moderation.pendingHint')}</p>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={submitMutation.isPending}
+                        onClick={() => submitMutation.mutate(property.id)}
+                      >
+                        <Send className="mr-2 h-4 w-4" /> {t('myProperties.moderation.submit')}
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
             ))}
           </div>
         ) : (
@@ -114,6 +166,13 @@ export default function MyProperties() {
             </Link>
           </div>
         )}
+
+        {properties?.some((property) => RENTAL_LISTING_TYPES.includes(property.listingType)) && (
+          <section className="mt-12">
+            <h2 className="text-2xl font-semibold mb-4">{t('rentalApplications.received')}</h2>
+            <RentalApplicationsReceived onListingRented={() => refetch()} />
+          </section>
+        )}
       </div>
 
       <Footer />
@@ -11,6 +11,10 @@ import { Spinner } from '@/components/Spinner';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import { PageHeader } from '@/components/PageHeader';
+import { TwoFactorSettings } from '@/components/auth/TwoFactorSettings';
+import { SignInMethods } from '@/components/auth/SignInMethods';
+import { PrivacySettings } from '@/components/user/PrivacySettings';
+import { ApiKeySettings } from '@/components/user/ApiKeySettings';
 import { Edit } from 'lucide-react';
 
 export default function Profile() {
@@ -112,6 +116,10 @@ export default function Profile() {
               <span className="text-sm text-muted-foreground">{t('profile.memberSince')}</span>
               <span className="font-medium">{user.createdAt ? new Date(user.createdAt).toLocaleDateString() : 'N/A'}</span>
             </div>
+            <SignInMethods />
+            {(user.role === 'admin' || user.role === 'agent') && <TwoFactorSettings />}
+            {user.role === 'agent' && <ApiKeySettings />}
+            <PrivacySettings />
 
             <div className="pt-4 flex flex-col sm:flex-row gap-2">
               <Button variant="outline" className="w-full sm:w-auto" disabled>
@@ -14,7 +14,7 @@ import { apiRequest } from "@/lib/queryClient"; // Import apiRequest
 import { Spinner } from "@/components/Spinner"; // Import Spinner
 import { Alert, AlertDescription } from "@/components/ui/alert"; // Import Alert
 import FavoriteButton from "@/components/FavoriteButton"; // Import FavoriteButton
-import { useCurrency } from "@/lib/formatters"; // Import useCurrency
+import { useAreaUnit, useCurrency } from "@/lib/formatters"; // Import useCurrency
 import { useAuth } from "@/contexts/AuthContext"; // Import useAuth
 import { MessageForm } from "@/components/MessageForm"; // Assuming MessageForm exists
 import { useLanguage } from '@/contexts/LanguageContext';
@@ -22,7 +22,14 @@ import "keen-slider/keen-slider.min.css";
 import { useKeenSlider } from "keen-slider/react";
 import { X } from "lucide-react";
 import CrimeRateSection from '@/components/CrimeRateSection';
+import PriceHistory from '@/components/PriceHistory';
+import AreaPriceComparison, { AreaMedianLabel, type AreaPriceComparisonResponse } from '@/components/AreaPriceComparison';
+import PropertyValuation from '@/components/PropertyValuation';
+import ViewingSlots from '@/components/ViewingSlots';
+import RentalApplicationPanel from '@/components/RentalApplicationPanel';
+import { RENTAL_LISTING_TYPES } from '@/lib/rentalApplications';
 import { getMunicipalityCode } from '@shared/municipalityCodes';
+import { imageVariant } from '@/lib/images';
 
 // Fix for default marker icons not showing in Leaflet
 // @ts-ignore
@@ -58,6 +65,7 @@ interface PropertyWithOwner extends Property {
   location: {
     municipalityCode: string;
   };
+  comparables: AreaPriceComparisonResponse | null;
 }
 
 // Add custom icons for different place types
@@ -248,6 +256,7 @@ export default function PropertyDetail() {
   const [mainImage, setMainImage] = useState("");
   const [showContactForm, setShowContactForm] = useState(false); // State for message form
   const { formatPrice: formatCurrencyPrice } = useCurrency(); // Use currency formatter
+  const { formatArea } = useAreaUnit();
   const { user } = useAuth(); // Get user from context
   const { t } = useLanguage();
 
@@ -330,6 +339,13 @@ export default function PropertyDetail() {
   // --- Main Render ---
   const defaultImageUrl = "https://images.unsplash.com/photo-1600596542815-ffad4c1539a9?ixlib=rb-4.0.3&auto=format&fit=crop&w=1200&h=800&q=80";
   const displayImage = mainImage || formatUnsplashUrl(property.images?.[0]) || defaultImageUrl;
+  const hasHousingCompanyDetails = [
+    property.salesPrice, property.loanShare, property.maintenanceCharge, property.financingCharge,
+    property.energyClass, property.buildYear, property.plotOwnership,
+  ].some((value) => value !== null && value !== undefined);
+  const isRental = RENTAL_LISTING_TYPES.includes(property.listingType);
+  const yesNo = (value: boolean | null) =>
+    value === null ? null : t(value ? 'propertyDetail.rental.allowed' : 'propertyDetail.rental.notAllowed');
   const agentPhoneNumber = property?.ownerDetails?.phone || '';
 
   return (
@@ -347,9 +363,12 @@ export default function PropertyDetail() {
                 <span>{property.address}, {property.city}</span>
              </p>
              <div className="flex items-center space-x-4">
-                <span className="text-2xl font-bold text-primary-600">
-                   {formatPrice(property.price, property.listingType)}
-                </span>
+                <div className="text-right">
+                   <span className="text-2xl font-bold text-primary-600">
+                      {formatPrice(property.price, property.listingType)}
+                   </span>
+                   {property.comparables && <AreaMedianLabel comparison={property.comparables} className="block text-sm" />}
+                </div>
                 <FavoriteButton propertyId={property.id} size="lg" />
              </div>
           </div>
@@ -379,7 +398,7 @@ export default function PropertyDetail() {
                       onClick={() => handleThumbnailClick(image)}
                     >
                       <img
-                        src={formatUnsplashUrl(image)}
+                        src={formatUnsplashUrl(imageVariant(image, 'thumbnail'))}
                         alt={`${property.title} - Image ${index + 1}`}
                         className="w-full h-16 object-cover"
                       />
@@ -394,7 +413,7 @@ export default function PropertyDetail() {
              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                <div className="bg-white p-4 rounded-lg shadow text-center">
                   <p className="text-sm text-slate-500">Area</p>
-                  <p className="font-semibold text-lg">{property.area} sq.ft</p>
+                  <p className="font-semibold text-lg">{formatArea(property.area)}</p>
                </div>
                <div className="bg-white p-4 rounded-lg shadow text-center">
                   <p className="text-sm text-slate-500">Bedrooms</p>
@@ -442,6 +461,65 @@ export default function PropertyDetail() {
               </div>
             </div>
 
+            {/* Housing Company Details */}
+            {hasHousingCompanyDetails && (
+              <div className="mt-6">
+                <h2 className="text-xl font-semibold mb-4">{t('propertyDetail.housingCompany.title')}</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                  {(property.salesPrice != null || property.loanShare != null) && (
+                    <DetailItem label={t('propertyDetail.housingCompany.debtFreePrice')} value={formatCurrencyPrice(property.price)} icon="ri-price-tag-3-line" />
+                  )}
+                  {property.salesPrice != null && <DetailItem label={t('propertyDetail.housingCompany.salesPrice')} value={formatCurrencyPrice(property.salesPrice)} icon="ri-money-euro-circle-line" />}
+                  {property.loanShare != null && <DetailItem label={t('propertyDetail.housingCompany.loanShare')} value={formatCurrencyPrice(property.loanShare)} icon="ri-bank-line" />}
+                  {property.maintenanceCharge != null && <DetailItem label={t('propertyDetail.housingCompany.maintenanceCharge')} value={t('propertyDetail.housingCompany.perMonth', { amount: formatCurrencyPrice(property.maintenanceCharge) })} icon="ri-tools-line" />}
+                  {property.financingCharge != null && <DetailItem label={t('propertyDetail.housingCompany.financingCharge')} value={t('propertyDetail.housingCompany.perMonth', { amount: formatCurrencyPrice(property.financingCharge) })} icon="ri-funds-line" />}
+                  {property.energyClass && <DetailItem label={t('propertyDetail.housingCompany.energyClass')} value={property.energyClass} icon="ri-leaf-line" />}
+                  {property.buildYear != null && <DetailItem label={t('propertyDetail.housingCompany.buildYear')} value={property.buildYear} icon="ri-calendar-line" />}
+                  {property.plotOwnership && <DetailItem label={t('propertyDetail.housingCompany.plot')} value={t(`propertyDetail.housingCompany.plotOwnership.${property.plotOwnership}`)} icon="ri-landscape-line" />}
+                </div>
+              </div>
+            )}
+
+            {/* Rental Terms */}
+            {isRental && (
+              <div className="mt-6">
+                <h2 className="text-xl font-semibold mb-4">{t('propertyDetail.rental.title')}</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                  <DetailItem label={t('propertyDetail.rental.rent')} value={t('propertyDetail.housingCompany.perMonth', { amount: formatCurrencyPrice(property.price) })} icon="ri-price-tag-3-line" />
+                  {property.deposit != null && <DetailItem label={t('propertyDetail.rental.deposit')} value={formatCurrencyPrice(property.deposit)} icon="ri-safe-line" />}
+                  <DetailItem
+                    label={t('propertyDetail.rental.availableFrom')}
+                    value={property.availableFrom && new Date(`${property.availableFrom}T00:00`) > new Date()
+                      ? new Date(`${property.availableFrom}T00:00`).toLocaleDateString()
+                      : t('propertyDetail.rental.availableNow')}
+                    icon="ri-calendar-check-line"
+                  />
+                  {property.minLeaseMonths != null && <DetailItem label={t('propertyDetail.rental.minLease')} value={t('propertyDetail.rental.months', { count: property.minLeaseMonths })} icon="ri-file-list-3-line" />}
+                  {yesNo(property.petsAllowed) && <DetailItem label={t('propertyDetail.rental.pets')} value={yesNo(property.petsAllowed)!} icon="ri-bear-smile-line" />}
+                  {yesNo(property.smokingAllowed) && <DetailItem label={t('propertyDetail.rental.smoking')} value={yesNo(property.smokingAllowed)!} icon="ri-forbid-line" />}
+                </div>
+              </div>
+            )}
+
+            {/* Area Price Comparison */}
+            {property.comparables && (
+              <AreaPriceComparison comparison={property.comparables} postalCode={property.postalCode} className="mt-6" />
+            )}
+
+            {/* Valuation */}
+            <PropertyValuation propertyId={property.id} city={property.city} className="mt-6" />
+
+            {/* Price History */}
+            <PriceHistory propertyId={property.id} currentPrice={property.price} className="mt-6" />
+
+            {/* Viewings */}
+            <ViewingSlots propertyId={property.id} ownerId={property.userId} className="mt-6" />
+
+            {/* Rental Application */}
+            {isRental && (
+              <RentalApplicationPanel propertyId={property.id} ownerId={property.userId} listingStatus={property.status} className="mt-6" />
+            )}
+
             {/* Map Section */}
             <div className="mt-6">
               <h2 className="text-xl font-semibold mb-4">Location</h2>
@@ -10,16 +10,24 @@ import PropertyDetailModal from "@/components/PropertyDetailModal";
 import MapView from "@/components/MapView";
 import Footer from "@/components/Footer";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, ChevronRight } from "lucide-react";
-import type { Property } from "@shared/schema";
+import { ChevronLeft, ChevronRight, Download, Rss } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import config from "../config";
+import type { Property, PropertySearchResult } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { Spinner } from "@/components/Spinner";
 import { queryClient } from "@/lib/queryClient";
 import { debounce } from "lodash";
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useAreaUnit } from '@/lib/formatters';
 
 interface PropertiesApiResponse {
-  properties: Property[];
+  properties: PropertySearchResult[];
   total: number;
 }
 
@@ -45,7 +53,7 @@ const parseFiltersFromParams = (params: URLSearchParams): Record<string, any> =>
     if (key === 'ownershipType') targetKey = 'ownership';
 
     // --- Type Conversions ---
-    if (['onlyWithPhotos', 'onlyWithVideos', 'verified', 'featured', 'heatingAvailable'].includes(targetKey)) {
+    if (['onlyWithPhotos', 'onlyWithVideos', 'verified', 'featured', 'heatingAvailable', 'priceDropped', 'petsAllowed', 'smokingAllowed'].includes(targetKey)) {
       processedValue = value === 'true';
     } else if (['bedrooms', 'bathrooms', 'minPrice', 'maxPrice', 'minArea', 'maxArea'].includes(targetKey)) {
       const numVal = targetKey.includes('Price') || targetKey.includes('Area') ? parseFloat(value) : parseInt(value, 10);
@@ -76,6 +84,7 @@ const parseFiltersFromParams = (params: URLSearchParams): Record<string, any> =>
 
 export default function PropertyListings() {
   const { t } = useLanguage();
+  const { unit: areaUnit } = useAreaUnit();
   const [location, setLocation] = useLocation();
   const [filters, setFilters] = useState<Record<string, any>>(() => {
     return parseFiltersFromParams(new URLSearchParams(window.location.search));
@@ -141,6 +150,19 @@ export default function PropertyListings() {
 
   const apiQueryString = buildApiQueryString();
 
+  // Exports and feeds take the same filters, without pagination
+  const exportUrl = (format: 'csv' | 'jsonl' | 'atom') => {
+    const queryParams = new URLSearchParams(apiQueryString);
+    queryParams.delete("page");
+    queryParams.delete("limit");
+    // Feed summaries use the visitor's area unit; data fields stay in square metres
+    if (areaUnit !== 'sqm') {
+      queryParams.append("areaUnit", areaUnit);
+    }
+    const query = queryParams.toString();
+    return `${config.apiBaseUrl}/properties/export/${format}${query ? `?${query}` : ''}`;
+  };
+
   // --- Fetch properties using useQuery ---
   // The queryKey now directly uses the state variables that define the query
   const { data: propertiesData, isLoading, isFetching, error } = useQuery<PropertiesApiResponse>({
@@ -238,12 +260,34 @@ export default function PropertyListings() {
 
       <section className="py-10">
         <div className="container mx-auto px-4">
-          <div className="mb-8">
-            <h1 className="text-3xl font-bold font-heading mb-2">{getPageTitle()}</h1>
-            <p className="text-slate-600">
-              {t('propertyListings.propertiesFound', { count: totalFound })}
-              {isDataLoading && <span className="ml-2">({t('propertyListings.updating')})</span>}
-            </p>
+          <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold font-heading mb-2">{getPageTitle()}</h1>
+              <p className="text-slate-600">
+                {t('propertyListings.propertiesFound', { count: totalFound })}
+                {isDataLoading && <span className="ml-2">({t('propertyListings.updating')})</span>}
+              </p>
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="mr-2 h-4 w-4" /> {t('propertyListings.export.button')}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <a href={exportUrl('csv')}>{t('propertyListings.export.csv')}</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={exportUrl('jsonl')}>{t('propertyListings.export.jsonl')}</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={exportUrl('atom')} target="_blank" rel="noopener noreferrer">
+                    <Rss className="mr-2 h-4 w-4" /> {t('propertyListings.export.atom')}
+                  </a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
 
           {isDataLoading && dataToDisplay.length === 0 ? (
@@ -279,7 +323,11 @@ export default function PropertyListings() {
                 // Map View
                 <div className="bg-white rounded-lg shadow-md p-4 h-[600px]">
                   {dataToDisplay.some(property => property.latitude && property.longitude) ? (
-                    <MapView properties={dataToDisplay} onPropertyClick={handleOpenModal} />
+                    <MapView
+                      properties={dataToDisplay}
+                      onPropertyClick={handleOpenModal}
+                      onAreaSelect={(city) => handleFilterChange({ ...filters, city })}
+                    />
                   ) : (
                     <div className="flex items-center justify-center bg-slate-100 rounded-lg h-full">
                       <div className="text-center">
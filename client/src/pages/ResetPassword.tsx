@@ -0,0 +1,126 @@
+import { Link, useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { Spinner } from "@/components/Spinner";
+import { apiRequest } from "@/lib/queryClient";
+import { clearUser } from "@/lib/unifiedAuth";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string().min(6, "Password must be at least 6 characters"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPassword() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: (data: ResetPasswordFormValues) =>
+      apiRequest("POST", "/users/reset-password", { token, password: data.password }),
+    onSuccess: () => {
+      // The server has revoked every session, so drop the cached user as well
+      clearUser();
+      toast({
+        title: t('auth.successTitle'),
+        description: t('auth.resetPasswordPage.success'),
+      });
+      navigate("/signin");
+    },
+    onError: (error: any) => {
+      console.error("Reset password error:", error);
+      toast({
+        title: t('auth.failTitle'),
+        description: t('auth.resetPasswordPage.invalidLink'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto">
+          <Card>
+            <CardHeader className="space-y-1">
+              <CardTitle className="text-2xl font-heading text-center">{t('auth.resetPasswordPage.title')}</CardTitle>
+              <CardDescription className="text-center">
+                {t('auth.resetPasswordPage.description')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!token ? (
+                <p className="text-center text-slate-600">{t('auth.resetPasswordPage.invalidLink')}</p>
+              ) : (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit((data) => mutate(data))} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t('auth.resetPasswordPage.newPasswordLabel')}</FormLabel>
+                          <FormControl>
+                            <Input type="password" placeholder={t('auth.passwordPlaceholder')} {...field} disabled={isPending} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="confirmPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t('auth.confirmPasswordLabel')}</FormLabel>
+                          <FormControl>
+                            <Input type="password" placeholder={t('auth.confirmPasswordPlaceholder')} {...field} disabled={isPending} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="submit" className="w-full" disabled={isPending}>
+                      {isPending ? <Spinner size="sm" className="py-0" /> : t('auth.resetPasswordPage.submit')}
+                    </Button>
+                  </form>
+                </Form>
+              )}
+
+              <div className="mt-4 text-center text-sm">
+                <Link href="/forgot-password">
+                  <span className="text-primary-600 hover:underline cursor-pointer">{t('auth.resetPasswordPage.requestNewLink')}</span>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
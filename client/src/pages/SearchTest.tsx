@@ -236,7 +236,7 @@ export default function SearchTest() {
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="minArea">Min Area (sqft)</Label>
+                  <Label htmlFor="minArea">Min Area (m²)</Label>
                   <Input
                     id="minArea"
                     placeholder="Min"
@@ -246,7 +246,7 @@ export default function SearchTest() {
                   />
                 </div>
                 <div>
-                  <Label htmlFor="maxArea">Max Area (sqft)</Label>
+                  <Label htmlFor="maxArea">Max Area (m²)</Label>
                   <Input
                     id="maxArea"
                     placeholder="Max"
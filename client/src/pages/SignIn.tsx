@@ -21,7 +21,8 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
-import { login, loginWithGoogle } from "@/lib/unifiedAuth"; // Auth functions
+import { login, loginWithGoogle, type LoginResult, type User } from "@/lib/unifiedAuth"; // Auth functions
+import { TwoFactorChallenge } from "@/components/auth/TwoFactorChallenge";
 import { useLanguage } from "@/contexts/LanguageContext"; // Language context
 import { Spinner } from "@/components/Spinner"; // Spinner component
 
@@ -39,6 +40,7 @@ export default function SignIn() {
   const { t } = useLanguage();
   const [googleSignInPending, setGoogleSignInPending] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [twoFactorMode, setTwoFactorMode] = useState<'verify' | 'setup' | null>(null);
 
   // Initialize react-hook-form
   const form = useForm<SignInFormValues>({
@@ -49,11 +51,29 @@ export default function SignIn() {
     },
   });
 
+  // Shows the second step when the account needs a TOTP code (or must enrol one)
+  const startTwoFactorStep = (result: LoginResult) => {
+    if (result.twoFactorRequired || result.twoFactorSetupRequired) {
+      setTwoFactorMode(result.twoFactorSetupRequired ? 'setup' : 'verify');
+      return true;
+    }
+    return false;
+  };
+
+  const handleTwoFactorComplete = (user: User | null) => {
+    toast({
+      title: t('auth.successTitle'),
+      description: t('auth.successDesc', { name: user?.name || 'User' }),
+    });
+    window.location.href = user?.role === 'admin' ? '/admin' : '/';
+  };
+
   // Handler for standard login
   const onSubmit = async (data: SignInFormValues) => {
     setIsSubmitting(true);
     try {
       const result = await login(data.usernameOrEmail, data.password);
+      if (startTwoFactorStep(result)) return;
       if (result.success && result.user) {
         toast({
           title: t('auth.successTitle'),
@@ -84,6 +104,7 @@ export default function SignIn() {
     setGoogleSignInPending(true);
     try {
       const result = await loginWithGoogle();
+      if (startTwoFactorStep(result)) return;
       if (result.success && result.user) {
         toast({
           title: t('auth.successTitle'),
@@ -125,114 +146,130 @@ export default function SignIn() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              {/* Google Sign-In Button */}
-              <Button
-                variant="outline"
-                className="w-full flex items-center justify-center gap-2"
-                onClick={handleGoogleSignIn}
-                disabled={googleSignInPending || isSubmitting}
-              >
-                {googleSignInPending ? (
-                  <Spinner size="sm" className="py-0" /> // Use Spinner component
-                ) : (
-                  <>
-                    {/* Google SVG */}
-                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="20" height="20">
-                      <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-                      <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-                      <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
-                      <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-                    </svg>
-                    {t('auth.signIn.googleButton')}
-                  </>
-                )}
-              </Button>
-
-              {/* Separator */}
-              <div className="my-4 flex items-center">
-                <Separator className="flex-1" />
-                <span className="mx-2 text-sm text-slate-500">OR</span>
-                <Separator className="flex-1" />
-              </div>
-
-              {/* Standard Login Form */}
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  {/* Username or Email Field */}
-                  <FormField
-                    control={form.control}
-                    name="usernameOrEmail"
-                    render={({ field }) => (
-                      // Standard structure: FormItem > FormLabel > FormControl > Input > FormMessage
-                      <FormItem>
-                        <FormLabel>{t('auth.emailLabel')}</FormLabel>
-                        <FormControl>
-                          {/* Ensure FormControl has ONLY the Input as a direct child */}
-                          <Input
-                            placeholder={t('auth.emailPlaceholder')}
-                            {...field}
-                            disabled={isSubmitting}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  {/* Password Field */}
-                  <FormField
-                    control={form.control}
-                    name="password"
-                    render={({ field }) => (
-                      // Standard structure: FormItem > FormLabel > FormControl > Input > FormMessage
-                      <FormItem>
-                        <FormLabel>{t('auth.passwordLabel')}</FormLabel>
-                        <FormControl>
-                          {/* Ensure FormControl has ONLY the Input as a direct child */}
-                          <Input
-                            type="password"
-                            placeholder={t('auth.passwordPlaceholder')}
-                            {...field}
-                            disabled={isSubmitting}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  {/* Submit Button */}
+              {twoFactorMode ? (
+                <TwoFactorChallenge
+                  mode={twoFactorMode}
+                  onComplete={handleTwoFactorComplete}
+                  onCancel={() => setTwoFactorMode(null)}
+                />
+              ) : (
+                <>
+                  {/* Google Sign-In Button */}
                   <Button
-                    type="submit"
-                    className="w-full"
-                    disabled={isSubmitting || googleSignInPending}
+                    variant="outline"
+                    className="w-full flex items-center justify-center gap-2"
+                    onClick={handleGoogleSignIn}
+                    disabled={googleSignInPending || isSubmitting}
                   >
-                    {isSubmitting ? (
+                    {googleSignInPending ? (
                       <Spinner size="sm" className="py-0" /> // Use Spinner component
                     ) : (
-                      t('auth.submitSignIn')
+                      <>
+                        {/* Google SVG */}
+                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="20" height="20">
+                          <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
+                          <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
+                          <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
+                          <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
+                        </svg>
+                        {t('auth.signIn.googleButton')}
+                      </>
                     )}
                   </Button>
-                </form>
-              </Form>
-
-              {/* Sign Up Link */}
-              <div className="mt-4 text-center text-sm">
-                <p className="text-slate-600">
-                  {t('auth.noAccount')}{" "}
-                  <Link href="/signup">
-                    <span className="text-primary-600 hover:underline cursor-pointer">{t('auth.signUpLink')}</span>
-                  </Link>
-                </p>
-              </div>
-
-              {/* Demo Accounts */}
-              <div className="mt-6 bg-slate-100 p-3 rounded-md text-sm text-slate-600">
-                <p><strong>Demo Accounts:</strong></p>
-                <p className="mt-1">Username: <code>admin</code> / Password: <code>admin123</code></p>
-                <p className="mt-1">Username: <code>demouser</code> / Password: <code>password123</code></p>
-                <p className="mt-1">Username: <code>agent</code> / Password: <code>agent123</code></p>
-              </div>
+
+                  {/* Separator */}
+                  <div className="my-4 flex items-center">
+                    <Separator className="flex-1" />
+                    <span className="mx-2 text-sm text-slate-500">OR</span>
+                    <Separator className="flex-1" />
+                  </div>
+
+                  {/* Standard Login Form */}
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                      {/* Username or Email Field */}
+                      <FormField
+                        control={form.control}
+                        name="usernameOrEmail"
+                        render={({ field }) => (
+                          // Standard structure: FormItem > FormLabel > FormControl > Input > FormMessage
+                          <FormItem>
+                            <FormLabel>{t('auth.emailLabel')}</FormLabel>
+                            <FormControl>
+                              {/* Ensure FormControl has ONLY the Input as a direct child */}
+                              <Input
+                                placeholder={t('auth.emailPlaceholder')}
+                                {...field}
+                                disabled={isSubmitting}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      {/* Password Field */}
+                      <FormField
+                        control={form.control}
+                        name="password"
+                        render={({ field }) => (
+                          // Standard structure: FormItem > FormLabel > FormControl > Input > FormMessage
+                          <FormItem>
+                            <FormLabel>{t('auth.passwordLabel')}</FormLabel>
+                            <FormControl>
+                              {/* Ensure FormControl has ONLY the Input as a direct child */}
+                              <Input
+                                type="password"
+                                placeholder={t('auth.passwordPlaceholder')}
+                                {...field}
+                                disabled={isSubmitting}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <div className="text-right text-sm">
+                        <Link href="/forgot-password">
+                          <span className="text-primary-600 hover:underline cursor-pointer">{t('auth.forgotPassword')}</span>
+                        </Link>
+                      </div>
+
+                      {/* Submit Button */}
+                      <Button
+                        type="submit"
+                        className="w-full"
+                        disabled={isSubmitting || googleSignInPending}
+                      >
+                        {isSubmitting ? (
+                          <Spinner size="sm" className="py-0" /> // Use Spinner component
+                        ) : (
+                          t('auth.submitSignIn')
+                        )}
+                      </Button>
+                    </form>
+                  </Form>
+
+                  {/* Sign Up Link */}
+                  <div className="mt-4 text-center text-sm">
+                    <p className="text-slate-600">
+                      {t('auth.noAccount')}{" "}
+                      <Link href="/signup">
+                        <span className="text-primary-600 hover:underline cursor-pointer">{t('auth.signUpLink')}</span>
+                      </Link>
+                    </p>
+                  </div>
+
+                  {/* Demo Accounts */}
+                  <div className="mt-6 bg-slate-100 p-3 rounded-md text-sm text-slate-600">
+                    <p><strong>Demo Accounts:</strong></p>
+                    <p className="mt-1">Username: <code>admin</code> / Password: <code>admin123</code></p>
+                    <p className="mt-1">Username: <code>demouser</code> / Password: <code>password123</code></p>
+                    <p className="mt-1">Username: <code>agent</code> / Password: <code>agent123</code></p>
+                  </div>
+                </>
+              )}
             </CardContent>
           </Card>
         </div>
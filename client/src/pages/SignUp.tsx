@@ -61,7 +61,7 @@ export default function SignUp() {
     onSuccess: () => {
       toast({
         title: t('auth.successTitle'), // Use translation
-        description: t('auth.successDesc'), // Use translation
+        description: t('auth.signUpVerifyEmail'),
       });
       navigate("/signin"); // Navigate to sign-in page on success
     },
@@ -10,7 +10,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { useToast } from "@/hooks/use-toast";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
-import { login } from "@/lib/unifiedAuth";
+import { login, type User } from "@/lib/unifiedAuth";
+import { TwoFactorChallenge } from "@/components/auth/TwoFactorChallenge";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -23,6 +24,7 @@ export default function SimpleLogin() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [twoFactorMode, setTwoFactorMode] = useState<'verify' | 'setup' | null>(null);
   
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -32,24 +34,31 @@ export default function SimpleLogin() {
     },
   });
   
+  const redirectAfterLogin = (user: User | null) => {
+    // Show success message
+    toast({
+      title: "Login successful",
+      description: `Welcome, ${user?.name || user?.username || 'back'}!`,
+    });
+    
+    // Redirect to the appropriate page
+    const redirectPath = user?.role === 'admin' ? '/admin' : '/';
+    
+    // Use window.location for a full page reload to ensure all state is updated
+    window.location.href = redirectPath;
+  };
+  
   const onSubmit = async (data: LoginFormValues) => {
     setIsSubmitting(true);
     try {
       // Use our unified authentication service
       const result = await login(data.username, data.password);
       
-      if (result.success && result.user) {
-        // Show success message
-        toast({
-          title: "Login successful",
-          description: `Welcome, ${result.user.name || data.username}!`,
-        });
-        
-        // Redirect to the appropriate page
-        const redirectPath = result.user.role === 'admin' ? '/admin' : '/';
-        
-        // Use window.location for a full page reload to ensure all state is updated
-        window.location.href = redirectPath;
+      if (result.twoFactorRequired || result.twoFactorSetupRequired) {
+        // Password accepted; ask for the second factor (or enrol one)
+        setTwoFactorMode(result.twoFactorSetupRequired ? 'setup' : 'verify');
+      } else if (result.success && result.user) {
+        redirectAfterLogin(result.user);
       } else {
         // Show error
         toast({
@@ -86,60 +95,70 @@ export default function SimpleLogin() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="username"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Username</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Enter your username" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+              {twoFactorMode ? (
+                <TwoFactorChallenge
+                  mode={twoFactorMode}
+                  onComplete={redirectAfterLogin}
+                  onCancel={() => setTwoFactorMode(null)}
+                />
+              ) : (
+                <>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="username"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Username</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Enter your username" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                   
-                  <FormField
-                    control={form.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Password</FormLabel>
-                        <FormControl>
-                          <Input type="password" placeholder="Enter your password" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                      <FormField
+                        control={form.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" placeholder="Enter your password" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                   
-                  <Button 
-                    type="submit" 
-                    className="w-full" 
-                    disabled={isSubmitting}
-                  >
-                    {isSubmitting ? (
-                      <div className="flex items-center">
-                        <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                        Signing In...
-                      </div>
-                    ) : "Sign In"}
-                  </Button>
-                </form>
-              </Form>
+                      <Button 
+                        type="submit" 
+                        className="w-full" 
+                        disabled={isSubmitting}
+                      >
+                        {isSubmitting ? (
+                          <div className="flex items-center">
+                            <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                            </svg>
+                            Signing In...
+                          </div>
+                        ) : "Sign In"}
+                      </Button>
+                    </form>
+                  </Form>
               
-              <div className="mt-6 bg-slate-100 p-3 rounded-md text-sm text-slate-600">
-                <p><strong>Demo Accounts:</strong></p>
-                <p className="mt-1">Username: <code>admin</code> / Password: <code>admin123</code></p>
-                <p className="mt-1">Username: <code>demouser</code> / Password: <code>password123</code></p>
-                <p className="mt-1">Username: <code>agent</code> / Password: <code>agent123</code></p>
-              </div>
+                  <div className="mt-6 bg-slate-100 p-3 rounded-md text-sm text-slate-600">
+                    <p><strong>Demo Accounts:</strong></p>
+                    <p className="mt-1">Username: <code>admin</code> / Password: <code>admin123</code></p>
+                    <p className="mt-1">Username: <code>demouser</code> / Password: <code>password123</code></p>
+                    <p className="mt-1">Username: <code>agent</code> / Password: <code>agent123</code></p>
+                  </div>
+                </>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { Spinner } from "@/components/Spinner";
+import { apiRequest } from "@/lib/queryClient";
+import { fetchUserProfile } from "@/lib/unifiedAuth";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+type VerifyStatus = 'pending' | 'success' | 'error';
+
+export default function VerifyEmail() {
+  const { t } = useLanguage();
+  const [status, setStatus] = useState<VerifyStatus>('pending');
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single use, so make sure the request is only sent once
+    if (requested.current) return;
+    requested.current = true;
+
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token) {
+      setStatus('error');
+      return;
+    }
+
+    apiRequest("POST", "/users/verify-email", { token })
+      .then(async () => {
+        setStatus('success');
+        // Refresh the cached user so the verified flag is picked up
+        await fetchUserProfile();
+      })
+      .catch((error) => {
+        console.error("Email verification error:", error);
+        setStatus('error');
+      });
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto">
+          <Card>
+            <CardHeader className="space-y-1">
+              <CardTitle className="text-2xl font-heading text-center">{t('auth.verifyEmailPage.title')}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-center">
+              {status === 'pending' && <Spinner />}
+              {status === 'success' && <p className="text-slate-600">{t('auth.verifyEmailPage.success')}</p>}
+              {status === 'error' && <p className="text-slate-600">{t('auth.verifyEmailPage.invalidLink')}</p>}
+
+              {status !== 'pending' && (
+                <div className="mt-4 text-sm">
+                  <Link href="/">
+                    <span className="text-primary-600 hover:underline cursor-pointer">{t('auth.verifyEmailPage.continue')}</span>
+                  </Link>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
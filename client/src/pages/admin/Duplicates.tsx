@@ -0,0 +1,11 @@
+import React from "react";
+import { AdminLayout } from "@/components/layout/AdminLayout";
+import { AdminDuplicates } from "@/components/admin/AdminDuplicates";
+
+export default function AdminDuplicatesPage() {
+  return (
+    <AdminLayout>
+      <AdminDuplicates />
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,11 @@
+import React from "react";
+import { AdminLayout } from "@/components/layout/AdminLayout";
+import { AdminGeocoding } from "@/components/admin/AdminGeocoding";
+
+export default function AdminGeocodingPage() {
+  return (
+    <AdminLayout>
+      <AdminGeocoding />
+    </AdminLayout>
+  );
+}
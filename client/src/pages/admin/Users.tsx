@@ -1,11 +1,15 @@
 import React from "react";
 import { AdminLayout } from "@/components/layout/AdminLayout";
 import { AdminUsers } from "@/components/admin/AdminUsers";
+import { ErasureRequests } from "@/components/admin/ErasureRequests";
 
 export default function AdminUsersPage() {
   return (
     <AdminLayout>
-      <AdminUsers />
+      <div className="space-y-10">
+        <AdminUsers />
+        <ErasureRequests />
+      </div>
     </AdminLayout>
   );
 }
\ No newline at end of file
@@ -22,4 +22,15 @@ export const env = {
   DATABASE_URL: process.env.DATABASE_URL,
   NODE_ENV: process.env.NODE_ENV || 'development',
   PORT: process.env.PORT || '5000',
+  SESSION_SECRET: process.env.SESSION_SECRET,
+  FIREBASE_PROJECT_ID: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID,
+  APP_BASE_URL: process.env.APP_BASE_URL || 'http://localhost:5173', // Public URL of the client, used in emailed links
+  MAIL_TRANSPORT: process.env.MAIL_TRANSPORT || 'outbox', // 'outbox' (database) or 'file'
+  MAIL_OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR || path.resolve(projectRoot, 'mail-outbox'),
+  MAIL_FROM: process.env.MAIL_FROM || 'HomeHarbor <no-reply@homeharbor.com>',
+  FILE_STORAGE: process.env.FILE_STORAGE || 'local', // Where uploaded images are stored; only 'local' is built in
+  UPLOAD_DIR: process.env.UPLOAD_DIR || path.resolve(projectRoot, 'uploads'),
+  UPLOAD_PUBLIC_URL: process.env.UPLOAD_PUBLIC_URL || `http://localhost:${process.env.PORT || '5000'}/uploads`, // Absolute, since the client runs on another origin
+  GEOCODER: process.env.GEOCODER || 'local', // Geocoding provider; only 'local' (the imported dataset) is built in
+  GEOCODING_DATASET: process.env.GEOCODING_DATASET, // CSV of address and postal code coordinates for the local geocoder
 }; 
\ No newline at end of file
@@ -8,6 +8,8 @@ import { db } from "./db";
 import cors from "cors";
 import { env } from './config/env';
 import adminRoutes from './routes/admin';
+import { sessionMiddleware, loadSessionUser } from './session';
+import { authenticateApiKey, blockImpersonatedWrites } from './routes/middleware';
 
 // Check DATABASE_URL *before* using it
 if (!process.env.DATABASE_URL) {
@@ -27,6 +29,9 @@ function log(message: string, source = "express") {
 }
 
 const app = express();
+if (env.NODE_ENV === 'production') {
+  app.set('trust proxy', 1); // Needed for secure session cookies behind the hosting proxy
+}
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 // Define allowed origins
@@ -49,6 +54,17 @@ app.use(cors({
   credentials: true // Allow cookies and credentials
 }));
 
+// Uploaded listing photos; file names are unique, so they can be cached for good
+if (env.FILE_STORAGE === 'local') {
+  app.use('/uploads', express.static(env.UPLOAD_DIR, { immutable: true, maxAge: '1y', index: false }));
+}
+
+// Session handling: makes req.user available to every router
+app.use(sessionMiddleware);
+app.use(loadSessionUser);
+app.use(authenticateApiKey);
+app.use(blockImpersonatedWrites);
+
 // Logging middleware (keep using the local log function)
 app.use((req, res, next) => {
   const start = Date.now();
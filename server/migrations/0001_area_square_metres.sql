@@ -0,0 +1,5 @@
+-- Listing areas are stored in square metres.
+-- The schema comment and some labels said square feet, but the listing form, the bulk import
+-- template and the seed data have always used square metres, so existing values are kept as they
+-- are. Square feet are converted only for display and input (shared/units.ts).
+COMMENT ON COLUMN properties.area IS 'Living area in square metres';
@@ -0,0 +1,20 @@
+-- Full-text search over listings and blog posts.
+-- Generated tsvector columns stem each text as both Finnish and Swedish, weighted for ranking
+-- (title A, location or excerpt and tags B, body C), with GIN indexes for the @@ match.
+-- The expressions must stay in step with searchVector in shared/schema.ts.
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('finnish', title), 'A') || setweight(to_tsvector('swedish', title), 'A') ||
+    setweight(to_tsvector('finnish', address || ' ' || city), 'B') || setweight(to_tsvector('swedish', address || ' ' || city), 'B') ||
+    setweight(to_tsvector('finnish', description), 'C') || setweight(to_tsvector('swedish', description), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS properties_search_vector_idx ON properties USING gin (search_vector);
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('finnish', title), 'A') || setweight(to_tsvector('swedish', title), 'A') ||
+    setweight(to_tsvector('finnish', coalesce(excerpt, '') || ' ' || coalesce(tags, '')), 'B') ||
+    setweight(to_tsvector('swedish', coalesce(excerpt, '') || ' ' || coalesce(tags, '')), 'B') ||
+    setweight(to_tsvector('finnish', content), 'C') || setweight(to_tsvector('swedish', content), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS posts_search_vector_idx ON posts USING gin (search_vector);
@@ -0,0 +1,6 @@
+-- Uploads are unattached until a listing is saved with them; a daily job deletes uploads that
+-- stay unattached for a day. Uploads from before this change count as attached, since the
+-- listings they belong to were saved without marking them.
+ALTER TABLE uploaded_images ADD COLUMN IF NOT EXISTS attached_at timestamp;
+
+UPDATE uploaded_images SET attached_at = created_at WHERE attached_at IS NULL;
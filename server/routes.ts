@@ -3,13 +3,24 @@ import type { Express, Request, Response, NextFunction } from "express"; // Adde
 import { storage } from "./storage";
 import { PROPERTY_TYPES } from "../shared/schema";
 import {
-  insertUserSchema, insertPropertySchema, properties, locations, settings,
-  insertLocationSchema, type Location // Added insertLocationSchema and Location type
+  insertUserSchema, insertPropertySchema, properties, propertyColumns, locations, settings,
+  insertLocationSchema, type Location, type Property // Added insertLocationSchema and Location type
 } from "@shared/schema";
 import { z } from "zod";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import usersRoutes from "./routes/users";
+import { router as twoFactorRoutes } from "./routes/twoFactor";
+import { router as identitiesRoutes } from "./routes/identities";
+import { router as privacyRoutes } from "./routes/privacy";
+import { router as apiKeysRoutes } from "./routes/apiKeys";
+import { router as uploadsRoutes } from "./routes/uploads";
+import { router as propertyImportRoutes } from "./routes/propertyImport";
+import { router as propertyExportRoutes } from "./routes/propertyExport";
+import { router as viewingsRoutes } from "./routes/viewings";
+import { router as rentalApplicationsRoutes } from "./routes/rentalApplications";
+import { router as geocodingRoutes } from "./routes/geocoding";
+import { router as valuationsRoutes } from "./routes/valuations";
 import placesRoutes from "./routes/places";
 import ouluDataRoutes from "./routes/oulu-data";
 import reseedRoutes from "./routes/reseed";
@@ -24,9 +35,15 @@ import neighborhoodRoutes from './routes/neighborhoods'; // Adjust path
 import postsRoutes from './routes/posts';
 import { log } from "console";
 import { Router } from 'express';
-import { adminOnly } from './routes/middleware'; // if you have admin middleware
+import { adminOnly, requireAuth, requireVerifiedEmail, requireOwnership, propertyOwner, isAdminUser, canActForUser, isHiddenFrom } from './routes/middleware';
 import staticPagesRoutes from './routes/staticPages';
 import { ouluDataService } from "./services/ouluDataService";
+import { imageService } from "./services/imageService";
+import { duplicateListingService } from "./services/duplicateListingService";
+import { priceComparablesService } from "./services/priceComparablesService";
+import { valuationService } from "./services/valuationService";
+import { propertyHistoryService } from "./services/propertyHistoryService";
+import { moderationService, ModerationError } from "./services/moderationService";
 import crimedata from './crimedata.json';
 
 // Helper for handling async route errors
@@ -35,38 +52,36 @@ const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => P
     Promise.resolve(fn(req, res, next)).catch(next);
   };
 
-// Helper: Haversine distance in km
-function haversine(lat1: number, lon1: number, lat2: number, lon2: number) {
-  const toRad = (x: number) => (x * Math.PI) / 180;
-  const R = 6371; // km
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) *
-      Math.cos(toRad(lat2)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
 export async function registerRoutes(app: Express): Promise<void> {
   // Register modular routes
+  app.use("/api/users/2fa", twoFactorRoutes);
+  app.use("/api/users/identities", identitiesRoutes);
+  app.use("/api/users/privacy", privacyRoutes);
+  app.use("/api/users/api-keys", apiKeysRoutes);
   app.use("/api/users", usersRoutes);
   app.use("/api/places", placesRoutes);
   app.use("/api/oulu", ouluDataRoutes);
   app.use("/api/reseed", reseedRoutes);
   app.use("/api/favorites", favoritesRoutes);
+  app.use("/api/uploads", uploadsRoutes);
+  // Mounted before the /api/properties/:id routes below
+  app.use("/api/properties/import", propertyImportRoutes);
+  app.use("/api/properties/export", propertyExportRoutes);
+  // Mounted before the admin router, whose admin-only guard covers all of /api/admin,
+  // because static page content is read publicly
+  app.use('/api/admin/page-content', staticPagesRoutes);
   app.use("/api/admin", adminRoutes);
   app.use("/api/messages", messagesRoutes);
+  app.use("/api/viewings", viewingsRoutes);
+  app.use("/api/rental-applications", rentalApplicationsRoutes);
+  app.use("/api/geocoding", geocodingRoutes);
+  app.use("/api/valuations", valuationsRoutes);
   app.use("/api/admin/settings", settingsRoutes);
   app.use("/api/admin/logs", logsRoutes);
   app.use("/api/footer", footerRoutes);
   app.use("/api/page-content", pageContentRouter);
   app.use('/api', neighborhoodRoutes);
   app.use('/api', postsRoutes);
-  app.use('/api/admin/page-content', staticPagesRoutes);
 
   // --- Public Settings Endpoints ---
   app.get("/api/settings/currency", asyncHandler(async (req, res) => {
@@ -103,14 +118,13 @@ export async function registerRoutes(app: Express): Promise<void> {
   }));
 
   // --- Admin Data Management Routes ---
-  app.delete("/api/admin/clear-all-data", asyncHandler(async (req, res) => {
-    // Ensure this is protected by admin middleware if not done in adminRoutes
+  app.delete("/api/admin/clear-all-data", adminOnly, asyncHandler(async (req, res) => {
     await db.delete(properties);
     await db.delete(locations);
     return res.json({ success: true, message: "All properties and locations have been deleted" });
   }));
 
-  app.post("/api/admin/generate-data", asyncHandler(async (req, res) => {
+  app.post("/api/admin/generate-data", adminOnly, asyncHandler(async (req, res) => {
     const validationSchema = z.object({
       clearExisting: z.boolean().default(false),
     });
@@ -126,8 +140,8 @@ export async function registerRoutes(app: Express): Promise<void> {
 
   // --- Property Routes Implementation ---
   app.get("/api/properties", asyncHandler(async (req, res) => {
-    // Extract filters from query parameters (req.query)
-    const filters = req.query; // Includes page, limit, city, type, etc.
+    // Extract filters from query parameters (req.query); the public list only ever shows published listings
+    const { moderationStatus: _moderationStatus, ...filters } = req.query; // Includes page, limit, city, type, etc.
     const { properties: propertyList, total } = await storage.getProperties(filters);
     res.json({ properties: propertyList, total });
   }));
@@ -147,35 +161,97 @@ export async function registerRoutes(app: Express): Promise<void> {
     res.json(searchResults);
   }));
 
+  /**
+   * @route GET /api/properties/:id/recommendations
+   * @desc Similar listings, most similar first, each with the reasons it was picked (?limit,
+   *       coFavorites=false to rank on the listings' details only)
+   */
   app.get("/api/properties/:id/recommendations", asyncHandler(async (req, res) => {
     const id = parseInt(req.params.id, 10);
-    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 5;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 5, 1), 20);
     if (isNaN(id)) {
       return res.status(400).json({ error: "Invalid property ID" });
     }
-    const recommendations = await storage.getRecommendedProperties(id, limit);
+    const property = await storage.getProperty(id);
+    if (!property || isHiddenFrom(property, req.user)) {
+      return res.status(404).json({ error: "Property not found" });
+    }
+    const recommendations = await storage.getRecommendedProperties(id, limit, { coFavorites: req.query.coFavorites !== 'false' });
     res.json(recommendations);
   }));
 
+  /**
+   * @route GET /api/properties/:id/history
+   * @desc Price and status changes of a listing, oldest first
+   */
+  app.get("/api/properties/:id/history", asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid property ID" });
+    }
+    const property = await storage.getProperty(id);
+    if (!property || isHiddenFrom(property, req.user)) {
+      return res.status(404).json({ error: "Property not found" });
+    }
+    const events = await propertyHistoryService.getHistory(id);
+    res.json({ events });
+  }));
+
+  /**
+   * @route GET /api/properties/:id/valuation
+   * @desc Estimated value range of a listing from comparable listings, with its confidence and the comparables;
+   *       estimate is null when there are too few comparables
+   */
+  app.get("/api/properties/:id/valuation", asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid property ID" });
+    }
+    const property = await storage.getProperty(id);
+    if (!property || isHiddenFrom(property, req.user)) {
+      return res.status(404).json({ error: "Property not found" });
+    }
+    res.json(await valuationService.forProperty(property));
+  }));
+
   app.get("/api/properties/:id", asyncHandler(async (req, res) => {
     const id = parseInt(req.params.id, 10);
     if (isNaN(id)) {
       return res.status(400).json({ error: "Invalid property ID" });
     }
     const property = await storage.getProperty(id);
-    if (!property) {
+    if (!property || isHiddenFrom(property, req.user)) {
       return res.status(404).json({ error: "Property not found" });
     }
-    res.json(property);
+    const comparables = await priceComparablesService.forProperty(property);
+    res.json({ ...property, comparables });
   }));
 
-  app.post("/api/properties", asyncHandler(async (req, res) => {
+  app.post("/api/properties", requireAuth, requireVerifiedEmail, asyncHandler(async (req, res) => {
     // Add validation using Zod schema
     try {
+      // Listings are always owned by the poster; only admins may post on behalf of another user.
+      // Listings by non-admins are drafts or wait for review before they become public.
+      const body = isAdminUser(req.user)
+        ? { ...req.body, userId: req.body.userId || req.user!.id, moderationStatus: 'published' }
+        : { ...req.body, userId: req.user!.id, moderationStatus: moderationService.initialStatus(req.body.moderationStatus) };
       // Note: insertPropertySchema might need adjustment if frontend sends numbers as strings
-      const validatedData = insertPropertySchema.parse(req.body);
+      const validatedData = insertPropertySchema.parse(body);
       const newProperty = await storage.createProperty(validatedData);
-      res.status(201).json(newProperty);
+      // Likely duplicates are shown to the poster as a warning; the listing is created regardless
+      let possibleDuplicates: { id: number; title: string; city: string; score: number; reasons: string[] }[] = [];
+      try {
+        const matches = await duplicateListingService.checkListing(newProperty.id);
+        possibleDuplicates = matches
+          .filter((match) => !isHiddenFrom(match.property, req.user))
+          .map(({ property, score, reasons }) => ({ id: property.id, title: property.title, city: property.city, score, reasons }));
+      } catch (error) {
+        console.error(`Duplicates: failed to check new property ${newProperty.id}:`, error);
+      }
+      priceComparablesService.computeFor(newProperty.id).catch((error) => {
+        console.error(`Comparables: failed to compute for new property ${newProperty.id}:`, error);
+      });
+      res.status(201).json({ ...newProperty, possibleDuplicates });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Validation failed", details: error.errors });
@@ -190,33 +266,77 @@ export async function registerRoutes(app: Express): Promise<void> {
     res.json(PROPERTY_TYPES);
   }));
 
-  app.put("/api/properties/:id", asyncHandler(async (req, res) => {
-    // Ensure this route is protected if needed (e.g., only owner or admin can update)
+  app.put("/api/properties/:id", requireOwnership(propertyOwner(), 'Property'), asyncHandler(async (req, res) => {
     const id = parseInt(req.params.id, 10);
     if (isNaN(id)) {
       return res.status(400).json({ error: "Invalid property ID" });
     }
-    // Add partial validation if desired
-    // const validatedData = insertPropertySchema.partial().parse(req.body);
-    const updatedProperty = await storage.updateProperty(id, req.body); // Pass req.body directly for partial updates
+    // Ownership transfer, moderation and the featured and verified flags are admin-only
+    const updateSchema = isAdminUser(req.user)
+      ? insertPropertySchema.partial().extend({ featured: z.boolean().optional(), verified: z.boolean().optional() })
+      : insertPropertySchema.partial().omit({ userId: true, moderationStatus: true });
+    let updates: Partial<Property>;
+    try {
+      updates = updateSchema.parse(req.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      throw error;
+    }
+    const previousImages: string[] = (await storage.getProperty(id))?.images ?? [];
+    // Content edits by the owner send a reviewed listing back to review
+    const updatedProperty = await storage.updateProperty(id, updates, { actorId: req.user!.id, source: 'edit' }, { review: !isAdminUser(req.user) }); // Pass body directly for partial updates
     if (!updatedProperty) {
       return res.status(404).json({ error: "Property not found" });
     }
+    const removedImages = previousImages.filter((url) => !(updatedProperty.images ?? []).includes(url));
+    await imageService.releaseImages(removedImages, updatedProperty.userId);
+    // Re-checked so the review screen reflects edits before the nightly run
+    duplicateListingService.checkListing(id).catch((error) => {
+      console.error(`Duplicates: failed to check updated property ${id}:`, error);
+    });
+    priceComparablesService.computeFor(id).catch((error) => {
+      console.error(`Comparables: failed to compute for updated property ${id}:`, error);
+    });
     res.json(updatedProperty);
   }));
 
-  app.delete("/api/properties/:id", asyncHandler(async (req, res) => {
-    // Ensure this route is protected (e.g., only owner or admin can delete)
+  /**
+   * @route POST /api/properties/:id/submit
+   * @desc Submit a draft or rejected listing for review
+   */
+  app.post("/api/properties/:id/submit", requireOwnership(propertyOwner(), 'Property'), asyncHandler(async (req, res) => {
     const id = parseInt(req.params.id, 10);
     if (isNaN(id)) {
       return res.status(400).json({ error: "Invalid property ID" });
     }
+    try {
+      const property = await moderationService.submit(id, req.user!.id);
+      res.json(property);
+    } catch (error) {
+      if (error instanceof ModerationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  app.delete("/api/properties/:id", requireOwnership(propertyOwner(), 'Property'), asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid property ID" });
+    }
+    const property = await storage.getProperty(id);
     const success = await storage.deleteProperty(id);
     if (!success) {
       // This might happen if the storage method returns false on failure,
       // or if the item wasn't found (depending on implementation)
       return res.status(404).json({ error: "Property not found or could not be deleted" });
     }
+    if (property?.images) {
+      await imageService.releaseImages(property.images, property.userId);
+    }
     res.status(204).send(); // No content on successful deletion
   }));
 
@@ -239,7 +359,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   }));
 
   // POST /api/locations - Create a new location
-  app.post("/api/locations", asyncHandler(async (req, res) => {
+  app.post("/api/locations", adminOnly, asyncHandler(async (req, res) => {
     // Add validation using Zod schema
     try {
       // Validate the request body against the schema
@@ -257,7 +377,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   }));
 
   // PUT /api/locations/:id - Update an existing location
-  app.put("/api/locations/:id", asyncHandler(async (req, res) => {
+  app.put("/api/locations/:id", adminOnly, asyncHandler(async (req, res) => {
     const id = parseInt(req.params.id, 10);
     if (isNaN(id)) {
       return res.status(400).json({ error: "Invalid location ID" });
@@ -273,7 +393,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   }));
 
   // DELETE /api/locations/:id - Delete a location
-  app.delete("/api/locations/:id", asyncHandler(async (req, res) => {
+  app.delete("/api/locations/:id", adminOnly, asyncHandler(async (req, res) => {
     const id = parseInt(req.params.id, 10);
     if (isNaN(id)) {
       return res.status(400).json({ error: "Invalid location ID" });
@@ -300,10 +420,12 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
 
     try {
-      // Fetch properties from the database where userId matches
-      const userProperties = await db.select()
+      // Fetch properties from the database where userId matches; others only see the published ones
+      const userProperties = await db.select(propertyColumns)
         .from(properties)
-        .where(eq(properties.userId, userId)) // Filter by the userId column
+        .where(canActForUser(req.user, userId)
+          ? eq(properties.userId, userId)
+          : and(eq(properties.userId, userId), eq(properties.moderationStatus, 'published')))
         .orderBy(properties.createdAt); // Optional: Order results
 
       console.log(`Found ${userProperties.length} properties for user ID ${userId}`);
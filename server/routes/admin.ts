@@ -1,27 +1,27 @@
 import { Router, Request, Response } from "express";
 import { storage } from "../storage";
 import { z } from "zod";
-import { insertPropertySchema, insertUserSchema, insertLocationSchema } from "@shared/schema";
+import { insertPropertySchema, insertUserSchema, insertLocationSchema, mailOutbox } from "@shared/schema";
+import { desc } from "drizzle-orm";
 import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
 import { db } from '../db';
+import { adminOnly } from './middleware';
+import { loginThrottleService, type SecurityEventType } from '../services/loginThrottleService';
+import { dataPrivacyService, ErasureRequestError, type ErasureStatus } from '../services/dataPrivacyService';
+import { impersonationService } from '../services/impersonationService';
+import { moderationService, ModerationError } from '../services/moderationService';
+import { duplicateListingService, DuplicateListingError } from '../services/duplicateListingService';
+import { propertyRevisionService, PropertyRevisionError } from '../services/propertyRevisionService';
+import { geocodingService, GeocodingError } from '../services/geocodingService';
+import { priceComparablesService } from '../services/priceComparablesService';
+import { startImpersonation } from '../session';
 
 export const router = Router();
 
-// Middleware to check if user is admin
-const isAdmin = (req: Request, res: Response, next: Function) => {
-  // For now, allow all admin requests without authentication
-  // In a production environment, you'd want to check session data 
-  // const user = req.session?.user;
-  // if (!user || user.role !== 'admin') {
-  //   return res.status(403).json({ error: "Access denied. Admin rights required." });
-  // }
-  next();
-};
-
 // Apply the admin middleware to all routes
-router.use(isAdmin);
+router.use(adminOnly);
 
 /**
  * @route GET /api/admin/logs
@@ -76,7 +76,7 @@ router.get("/logs", async (req: Request, res: Response) => {
     
     // Log for database status
     try {
-      const { properties } = await storage.getProperties();
+      const { properties } = await storage.getProperties({ moderationStatus: 'all' });
       recentLogs.push({
         timestamp: new Date().toISOString(),
         level: 'info',
@@ -122,7 +122,7 @@ router.get("/dashboard", async (req: Request, res: Response) => {
       locations,
       favorites
     ] = await Promise.all([
-      storage.getProperties(),
+      storage.getProperties({ moderationStatus: 'all' }),
       storage.getAllUsers(),
       storage.getLocations(),
       storage.getAllFavorites()
@@ -190,6 +190,21 @@ router.get("/users", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route GET /api/admin/mail-outbox
+ * @desc Get the most recent emails stored by the outbox mail transport
+ */
+router.get("/mail-outbox", async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const entries = await db.select().from(mailOutbox).orderBy(desc(mailOutbox.createdAt)).limit(limit);
+    return res.json(entries);
+  } catch (error) {
+    console.error("Error getting mail outbox:", error);
+    return res.status(500).json({ error: "Failed to fetch mail outbox" });
+  }
+});
+
 /**
  * @route GET /api/admin/users/:id
  * @desc Get user by ID
@@ -270,18 +285,198 @@ router.delete("/users/:id", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "Invalid user ID" });
     }
     
-    const success = await storage.deleteUser(userId);
-    if (!success) {
+    if (userId === req.user!.id) {
+      return res.status(400).json({ error: "You cannot delete your own account" });
+    }
+
+    // Same policy as a GDPR erasure, so no favorites, messages or listings are left orphaned
+    const summary = await dataPrivacyService.eraseUser(userId);
+    if (!summary) {
       return res.status(404).json({ error: "User not found" });
     }
     
-    return res.status(200).json({ message: "User deleted successfully" });
+    return res.status(200).json({ message: "User deleted successfully", summary });
   } catch (error) {
     console.error("Error deleting user:", error);
     return res.status(500).json({ error: "Failed to delete user" });
   }
 });
 
+/**
+ * @route POST /api/admin/users/:id/unlock
+ * @desc Lift a login lockout (and any backoff) for a user account
+ */
+router.post("/users/:id/unlock", async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid user ID" });
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const wasLocked = await loginThrottleService.unlockAccount(userId, { id: req.user!.id, ip: req.ip || 'unknown' });
+    return res.json({ message: wasLocked ? "Account unlocked" : "Account was not locked" });
+  } catch (error) {
+    console.error("Error unlocking user:", error);
+    return res.status(500).json({ error: "Failed to unlock user" });
+  }
+});
+
+/**
+ * @route POST /api/admin/users/:id/impersonate
+ * @desc View the site as another (non-admin) user for a limited time. The session is
+ *       read-only until it is stopped via POST /api/users/impersonation/stop or expires.
+ */
+router.post("/users/:id/impersonate", async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid user ID" });
+    }
+    if (userId === req.user!.id) {
+      return res.status(400).json({ error: "You cannot impersonate yourself" });
+    }
+
+    const target = await storage.getUser(userId);
+    if (!target) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    if (target.role === 'admin') {
+      return res.status(403).json({ error: "Admin accounts cannot be impersonated" });
+    }
+
+    const adminId = req.user!.id;
+    const impersonator = await startImpersonation(req, target);
+    await impersonationService.record('started', adminId, target.id, { ip: req.ip });
+    console.log(`Impersonation: admin ${adminId} is viewing as user ${target.id}`);
+    return res.json({ user: { ...req.user, impersonation: impersonator } });
+  } catch (error) {
+    console.error("Error starting impersonation:", error);
+    return res.status(500).json({ error: "Failed to start impersonation" });
+  }
+});
+
+/**
+ * @route GET /api/admin/impersonation/audit
+ * @desc Query the impersonation audit log (starts, ends, blocked writes), newest first
+ */
+router.get("/impersonation/audit", async (req: Request, res: Response) => {
+  try {
+    const { adminId, userId, limit } = req.query;
+    const entries = await impersonationService.listAudit({
+      adminId: adminId ? parseInt(adminId as string) || undefined : undefined,
+      userId: userId ? parseInt(userId as string) || undefined : undefined,
+      limit: limit ? parseInt(limit as string) || undefined : undefined,
+    });
+    return res.json(entries);
+  } catch (error) {
+    console.error("Error getting impersonation audit log:", error);
+    return res.status(500).json({ error: "Failed to fetch impersonation audit log" });
+  }
+});
+
+/**
+ * @route GET /api/admin/security/locked-accounts
+ * @desc Get accounts that are currently locked after too many failed logins
+ */
+router.get("/security/locked-accounts", async (req: Request, res: Response) => {
+  try {
+    const lockedAccounts = await loginThrottleService.getLockedAccounts();
+    return res.json(lockedAccounts);
+  } catch (error) {
+    console.error("Error getting locked accounts:", error);
+    return res.status(500).json({ error: "Failed to fetch locked accounts" });
+  }
+});
+
+/**
+ * @route GET /api/admin/security/events
+ * @desc Query security events (failed logins, lockouts, unlocks), newest first
+ */
+router.get("/security/events", async (req: Request, res: Response) => {
+  try {
+    const { type, userId, ip, since, limit } = req.query;
+    const events = await loginThrottleService.listEvents({
+      type: type ? type as SecurityEventType : undefined,
+      userId: userId ? parseInt(userId as string) || undefined : undefined,
+      ip: ip ? ip as string : undefined,
+      since: since && !isNaN(Date.parse(since as string)) ? new Date(since as string) : undefined,
+      limit: limit ? parseInt(limit as string) || undefined : undefined,
+    });
+    return res.json(events);
+  } catch (error) {
+    console.error("Error getting security events:", error);
+    return res.status(500).json({ error: "Failed to fetch security events" });
+  }
+});
+
+/**
+ * @route GET /api/admin/erasure-requests
+ * @desc Get GDPR erasure requests (pending ones by default), soonest due first
+ */
+router.get("/erasure-requests", async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status === 'all' ? undefined : (req.query.status as ErasureStatus) || 'pending';
+    const requests = await dataPrivacyService.listRequests(status);
+    return res.json(requests);
+  } catch (error) {
+    console.error("Error getting erasure requests:", error);
+    return res.status(500).json({ error: "Failed to fetch erasure requests" });
+  }
+});
+
+/**
+ * @route POST /api/admin/erasure-requests/:id/complete
+ * @desc Erase the account of a pending request now instead of waiting for its due date
+ */
+router.post("/erasure-requests/:id/complete", async (req: Request, res: Response) => {
+  try {
+    const requestId = parseInt(req.params.id);
+    if (isNaN(requestId)) {
+      return res.status(400).json({ error: "Invalid request ID" });
+    }
+
+    const request = await dataPrivacyService.completeRequest(requestId, req.user!.id);
+    return res.json(request);
+  } catch (error) {
+    if (error instanceof ErasureRequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error completing erasure request:", error);
+    return res.status(500).json({ error: "Failed to complete erasure request" });
+  }
+});
+
+/**
+ * @route POST /api/admin/erasure-requests/:id/reject
+ * @desc Reject a pending erasure request (e.g. data under a legal retention obligation)
+ */
+router.post("/erasure-requests/:id/reject", async (req: Request, res: Response) => {
+  try {
+    const requestId = parseInt(req.params.id);
+    if (isNaN(requestId)) {
+      return res.status(400).json({ error: "Invalid request ID" });
+    }
+    const { reason } = z.object({ reason: z.string().trim().min(1, "A reason is required") }).parse(req.body);
+
+    const request = await dataPrivacyService.rejectRequest(requestId, req.user!.id, reason);
+    return res.json(request);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof ErasureRequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error rejecting erasure request:", error);
+    return res.status(500).json({ error: "Failed to reject erasure request" });
+  }
+});
+
 /**
  * @route GET /api/admin/properties
  * @desc Get all properties with pagination and filtering
@@ -298,6 +493,7 @@ router.get("/properties", async (req: Request, res: Response) => {
     
     const { properties, total } = await storage.getProperties({
       ...filters,
+      moderationStatus: filters.moderationStatus || 'all', // e.g. "pending" for the review queue
       page: pageNum,
       limit: limitNum
     });
@@ -375,7 +571,7 @@ router.put("/properties/:id", async (req: Request, res: Response) => {
     }
     
     const validatedData = insertPropertySchema.partial().parse(req.body);
-    const updatedProperty = await storage.updateProperty(propertyId, validatedData);
+    const updatedProperty = await storage.updateProperty(propertyId, validatedData, { actorId: req.user!.id, source: 'admin' });
     return res.json(updatedProperty);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -546,7 +742,7 @@ router.put("/properties/:id/verify", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Property not found" });
     }
     
-    const updatedProperty = await storage.updateProperty(propertyId, { verified: true });
+    const updatedProperty = await storage.updateProperty(propertyId, { verified: true }, { actorId: req.user!.id, source: 'admin' });
     return res.json(updatedProperty);
   } catch (error) {
     console.error("Error verifying property:", error);
@@ -570,7 +766,7 @@ router.put("/properties/:id/unverify", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Property not found" });
     }
     
-    const updatedProperty = await storage.updateProperty(propertyId, { verified: false });
+    const updatedProperty = await storage.updateProperty(propertyId, { verified: false }, { actorId: req.user!.id, source: 'admin' });
     return res.json(updatedProperty);
   } catch (error) {
     console.error("Error unverifying property:", error);
@@ -594,7 +790,7 @@ router.put("/properties/:id/feature", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Property not found" });
     }
     
-    const updatedProperty = await storage.updateProperty(propertyId, { featured: true });
+    const updatedProperty = await storage.updateProperty(propertyId, { featured: true }, { actorId: req.user!.id, source: 'admin' });
     return res.json(updatedProperty);
   } catch (error) {
     console.error("Error featuring property:", error);
@@ -618,7 +814,7 @@ router.put("/properties/:id/unfeature", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Property not found" });
     }
     
-    const updatedProperty = await storage.updateProperty(propertyId, { featured: false });
+    const updatedProperty = await storage.updateProperty(propertyId, { featured: false }, { actorId: req.user!.id, source: 'admin' });
     return res.json(updatedProperty);
   } catch (error) {
     console.error("Error unfeaturing property:", error);
@@ -626,6 +822,256 @@ router.put("/properties/:id/unfeature", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route PUT /api/admin/properties/:id/approve
+ * @desc Publish a listing that is pending review (or was rejected) and notify its owner
+ */
+router.put("/properties/:id/approve", async (req: Request, res: Response) => {
+  try {
+    const propertyId = parseInt(req.params.id);
+    if (isNaN(propertyId)) {
+      return res.status(400).json({ error: "Invalid property ID" });
+    }
+
+    const property = await moderationService.approve(propertyId, req.user!.id);
+    console.log(`Moderation: admin ID ${req.user!.id} published property ${propertyId}`);
+    return res.json(property);
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error approving property:", error);
+    return res.status(500).json({ error: "Failed to approve property" });
+  }
+});
+
+/**
+ * @route PUT /api/admin/properties/:id/reject
+ * @desc Reject a pending or published listing; the reason is sent to its owner
+ */
+router.put("/properties/:id/reject", async (req: Request, res: Response) => {
+  try {
+    const propertyId = parseInt(req.params.id);
+    if (isNaN(propertyId)) {
+      return res.status(400).json({ error: "Invalid property ID" });
+    }
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    if (!reason) {
+      return res.status(400).json({ error: "A rejection reason is required" });
+    }
+
+    const property = await moderationService.reject(propertyId, reason.slice(0, 2000), req.user!.id);
+    console.log(`Moderation: admin ID ${req.user!.id} rejected property ${propertyId}`);
+    return res.json(property);
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error rejecting property:", error);
+    return res.status(500).json({ error: "Failed to reject property" });
+  }
+});
+
+/**
+ * @route GET /api/admin/duplicates
+ * @desc Likely duplicate listing pairs, most likely first (?status=open|dismissed, page, limit)
+ */
+router.get("/duplicates", async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status === 'dismissed' ? 'dismissed' : 'open';
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+    const { pairs, total } = await duplicateListingService.listPairs(status, page, limit);
+    return res.json({
+      pairs,
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    console.error("Error fetching duplicate listings:", error);
+    return res.status(500).json({ error: "Failed to fetch duplicate listings" });
+  }
+});
+
+/**
+ * @route POST /api/admin/duplicates/detect
+ * @desc Run duplicate detection over all listings now instead of waiting for the nightly run
+ */
+router.post("/duplicates/detect", async (req: Request, res: Response) => {
+  try {
+    const result = await duplicateListingService.detectAll();
+    console.log(`Duplicates: admin ID ${req.user!.id} ran detection, ${result.pairs} likely duplicate pair(s)`);
+    return res.json(result);
+  } catch (error) {
+    console.error("Error detecting duplicate listings:", error);
+    return res.status(500).json({ error: "Failed to detect duplicate listings" });
+  }
+});
+
+/**
+ * @route PUT /api/admin/duplicates/:id/dismiss
+ * @desc Mark a pair as not being duplicates; it is not reported again
+ */
+router.put("/duplicates/:id/dismiss", async (req: Request, res: Response) => {
+  try {
+    const pairId = parseInt(req.params.id);
+    if (isNaN(pairId)) {
+      return res.status(400).json({ error: "Invalid duplicate pair ID" });
+    }
+
+    const pair = await duplicateListingService.dismiss(pairId, req.user!.id);
+    console.log(`Duplicates: admin ID ${req.user!.id} dismissed pair ${pairId}`);
+    return res.json(pair);
+  } catch (error) {
+    if (error instanceof DuplicateListingError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error dismissing duplicate pair:", error);
+    return res.status(500).json({ error: "Failed to dismiss duplicate pair" });
+  }
+});
+
+/**
+ * @route PUT /api/admin/duplicates/:id/merge
+ * @desc Keep one listing of the pair ({ keepId }) and delete the other, moving its favorites and messages
+ */
+router.put("/duplicates/:id/merge", async (req: Request, res: Response) => {
+  try {
+    const pairId = parseInt(req.params.id);
+    const keepId = Number(req.body?.keepId);
+    if (isNaN(pairId) || !Number.isInteger(keepId)) {
+      return res.status(400).json({ error: "A duplicate pair ID and the ID of the listing to keep are required" });
+    }
+
+    const removed = await duplicateListingService.merge(pairId, keepId);
+    console.log(`Duplicates: admin ID ${req.user!.id} merged property ${removed.id} into ${keepId}`);
+    return res.json({ keptId: keepId, removedId: removed.id });
+  } catch (error) {
+    if (error instanceof DuplicateListingError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error merging duplicate listings:", error);
+    return res.status(500).json({ error: "Failed to merge duplicate listings" });
+  }
+});
+
+/**
+ * @route GET /api/admin/property-revisions
+ * @desc Listing revisions with their changed fields, newest first (?propertyId, page, limit)
+ */
+router.get("/property-revisions", async (req: Request, res: Response) => {
+  try {
+    const propertyId = req.query.propertyId ? parseInt(req.query.propertyId as string) : undefined;
+    if (propertyId !== undefined && isNaN(propertyId)) {
+      return res.status(400).json({ error: "Invalid property ID" });
+    }
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+    return res.json(await propertyRevisionService.list({ propertyId, page, limit }));
+  } catch (error) {
+    console.error("Error fetching property revisions:", error);
+    return res.status(500).json({ error: "Failed to fetch property revisions" });
+  }
+});
+
+/**
+ * @route POST /api/admin/property-revisions/:id/revert
+ * @desc Set the fields changed by a revision back to their old values; the revert is itself a revision
+ */
+router.post("/property-revisions/:id/revert", async (req: Request, res: Response) => {
+  try {
+    const revisionId = parseInt(req.params.id);
+    if (isNaN(revisionId)) {
+      return res.status(400).json({ error: "Invalid revision ID" });
+    }
+
+    const { propertyId, values, skipped } = await propertyRevisionService.revertUpdate(revisionId);
+    const property = await storage.updateProperty(propertyId, values, {
+      actorId: req.user!.id,
+      source: 'revert',
+      revertedRevisionId: revisionId,
+    });
+    if (!property) {
+      return res.status(404).json({ error: "Property not found" });
+    }
+    console.log(`Revisions: admin ID ${req.user!.id} reverted revision ${revisionId} of property ${propertyId}`);
+    return res.json({ property, skipped });
+  } catch (error) {
+    if (error instanceof PropertyRevisionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error reverting property revision:", error);
+    return res.status(500).json({ error: "Failed to revert property revision" });
+  }
+});
+
+/**
+ * @route GET /api/admin/geocoding
+ * @desc Geocoding provider, size of the local dataset, and listings still without coordinates
+ */
+router.get("/geocoding", async (req: Request, res: Response) => {
+  try {
+    const [status, unresolved] = await Promise.all([
+      geocodingService.datasetStatus(),
+      geocodingService.unresolved(200),
+    ]);
+    return res.json({ ...status, unresolved });
+  } catch (error) {
+    console.error("Error fetching geocoding status:", error);
+    return res.status(500).json({ error: "Failed to fetch geocoding status" });
+  }
+});
+
+/**
+ * @route POST /api/admin/geocoding/dataset
+ * @desc Reload the local geocoding dataset from the GEOCODING_DATASET file
+ */
+router.post("/geocoding/dataset", async (req: Request, res: Response) => {
+  try {
+    const result = await geocodingService.loadDataset();
+    console.log(`Geocoding: admin ID ${req.user!.id} reloaded the dataset, ${result.places} place(s)`);
+    return res.json(result);
+  } catch (error) {
+    if (error instanceof GeocodingError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error loading geocoding dataset:", error);
+    return res.status(500).json({ error: "Failed to load geocoding dataset" });
+  }
+});
+
+/**
+ * @route POST /api/admin/geocoding/backfill
+ * @desc Look up coordinates for listings without them now instead of waiting for the nightly run;
+ *       responds with the report of listings that could not be located
+ */
+router.post("/geocoding/backfill", async (req: Request, res: Response) => {
+  try {
+    const report = await geocodingService.backfill();
+    console.log(`Geocoding: admin ID ${req.user!.id} ran the backfill, located ${report.resolved} of ${report.checked} listing(s)`);
+    return res.json(report);
+  } catch (error) {
+    console.error("Error backfilling coordinates:", error);
+    return res.status(500).json({ error: "Failed to backfill coordinates" });
+  }
+});
+
+/**
+ * @route POST /api/admin/comparables/compute
+ * @desc Recompute the area median prices of all listings now instead of waiting for the nightly run
+ */
+router.post("/comparables/compute", async (req: Request, res: Response) => {
+  try {
+    const result = await priceComparablesService.computeAll();
+    console.log(`Comparables: admin ID ${req.user!.id} recomputed area prices for ${result.computed} of ${result.listings} listing(s)`);
+    return res.json(result);
+  } catch (error) {
+    console.error("Error computing comparables:", error);
+    return res.status(500).json({ error: "Failed to compute area prices" });
+  }
+});
+
 // Clean database schema
 router.post('/clean-schema', async (req, res) => {
     try {
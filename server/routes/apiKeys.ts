@@ -0,0 +1,76 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { API_KEY_SCOPES } from "@shared/schema";
+import { apiKeyService } from "../services/apiKeyService";
+import { requireRole, isAdminUser, sendForbidden } from "./middleware";
+
+/**
+ * Partner API keys of the signed-in agent, mounted at /api/users/api-keys.
+ * Keys can only be managed from a session, never with another API key.
+ */
+export const router = Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+
+const MAX_KEYS_PER_USER = 10;
+
+const createKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "Select at least one scope"),
+  rateLimitPerMinute: z.coerce.number().int().min(1).max(600).default(60),
+});
+
+router.use(requireRole('agent'));
+
+/**
+ * @route GET /api/users/api-keys
+ * @desc List the API keys of the signed-in agent, including revoked ones
+ */
+router.get("/", asyncHandler(async (req: Request, res: Response) => {
+  const keys = await apiKeyService.list(req.user!.id);
+  res.json({ success: true, keys, availableScopes: API_KEY_SCOPES });
+}));
+
+/**
+ * @route POST /api/users/api-keys
+ * @desc Create an API key. The key itself is only returned in this response.
+ */
+router.post("/", asyncHandler(async (req: Request, res: Response) => {
+  if (isAdminUser(req.user)) {
+    return sendForbidden(res, "API keys are not available for admin accounts");
+  }
+  const validationResult = createKeySchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
+  }
+
+  const activeKeys = (await apiKeyService.list(req.user!.id)).filter((key) => !key.revokedAt);
+  if (activeKeys.length >= MAX_KEYS_PER_USER) {
+    return res.status(400).json({ success: false, message: `You can have at most ${MAX_KEYS_PER_USER} active API keys` });
+  }
+
+  const { apiKey, key } = await apiKeyService.create(req.user!.id, validationResult.data);
+  console.log(`API keys: user ID ${req.user!.id} created key ${apiKey.prefix}… with scopes ${apiKey.scopes.join(', ')}`);
+  res.status(201).json({ success: true, apiKey, key });
+}));
+
+/**
+ * @route DELETE /api/users/api-keys/:id
+ * @desc Revoke an API key
+ */
+router.delete("/:id", asyncHandler(async (req: Request, res: Response) => {
+  const keyId = parseInt(req.params.id, 10);
+  if (isNaN(keyId)) {
+    return res.status(400).json({ success: false, message: "Invalid API key ID" });
+  }
+
+  const revoked = await apiKeyService.revoke(req.user!.id, keyId);
+  if (!revoked) {
+    return res.status(404).json({ success: false, message: "API key not found" });
+  }
+  console.log(`API keys: user ID ${req.user!.id} revoked key ${keyId}`);
+  res.json({ success: true, message: "API key revoked" });
+}));
@@ -2,9 +2,10 @@ import { Router, Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
 import { z } from "zod";
 import { insertFavoriteSchema } from "@shared/schema";
-import { favorites, properties } from "@shared/schema"; // Drizzle tables
+import { favorites, properties, propertyColumns } from "@shared/schema"; // Drizzle tables
 import { db } from "../db"; // Drizzle instance
 import { eq, and } from "drizzle-orm"; // Drizzle operators
+import { requireAuth, requireSelfOrAdmin, canActForUser, sendForbidden } from "./middleware";
 
 export const router = Router();
 // Helper for handling async route errors (optional, but good practice)
@@ -15,16 +16,18 @@ const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => P
 
 /**
  * @route GET /api/favorites
- * @desc Get all favorites for a user
+ * @desc Get all favorites for a user (defaults to the signed-in user)
  */
-router.get("/", async (req: Request, res: Response) => {
+router.get("/", requireAuth, async (req: Request, res: Response) => {
   try {
-    // Get user ID from session or query parameter 
-    const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+    const userId = req.query.userId ? parseInt(req.query.userId as string) : req.user!.id;
     
     if (!userId) {
       return res.status(400).json({ error: "User ID is required" });
     }
+    if (!canActForUser(req.user, userId)) {
+      return sendForbidden(res, "You can only access your own data");
+    }
     
     const favorites = await storage.getFavoritesByUser(userId);
     return res.json(favorites);
@@ -38,9 +41,12 @@ router.get("/", async (req: Request, res: Response) => {
  * @route POST /api/favorites
  * @desc Add a property to user's favorites
  */
-router.post("/", async (req: Request, res: Response) => {
+router.post("/", requireAuth, async (req: Request, res: Response) => {
   try {
-    const validatedData = insertFavoriteSchema.parse(req.body);
+    const validatedData = insertFavoriteSchema.parse({ ...req.body, userId: req.body.userId ?? req.user!.id });
+    if (!canActForUser(req.user, validatedData.userId)) {
+      return sendForbidden(res, "You can only access your own data");
+    }
     
     // Check if favorite already exists
     const isFavorite = await storage.isFavorite(validatedData.userId, validatedData.propertyId);
@@ -63,7 +69,7 @@ router.post("/", async (req: Request, res: Response) => {
  * @route DELETE /api/favorites/:userId/:propertyId
  * @desc Remove a property from user's favorites
  */
-router.delete("/:userId/:propertyId", async (req: Request, res: Response) => {
+router.delete("/:userId/:propertyId", requireSelfOrAdmin(), async (req: Request, res: Response) => {
   try {
     const userId = parseInt(req.params.userId);
     const propertyId = parseInt(req.params.propertyId);
@@ -88,7 +94,7 @@ router.delete("/:userId/:propertyId", async (req: Request, res: Response) => {
  * @route GET /api/favorites/check/:userId/:propertyId
  * @desc Check if a property is in user's favorites
  */
-router.get("/check/:userId/:propertyId", async (req: Request, res: Response) => {
+router.get("/check/:userId/:propertyId", requireSelfOrAdmin(), async (req: Request, res: Response) => {
   try {
     const userId = parseInt(req.params.userId);
     const propertyId = parseInt(req.params.propertyId);
@@ -108,20 +114,13 @@ router.get("/check/:userId/:propertyId", async (req: Request, res: Response) =>
 /**
  * @route   GET /api/favorites/user/:userId
  * @desc    Get all properties favorited by a specific user
- * @access  Public (Authentication removed)
+ * @access  The user themselves or an admin
  */
-// --- Removed 'authenticate' middleware from here ---
-router.get("/user/:userId", asyncHandler(async (req: Request, res: Response) => {
+router.get("/user/:userId", requireSelfOrAdmin(), asyncHandler(async (req: Request, res: Response) => {
   const userIdParam = req.params.userId;
   const requestedUserId = parseInt(userIdParam, 10);
 
-  // --- Removed Authorization Check Block ---
-  // const loggedInUserId = req.user?.id;
-  // if (!loggedInUserId) { ... }
-  // if (loggedInUserId !== requestedUserId) { ... }
-  // --- End Removed Block ---
-
-  console.log(`Handling GET /api/favorites/user/${userIdParam} (Public)`);
+  console.log(`Handling GET /api/favorites/user/${userIdParam}`);
 
   if (isNaN(requestedUserId)) {
       console.log("Invalid user ID parameter:", userIdParam);
@@ -132,7 +131,7 @@ router.get("/user/:userId", asyncHandler(async (req: Request, res: Response) =>
       // Fetch properties that are favorited by the requested user ID
       const favoriteProperties = await db
           .select({
-              property: properties // Select the full property object
+              property: propertyColumns // Select the full property object
           })
           .from(favorites)
           .innerJoin(properties, eq(favorites.propertyId, properties.id))
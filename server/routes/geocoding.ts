@@ -0,0 +1,29 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { geocodingService, GeocodingError } from "../services/geocodingService";
+
+/**
+ * Geocoding for the map, mounted at /api/geocoding
+ */
+export const router = Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch((error) => {
+      if (error instanceof GeocodingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    });
+  };
+
+/**
+ * @route GET /api/geocoding/reverse
+ * @desc The known address nearest to a point (?lat, lon), or the postal code area when no address is near
+ */
+router.get("/reverse", asyncHandler(async (req: Request, res: Response) => {
+  const place = await geocodingService.reverse(parseFloat(req.query.lat as string), parseFloat(req.query.lon as string));
+  if (!place) {
+    return res.status(404).json({ error: "No known place near this point" });
+  }
+  res.json(place);
+}));
@@ -0,0 +1,159 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import bcrypt from "bcrypt";
+import { users } from "@shared/schema";
+import { db } from "../db";
+import { destroyAllUserSessions } from "../session";
+import { firebaseTokenService } from "../services/firebaseTokenService";
+import { identityService, IdentityConflictError } from "../services/identityService";
+import { requireAuth, isAdminUser, sendForbidden } from "./middleware";
+
+/**
+ * Sign-in methods of the signed-in user, mounted at /api/users/identities.
+ *
+ * An account can have a password and any number of linked Firebase identities. Linking
+ * an identity that already belongs to another account only happens after the user has
+ * explicitly asked to merge that account into this one.
+ */
+export const router = Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+
+const linkFirebaseSchema = z.object({
+  idToken: z.string().min(1, "Firebase ID token is required"),
+  merge: z.boolean().optional().default(false),
+});
+
+const passwordSchema = z.object({
+  currentPassword: z.string().optional(),
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+router.use(requireAuth);
+
+/**
+ * @route GET /api/users/identities
+ * @desc List the sign-in methods of the signed-in user
+ */
+router.get("/", asyncHandler(async (req: Request, res: Response) => {
+  const methods = await identityService.getSignInMethods(req.user!.id);
+  res.json({ success: true, ...methods });
+}));
+
+/**
+ * @route POST /api/users/identities/firebase
+ * @desc Link a Firebase (Google) identity to the signed-in user. If the identity or its
+ *       email belongs to another account the request fails with 409, unless `merge` is
+ *       set, in which case that account is merged into this one first.
+ */
+router.post("/firebase", asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = linkFirebaseSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
+  }
+
+  let identity;
+  try {
+    identity = await firebaseTokenService.verifyIdToken(validationResult.data.idToken);
+  } catch (error: any) {
+    console.log(`Identities: ID token verification failed: ${error.message}`);
+    return res.status(401).json({ success: false, message: "Invalid Firebase credentials" });
+  }
+  if (!identity.emailVerified) {
+    return res.status(401).json({ success: false, message: "Firebase account email is not verified" });
+  }
+
+  const userId = req.user!.id;
+  let conflictingUser = await identityService.findUserByFirebaseUid(identity.uid);
+  if (!conflictingUser) {
+    // An unlinked account registered with the same address would otherwise be shadowed forever
+    const [emailOwner] = await db.select().from(users).where(eq(users.email, identity.email)).limit(1);
+    conflictingUser = emailOwner;
+  }
+  if (conflictingUser?.id === userId) {
+    conflictingUser = undefined;
+  }
+
+  if (conflictingUser) {
+    if (!validationResult.data.merge) {
+      return res.status(409).json({
+        success: false,
+        conflict: true,
+        message: "This sign-in method belongs to another account",
+        conflictingAccount: { name: conflictingUser.name, email: conflictingUser.email },
+      });
+    }
+    if (isAdminUser(conflictingUser)) {
+      return sendForbidden(res, "Admin accounts cannot be merged into another account");
+    }
+
+    const summary = await identityService.mergeAccounts(userId, conflictingUser.id);
+    await destroyAllUserSessions(conflictingUser.id);
+    console.log(`Identities: merged user ID ${conflictingUser.id} into user ID ${userId}`, summary);
+    const linked = await identityService.linkFirebase(userId, identity);
+    return res.json({ success: true, identity: linked, merged: summary });
+  }
+
+  try {
+    const linked = await identityService.linkFirebase(userId, identity);
+    console.log(`Identities: linked Firebase identity ${identity.uid} to user ID ${userId}`);
+    res.json({ success: true, identity: linked });
+  } catch (error) {
+    // Linked elsewhere between the lookup above and the insert
+    if (error instanceof IdentityConflictError) {
+      return res.status(409).json({ success: false, conflict: true, message: error.message });
+    }
+    throw error;
+  }
+}));
+
+/**
+ * @route DELETE /api/users/identities/:id
+ * @desc Unlink an identity (the last remaining sign-in method cannot be removed)
+ */
+router.delete("/:id", asyncHandler(async (req: Request, res: Response) => {
+  const identityId = parseInt(req.params.id, 10);
+  if (isNaN(identityId)) {
+    return res.status(400).json({ success: false, message: "Invalid identity ID" });
+  }
+
+  const result = await identityService.unlink(req.user!.id, identityId);
+  if (result === 'not_found') {
+    return res.status(404).json({ success: false, message: "Sign-in method not found" });
+  }
+  if (result === 'last_method') {
+    return res.status(400).json({ success: false, message: "Set a password or link another sign-in method before removing this one" });
+  }
+  res.json({ success: true, message: "Sign-in method removed" });
+}));
+
+/**
+ * @route PUT /api/users/identities/password
+ * @desc Set a password (accounts created through Google) or change the existing one
+ */
+router.put("/password", asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = passwordSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
+  }
+
+  const { currentPassword, newPassword } = validationResult.data;
+  const [user] = await db.select({ hashedPassword: users.hashedPassword }).from(users).where(eq(users.id, req.user!.id)).limit(1);
+  if (user?.hashedPassword) {
+    if (!currentPassword || !await bcrypt.compare(currentPassword, user.hashedPassword)) {
+      return res.status(400).json({ success: false, message: "Current password is incorrect" });
+    }
+  }
+
+  const hashedPassword = await bcrypt.hash(newPassword, 10);
+  await db.update(users)
+    .set({ hashedPassword, updatedAt: new Date() })
+    .where(eq(users.id, req.user!.id));
+
+  console.log(`Identities: password ${user?.hashedPassword ? 'changed' : 'set'} for user ID ${req.user!.id}`);
+  res.json({ success: true, message: user?.hashedPassword ? "Password changed" : "Password set" });
+}));
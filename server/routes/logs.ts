@@ -1,5 +1,6 @@
 import express from 'express';
 import { z } from 'zod';
+import { adminOnly } from './middleware';
 
 // Log entry schema
 const LogEntrySchema = z.object({
@@ -51,6 +52,7 @@ const DEMO_MESSAGES = [
 
 // Create router
 const router = express.Router();
+router.use(adminOnly);
 
 // Generate a random log
 function generateRandomLog(id: number): LogEntry {
@@ -2,6 +2,10 @@ import { Router, Request, Response } from "express";
 import { insertMessageSchema } from "@shared/schema";
 import { storage } from "../storage";
 import { z } from "zod";
+import {
+  adminOnly, requireAuth, requireSelfOrAdmin, requireOwnership,
+  messageRecipient, propertyOwner, isAdminUser, sendForbidden
+} from "./middleware";
 
 export const router = Router();
 
@@ -9,7 +13,7 @@ export const router = Router();
  * @route GET /api/messages
  * @desc Get all messages with filters (admin only)
  */
-router.get("/", async (req: Request, res: Response) => {
+router.get("/", adminOnly, async (req: Request, res: Response) => {
   try {
     // Get query parameters
     const { 
@@ -33,9 +37,9 @@ router.get("/", async (req: Request, res: Response) => {
 
 /**
  * @route GET /api/messages/:id
- * @desc Get a specific message by ID
+ * @desc Get a specific message by ID (recipient, sender or admin)
  */
-router.get("/:id", async (req: Request, res: Response) => {
+router.get("/:id", requireAuth, async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -46,6 +50,10 @@ router.get("/:id", async (req: Request, res: Response) => {
     if (!message) {
       return res.status(404).json({ message: "Message not found" });
     }
+    const userId = req.user!.id;
+    if (!isAdminUser(req.user) && message.userId !== userId && message.senderUserId !== userId) {
+      return sendForbidden(res, "You are not a participant in this message");
+    }
     
     res.json(message);
   } catch (err) {
@@ -64,7 +72,11 @@ router.post("/", async (req: Request, res: Response) => {
     
     // Validate message data
     try {
-      const validatedData = insertMessageSchema.parse(messageData);
+      const validatedData = insertMessageSchema.parse({
+        ...messageData,
+        // The sender is whoever is signed in, never what the client claims
+        senderUserId: req.user?.id ?? null,
+      });
       
       // Ensure required fields are present
       if (!validatedData.name || !validatedData.email || !validatedData.subject || !validatedData.message) {
@@ -102,7 +114,7 @@ router.post("/", async (req: Request, res: Response) => {
  * @route PUT /api/messages/:id
  * @desc Update a message (admin only)
  */
-router.put("/:id", async (req: Request, res: Response) => {
+router.put("/:id", adminOnly, async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -127,7 +139,7 @@ router.put("/:id", async (req: Request, res: Response) => {
  * @route DELETE /api/messages/:id
  * @desc Delete a message (admin only)
  */
-router.delete("/:id", async (req: Request, res: Response) => {
+router.delete("/:id", adminOnly, async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -148,9 +160,9 @@ router.delete("/:id", async (req: Request, res: Response) => {
 
 /**
  * @route GET /api/messages/user/:userId
- * @desc Get messages for a specific user
+ * @desc Get messages for a specific user (the user themselves or admin)
  */
-router.get("/user/:userId", async (req: Request, res: Response) => {
+router.get("/user/:userId", requireSelfOrAdmin(), async (req: Request, res: Response) => {
   try {
     const userId = parseInt(req.params.userId);
     if (isNaN(userId)) {
@@ -167,9 +179,9 @@ router.get("/user/:userId", async (req: Request, res: Response) => {
 
 /**
  * @route GET /api/messages/property/:propertyId
- * @desc Get messages for a specific property
+ * @desc Get messages for a specific property (property owner or admin)
  */
-router.get("/property/:propertyId", async (req: Request, res: Response) => {
+router.get("/property/:propertyId", requireOwnership(propertyOwner('propertyId'), 'Property'), async (req: Request, res: Response) => {
   try {
     const propertyId = parseInt(req.params.propertyId);
     if (isNaN(propertyId)) {
@@ -186,9 +198,9 @@ router.get("/property/:propertyId", async (req: Request, res: Response) => {
 
 /**
  * @route PUT /api/messages/:id/read
- * @desc Mark a message as read
+ * @desc Mark a message as read (recipient or admin)
  */
-router.put("/:id/read", async (req: Request, res: Response) => {
+router.put("/:id/read", requireOwnership(messageRecipient(), 'Message'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -209,9 +221,9 @@ router.put("/:id/read", async (req: Request, res: Response) => {
 
 /**
  * @route PUT /api/messages/:id/replied
- * @desc Mark a message as replied
+ * @desc Mark a message as replied (recipient or admin)
  */
-router.put("/:id/replied", async (req: Request, res: Response) => {
+router.put("/:id/replied", requireOwnership(messageRecipient(), 'Message'), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -1,12 +1,238 @@
 import { Request, Response, NextFunction } from "express";
+import { eq } from "drizzle-orm";
+import { properties, messages, type ApiKeyScope } from "@shared/schema";
+import { db } from "../db";
+import { toSessionUser, type SessionUser } from "../session";
+import { impersonationService } from "../services/impersonationService";
+import { apiKeyService, API_KEY_PREFIX } from "../services/apiKeyService";
+
+/**
+ * Authorization policy shared by all routers.
+ *
+ * Roles come from `users.role`. Every denial uses the same response shape:
+ *   401 { error: "Authentication required" }  - no session user
+ *   403 { error: "<reason>" }                 - signed in but not allowed
+ * Admins pass every role and ownership check.
+ */
+
+export type Role = 'user' | 'agent' | 'admin';
+
+// Resolves the owning user id of the resource a request targets.
+// Returns undefined when the resource does not exist, null when it has no owner.
+export type OwnerResolver = (req: Request) => Promise<number | null | undefined>;
+
+export const sendUnauthorized = (res: Response) =>
+  res.status(401).json({ error: "Authentication required" });
+
+export const sendForbidden = (res: Response, message = "You do not have permission to perform this action") =>
+  res.status(403).json({ error: message });
+
+export const isAdminUser = (user?: SessionUser | null): boolean => user?.role === 'admin';
+
+/**
+ * True if the user is acting on their own data or is an admin.
+ */
+export const canActForUser = (user: SessionUser | undefined, userId: number | null | undefined): boolean =>
+  !!user && (isAdminUser(user) || (userId !== null && userId !== undefined && user.id === userId));
+
+/**
+ * Requires a signed-in user
+ */
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return sendUnauthorized(res);
+  }
+  next();
+};
+
+/**
+ * Requires a signed-in user with one of the given roles (admins always pass)
+ */
+export const requireRole = (...roles: Role[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendUnauthorized(res);
+    }
+    if (!isAdminUser(req.user) && !roles.includes(req.user.role as Role)) {
+      return sendForbidden(res, "Your account role does not allow this action");
+    }
+    next();
+  };
 
 /**
  * Middleware to check if the user is an admin
- * This will be used to protect admin-only routes
- * NOTE: For development purposes, this middleware is temporarily bypassed
+ * This is used to protect admin-only routes
  */
-export const adminOnly = (req: Request, res: Response, next: NextFunction) => {
-  // Temporarily bypass admin check in development to allow footer content management
-  // In a production environment, you would implement proper session management
+export const adminOnly = requireRole('admin');
+
+/**
+ * Requires a signed-in user who has verified their email address (admins always pass)
+ */
+export const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return sendUnauthorized(res);
+  }
+  if (!isAdminUser(req.user) && !req.user.emailVerified) {
+    return sendForbidden(res, "Please verify your email address before performing this action");
+  }
   next();
-};
\ No newline at end of file
+};
+
+/**
+ * Requires the route parameter (default `userId`) to be the signed-in user's id, unless admin
+ */
+export const requireSelfOrAdmin = (param = 'userId') =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendUnauthorized(res);
+    }
+    const userId = parseInt(req.params[param], 10);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid user ID" });
+    }
+    if (!canActForUser(req.user, userId)) {
+      return sendForbidden(res, "You can only access your own data");
+    }
+    next();
+  };
+
+/**
+ * Requires the signed-in user to own the targeted resource, unless admin.
+ * Responds 404 when the resolver reports the resource does not exist.
+ */
+export const requireOwnership = (resolveOwner: OwnerResolver, resourceName = 'Resource') =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendUnauthorized(res);
+    }
+    try {
+      const ownerId = await resolveOwner(req);
+      if (ownerId === undefined) {
+        return res.status(404).json({ error: `${resourceName} not found` });
+      }
+      if (!canActForUser(req.user, ownerId)) {
+        return sendForbidden(res, `You do not own this ${resourceName.toLowerCase()}`);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+// Endpoints reachable with an API key, and the scope each needs. Everything else is session-only.
+const API_KEY_SCOPE_RULES: Array<{ methods: string[]; path: RegExp; scope: ApiKeyScope }> = [
+  { methods: ['GET', 'HEAD'], path: /^\/api\/properties(\/|$)/, scope: 'properties:read' },
+  { methods: ['POST', 'PUT', 'PATCH', 'DELETE'], path: /^\/api\/properties(\/|$)/, scope: 'properties:write' },
+  { methods: ['POST'], path: /^\/api\/uploads\/images$/, scope: 'properties:write' },
+  { methods: ['GET', 'HEAD'], path: /^\/api\/messages(\/|$)/, scope: 'messages:read' },
+  { methods: ['GET', 'HEAD'], path: /^\/api\/viewings\/calendar\.ics$/, scope: 'messages:read' },
+];
+
+const readApiKey = (req: Request): string | undefined => {
+  const header = req.get('x-api-key');
+  if (header) return header.trim();
+  const authorization = req.get('authorization');
+  if (authorization?.startsWith(`Bearer ${API_KEY_PREFIX}`)) return authorization.slice('Bearer '.length).trim();
+  return undefined;
+};
+
+/**
+ * Authenticates requests carrying a partner API key (`X-API-Key` or `Authorization: Bearer`)
+ * as the key's owner, replacing any session user. The usual role and ownership checks then
+ * apply; on top of that the key must have the scope of the endpoint and stay within its rate limit.
+ */
+export const authenticateApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  const key = readApiKey(req);
+  if (!key) {
+    return next();
+  }
+  req.user = undefined;
+  req.impersonator = undefined;
+
+  try {
+    const authenticated = await apiKeyService.authenticate(key);
+    if (!authenticated) {
+      return res.status(401).json({ error: "Invalid or revoked API key" });
+    }
+    const { apiKey, user } = authenticated;
+    if (isAdminUser(user)) {
+      // Admin accounts are protected by a second factor that a key would bypass
+      return sendForbidden(res, "API keys of admin accounts are disabled");
+    }
+
+    const rule = API_KEY_SCOPE_RULES.find((candidate) => candidate.methods.includes(req.method) && candidate.path.test(req.path));
+    if (!rule) {
+      return sendForbidden(res, "This endpoint is not available with an API key");
+    }
+    if (!apiKey.scopes.includes(rule.scope)) {
+      return sendForbidden(res, `API key is missing the ${rule.scope} scope`);
+    }
+
+    const rateLimit = apiKeyService.consumeRateLimit(apiKey);
+    res.set('X-RateLimit-Limit', String(rateLimit.limit));
+    res.set('X-RateLimit-Remaining', String(rateLimit.remaining));
+    res.set('X-RateLimit-Reset', String(Math.ceil(rateLimit.resetAt / 1000)));
+    if (!rateLimit.allowed) {
+      res.set('Retry-After', String(Math.max(1, Math.ceil((rateLimit.resetAt - Date.now()) / 1000))));
+      return res.status(429).json({ error: "API key rate limit exceeded" });
+    }
+
+    req.user = toSessionUser(user);
+    req.apiKey = { id: apiKey.id, scopes: apiKey.scopes as ApiKeyScope[] };
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Requests an impersonating admin may still make: leaving the impersonation and signing out
+const IMPERSONATION_WRITE_ALLOWLIST = ['/api/users/impersonation/stop', '/api/users/logout'];
+
+/**
+ * Makes an impersonated session read-only. Blocked writes are recorded in the
+ * impersonation audit log with both the admin's and the user's id.
+ */
+export const blockImpersonatedWrites = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.impersonator || ['GET', 'HEAD', 'OPTIONS'].includes(req.method) || IMPERSONATION_WRITE_ALLOWLIST.includes(req.path)) {
+    return next();
+  }
+  await impersonationService.record('write_blocked', req.impersonator.id, req.user!.id, {
+    method: req.method,
+    path: req.originalUrl,
+    ip: req.ip,
+  });
+  sendForbidden(res, "Changes are disabled while viewing the site as another user");
+};
+
+// --- Ownership rules ---
+
+/**
+ * Unpublished listings are only visible to their owner and admins
+ */
+export const isHiddenFrom = (property: { userId: number; moderationStatus: string }, user: SessionUser | undefined): boolean =>
+  property.moderationStatus !== 'published' && !canActForUser(user, property.userId);
+
+const idParam = (req: Request, param: string) => {
+  const id = parseInt(req.params[param], 10);
+  return isNaN(id) ? undefined : id;
+};
+
+/**
+ * Owner of a listing is `properties.userId`
+ */
+export const propertyOwner = (param = 'id'): OwnerResolver => async (req) => {
+  const id = idParam(req, param);
+  if (id === undefined) return undefined;
+  const [row] = await db.select({ userId: properties.userId }).from(properties).where(eq(properties.id, id)).limit(1);
+  return row ? row.userId : undefined;
+};
+
+/**
+ * Owner of a message is its recipient, `messages.userId`
+ */
+export const messageRecipient = (param = 'id'): OwnerResolver => async (req) => {
+  const id = idParam(req, param);
+  if (id === undefined) return undefined;
+  const [row] = await db.select({ userId: messages.userId }).from(messages).where(eq(messages.id, id)).limit(1);
+  return row ? row.userId : undefined;
+};
@@ -9,24 +9,7 @@ import {
   type Neighborhood
 } from '@shared/schema'; // Adjust path as needed
 import { eq, and, or, like, ilike, desc, sql } from 'drizzle-orm';
-
-// --- Middleware (Placeholders - Implement these based on your auth) ---
-const isAuthenticated = (req: Request, res: Response, next: Function) => {
-  // Example: Check if user is logged in (e.g., req.session.user or JWT)
-  // if (!req.user) {
-  //   return res.status(401).json({ error: 'Unauthorized' });
-  // }
-  next();
-};
-
-const isAdmin = (req: Request, res: Response, next: Function) => {
-  // Example: Check if the logged-in user has the 'admin' role
-  // if (req.user?.role !== 'admin') {
-  //   return res.status(403).json({ error: 'Forbidden: Admin access required' });
-  // }
-  next();
-};
-// --- End Middleware Placeholders ---
+import { requireAuth as isAuthenticated, adminOnly as isAdmin } from './middleware';
 
 
 const router = express.Router();
@@ -5,6 +5,7 @@ import slugify from 'slugify';
 import { db } from '../db'; // Adjust path as needed
 import {
   posts,
+  postColumns,
   users,
   insertPostSchema,
   updatePostSchema,
@@ -13,36 +14,41 @@ import {
 } from '@shared/schema'; // Adjust path as needed
 import { eq, and, or, like, ilike, desc, sql, count, getTableColumns, ne, inArray, isNotNull } from 'drizzle-orm'; // Added inArray, isNotNull
 import { log } from 'console';
-
-// --- Middleware Placeholders ---
-const isAuthenticated = (req: Request, res: Response, next: Function) => next();
-const isAdmin = (req: Request, res: Response, next: Function) => next();
-// --- End Middleware Placeholders ---
+import { requireAuth as isAuthenticated, adminOnly as isAdmin } from './middleware';
+import { matchesSearch, searchRank, searchSnippet } from '../services/fullTextSearch';
 
 const router = express.Router();
 
 // --- GET /posts (Public List - Published Only) ---
+// ?search= is a full-text search; matches come best first, each with a searchSnippet of its content
 router.get('/posts', async (req: Request, res: Response) => {
   try {
     const page = parseInt(req.query.page as string, 10) || 1;
     const limit = parseInt(req.query.limit as string, 10) || 10;
     const offset = (page - 1) * limit;
     const category = req.query.category as string;
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
 
     const conditions = [eq(posts.isPublished, true)];
 
     if (category) {
       conditions.push(eq(posts.category, category));
     }
+    if (search) {
+      conditions.push(matchesSearch(posts.searchVector, search));
+    }
+
+    const newestFirst = desc(sql`COALESCE(${posts.publishedAt}, ${posts.createdAt})`);
 
     // --- Step 1: Fetch Posts Only ---
-    const postsResults = await db
-      .select() // Select all columns from posts table
+    const postRows = await db
+      .select({ post: postColumns, searchSnippet: search ? searchSnippet(posts.content, search) : sql<null>`null` })
       .from(posts)
       .where(and(...conditions))
-      .orderBy(desc(sql`COALESCE(${posts.publishedAt}, ${posts.createdAt})`))
+      .orderBy(...(search ? [desc(searchRank(posts.searchVector, search)), newestFirst] : [newestFirst]))
       .limit(limit)
       .offset(offset);
+    const postsResults = postRows.map(({ post, searchSnippet: snippet }) => snippet !== null ? { ...post, searchSnippet: snippet } : post);
 
     log(`[GET /posts] Fetched ${postsResults.length} posts from DB.`);
 
@@ -115,7 +121,7 @@ router.get('/posts/all', isAuthenticated, isAdmin, async (req: Request, res: Res
 
     // 1. Fetch Posts
     const postsResults = await db
-      .select()
+      .select(postColumns)
       .from(posts)
       .orderBy(desc(posts.createdAt))
       .limit(limit)
@@ -152,7 +158,7 @@ router.get('/posts/slug/:slug', async (req: Request, res: Response) => {
 
     // 1. Fetch Post
     const [postResult] = await db
-      .select()
+      .select(postColumns)
       .from(posts)
       .where(and(eq(posts.slug, slug), eq(posts.isPublished, true)));
 
@@ -189,7 +195,7 @@ router.get('/posts/:id', isAuthenticated, isAdmin, async (req: Request, res: Res
     }
 
     // 1. Fetch Post
-    const [postResult] = await db.select().from(posts).where(eq(posts.id, id));
+    const [postResult] = await db.select(postColumns).from(posts).where(eq(posts.id, id));
 
     if (!postResult) {
       return res.status(404).json({ error: "Blog post not found" });
@@ -254,7 +260,7 @@ router.post('/posts', isAuthenticated, isAdmin, async (req: Request, res: Respon
     const [newPost] = await db
       .insert(posts)
       .values(data)
-      .returning(); // Return the created object
+      .returning(postColumns); // Return the created object
 
     res.status(201).json(newPost);
   } catch (error: any) {
@@ -317,7 +323,7 @@ router.put('/posts/:id', isAuthenticated, isAdmin, async (req: Request, res: Res
         updatedAt: new Date() // Manually set updatedAt if no trigger
       })
       .where(eq(posts.id, id))
-      .returning();
+      .returning(postColumns);
 
     if (!updatedPost) {
       return res.status(404).json({ error: "Blog post not found" });
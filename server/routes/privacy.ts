@@ -0,0 +1,78 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { dataPrivacyService, ErasureRequestError } from "../services/dataPrivacyService";
+import { requireAuth } from "./middleware";
+
+/**
+ * Self-service GDPR data export and erasure requests, mounted at /api/users/privacy.
+ * See DataPrivacyService for what erasure removes and what it anonymizes.
+ */
+export const router = Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+
+const erasureSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+});
+
+router.use(requireAuth);
+
+/**
+ * @route GET /api/users/privacy/export
+ * @desc Download everything stored about the signed-in user as a JSON archive
+ */
+router.get("/export", asyncHandler(async (req: Request, res: Response) => {
+  const archive = await dataPrivacyService.exportUserData(req.user!.id);
+  if (!archive) {
+    return res.status(404).json({ success: false, message: "User not found" });
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Disposition', `attachment; filename="homeharbor-data-${req.user!.id}-${date}.json"`);
+  res.json(archive);
+}));
+
+/**
+ * @route GET /api/users/privacy/erasure
+ * @desc Get the pending erasure request of the signed-in user, if any
+ */
+router.get("/erasure", asyncHandler(async (req: Request, res: Response) => {
+  const request = await dataPrivacyService.getOpenRequest(req.user!.id);
+  res.json({ success: true, request: request ?? null });
+}));
+
+/**
+ * @route POST /api/users/privacy/erasure
+ * @desc Request erasure of the signed-in user's account and data
+ */
+router.post("/erasure", asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = erasureSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
+  }
+
+  try {
+    const request = await dataPrivacyService.requestErasure(req.user!.id, validationResult.data.reason);
+    res.status(201).json({ success: true, request });
+  } catch (error) {
+    if (error instanceof ErasureRequestError) {
+      return res.status(error.status).json({ success: false, message: error.message });
+    }
+    throw error;
+  }
+}));
+
+/**
+ * @route DELETE /api/users/privacy/erasure
+ * @desc Cancel the pending erasure request of the signed-in user
+ */
+router.delete("/erasure", asyncHandler(async (req: Request, res: Response) => {
+  const cancelled = await dataPrivacyService.cancelErasure(req.user!.id);
+  if (!cancelled) {
+    return res.status(404).json({ success: false, message: "No pending erasure request" });
+  }
+  res.json({ success: true, message: "Erasure request cancelled" });
+}));
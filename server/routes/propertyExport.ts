@@ -0,0 +1,65 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  propertyExportService,
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  type ExportFormat,
+} from "../services/propertyExportService";
+import { AREA_UNITS, isAreaUnit } from "@shared/units";
+
+/**
+ * Listing exports and feeds, mounted at /api/properties/export.
+ * Takes the same filters as GET /api/properties, e.g. /api/properties/export/atom?city=Oulu&propertyType=apartment&maxPrice=200000
+ */
+export const router = Router();
+
+const MULTI_VALUE_FILTERS = ["propertyType", "amenities", "ownership", "furnishingDetails", "postedBy", "plotOwnership"];
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+
+/**
+ * @route GET /api/properties/export/:format
+ * @desc Stream the listings matching the filters as csv, jsonl or an atom feed (newest first, `limit` entries)
+ */
+router.get("/:format", asyncHandler(async (req: Request, res: Response) => {
+  const format = req.params.format as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(", ")}` });
+  }
+
+  // Pagination, sorting and moderation do not apply to exports
+  const { page: _page, limit, sortBy: _sortBy, sortDir: _sortDir, moderationStatus: _moderationStatus, areaUnit, ...filters } = req.query;
+  if (areaUnit !== undefined && !isAreaUnit(areaUnit)) {
+    return res.status(400).json({ error: `areaUnit must be one of: ${AREA_UNITS.join(", ")}` });
+  }
+  // The listings page sends several values as one comma-separated parameter
+  for (const key of MULTI_VALUE_FILTERS) {
+    if (typeof filters[key] === "string") {
+      filters[key] = (filters[key] as string).split(",").filter(Boolean);
+    }
+  }
+
+  res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+  if (format !== "atom") {
+    res.setHeader("Content-Disposition", `attachment; filename="homeharbor-listings.${format}"`);
+  }
+  const chunks = propertyExportService.export(format, filters, {
+    selfUrl: `${req.protocol}://${req.get("host")}${req.originalUrl}`,
+    limit: typeof limit === "string" ? parseInt(limit, 10) : undefined,
+    areaUnit,
+  });
+
+  try {
+    await pipeline(Readable.from(chunks), res);
+  } catch (error: any) {
+    // The response is already streaming, so pipeline has closed it; a client that stops reading is not an error
+    if (error?.code !== "ERR_STREAM_PREMATURE_CLOSE") {
+      console.error(`Export: ${format} export failed:`, error);
+    }
+  }
+}));
@@ -0,0 +1,78 @@
+import { Router, Request, Response, NextFunction } from "express";
+import multer from "multer";
+import {
+  propertyImportService,
+  PropertyImportError,
+  MAX_IMPORT_BYTES,
+} from "../services/propertyImportService";
+import { isAdminUser, requireAuth, requireRole, requireVerifiedEmail } from "./middleware";
+
+/**
+ * Bulk listing import for agents, mounted at /api/properties/import.
+ * Upload the file once as a dry run to get the per-row report, then again with dryRun=false to import.
+ */
+export const router = Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_BYTES, files: 1 },
+}).single('file');
+
+// Runs multer and turns its limit errors into 400 responses
+const parseFile = (req: Request, res: Response, next: NextFunction) => {
+  upload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Import files can be at most ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`
+        : error.code === 'LIMIT_FILE_COUNT' || error.code === 'LIMIT_UNEXPECTED_FILE'
+          ? 'Upload one file in the "file" field'
+          : error.message;
+      return res.status(400).json({ error: message });
+    }
+    next(error);
+  });
+};
+
+/**
+ * @route GET /api/properties/import/template
+ * @desc CSV file with every supported column and an example row
+ */
+router.get("/template", requireAuth, requireRole('agent'), (req: Request, res: Response) => {
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', 'attachment; filename="homeharbor-import-template.csv"');
+  res.send(propertyImportService.templateCsv());
+});
+
+/**
+ * @route POST /api/properties/import
+ * @desc Import listings from a CSV or XLSX file (multipart field "file"). Validates only unless
+ *       dryRun=false; rows with errors are skipped and reported either way.
+ */
+router.post("/", requireAuth, requireVerifiedEmail, requireRole('agent'), parseFile, asyncHandler(async (req: Request, res: Response) => {
+  if (!req.file) {
+    return res.status(400).json({ error: "No file uploaded" });
+  }
+
+  const dryRun = req.query.dryRun !== 'false';
+  try {
+    const report = await propertyImportService.import(req.file, {
+      userId: req.user!.id,
+      publish: isAdminUser(req.user),
+      dryRun,
+    });
+    if (!dryRun) {
+      console.log(`Import: user ID ${req.user!.id} created ${report.created} and updated ${report.updated} listing(s), skipped ${report.skipped} row(s)`);
+    }
+    res.json(report);
+  } catch (error) {
+    if (error instanceof PropertyImportError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    throw error;
+  }
+}));
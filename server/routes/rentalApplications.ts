@@ -0,0 +1,81 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { RENTAL_APPLICATION_STATUSES, type RentalApplicationStatus } from "@shared/schema";
+import { rentalApplicationService, RentalApplicationError } from "../services/rentalApplicationService";
+import { requireAuth, requireOwnership, type OwnerResolver } from "./middleware";
+
+/**
+ * Rental applications for rent and pg listings, mounted at /api/rental-applications
+ */
+export const router = Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch((error) => {
+      if (error instanceof RentalApplicationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    });
+  };
+
+const applicationOwner: OwnerResolver = async (req) => {
+  const id = parseInt(req.params.id, 10);
+  return isNaN(id) ? undefined : rentalApplicationService.applicationOwner(id);
+};
+
+/**
+ * @route GET /api/rental-applications/mine
+ * @desc Applications the signed-in user made
+ */
+router.get("/mine", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  res.json({ applications: await rentalApplicationService.applicationsBy(req.user!.id) });
+}));
+
+/**
+ * @route GET /api/rental-applications/received
+ * @desc Applications for the signed-in user's listings; ?propertyId= narrows to one listing
+ */
+router.get("/received", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const propertyId = req.query.propertyId ? parseInt(String(req.query.propertyId), 10) : undefined;
+  if (propertyId !== undefined && isNaN(propertyId)) {
+    return res.status(400).json({ error: "Invalid property ID" });
+  }
+  res.json({ applications: await rentalApplicationService.applicationsFor(req.user!.id, propertyId) });
+}));
+
+/**
+ * @route POST /api/rental-applications/property/:propertyId
+ * @desc Apply to rent a listing
+ */
+router.post("/property/:propertyId", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const propertyId = parseInt(req.params.propertyId, 10);
+  if (isNaN(propertyId)) {
+    return res.status(400).json({ error: "Invalid property ID" });
+  }
+  const application = await rentalApplicationService.apply(propertyId, req.user!, req.body);
+  res.status(201).json(application);
+}));
+
+/**
+ * @route PUT /api/rental-applications/:id/status
+ * @desc Shortlist, decline or accept an application (landlord or admin); accepting marks the listing rented
+ */
+router.put("/:id/status", requireAuth, requireOwnership(applicationOwner, 'Application'), asyncHandler(async (req: Request, res: Response) => {
+  const status = req.body?.status;
+  if (!RENTAL_APPLICATION_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status must be one of: ${RENTAL_APPLICATION_STATUSES.join(", ")}` });
+  }
+  res.json(await rentalApplicationService.decide(parseInt(req.params.id, 10), status as RentalApplicationStatus, req.user!));
+}));
+
+/**
+ * @route DELETE /api/rental-applications/:id
+ * @desc Withdraw the signed-in user's own open application
+ */
+router.delete("/:id", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: "Invalid application ID" });
+  }
+  res.json(await rentalApplicationService.withdraw(id, req.user!));
+}));
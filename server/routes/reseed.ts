@@ -1,6 +1,7 @@
 import express, { Request, Response } from 'express';
 import { log } from '../vite';
 import { seedDatabase } from '../seedDatabase';
+import { adminOnly } from './middleware';
 
 const router = express.Router();
 
@@ -9,7 +10,7 @@ const router = express.Router();
  * @desc Clear the database and seed with main seed script
  */
 // POST /reseed
-router.post('/', async (req, res) => {
+router.post('/', adminOnly, async (req, res) => {
   console.log(`Received request to reseed database with main seed script.`);
   try {
     await seedDatabase();
@@ -1,13 +1,17 @@
 import { Router, Request, Response } from "express";
 import { db } from "../db";
 import { storage } from "../storage";
-import { properties, locations, settings } from "@shared/schema";
+import { properties, propertyColumns, locations, settings } from "@shared/schema";
 import { eq, sql } from "drizzle-orm";
 import { z } from "zod";
 import { seedDatabase } from '../seedDatabase';
+import { adminOnly } from './middleware';
 
 const router = Router();
 
+// Public reads go through /api/settings/*; everything here is admin-only
+router.use(adminOnly);
+
 // Validation schema for currency settings
 const currencySettingsSchema = z.object({
   currency: z.string().min(1),
@@ -178,7 +182,7 @@ router.get("/dashboard", async (req: Request, res: Response) => {
     
     // Get recent properties
     const recentProperties = await db
-      .select()
+      .select(propertyColumns)
       .from(properties)
       .orderBy(sql`${properties.createdAt} DESC`)
       .limit(5);
@@ -0,0 +1,190 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { users, type User } from "@shared/schema";
+import { db } from "../db";
+import { startUserSession, getPendingTwoFactor, toSessionUser } from "../session";
+import { twoFactorService } from "../services/twoFactorService";
+import { loginThrottleService, describeThrottle } from "../services/loginThrottleService";
+import { requireAuth, isAdminUser, sendUnauthorized, sendForbidden } from "./middleware";
+
+/**
+ * TOTP second factor, mounted at /api/users/2fa.
+ *
+ * A login for an account with 2FA (or an admin without it) does not sign in directly;
+ * it leaves a pending challenge in the session that `/verify` (or `/setup` + `/enable`
+ * for a first enrolment) completes.
+ */
+export const router = Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+
+const codeSchema = z.object({
+  code: z.string().trim().min(6, "Code is required").max(20),
+});
+
+const findUser = async (userId: number): Promise<User | undefined> => {
+  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  return user;
+};
+
+/**
+ * The user enrolling a second factor: the signed-in user, or the user of a login
+ * that waits for mandatory enrolment.
+ */
+const resolveEnrollingUser = async (req: Request): Promise<{ user: User; duringLogin: boolean } | undefined> => {
+  if (req.user) {
+    const user = await findUser(req.user.id);
+    return user && { user, duringLogin: false };
+  }
+  const pending = getPendingTwoFactor(req);
+  if (pending?.setup) {
+    const user = await findUser(pending.userId);
+    return user && { user, duringLogin: true };
+  }
+  return undefined;
+};
+
+/**
+ * @route GET /api/users/2fa
+ * @desc Get the second-factor status of the signed-in user
+ */
+router.get("/", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const status = await twoFactorService.getStatus(req.user!);
+  res.json({ success: true, ...status });
+}));
+
+/**
+ * @route POST /api/users/2fa/verify
+ * @desc Complete a pending login with a TOTP code or a backup code
+ */
+router.post("/verify", asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = codeSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
+  }
+
+  const pending = getPendingTwoFactor(req);
+  if (!pending || pending.setup) {
+    return res.status(401).json({ success: false, message: "No sign-in is waiting for a code. Please sign in again." });
+  }
+
+  // Wrong codes count towards the same per-account/per-IP limits as wrong passwords
+  const attempt = { identifier: `user:${pending.userId}`, userId: pending.userId, ip: req.ip || 'unknown' };
+  const decision = await loginThrottleService.check(attempt);
+  if (!decision.allowed) {
+    res.set('Retry-After', String(Math.ceil(decision.retryAfterMs / 1000)));
+    return res.status(429).json({ success: false, message: describeThrottle(decision) });
+  }
+
+  const valid = await twoFactorService.verify(pending.userId, validationResult.data.code);
+  const user = valid ? await findUser(pending.userId) : undefined;
+  if (!user) {
+    pending.attempts += 1;
+    console.log(`2FA: invalid code for user ID ${pending.userId} (attempt ${pending.attempts})`);
+    await loginThrottleService.recordFailure(attempt, 'wrong_two_factor_code');
+    return res.status(401).json({ success: false, message: "Invalid authentication code" });
+  }
+
+  console.log(`2FA: login completed for user ID ${user.id}`);
+  await loginThrottleService.recordSuccess(attempt);
+  await startUserSession(req, user);
+  res.json({ success: true, user: toSessionUser(user) });
+}));
+
+/**
+ * @route POST /api/users/2fa/setup
+ * @desc Start enrolment: returns a new secret with its provisioning URI and QR code
+ */
+router.post("/setup", asyncHandler(async (req: Request, res: Response) => {
+  const enrolling = await resolveEnrollingUser(req);
+  if (!enrolling) {
+    return sendUnauthorized(res);
+  }
+  const { user } = enrolling;
+  if (!twoFactorService.canEnrol(user)) {
+    return sendForbidden(res, "Two-factor authentication is available for agent and admin accounts");
+  }
+  if (user.twoFactorEnabled) {
+    return res.status(409).json({ success: false, message: "Two-factor authentication is already enabled" });
+  }
+
+  const enrolment = await twoFactorService.beginEnrolment(user);
+  res.json({ success: true, ...enrolment });
+}));
+
+/**
+ * @route POST /api/users/2fa/enable
+ * @desc Confirm enrolment with a code from the authenticator app. Returns the backup codes,
+ *       and signs the user in when the enrolment was part of a login.
+ */
+router.post("/enable", asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = codeSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
+  }
+
+  const enrolling = await resolveEnrollingUser(req);
+  if (!enrolling) {
+    return sendUnauthorized(res);
+  }
+
+  const backupCodes = await twoFactorService.confirmEnrolment(enrolling.user.id, validationResult.data.code);
+  if (!backupCodes) {
+    return res.status(400).json({ success: false, message: "Invalid authentication code" });
+  }
+
+  console.log(`2FA: enabled for user ID ${enrolling.user.id}`);
+  const user = { ...enrolling.user, twoFactorEnabled: true };
+  if (enrolling.duringLogin) {
+    await startUserSession(req, user);
+  }
+  res.json({ success: true, backupCodes, user: toSessionUser(user) });
+}));
+
+/**
+ * @route POST /api/users/2fa/backup-codes
+ * @desc Replace the backup codes of the signed-in user (requires a current code)
+ */
+router.post("/backup-codes", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = codeSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
+  }
+  if (!req.user!.twoFactorEnabled) {
+    return res.status(400).json({ success: false, message: "Two-factor authentication is not enabled" });
+  }
+  if (!await twoFactorService.verify(req.user!.id, validationResult.data.code)) {
+    return res.status(400).json({ success: false, message: "Invalid authentication code" });
+  }
+
+  const backupCodes = await twoFactorService.regenerateBackupCodes(req.user!.id);
+  res.json({ success: true, backupCodes });
+}));
+
+/**
+ * @route POST /api/users/2fa/disable
+ * @desc Turn off the second factor of the signed-in user (not allowed for admins)
+ */
+router.post("/disable", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = codeSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
+  }
+  if (isAdminUser(req.user)) {
+    return sendForbidden(res, "Two-factor authentication is mandatory for admin accounts");
+  }
+  if (!req.user!.twoFactorEnabled) {
+    return res.status(400).json({ success: false, message: "Two-factor authentication is not enabled" });
+  }
+  if (!await twoFactorService.verify(req.user!.id, validationResult.data.code)) {
+    return res.status(400).json({ success: false, message: "Invalid authentication code" });
+  }
+
+  await twoFactorService.disable(req.user!.id);
+  console.log(`2FA: disabled for user ID ${req.user!.id}`);
+  res.json({ success: true, message: "Two-factor authentication disabled" });
+}));
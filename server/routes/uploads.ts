@@ -0,0 +1,78 @@
+import { Router, Request, Response, NextFunction } from "express";
+import multer from "multer";
+import {
+  imageService,
+  ImageUploadError,
+  ACCEPTED_IMAGE_TYPES,
+  MAX_IMAGE_BYTES,
+  MAX_IMAGES_PER_UPLOAD,
+  type ProcessedImage,
+} from "../services/imageService";
+import { requireAuth, requireVerifiedEmail } from "./middleware";
+
+/**
+ * Listing photo uploads, mounted at /api/uploads.
+ * Uploaded URLs are attached to a listing by saving them in its images array.
+ */
+export const router = Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_BYTES, files: MAX_IMAGES_PER_UPLOAD },
+  fileFilter: (_req, file, callback) => {
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.mimetype)) {
+      return callback(new ImageUploadError(`${file.originalname}: only JPEG, PNG and WebP images are accepted`, 400));
+    }
+    callback(null, true);
+  },
+}).array('images', MAX_IMAGES_PER_UPLOAD);
+
+// Runs multer and turns its limit errors into 400 responses
+const parseImages = (req: Request, res: Response, next: NextFunction) => {
+  upload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Images can be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`
+        : error.code === 'LIMIT_FILE_COUNT' || error.code === 'LIMIT_UNEXPECTED_FILE'
+          ? `Upload at most ${MAX_IMAGES_PER_UPLOAD} images at a time in the "images" field`
+          : error.message;
+      return res.status(400).json({ error: message });
+    }
+    if (error instanceof ImageUploadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    next(error);
+  });
+};
+
+/**
+ * @route POST /api/uploads/images
+ * @desc Upload listing photos (multipart field "images"); returns the URLs of their size variants
+ */
+router.post("/images", requireAuth, requireVerifiedEmail, parseImages, asyncHandler(async (req: Request, res: Response) => {
+  const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  if (files.length === 0) {
+    return res.status(400).json({ error: "No images uploaded" });
+  }
+
+  const images: ProcessedImage[] = [];
+  try {
+    for (const file of files) {
+      images.push(await imageService.processUpload(req.user!.id, file.buffer));
+    }
+  } catch (error) {
+    if (error instanceof ImageUploadError) {
+      await imageService.releaseImages(images.map((image) => image.url), req.user!.id);
+      return res.status(error.status).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  console.log(`Uploads: user ID ${req.user!.id} uploaded ${images.length} image(s)`);
+  res.status(201).json({ images });
+}));
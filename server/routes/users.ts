@@ -5,6 +5,14 @@ import { z } from "zod";
 import { db } from '../db';
 import { eq, or } from 'drizzle-orm';
 import bcrypt from 'bcrypt'; // For password hashing
+import { startUserSession, startTwoFactorChallenge, endUserSession, endImpersonation, toSessionUser, destroyAllUserSessions } from '../session';
+import { firebaseTokenService } from '../services/firebaseTokenService';
+import { authTokenService } from '../services/authTokenService';
+import { twoFactorService } from '../services/twoFactorService';
+import { loginThrottleService, describeThrottle } from '../services/loginThrottleService';
+import { identityService } from '../services/identityService';
+import { impersonationService } from '../services/impersonationService';
+import { requireAuth, adminOnly, isAdminUser, sendForbidden } from './middleware';
 
 const router = Router();
 
@@ -28,29 +36,69 @@ const registerSchema = insertUserSchema.extend({
   }).default('user'),
   // Add confirmPassword for frontend validation, but don't use it on backend
   // confirmPassword: z.string().min(6)
-})
+}).omit({ emailVerified: true, firebaseUid: true }) // Verification only happens through the emailed token; identities are linked via Firebase
 // .refine(data => data.password === data.confirmPassword, { // Frontend should handle this check
 //   message: "Passwords don't match",
 //   path: ["confirmPassword"],
 // });
 
+// Schemas for the emailed one-time token flows
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+});
+
 // Schema for Firebase Authentication
+// Identity (uid, email) is taken from the verified ID token, never from the body.
 const firebaseAuthSchema = z.object({
-  email: z.string().email("Invalid email address"),
-  name: z.string().min(1, "Name is required"),
-  uid: z.string().min(1, "Firebase UID is required"), // Firebase user ID
+  idToken: z.string().min(1, "Firebase ID token is required"),
+  name: z.string().optional().nullable(),
   photoURL: z.string().url("Invalid photo URL").optional().nullable(),
 });
 
+/**
+ * Signs the user in, or parks the login behind a TOTP challenge (see routes/twoFactor.ts)
+ * when the account has a second factor or, as an admin, still has to enrol one.
+ */
+async function completeSignIn(req: Request, res: Response, user: User) {
+  if (user.twoFactorEnabled || twoFactorService.isRequiredFor(user)) {
+    const setup = !user.twoFactorEnabled;
+    await startTwoFactorChallenge(req, user, setup);
+    return res.json({
+      success: true,
+      twoFactorRequired: !setup,
+      twoFactorSetupRequired: setup,
+      message: setup
+        ? "Two-factor authentication must be set up for this account"
+        : "Enter the code from your authenticator app",
+    });
+  }
+
+  await startUserSession(req, user);
+  // Exclude password hash from the response
+  res.json({ success: true, user: toSessionUser(user) });
+}
+
 /**
  * @route GET /api/users/profile
- * @desc Get a user's profile by email (can be used by frontend after auth)
+ * @desc Get a user's profile by email (own profile, or any profile for admins)
  */
-router.get("/profile", asyncHandler(async (req: Request, res: Response) => {
+router.get("/profile", requireAuth, asyncHandler(async (req: Request, res: Response) => {
   const email = req.query.email as string;
   if (!email) {
     return res.status(400).json({ success: false, message: "Email query parameter is required" });
   }
+  if (!isAdminUser(req.user) && req.user!.email !== email) {
+    return sendForbidden(res, "You can only access your own data");
+  }
 
   const [user] = await db.select({ // Select specific fields
       id: users.id, name: users.name, email: users.email, username: users.username,
@@ -68,34 +116,30 @@ router.get("/profile", asyncHandler(async (req: Request, res: Response) => {
 
 /**
  * @route GET /api/users/current
- * @desc Get current user data (Placeholder - requires actual session/token auth)
+ * @desc Get the user of the current session
  */
-router.get("/current", asyncHandler(async (req: Request, res: Response) => {
-  // !! IMPORTANT: Replace this with your actual authentication mechanism !!
-  // This example uses a query param, which is NOT secure for identifying the current user.
-  // Use session data (e.g., req.session.userId) or JWT verification instead.
-  const userId = req.query.userId as string; // EXAMPLE ONLY - DO NOT USE IN PRODUCTION
-
-  if (!userId) {
-    return res.status(401).json({ error: "Not authenticated" });
-  }
-  const idNum = parseInt(userId);
-  if (isNaN(idNum)) {
-     return res.status(400).json({ error: "Invalid user ID" });
+router.get("/current", (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ success: false, message: "Not authenticated" });
   }
+  res.json({ success: true, user: { ...req.user, impersonation: req.impersonator ?? null } });
+});
 
-  const [user] = await db.select({
-      id: users.id, name: users.name, email: users.email, username: users.username,
-      role: users.role, phone: users.phone, photoURL: users.photoURL, createdAt: users.createdAt
-    })
-    .from(users)
-    .where(eq(users.id, idNum))
-    .limit(1);
-
-  if (!user) {
-    return res.status(404).json({ error: "User not found" });
+/**
+ * @route POST /api/users/impersonation/stop
+ * @desc Leave an admin impersonation and return to the admin's own session
+ */
+router.post("/impersonation/stop", asyncHandler(async (req: Request, res: Response) => {
+  const impersonator = req.impersonator;
+  const impersonatedUserId = req.user?.id;
+  const admin = await endImpersonation(req);
+  if (!impersonator || !impersonatedUserId) {
+    return res.status(400).json({ success: false, message: "Not viewing the site as another user" });
   }
-  res.json(user);
+
+  await impersonationService.record('ended', impersonator.id, impersonatedUserId, { ip: req.ip });
+  console.log(`Impersonation: admin ${impersonator.id} stopped viewing as user ${impersonatedUserId}`);
+  res.json({ success: true, user: admin ?? null });
 }));
 
 /**
@@ -121,9 +165,19 @@ router.post("/login", asyncHandler(async (req: Request, res: Response) => {
     ))
     .limit(1);
 
+  // Brute-force protection runs before the password is looked at
+  const attempt = { identifier: usernameOrEmail, userId: foundUser?.id, ip: req.ip || 'unknown' };
+  const decision = await loginThrottleService.check(attempt);
+  if (!decision.allowed) {
+    console.log(`Login blocked for ${usernameOrEmail} from ${attempt.ip}`);
+    res.set('Retry-After', String(Math.ceil(decision.retryAfterMs / 1000)));
+    return res.status(429).json({ success: false, message: describeThrottle(decision) });
+  }
+
   // Check if user exists and has a password set (ruling out Firebase-only users without password)
   if (!foundUser || !foundUser.hashedPassword) {
     console.log(`Login failed: User not found or no password set for ${usernameOrEmail}`);
+    await loginThrottleService.recordFailure(attempt, foundUser ? 'no_password' : 'unknown_user');
     return res.status(401).json({ success: false, message: "Invalid credentials" });
   }
 
@@ -132,13 +186,13 @@ router.post("/login", asyncHandler(async (req: Request, res: Response) => {
 
   if (!passwordMatch) {
     console.log(`Login failed: Password mismatch for ${usernameOrEmail}`);
+    await loginThrottleService.recordFailure(attempt, 'wrong_password');
     return res.status(401).json({ success: false, message: "Invalid credentials" });
   }
 
   console.log(`Login successful for ${usernameOrEmail}`);
-  // Exclude password hash from the response
-  const { hashedPassword, ...userToReturn } = foundUser;
-  res.json({ success: true, user: userToReturn });
+  await loginThrottleService.recordSuccess(attempt);
+  await completeSignIn(req, res, foundUser);
 }));
 
 /**
@@ -179,11 +233,10 @@ router.post("/register", asyncHandler(async (req: Request, res: Response) => {
 
   // Prepare data for insertion
   const userToInsert: Omit<typeof users.$inferInsert, 'id' | 'createdAt' | 'updatedAt'> = {
-    ...userData, // Includes name, email, username, role, phone, photoURL, firebaseUid (all optional except name, email, username, role)
+    ...userData, // Includes name, email, username, role, phone, photoURL (all optional except name, email, username, role)
     hashedPassword: hashedPassword, // Use the hashed password
     phone: userData.phone || null,
     photoURL: userData.photoURL || null,
-    firebaseUid: userData.firebaseUid || null,
   };
 
   // Insert the new user
@@ -197,19 +250,112 @@ router.post("/register", asyncHandler(async (req: Request, res: Response) => {
       role: users.role,
       phone: users.phone,
       photoURL: users.photoURL,
+      emailVerified: users.emailVerified,
       createdAt: users.createdAt,
     });
 
   console.log(`User registered successfully: ${newUser.username} (Role: ${newUser.role})`);
+  try {
+    await authTokenService.sendVerificationEmail(newUser);
+  } catch (error) {
+    // The account exists either way; the user can request another email later
+    console.error(`Failed to send verification email to ${newUser.email}:`, error);
+  }
   res.status(201).json({ // 201 Created
     success: true,
-    message: "User registered successfully",
+    message: "User registered successfully. Check your email to verify your address.",
     user: newUser,
   });
 }));
 
+/**
+ * @route POST /api/users/verify-email
+ * @desc Confirm email ownership with the token from the verification email
+ */
+router.post("/verify-email", asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = verifyEmailSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
+  }
+
+  const userId = await authTokenService.consume(validationResult.data.token, 'email_verification');
+  if (!userId) {
+    return res.status(400).json({ success: false, message: "This verification link is invalid or has expired" });
+  }
+
+  await db.update(users)
+    .set({ emailVerified: true, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  console.log(`Email verified for user ID ${userId}`);
+  res.json({ success: true, message: "Email address verified" });
+}));
+
+/**
+ * @route POST /api/users/resend-verification
+ * @desc Send a new verification email to the signed-in user
+ */
+router.post("/resend-verification", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  if (req.user!.emailVerified) {
+    return res.status(400).json({ success: false, message: "Email address is already verified" });
+  }
+  await authTokenService.sendVerificationEmail(req.user!);
+  res.json({ success: true, message: "Verification email sent" });
+}));
+
+/**
+ * @route POST /api/users/forgot-password
+ * @desc Email a password reset link. Always responds the same way so accounts cannot be enumerated.
+ */
+router.post("/forgot-password", asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = forgotPasswordSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
+  }
+
+  const [user] = await db.select({ id: users.id, name: users.name, email: users.email })
+    .from(users)
+    .where(eq(users.email, validationResult.data.email))
+    .limit(1);
+
+  if (user) {
+    await authTokenService.sendPasswordResetEmail(user);
+  } else {
+    console.log(`Password reset requested for unknown email ${validationResult.data.email}`);
+  }
+
+  res.json({ success: true, message: "If an account exists for that email, a reset link has been sent." });
+}));
+
+/**
+ * @route POST /api/users/reset-password
+ * @desc Set a new password with the token from the reset email. Signs out every existing session.
+ */
+router.post("/reset-password", asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = resetPasswordSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
+  }
+
+  const { token, password } = validationResult.data;
+  const userId = await authTokenService.consume(token, 'password_reset');
+  if (!userId) {
+    return res.status(400).json({ success: false, message: "This reset link is invalid or has expired" });
+  }
+
+  const hashedPassword = await bcrypt.hash(password, 10);
+  // Receiving the reset email also proves ownership of the address
+  await db.update(users)
+    .set({ hashedPassword, emailVerified: true, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+  await destroyAllUserSessions(userId);
+
+  console.log(`Password reset for user ID ${userId}`);
+  res.json({ success: true, message: "Password updated. Please sign in with your new password." });
+}));
+
 // --- Debug Route (Remove in production) ---
-router.get("/debug", asyncHandler(async (req: Request, res: Response) => {
+router.get("/debug", adminOnly, asyncHandler(async (req: Request, res: Response) => {
   console.warn("Accessing DEBUG route /api/users/debug");
   const allUsers = await db.select({
       id: users.id, username: users.username, name: users.name, email: users.email,
@@ -221,14 +367,13 @@ router.get("/debug", asyncHandler(async (req: Request, res: Response) => {
 
 /**
  * @route POST /api/users/logout
- * @desc Logout user (Placeholder - depends on auth strategy)
+ * @desc Logout user by destroying the server-side session
  */
-router.post("/logout", (req: Request, res: Response) => {
-  // If using sessions: req.session.destroy(...)
-  // If using JWT: Client-side should discard the token. Backend might blacklist it.
+router.post("/logout", asyncHandler(async (req: Request, res: Response) => {
   console.log("Handling POST /api/users/logout");
-  res.json({ success: true, message: "Logout successful (client should clear token/session)" });
-});
+  await endUserSession(req, res);
+  res.json({ success: true, message: "Logout successful" });
+}));
 
 /**
  * @route POST /api/users/firebase-auth
@@ -242,29 +387,55 @@ router.post("/firebase-auth", asyncHandler(async (req: Request, res: Response) =
     return res.status(400).json({ success: false, message: "Invalid input", details: validationResult.error.errors });
   }
 
-  const { email, name, uid, photoURL } = validationResult.data;
+  const { idToken } = validationResult.data;
 
-  // Check if user exists by email
-  const [existingUser] = await db.select()
-    .from(users)
-    .where(eq(users.email, email))
-    .limit(1);
+  let identity;
+  try {
+    identity = await firebaseTokenService.verifyIdToken(idToken);
+  } catch (error: any) {
+    console.log(`Firebase Auth: ID token verification failed: ${error.message}`);
+    return res.status(401).json({ success: false, message: "Invalid Firebase credentials" });
+  }
 
-  let userToReturn: Omit<User, 'hashedPassword'>;
+  if (!identity.emailVerified) {
+    return res.status(401).json({ success: false, message: "Firebase account email is not verified" });
+  }
+
+  const { email, uid } = identity;
+  const name = identity.name || validationResult.data.name || email.split('@')[0];
+  const photoURL = identity.photoURL || validationResult.data.photoURL;
+
+  // Resolve the account: the one this identity is linked to, else the one with the same email
+  const linkedUser = await identityService.findUserByFirebaseUid(uid);
+  let existingUser = linkedUser;
+  if (!existingUser) {
+    [existingUser] = await db.select()
+      .from(users)
+      .where(eq(users.email, email))
+      .limit(1);
+  }
+
+  let sessionUser: User;
 
   if (existingUser) {
-    // User exists, potentially update details and ensure Firebase UID is linked
-    console.log(`Firebase Auth: Found existing user by email: ${email}`);
+    // User exists, potentially update details
+    console.log(`Firebase Auth: Found existing user ${existingUser.id} (${linkedUser ? 'linked identity' : 'matching email'})`);
     const updateData: Partial<typeof users.$inferInsert> = {
       updatedAt: new Date(),
     };
     let needsUpdate = false;
+    let revokeSessions = false;
 
-    // Link Firebase UID if not already linked or different
-    if (existingUser.firebaseUid !== uid) {
-      updateData.firebaseUid = uid;
+    // Google has verified the address, so the account's email is verified too
+    if (!existingUser.emailVerified && existingUser.email === email) {
+      updateData.emailVerified = true;
       needsUpdate = true;
-      console.log(`Firebase Auth: Linking/Updating Firebase UID for ${email}`);
+      if (!linkedUser && existingUser.hashedPassword) {
+        // Nobody had proven ownership of this address, so the password may have been set by someone else
+        console.log(`Firebase Auth: Clearing unverified password of user ${existingUser.id}`);
+        updateData.hashedPassword = null;
+        revokeSessions = true;
+      }
     }
     // Optionally update name/photo if they differ (or if missing)
     if (name && existingUser.name !== name) {
@@ -281,11 +452,12 @@ router.post("/firebase-auth", asyncHandler(async (req: Request, res: Response) =
         .set(updateData)
         .where(eq(users.id, existingUser.id))
         .returning();
-      const { hashedPassword, ...rest } = updatedUser || existingUser; // Use updated or existing if update failed somehow
-      userToReturn = rest;
+      sessionUser = updatedUser || existingUser; // Use updated or existing if update failed somehow
     } else {
-      const { hashedPassword, ...rest } = existingUser;
-      userToReturn = rest;
+      sessionUser = existingUser;
+    }
+    if (revokeSessions) {
+      await destroyAllUserSessions(existingUser.id);
     }
 
   } else {
@@ -313,19 +485,20 @@ router.post("/firebase-auth", asyncHandler(async (req: Request, res: Response) =
       phone: null,
       role: 'user', // Default role for Firebase sign-ups
       photoURL: photoURL || null,
-      firebaseUid: uid, // Link the Firebase UID
+      emailVerified: true, // Checked against the ID token above
     };
 
     const [newUser] = await db.insert(users)
       .values(userToInsert)
       .returning();
 
-    const { hashedPassword, ...rest } = newUser;
-    userToReturn = rest;
-    console.log(`Firebase Auth: New user created: ${userToReturn.username}`);
+    sessionUser = newUser;
+    console.log(`Firebase Auth: New user created: ${sessionUser.username}`);
   }
 
-  res.json({ success: true, user: userToReturn });
+  // Records the link for new accounts and email matches, and refreshes lastUsedAt otherwise
+  await identityService.linkFirebase(sessionUser.id, identity);
+  await completeSignIn(req, res, sessionUser);
 }));
 
 /**
@@ -0,0 +1,28 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { valuationService, valuationRequestSchema } from "../services/valuationService";
+
+/**
+ * Home value estimates for owners who have not listed, mounted at /api/valuations
+ */
+export const router = Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch((error) => {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      next(error);
+    });
+  };
+
+/**
+ * @route POST /api/valuations
+ * @desc Estimate the value of a home from its city, type and area (m²), optionally its address, postal code,
+ *       build year and features; responds like GET /api/properties/:id/valuation without the asking price
+ */
+router.post("/", asyncHandler(async (req: Request, res: Response) => {
+  const request = valuationRequestSchema.parse(req.body);
+  res.json(await valuationService.estimate(request));
+}));
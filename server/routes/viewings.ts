@@ -0,0 +1,103 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { viewingService, ViewingError } from "../services/viewingService";
+import { requireAuth, requireOwnership, propertyOwner, isHiddenFrom, type OwnerResolver } from "./middleware";
+
+/**
+ * Viewing slots and bookings, mounted at /api/viewings
+ */
+export const router = Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch((error) => {
+      if (error instanceof ViewingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    });
+  };
+
+const slotOwner: OwnerResolver = async (req) => {
+  const id = parseInt(req.params.id, 10);
+  return isNaN(id) ? undefined : viewingService.slotOwner(id);
+};
+
+/**
+ * @route GET /api/viewings/mine
+ * @desc Bookings the signed-in user made, and bookings on their listings
+ */
+router.get("/mine", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  res.json(await viewingService.bookingsFor(req.user!.id));
+}));
+
+/**
+ * @route GET /api/viewings/calendar.ics
+ * @desc iCalendar export of the signed-in user's viewings
+ */
+router.get("/calendar.ics", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const calendar = await viewingService.calendar(req.user!.id);
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", 'attachment; filename="homeharbor-viewings.ics"');
+  res.send(calendar);
+}));
+
+/**
+ * @route GET /api/viewings/property/:propertyId
+ * @desc Upcoming viewing slots of a listing with their free places
+ */
+router.get("/property/:propertyId", asyncHandler(async (req: Request, res: Response) => {
+  const propertyId = parseInt(req.params.propertyId, 10);
+  if (isNaN(propertyId)) {
+    return res.status(400).json({ error: "Invalid property ID" });
+  }
+  const property = await storage.getProperty(propertyId);
+  if (!property || isHiddenFrom(property, req.user)) {
+    return res.status(404).json({ error: "Property not found" });
+  }
+  res.json({ slots: await viewingService.slotsForProperty(propertyId, req.user?.id) });
+}));
+
+/**
+ * @route POST /api/viewings/property/:propertyId
+ * @desc Add a viewing slot or open house to a listing (owner or admin)
+ */
+router.post("/property/:propertyId", requireAuth, requireOwnership(propertyOwner('propertyId'), 'Property'), asyncHandler(async (req: Request, res: Response) => {
+  const slot = await viewingService.createSlot(parseInt(req.params.propertyId, 10), req.body);
+  res.status(201).json(slot);
+}));
+
+/**
+ * @route DELETE /api/viewings/slots/:id
+ * @desc Remove a viewing slot; its bookings are cancelled (owner or admin)
+ */
+router.delete("/slots/:id", requireAuth, requireOwnership(slotOwner, 'Viewing'), asyncHandler(async (req: Request, res: Response) => {
+  await viewingService.deleteSlot(parseInt(req.params.id, 10), req.user!.id);
+  res.status(204).end();
+}));
+
+/**
+ * @route POST /api/viewings/slots/:id/book
+ * @desc Book a place in a viewing slot
+ */
+router.post("/slots/:id/book", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: "Invalid viewing ID" });
+  }
+  const note = typeof req.body?.note === "string" ? req.body.note.slice(0, 500) : null;
+  const booking = await viewingService.book(id, req.user!, note);
+  res.status(201).json(booking);
+}));
+
+/**
+ * @route DELETE /api/viewings/bookings/:id
+ * @desc Cancel a booking (the buyer, the listing owner or an admin)
+ */
+router.delete("/bookings/:id", requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id, 10);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: "Invalid booking ID" });
+  }
+  res.json(await viewingService.cancel(id, req.user!));
+}));
@@ -1,6 +1,6 @@
 import { sql } from 'drizzle-orm';
 import { db } from './db';
-import { users, properties, locations, neighborhoods, posts, messages, footerContents, settings, staticPages } from '@shared/schema';
+import { users, properties, propertyEvents, locations, neighborhoods, posts, messages, footerContents, settings, staticPages } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import bcrypt from 'bcrypt';
 
@@ -33,6 +33,7 @@ export async function seedDatabase() {
       name: 'Admin User',
       role: 'admin',
       photoURL: 'https://randomuser.me/api/portraits/men/1.jpg',
+      emailVerified: true,
       createdAt: new Date(),
     },
     {
@@ -42,6 +43,7 @@ export async function seedDatabase() {
       name: 'Demo User',
       role: 'user',
       photoURL: 'https://randomuser.me/api/portraits/women/2.jpg',
+      emailVerified: true,
       createdAt: new Date(),
     },
     {
@@ -51,6 +53,7 @@ export async function seedDatabase() {
       name: 'Agent User',
       role: 'agent',
       photoURL: 'https://randomuser.me/api/portraits/men/3.jpg',
+      emailVerified: true,
       createdAt: new Date(),
     }
   ];
@@ -167,6 +170,13 @@ export async function seedDatabase() {
     if (i === 5) console.log('...');
   });
   const insertedProperties = await db.insert(properties).values(propertiesSeed).returning();
+  await db.insert(propertyEvents).values(insertedProperties.map((p) => ({
+    propertyId: p.id,
+    type: 'listed',
+    price: p.price,
+    status: p.status,
+    createdAt: p.createdAt,
+  })));
   console.log('Properties seeded.');
 
   // --- 5. BLOG ARTICLES ---
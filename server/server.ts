@@ -4,6 +4,11 @@ import { fileURLToPath } from 'url';
 import { execSync } from 'child_process';
 import { Pool } from 'pg';
 import { CrimeDataService } from './services/crimeDataService';
+import { dataPrivacyService } from './services/dataPrivacyService';
+import { duplicateListingService } from './services/duplicateListingService';
+import { geocodingService } from './services/geocodingService';
+import { priceComparablesService } from './services/priceComparablesService';
+import { imageService } from './services/imageService';
 import { env } from './config/env';
 
 // --- Run the check before starting the main app ---
@@ -73,6 +78,11 @@ checkAndPushSchema()
     // Initialize crime data service after schema check
     console.log("Starting crime data service...");
     CrimeDataService.startScheduledUpdates();
+    dataPrivacyService.startScheduledErasures();
+    duplicateListingService.startScheduledDetection();
+    geocodingService.startScheduledBackfill();
+    priceComparablesService.startScheduledComputation();
+    imageService.startScheduledCleanup();
     
     // --- NOW import and run the main application ---
     console.log("Proceeding to start main application...");
@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { db } from '../db';
+import { apiKeys, users, type ApiKey, type ApiKeyScope, type User } from '@shared/schema';
+
+export const API_KEY_PREFIX = 'hh_';
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+const RATE_LIMIT_WINDOW_MS = 1000 * 60;
+// lastUsedAt is a hint for the owner, so it is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 1000 * 60;
+
+export type ApiKeySummary = Omit<ApiKey, 'keyHash' | 'userId'>;
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch milliseconds
+};
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+const toSummary = ({ keyHash: _keyHash, userId: _userId, ...key }: ApiKey): ApiKeySummary => key;
+
+/**
+ * Partner API keys: long random secrets that authenticate as their owner for the endpoints
+ * their scopes allow. Keys are stored hashed and shown in full only once, at creation.
+ */
+export class ApiKeyService {
+  // Requests per key in the current fixed window; per process, like the rest of the in-memory caches
+  private windows = new Map<number, { startedAt: number; count: number }>();
+
+  async list(userId: number): Promise<ApiKeySummary[]> {
+    const rows = await db.select().from(apiKeys).where(eq(apiKeys.userId, userId)).orderBy(desc(apiKeys.createdAt));
+    return rows.map(toSummary);
+  }
+
+  /**
+   * @returns the new key's metadata and the raw key; only its hash is persisted
+   */
+  async create(
+    userId: number,
+    input: { name: string; scopes: ApiKeyScope[]; rateLimitPerMinute: number },
+  ): Promise<{ apiKey: ApiKeySummary; key: string }> {
+    const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+    const [row] = await db.insert(apiKeys)
+      .values({
+        userId,
+        name: input.name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: hashKey(key),
+        scopes: input.scopes,
+        rateLimitPerMinute: input.rateLimitPerMinute,
+      })
+      .returning();
+    return { apiKey: toSummary(row), key };
+  }
+
+  async revoke(userId: number, keyId: number): Promise<boolean> {
+    const revoked = await db.update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning({ id: apiKeys.id });
+    this.windows.delete(keyId);
+    return revoked.length > 0;
+  }
+
+  /**
+   * Resolves an unrevoked key to its owner and records that it was used.
+   */
+  async authenticate(key: string): Promise<{ apiKey: ApiKey; user: User } | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+    const [row] = await db.select({ apiKey: apiKeys, user: users })
+      .from(apiKeys)
+      .innerJoin(users, eq(apiKeys.userId, users.id))
+      .where(and(eq(apiKeys.keyHash, hashKey(key)), isNull(apiKeys.revokedAt)))
+      .limit(1);
+    if (!row) {
+      return null;
+    }
+
+    const now = new Date();
+    if (!row.apiKey.lastUsedAt || now.getTime() - row.apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await db.update(apiKeys).set({ lastUsedAt: now }).where(eq(apiKeys.id, row.apiKey.id));
+    }
+    return row;
+  }
+
+  /**
+   * Counts a request against the key's per-minute limit.
+   */
+  consumeRateLimit(apiKey: Pick<ApiKey, 'id' | 'rateLimitPerMinute'>): RateLimitDecision {
+    const now = Date.now();
+    let window = this.windows.get(apiKey.id);
+    if (!window || now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(apiKey.id, window);
+    }
+
+    const limit = apiKey.rateLimitPerMinute;
+    const allowed = window.count < limit;
+    if (allowed) {
+      window.count++;
+    }
+    return { allowed, limit, remaining: Math.max(0, limit - window.count), resetAt: window.startedAt + RATE_LIMIT_WINDOW_MS };
+  }
+}
+
+// Export a singleton instance
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '../db';
+import { authTokens, type User } from '@shared/schema';
+import { env } from '../config/env';
+import { mailService, escapeHtml } from './mailService';
+
+export type AuthTokenPurpose = 'password_reset' | 'email_verification';
+
+const TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  password_reset: 1000 * 60 * 60, // 1 hour
+  email_verification: 1000 * 60 * 60 * 24, // 24 hours
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Issues and redeems one-time, expiring tokens and sends the emails that carry them.
+ */
+export class AuthTokenService {
+  /**
+   * Creates a new token for the user, invalidating any earlier unused token with the same purpose.
+   * @returns the raw token; only its hash is persisted
+   */
+  async issue(userId: number, purpose: AuthTokenPurpose): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    await db.delete(authTokens).where(and(
+      eq(authTokens.userId, userId),
+      eq(authTokens.purpose, purpose),
+      isNull(authTokens.usedAt),
+    ));
+    await db.insert(authTokens).values({
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose]),
+    });
+    return token;
+  }
+
+  /**
+   * Marks a token as used if it is valid, unused and unexpired.
+   * @returns the id of the user the token was issued to, or null
+   */
+  async consume(token: string, purpose: AuthTokenPurpose): Promise<number | null> {
+    const [row] = await db.update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.tokenHash, hashToken(token)),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, new Date()),
+      ))
+      .returning({ userId: authTokens.userId });
+    return row ? row.userId : null;
+  }
+
+  async sendVerificationEmail(user: Pick<User, 'id' | 'name' | 'email'>): Promise<void> {
+    const token = await this.issue(user.id, 'email_verification');
+    const link = `${env.APP_BASE_URL}/verify-email?token=${encodeURIComponent(token)}`;
+    await mailService.send({
+      to: user.email,
+      subject: 'Verify your HomeHarbor email address',
+      text: `Hi ${user.name},\n\nPlease confirm your email address by opening this link:\n${link}\n\nThe link expires in 24 hours.`,
+      html: `<p>Hi ${escapeHtml(user.name)},</p><p>Please confirm your email address:</p><p><a href="${link}">Verify email</a></p><p>The link expires in 24 hours.</p>`,
+    });
+  }
+
+  async sendPasswordResetEmail(user: Pick<User, 'id' | 'name' | 'email'>): Promise<void> {
+    const token = await this.issue(user.id, 'password_reset');
+    const link = `${env.APP_BASE_URL}/reset-password?token=${encodeURIComponent(token)}`;
+    await mailService.send({
+      to: user.email,
+      subject: 'Reset your HomeHarbor password',
+      text: `Hi ${user.name},\n\nSomeone asked to reset the password for your account. If it was you, open this link:\n${link}\n\nThe link expires in 1 hour. If you did not ask for this, you can ignore this email.`,
+      html: `<p>Hi ${escapeHtml(user.name)},</p><p>Someone asked to reset the password for your account. If it was you:</p><p><a href="${link}">Choose a new password</a></p><p>The link expires in 1 hour. If you did not ask for this, you can ignore this email.</p>`,
+    });
+  }
+}
+
+// Export a singleton instance
+export const authTokenService = new AuthTokenService();
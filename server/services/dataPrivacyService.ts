@@ -0,0 +1,352 @@
+import { CronJob } from 'cron';
+import { and, desc, eq, inArray, lte, or } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  users,
+  userIdentities,
+  favorites,
+  messages,
+  properties,
+  propertyColumns,
+  posts,
+  securityEvents,
+  loginThrottles,
+  mailOutbox,
+  dataErasureRequests,
+  uploadedImages,
+  rentalApplications,
+  viewingBookings,
+  viewingSlots,
+  apiKeys,
+  type DataErasureRequest,
+} from '@shared/schema';
+import { destroyAllUserSessions, toSessionUser } from '../session';
+import { imageService } from './imageService';
+
+export type ErasureStatus = 'pending' | 'completed' | 'cancelled' | 'rejected';
+
+// Time the user has to change their mind; GDPR allows at most one month to act on a request
+export const ERASURE_GRACE_DAYS = 14;
+
+// Stand-ins for the sender of messages that outlive an erased account
+const ERASED_SENDER_NAME = 'Deleted user';
+const ERASED_SENDER_EMAIL = 'deleted-user@invalid';
+
+export interface ErasureSummary {
+  favorites: number;
+  properties: number;
+  messagesDeleted: number;
+  messagesAnonymized: number;
+  postsAnonymized: number;
+}
+
+export interface ErasureRequestWithUser extends DataErasureRequest {
+  user: { id: number; name: string; email: string; role: string } | null;
+}
+
+export class ErasureRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ErasureRequestError';
+  }
+}
+
+/**
+ * GDPR data export and erasure ("right to be forgotten").
+ *
+ * Erasure policy, applied in one transaction:
+ * - Account, linked identities, auth tokens, API keys, 2FA secrets and sessions: deleted.
+ * - Favorites of the user, and favorites others made on the user's listings: deleted.
+ * - Listings of the user: deleted, together with the messages about them.
+ * - Rental applications the user made: deleted with the account.
+ * - Viewing bookings the user made: deleted with the account. Viewing slots of the user's listings
+ *   and the bookings others made for them go with the listings.
+ * - Messages received by the user: deleted.
+ * - Messages sent by the user (matched by account or email): kept for the recipient, with the
+ *   sender's name and email replaced and the account link removed.
+ * - Blog posts written by the user: kept, with the author link and name removed.
+ * - Security events: kept for abuse investigation, with the account link and typed login removed.
+ * - Login throttles and outgoing mail addressed to the user: deleted.
+ * - The erasure request itself: kept as proof of handling, without the account link.
+ *
+ * Self-service requests wait `ERASURE_GRACE_DAYS` so the user can cancel, and are erased by a
+ * daily job once due unless an admin completes or rejects them sooner.
+ */
+export class DataPrivacyService {
+  private static readonly ERASURE_CRON = '30 2 * * *'; // Daily at 02:30
+
+  /**
+   * Everything stored about a user, as a JSON-serialisable archive.
+   */
+  async exportUserData(userId: number): Promise<Record<string, unknown> | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user) {
+      return undefined;
+    }
+
+    const identities = await db.select({
+      provider: userIdentities.provider,
+      signInProvider: userIdentities.signInProvider,
+      email: userIdentities.email,
+      linkedAt: userIdentities.linkedAt,
+      lastUsedAt: userIdentities.lastUsedAt,
+    }).from(userIdentities).where(eq(userIdentities.userId, userId));
+
+    // The key hash stays out of the archive
+    const keys = await db.select({
+      name: apiKeys.name,
+      prefix: apiKeys.prefix,
+      scopes: apiKeys.scopes,
+      rateLimitPerMinute: apiKeys.rateLimitPerMinute,
+      createdAt: apiKeys.createdAt,
+      lastUsedAt: apiKeys.lastUsedAt,
+      revokedAt: apiKeys.revokedAt,
+    }).from(apiKeys).where(eq(apiKeys.userId, userId)).orderBy(apiKeys.createdAt);
+
+    const favoriteRows = await db.select({
+      propertyId: favorites.propertyId,
+      propertyTitle: properties.title,
+      createdAt: favorites.createdAt,
+    })
+      .from(favorites)
+      .leftJoin(properties, eq(favorites.propertyId, properties.id))
+      .where(eq(favorites.userId, userId));
+
+    const receivedMessages = await db.select().from(messages).where(eq(messages.userId, userId)).orderBy(desc(messages.createdAt));
+    const sentMessages = await db.select().from(messages)
+      .where(or(eq(messages.senderUserId, userId), eq(messages.email, user.email)))
+      .orderBy(desc(messages.createdAt));
+    const listings = await db.select(propertyColumns).from(properties).where(eq(properties.userId, userId));
+    const authoredPosts = await db.select({ id: posts.id, title: posts.title, slug: posts.slug, createdAt: posts.createdAt })
+      .from(posts)
+      .where(eq(posts.authorId, userId));
+    const applications = await db.select().from(rentalApplications)
+      .where(eq(rentalApplications.userId, userId))
+      .orderBy(desc(rentalApplications.createdAt));
+    const bookings = await db.select({
+      id: viewingBookings.id,
+      propertyId: viewingSlots.propertyId,
+      propertyTitle: properties.title,
+      slotType: viewingSlots.type,
+      startsAt: viewingSlots.startsAt,
+      endsAt: viewingSlots.endsAt,
+      status: viewingBookings.status,
+      note: viewingBookings.note,
+      cancelledAt: viewingBookings.cancelledAt,
+      createdAt: viewingBookings.createdAt,
+    })
+      .from(viewingBookings)
+      .innerJoin(viewingSlots, eq(viewingBookings.slotId, viewingSlots.id))
+      .leftJoin(properties, eq(viewingSlots.propertyId, properties.id))
+      .where(eq(viewingBookings.userId, userId))
+      .orderBy(desc(viewingSlots.startsAt));
+    const erasureRequests = await db.select().from(dataErasureRequests).where(eq(dataErasureRequests.userId, userId));
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile: toSessionUser(user),
+      signInMethods: { hasPassword: !!user.hashedPassword, identities },
+      apiKeys: keys,
+      favorites: favoriteRows,
+      messages: { received: receivedMessages, sent: sentMessages },
+      listings,
+      posts: authoredPosts,
+      rentalApplications: applications,
+      viewingBookings: bookings,
+      erasureRequests,
+    };
+  }
+
+  async getOpenRequest(userId: number): Promise<DataErasureRequest | undefined> {
+    const [request] = await db.select().from(dataErasureRequests)
+      .where(and(eq(dataErasureRequests.userId, userId), eq(dataErasureRequests.status, 'pending')))
+      .limit(1);
+    return request;
+  }
+
+  /**
+   * Files an erasure request for the user, or returns the one already pending.
+   * @throws ErasureRequestError for admin accounts, which must be demoted first
+   */
+  async requestErasure(userId: number, reason?: string): Promise<DataErasureRequest> {
+    const existing = await this.getOpenRequest(userId);
+    if (existing) {
+      return existing;
+    }
+
+    const [user] = await db.select({ role: users.role }).from(users).where(eq(users.id, userId)).limit(1);
+    if (!user) {
+      throw new ErasureRequestError("User not found", 404);
+    }
+    if (user.role === 'admin') {
+      throw new ErasureRequestError("Admin accounts must be demoted before they can be erased", 403);
+    }
+
+    const [request] = await db.insert(dataErasureRequests)
+      .values({
+        userId,
+        reason: reason || null,
+        dueAt: new Date(Date.now() + ERASURE_GRACE_DAYS * 24 * 60 * 60 * 1000),
+      })
+      .returning();
+    console.log(`Privacy: erasure requested by user ID ${userId}, due ${request.dueAt.toISOString()}`);
+    return request;
+  }
+
+  async cancelErasure(userId: number): Promise<boolean> {
+    const cancelled = await db.update(dataErasureRequests)
+      .set({ status: 'cancelled', processedAt: new Date() })
+      .where(and(eq(dataErasureRequests.userId, userId), eq(dataErasureRequests.status, 'pending')))
+      .returning({ id: dataErasureRequests.id });
+    return cancelled.length > 0;
+  }
+
+  async listRequests(status?: ErasureStatus): Promise<ErasureRequestWithUser[]> {
+    const rows = await db.select({
+      request: dataErasureRequests,
+      user: { id: users.id, name: users.name, email: users.email, role: users.role },
+    })
+      .from(dataErasureRequests)
+      .leftJoin(users, eq(dataErasureRequests.userId, users.id))
+      .where(status ? eq(dataErasureRequests.status, status) : undefined)
+      .orderBy(dataErasureRequests.dueAt);
+    return rows.map(({ request, user }) => ({ ...request, user }));
+  }
+
+  /**
+   * Erases the account of a pending request now.
+   */
+  async completeRequest(requestId: number, processedBy: number | null): Promise<DataErasureRequest> {
+    const request = await this.getPendingRequest(requestId);
+    const summary = request.userId ? await this.eraseUser(request.userId) : null;
+
+    const [completed] = await db.update(dataErasureRequests)
+      .set({ status: 'completed', processedBy, processedAt: new Date(), summary, userId: null, reason: null })
+      .where(eq(dataErasureRequests.id, requestId))
+      .returning();
+    return completed;
+  }
+
+  async rejectRequest(requestId: number, processedBy: number, rejectionReason: string): Promise<DataErasureRequest> {
+    await this.getPendingRequest(requestId);
+    const [rejected] = await db.update(dataErasureRequests)
+      .set({ status: 'rejected', processedBy, processedAt: new Date(), rejectionReason })
+      .where(eq(dataErasureRequests.id, requestId))
+      .returning();
+    return rejected;
+  }
+
+  /**
+   * Applies the erasure policy to a user. Returns null if the user does not exist.
+   */
+  async eraseUser(userId: number): Promise<ErasureSummary | null> {
+    let uploadKeys: string[] = [];
+    const summary = await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).limit(1);
+      if (!user) {
+        return null;
+      }
+
+      const listingIds = (await tx.select({ id: properties.id }).from(properties).where(eq(properties.userId, userId)))
+        .map((row) => row.id);
+
+      const deletedFavorites = await tx.delete(favorites)
+        .where(listingIds.length
+          ? or(eq(favorites.userId, userId), inArray(favorites.propertyId, listingIds))
+          : eq(favorites.userId, userId))
+        .returning({ id: favorites.id });
+
+      const deletedMessages = await tx.delete(messages)
+        .where(listingIds.length
+          ? or(eq(messages.userId, userId), inArray(messages.propertyId, listingIds))
+          : eq(messages.userId, userId))
+        .returning({ id: messages.id });
+      const anonymizedMessages = await tx.update(messages)
+        .set({ senderUserId: null, name: ERASED_SENDER_NAME, email: ERASED_SENDER_EMAIL })
+        .where(or(eq(messages.senderUserId, userId), eq(messages.email, user.email)))
+        .returning({ id: messages.id });
+
+      const deletedListings = await tx.delete(properties)
+        .where(eq(properties.userId, userId))
+        .returning({ id: properties.id });
+
+      const anonymizedPosts = await tx.update(posts)
+        .set({ authorId: null, authorName: null })
+        .where(eq(posts.authorId, userId))
+        .returning({ id: posts.id });
+
+      await tx.update(securityEvents).set({ userId: null, identifier: null }).where(eq(securityEvents.userId, userId));
+      await tx.delete(loginThrottles).where(inArray(loginThrottles.key, [
+        `account:${userId}`,
+        `login:${user.email.toLowerCase()}`,
+        `login:${user.username.toLowerCase()}`,
+      ]));
+      await tx.delete(mailOutbox).where(eq(mailOutbox.toAddress, user.email));
+
+      uploadKeys = (await tx.select({ storageKey: uploadedImages.storageKey }).from(uploadedImages)
+        .where(eq(uploadedImages.userId, userId)))
+        .map((row) => row.storageKey);
+
+      // Identities, auth tokens, 2FA rows and upload records cascade; erasure requests keep their row
+      await tx.delete(users).where(eq(users.id, userId));
+
+      return {
+        favorites: deletedFavorites.length,
+        properties: deletedListings.length,
+        messagesDeleted: deletedMessages.length,
+        messagesAnonymized: anonymizedMessages.length,
+        postsAnonymized: anonymizedPosts.length,
+      };
+    });
+
+    if (summary) {
+      await destroyAllUserSessions(userId);
+      await imageService.deleteFiles(uploadKeys);
+      console.log(`Privacy: erased user ID ${userId}`, summary);
+    }
+    return summary;
+  }
+
+  /**
+   * Erases every pending request that is past its due date.
+   */
+  async processDueRequests(): Promise<number> {
+    const due = await db.select({ id: dataErasureRequests.id }).from(dataErasureRequests)
+      .where(and(eq(dataErasureRequests.status, 'pending'), lte(dataErasureRequests.dueAt, new Date())));
+
+    let processed = 0;
+    for (const { id } of due) {
+      try {
+        await this.completeRequest(id, null);
+        processed++;
+      } catch (error) {
+        console.error(`Privacy: failed to process erasure request ${id}:`, error);
+      }
+    }
+    return processed;
+  }
+
+  startScheduledErasures(): void {
+    const job = new CronJob(DataPrivacyService.ERASURE_CRON, async () => {
+      const processed = await this.processDueRequests();
+      console.log(`Privacy: processed ${processed} due erasure request(s)`);
+    });
+
+    job.start();
+    console.log('Erasure request scheduler started (running daily)');
+  }
+
+  private async getPendingRequest(requestId: number): Promise<DataErasureRequest> {
+    const [request] = await db.select().from(dataErasureRequests).where(eq(dataErasureRequests.id, requestId)).limit(1);
+    if (!request) {
+      throw new ErasureRequestError("Erasure request not found", 404);
+    }
+    if (request.status !== 'pending') {
+      throw new ErasureRequestError(`Erasure request is already ${request.status}`, 409);
+    }
+    return request;
+  }
+}
+
+// Export a singleton instance
+export const dataPrivacyService = new DataPrivacyService();
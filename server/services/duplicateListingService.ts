@@ -0,0 +1,408 @@
+import { CronJob } from 'cron';
+import { and, arrayOverlaps, between, desc, eq, inArray, lt, ne, notInArray, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  favorites,
+  messages,
+  properties,
+  propertyColumns,
+  propertyDuplicates,
+  rentalApplications,
+  viewingSlots,
+  type DuplicateReason,
+  type DuplicateStatus,
+  type Property,
+  type PropertyDuplicate,
+} from '@shared/schema';
+import { imageService } from './imageService';
+import { distanceKm } from './geo';
+
+// Weight of each matching signal; a pair scoring at least DUPLICATE_THRESHOLD is reported
+const REASON_WEIGHTS: Record<DuplicateReason, number> = {
+  address: 0.5,
+  images: 0.5,
+  coordinates: 0.3,
+  area_bedrooms: 0.2,
+};
+export const DUPLICATE_THRESHOLD = 0.5;
+const NEARBY_METRES = 30;
+const AREA_TOLERANCE = 0.03; // Relative difference
+const MAX_HASH_DISTANCE = 6; // Differing bits out of 64
+// Coordinate grid used to group nearby listings, about 110 m north-south
+const GRID_DEGREES = 0.001;
+const MAX_CANDIDATES = 5000;
+const WRITE_BATCH = 500;
+
+export class DuplicateListingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'DuplicateListingError';
+  }
+}
+
+export interface DuplicateMatch {
+  property: Pick<Property, 'id' | 'userId' | 'title' | 'city' | 'moderationStatus'>;
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+type PairListing = Pick<Property, 'id' | 'userId' | 'title' | 'address' | 'city' | 'postalCode' | 'price' | 'area' | 'bedrooms' | 'images' | 'moderationStatus' | 'createdAt'>;
+
+export interface DuplicatePairView extends PropertyDuplicate {
+  property: PairListing | null;
+  duplicate: PairListing | null;
+}
+
+const candidateColumns = {
+  id: properties.id,
+  userId: properties.userId,
+  title: properties.title,
+  address: properties.address,
+  postalCode: properties.postalCode,
+  city: properties.city,
+  latitude: properties.latitude,
+  longitude: properties.longitude,
+  area: properties.area,
+  bedrooms: properties.bedrooms,
+  listingType: properties.listingType,
+  imageHashes: properties.imageHashes,
+  moderationStatus: properties.moderationStatus,
+};
+type Candidate = {
+  [K in keyof typeof candidateColumns]: Property[K];
+};
+
+const normalizeAddress = (address: string) =>
+  address.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+};
+
+/**
+ * Finds listings that are probably the same home posted twice, e.g. by the owner and an agent
+ * or reposted after expiring. New listings are checked when they are created and every listing
+ * is checked again nightly; admins then merge or dismiss the reported pairs.
+ */
+export class DuplicateListingService {
+  private static readonly DETECTION_CRON = '0 3 * * *'; // Daily at 03:00
+
+  /**
+   * Compares one listing with the listings around it and records the likely duplicates.
+   * @returns the open duplicate pairs of the listing, most likely first
+   */
+  async checkListing(propertyId: number): Promise<DuplicateMatch[]> {
+    const [listing] = await db.select(candidateColumns).from(properties).where(eq(properties.id, propertyId)).limit(1);
+    if (!listing) {
+      return [];
+    }
+    const [withHashes] = await this.refreshImageHashes([listing.id]);
+    listing.imageHashes = withHashes?.imageHashes ?? listing.imageHashes;
+
+    const nearby: SQL[] = [sql`lower(${properties.city}) = ${listing.city.toLowerCase()}`];
+    if (listing.postalCode) {
+      nearby.push(eq(properties.postalCode, listing.postalCode));
+    }
+    if (listing.latitude != null && listing.longitude != null) {
+      nearby.push(and(
+        between(properties.latitude, listing.latitude - GRID_DEGREES, listing.latitude + GRID_DEGREES),
+        between(properties.longitude, listing.longitude - 2 * GRID_DEGREES, listing.longitude + 2 * GRID_DEGREES),
+      )!);
+    }
+    if (listing.imageHashes?.length) {
+      nearby.push(arrayOverlaps(properties.imageHashes, listing.imageHashes));
+    }
+    const candidates = await db.select(candidateColumns).from(properties)
+      .where(and(ne(properties.id, listing.id), eq(properties.listingType, listing.listingType), or(...nearby)))
+      .orderBy(desc(properties.id))
+      .limit(MAX_CANDIDATES);
+
+    const matches = candidates
+      .map((candidate) => ({ candidate, ...this.compare(listing, candidate) }))
+      .filter((match) => match.score >= DUPLICATE_THRESHOLD);
+    const open = await this.savePairs(matches.map((match) => ({ a: listing.id, b: match.candidate.id, score: match.score, reasons: match.reasons })));
+
+    return matches
+      .filter((match) => open.has(this.pairKey(listing.id, match.candidate.id)))
+      .sort((x, y) => y.score - x.score)
+      .map(({ candidate, score, reasons }) => ({
+        property: {
+          id: candidate.id,
+          userId: candidate.userId,
+          title: candidate.title,
+          city: candidate.city,
+          moderationStatus: candidate.moderationStatus,
+        },
+        score,
+        reasons,
+      }));
+  }
+
+  /**
+   * Checks every listing against the others. Open pairs that no longer match are removed.
+   */
+  async detectAll(): Promise<{ listings: number; pairs: number }> {
+    const startedAt = new Date();
+    const ids = (await db.select({ id: properties.id }).from(properties)).map((row) => row.id);
+    for (let i = 0; i < ids.length; i += WRITE_BATCH) {
+      await this.refreshImageHashes(ids.slice(i, i + WRITE_BATCH));
+    }
+    const listings = await db.select(candidateColumns).from(properties);
+
+    // Only listings sharing a group are compared: same address, postal code and size, nearby coordinates or a photo
+    const groups = new Map<string, Candidate[]>();
+    const addTo = (key: string, listing: Candidate) => {
+      const group = groups.get(key);
+      if (group) group.push(listing);
+      else groups.set(key, [listing]);
+    };
+    for (const listing of listings) {
+      const type = listing.listingType;
+      addTo(`address:${type}:${listing.city.toLowerCase()}:${normalizeAddress(listing.address)}`, listing);
+      if (listing.postalCode) {
+        addTo(`postal:${type}:${listing.postalCode}:${listing.bedrooms}`, listing);
+      }
+      if (listing.latitude != null && listing.longitude != null) {
+        // Listed in the neighbouring cells too, so pairs across a cell border still meet
+        const row = Math.floor(listing.latitude / GRID_DEGREES);
+        const column = Math.floor(listing.longitude / GRID_DEGREES);
+        for (let dRow = -1; dRow <= 1; dRow++) {
+          for (let dColumn = -1; dColumn <= 1; dColumn++) {
+            addTo(`grid:${type}:${row + dRow}:${column + dColumn}`, listing);
+          }
+        }
+      }
+      for (const hash of listing.imageHashes ?? []) {
+        addTo(`image:${type}:${hash}`, listing);
+      }
+    }
+
+    const pairs = new Map<string, { a: number; b: number; score: number; reasons: DuplicateReason[] }>();
+    for (const group of Array.from(groups.values())) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          const key = this.pairKey(group[i].id, group[j].id);
+          if (pairs.has(key)) continue;
+          const { score, reasons } = this.compare(group[i], group[j]);
+          if (score >= DUPLICATE_THRESHOLD) {
+            pairs.set(key, { a: group[i].id, b: group[j].id, score, reasons });
+          }
+        }
+      }
+    }
+
+    const found = Array.from(pairs.values());
+    for (let i = 0; i < found.length; i += WRITE_BATCH) {
+      await this.savePairs(found.slice(i, i + WRITE_BATCH));
+    }
+    await db.delete(propertyDuplicates)
+      .where(and(eq(propertyDuplicates.status, 'open'), lt(propertyDuplicates.detectedAt, startedAt)));
+    return { listings: listings.length, pairs: found.length };
+  }
+
+  async listPairs(status: DuplicateStatus, page: number, limit: number): Promise<{ pairs: DuplicatePairView[]; total: number }> {
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` }).from(propertyDuplicates)
+      .where(eq(propertyDuplicates.status, status));
+    const pairs = await db.select().from(propertyDuplicates)
+      .where(eq(propertyDuplicates.status, status))
+      .orderBy(desc(propertyDuplicates.score), desc(propertyDuplicates.detectedAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const ids = Array.from(new Set(pairs.flatMap((pair) => [pair.propertyId, pair.duplicateId])));
+    const listings = ids.length === 0 ? [] : await db.select({
+      id: properties.id,
+      userId: properties.userId,
+      title: properties.title,
+      address: properties.address,
+      city: properties.city,
+      postalCode: properties.postalCode,
+      price: properties.price,
+      area: properties.area,
+      bedrooms: properties.bedrooms,
+      images: properties.images,
+      moderationStatus: properties.moderationStatus,
+      createdAt: properties.createdAt,
+    }).from(properties).where(inArray(properties.id, ids));
+    const byId = new Map(listings.map((listing) => [listing.id, listing]));
+
+    return {
+      pairs: pairs.map((pair) => ({
+        ...pair,
+        property: byId.get(pair.propertyId) ?? null,
+        duplicate: byId.get(pair.duplicateId) ?? null,
+      })),
+      total,
+    };
+  }
+
+  async dismiss(pairId: number, adminId: number): Promise<PropertyDuplicate> {
+    await this.getOpenPair(pairId);
+    const [pair] = await db.update(propertyDuplicates)
+      .set({ status: 'dismissed', resolvedBy: adminId, resolvedAt: new Date() })
+      .where(and(eq(propertyDuplicates.id, pairId), eq(propertyDuplicates.status, 'open')))
+      .returning();
+    if (!pair) {
+      throw new DuplicateListingError('Duplicate pair was resolved meanwhile', 409);
+    }
+    return pair;
+  }
+
+  /**
+   * Keeps one listing of a pair and deletes the other. Favorites, messages, viewing slots (with
+   * their bookings) and rental applications of the deleted listing move to the kept one; a
+   * favorite or application of someone who already has one on the kept listing is dropped.
+   * @returns the deleted listing
+   */
+  async merge(pairId: number, keepId: number): Promise<Property> {
+    const pair = await this.getOpenPair(pairId);
+    if (keepId !== pair.propertyId && keepId !== pair.duplicateId) {
+      throw new DuplicateListingError('The listing to keep must be one of the pair', 400);
+    }
+    const removeId = keepId === pair.propertyId ? pair.duplicateId : pair.propertyId;
+
+    const removed = await db.transaction(async (tx) => {
+      // Either listing may have been deleted since the pair was read
+      const listings = await tx.select({ id: properties.id }).from(properties)
+        .where(inArray(properties.id, [keepId, removeId]))
+        .for('update');
+      if (listings.length < 2) {
+        throw new DuplicateListingError('Listing not found', 404);
+      }
+      const alreadySaved = (await tx.select({ userId: favorites.userId }).from(favorites)
+        .where(eq(favorites.propertyId, keepId))).map((favorite) => favorite.userId);
+      await tx.update(favorites)
+        .set({ propertyId: keepId })
+        .where(alreadySaved.length > 0
+          ? and(eq(favorites.propertyId, removeId), notInArray(favorites.userId, alreadySaved))
+          : eq(favorites.propertyId, removeId));
+      await tx.delete(favorites).where(eq(favorites.propertyId, removeId));
+      await tx.update(messages).set({ propertyId: keepId }).where(eq(messages.propertyId, removeId));
+      await tx.update(viewingSlots).set({ propertyId: keepId }).where(eq(viewingSlots.propertyId, removeId));
+
+      const alreadyApplied = (await tx.select({ userId: rentalApplications.userId }).from(rentalApplications)
+        .where(eq(rentalApplications.propertyId, keepId))).map((application) => application.userId);
+      await tx.update(rentalApplications)
+        .set({ propertyId: keepId })
+        .where(alreadyApplied.length > 0
+          ? and(eq(rentalApplications.propertyId, removeId), notInArray(rentalApplications.userId, alreadyApplied))
+          : eq(rentalApplications.propertyId, removeId));
+      // Deleting the listing also deletes its other duplicate pairs
+      const [listing] = await tx.delete(properties).where(eq(properties.id, removeId)).returning(propertyColumns);
+      if (!listing) {
+        throw new DuplicateListingError('Listing not found', 404);
+      }
+      return listing;
+    });
+
+    await imageService.releaseImages(removed.images ?? [], removed.userId);
+    return removed;
+  }
+
+  startScheduledDetection(): void {
+    const job = new CronJob(DuplicateListingService.DETECTION_CRON, async () => {
+      try {
+        const { listings, pairs } = await this.detectAll();
+        console.log(`Duplicates: checked ${listings} listing(s), ${pairs} likely duplicate pair(s)`);
+      } catch (error) {
+        console.error('Duplicates: nightly detection failed:', error);
+      }
+    });
+
+    job.start();
+    console.log('Duplicate listing detection scheduler started (running daily)');
+  }
+
+  private compare(a: Candidate, b: Candidate): { score: number; reasons: DuplicateReason[] } {
+    const reasons: DuplicateReason[] = [];
+    if (a.listingType !== b.listingType) {
+      return { score: 0, reasons };
+    }
+
+    const samePlace = a.postalCode && b.postalCode
+      ? a.postalCode === b.postalCode
+      : a.city.toLowerCase() === b.city.toLowerCase();
+    const address = normalizeAddress(a.address);
+    if (address && samePlace && address === normalizeAddress(b.address)) {
+      reasons.push('address');
+    }
+    if (a.latitude != null && a.longitude != null && b.latitude != null && b.longitude != null
+      && distanceKm(a.latitude, a.longitude, b.latitude, b.longitude) * 1000 <= NEARBY_METRES) {
+      reasons.push('coordinates');
+    }
+    if (a.bedrooms === b.bedrooms && Math.abs(a.area - b.area) <= AREA_TOLERANCE * Math.max(a.area, b.area)) {
+      reasons.push('area_bedrooms');
+    }
+    const bHashes = b.imageHashes ?? [];
+    if ((a.imageHashes ?? []).some((hash) => bHashes.some((other) => hammingDistance(hash, other) <= MAX_HASH_DISTANCE))) {
+      reasons.push('images');
+    }
+
+    const score = Math.min(1, reasons.reduce((sum, reason) => sum + REASON_WEIGHTS[reason], 0));
+    return { score: Math.round(score * 100) / 100, reasons };
+  }
+
+  private pairKey(a: number, b: number): string {
+    return a < b ? `${a}:${b}` : `${b}:${a}`;
+  }
+
+  // Upserts pairs without reopening dismissed ones; returns the keys of the pairs that are open
+  private async savePairs(pairs: { a: number; b: number; score: number; reasons: DuplicateReason[] }[]): Promise<Set<string>> {
+    if (pairs.length === 0) {
+      return new Set();
+    }
+    const saved = await db.insert(propertyDuplicates)
+      .values(pairs.map(({ a, b, score, reasons }) => ({
+        propertyId: Math.min(a, b),
+        duplicateId: Math.max(a, b),
+        score,
+        reasons,
+      })))
+      .onConflictDoUpdate({
+        target: [propertyDuplicates.propertyId, propertyDuplicates.duplicateId],
+        set: { score: sql`excluded.score`, reasons: sql`excluded.reasons`, detectedAt: new Date() },
+        where: eq(propertyDuplicates.status, 'open'),
+      })
+      .returning({ propertyId: propertyDuplicates.propertyId, duplicateId: propertyDuplicates.duplicateId });
+    return new Set(saved.map((pair) => this.pairKey(pair.propertyId, pair.duplicateId)));
+  }
+
+  // Stores the hashes of the listings' uploaded photos where they changed
+  private async refreshImageHashes(ids: number[]): Promise<{ id: number; imageHashes: string[] }[]> {
+    const listings = await db.select({ id: properties.id, images: properties.images, imageHashes: properties.imageHashes })
+      .from(properties)
+      .where(inArray(properties.id, ids));
+    const hashesByUrl = await imageService.imageHashes(listings.flatMap((listing) => listing.images ?? []));
+
+    const refreshed: { id: number; imageHashes: string[] }[] = [];
+    for (const listing of listings) {
+      const imageHashes = Array.from(new Set((listing.images ?? [])
+        .map((url) => hashesByUrl.get(url))
+        .filter((hash): hash is string => !!hash)));
+      if (imageHashes.join() !== (listing.imageHashes ?? []).join()) {
+        await db.update(properties).set({ imageHashes }).where(eq(properties.id, listing.id));
+      }
+      refreshed.push({ id: listing.id, imageHashes });
+    }
+    return refreshed;
+  }
+
+  private async getOpenPair(pairId: number): Promise<PropertyDuplicate> {
+    const [pair] = await db.select().from(propertyDuplicates).where(eq(propertyDuplicates.id, pairId)).limit(1);
+    if (!pair) {
+      throw new DuplicateListingError('Duplicate pair not found', 404);
+    }
+    if (pair.status !== 'open') {
+      throw new DuplicateListingError(`Duplicate pair is already ${pair.status}`, 409);
+    }
+    return pair;
+  }
+}
+
+// Export a singleton instance
+export const duplicateListingService = new DuplicateListingService();
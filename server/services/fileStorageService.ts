@@ -0,0 +1,62 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '../config/env';
+
+/**
+ * A file storage keeps uploaded files under slash-separated keys and serves them at public URLs.
+ * Implement this interface to plug in object storage such as S3.
+ */
+export interface FileStorage {
+  readonly name: string;
+  /** @returns the public URL of the stored file */
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  delete(key: string): Promise<void>;
+  /** @returns the key of a URL returned by put(), or null for URLs stored elsewhere */
+  keyFromUrl(url: string): string | null;
+}
+
+/**
+ * Writes files below a directory on the local disk; the server serves that directory itself.
+ */
+export class LocalFileStorage implements FileStorage {
+  readonly name = 'local';
+
+  constructor(readonly directory: string, private publicUrl: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.directory, key);
+    if (!filePath.startsWith(path.resolve(this.directory) + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<string> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return `${this.publicUrl}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.publicUrl}/`;
+    return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+  }
+}
+
+function createStorageFromEnv(): FileStorage {
+  switch (env.FILE_STORAGE) {
+    case 'local':
+      return new LocalFileStorage(env.UPLOAD_DIR, env.UPLOAD_PUBLIC_URL.replace(/\/+$/, ''));
+    default:
+      console.warn(`[FileStorage] Unknown FILE_STORAGE "${env.FILE_STORAGE}", falling back to local`);
+      return new LocalFileStorage(env.UPLOAD_DIR, env.UPLOAD_PUBLIC_URL.replace(/\/+$/, ''));
+  }
+}
+
+// Export a singleton instance
+export const fileStorage = createStorageFromEnv();
@@ -0,0 +1,84 @@
+import fetch from 'node-fetch';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env';
+
+export interface FirebaseIdentity {
+  uid: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+  photoURL?: string;
+  signInProvider?: string; // e.g. 'google.com'
+}
+
+/**
+ * Verifies Firebase ID tokens against Google's published signing certificates.
+ * See https://firebase.google.com/docs/auth/admin/verify-id-tokens#verify_id_tokens_using_a_third-party_jwt_library
+ */
+export class FirebaseTokenService {
+  private certsUrl = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+  private certs: Record<string, string> = {};
+  private certsExpireAt = 0;
+
+  /**
+   * Fetches the signing certificates, honouring the Cache-Control max-age header.
+   */
+  private async getCerts(): Promise<Record<string, string>> {
+    if (Date.now() < this.certsExpireAt) {
+      return this.certs;
+    }
+    const response = await fetch(this.certsUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Firebase signing certificates: ${response.status} ${response.statusText}`);
+    }
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+    this.certs = await response.json() as Record<string, string>;
+    this.certsExpireAt = Date.now() + (maxAge ? parseInt(maxAge[1], 10) * 1000 : 60 * 60 * 1000);
+    return this.certs;
+  }
+
+  /**
+   * Verifies an ID token and returns the identity it asserts.
+   * @throws if the token is malformed, expired, or not issued for this project
+   */
+  async verifyIdToken(idToken: string): Promise<FirebaseIdentity> {
+    const projectId = env.FIREBASE_PROJECT_ID;
+    if (!projectId) {
+      throw new Error("FIREBASE_PROJECT_ID is not configured");
+    }
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    const kid = decoded && typeof decoded === 'object' ? decoded.header.kid : undefined;
+    if (!kid) {
+      throw new Error("Invalid Firebase ID token");
+    }
+
+    const certs = await this.getCerts();
+    const cert = certs[kid];
+    if (!cert) {
+      throw new Error("Firebase ID token signed with an unknown key");
+    }
+
+    const payload = jwt.verify(idToken, cert, {
+      algorithms: ['RS256'],
+      audience: projectId,
+      issuer: `https://securetoken.google.com/${projectId}`,
+    }) as jwt.JwtPayload;
+
+    if (!payload.sub || !payload.email) {
+      throw new Error("Firebase ID token is missing subject or email");
+    }
+
+    return {
+      uid: payload.sub,
+      email: payload.email,
+      emailVerified: payload.email_verified === true,
+      name: payload.name,
+      photoURL: payload.picture,
+      signInProvider: payload.firebase?.sign_in_provider,
+    };
+  }
+}
+
+// Export a singleton instance
+export const firebaseTokenService = new FirebaseTokenService();
@@ -0,0 +1,39 @@
+import { sql, type SQL, type AnyColumn } from 'drizzle-orm';
+
+/**
+ * Postgres full-text search over the generated `search_vector` columns of listings and posts.
+ * Content is written in Finnish or Swedish, so documents are stemmed with both configurations and
+ * a search matches when its words match in either language ("Oulussa" finds Oulu, "kaksiot" a kaksio).
+ * Queries use websearch syntax: "quoted phrases", `or`, and `-word` to exclude.
+ */
+
+// Best-matching fragments of a text, joined with an ellipsis; matched words are wrapped in <mark>
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "';
+
+const finnishQuery = (text: string) => sql`websearch_to_tsquery('finnish', ${text})`;
+const swedishQuery = (text: string) => sql`websearch_to_tsquery('swedish', ${text})`;
+
+// Either language's reading of the search
+const searchQuery = (text: string) => sql`(${finnishQuery(text)} || ${swedishQuery(text)})`;
+
+/** Whether the document matches the search. Backed by the column's GIN index. */
+export function matchesSearch(vector: AnyColumn, text: string): SQL {
+  return sql`${vector} @@ ${searchQuery(text)}`;
+}
+
+/** Relevance of the document to the search; matches in the title outweigh the location, then the body. */
+export function searchRank(vector: AnyColumn, text: string): SQL<number> {
+  return sql<number>`ts_rank(${vector}, ${searchQuery(text)})`;
+}
+
+/**
+ * The parts of a text column that best match the search, highlighted in the language that matched
+ * them. When only other columns match, this is the start of the text without highlights.
+ */
+export function searchSnippet(column: AnyColumn, text: string): SQL<string> {
+  return sql<string>`case
+    when to_tsvector('finnish', coalesce(${column}, '')) @@ ${finnishQuery(text)}
+      then ts_headline('finnish', coalesce(${column}, ''), ${finnishQuery(text)}, ${HEADLINE_OPTIONS})
+    else ts_headline('swedish', coalesce(${column}, ''), ${swedishQuery(text)}, ${HEADLINE_OPTIONS})
+  end`;
+}
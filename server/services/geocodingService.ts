@@ -0,0 +1,441 @@
+import fs from 'fs';
+import { parse as parseCsv } from 'csv-parse';
+import { CronJob } from 'cron';
+import { and, asc, avg, count, eq, gt, inArray, isNotNull, isNull, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { env } from '../config/env';
+import {
+  geocodePlaces,
+  properties,
+  propertyColumns,
+  type GeocodePrecision,
+  type Property,
+} from '@shared/schema';
+import { propertyRevisionService } from './propertyRevisionService';
+import { distanceKm } from './geo';
+
+const INSERT_BATCH = 1000;
+const BACKFILL_BATCH = 200;
+// Search boxes for reverse geocoding, in degrees of latitude: about 500 m, 2 km and 11 km
+const REVERSE_STREET_RADII = [0.005, 0.02];
+const REVERSE_POSTAL_CODE_RADIUS = 0.1;
+
+export class GeocodingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'GeocodingError';
+  }
+}
+
+export interface AddressQuery {
+  address: string;
+  postalCode?: string | null;
+  city: string;
+}
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  precision: GeocodePrecision;
+}
+
+export interface ReverseGeocodeResult {
+  // Street address of the nearest known address, or null when only the postal code area is known
+  address: string | null;
+  postalCode: string | null;
+  city: string;
+  latitude: number;
+  longitude: number;
+  distanceMetres: number;
+}
+
+/**
+ * A geocoding provider turns addresses into coordinates and coordinates into the nearest address.
+ * Implement this interface to plug in an online geocoder.
+ */
+export interface GeocodingProvider {
+  readonly name: string;
+  /** @returns null when the address cannot be located */
+  geocode(query: AddressQuery): Promise<GeocodeResult | null>;
+  reverse(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null>;
+}
+
+type Located = Pick<Property, 'address' | 'postalCode' | 'city' | 'latitude' | 'longitude'>;
+
+export type UnresolvedListing = Pick<Property, 'id' | 'title' | 'address' | 'postalCode' | 'city' | 'moderationStatus'>;
+
+export interface BackfillReport {
+  checked: number;
+  resolved: number;
+  byPrecision: Record<GeocodePrecision, number>;
+  unresolved: UnresolvedListing[];
+}
+
+// Lowercase words without accents or punctuation, so "Hämeenkatu" matches "HAMEENKATU"
+const normalize = (value: string) =>
+  value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Street and house number of a Finnish street address: "Hämeenkatu 10 B 12, Tampere" -> hameenkatu, 10.
+ * Staircase letters and apartment numbers are not part of the house number.
+ */
+export function parseStreetAddress(address: string): { streetKey: string; houseNumber: string | null } | null {
+  const [firstPart] = address.split(',');
+  const match = firstPart.trim().match(/^(.*?[^\d\s])(?:\s+(\d+[a-z]?)(?:[\s-].*)?)?$/i);
+  if (!match) return null;
+  const streetKey = normalize(match[1]);
+  return streetKey ? { streetKey, houseNumber: match[2]?.toLowerCase() ?? null } : null;
+}
+
+/**
+ * Geocodes against the `geocode_places` table imported from a local dataset, without network access.
+ * Addresses resolve to the exact address, else the middle of the street, else the postal code area.
+ */
+export class LocalGeocodingProvider implements GeocodingProvider {
+  readonly name = 'local';
+
+  async geocode(query: AddressQuery): Promise<GeocodeResult | null> {
+    const postalCode = query.postalCode?.trim() || null;
+    const municipalityKey = normalize(query.city);
+    const street = parseStreetAddress(query.address);
+    // The postal code also matches when the city is spelled differently, e.g. in Swedish
+    const area = postalCode
+      ? or(eq(geocodePlaces.municipalityKey, municipalityKey), eq(geocodePlaces.postalCode, postalCode))!
+      : eq(geocodePlaces.municipalityKey, municipalityKey);
+    const samePostalCodeFirst = sql`(${geocodePlaces.postalCode} = ${postalCode}) desc nulls last`;
+
+    if (street?.houseNumber) {
+      const numbers = [street.houseNumber, street.houseNumber.replace(/\D+$/, '')];
+      const [place] = await db
+        .select({ latitude: geocodePlaces.latitude, longitude: geocodePlaces.longitude })
+        .from(geocodePlaces)
+        .where(and(eq(geocodePlaces.streetKey, street.streetKey), inArray(geocodePlaces.houseNumber, numbers), area))
+        .orderBy(samePostalCodeFirst)
+        .limit(1);
+      if (place) {
+        return { ...place, precision: 'address' };
+      }
+    }
+
+    if (street) {
+      const [place] = await db
+        .select({ latitude: avg(geocodePlaces.latitude), longitude: avg(geocodePlaces.longitude) })
+        .from(geocodePlaces)
+        .where(and(eq(geocodePlaces.streetKey, street.streetKey), area));
+      if (place && place.latitude !== null && place.longitude !== null) {
+        return { latitude: Number(place.latitude), longitude: Number(place.longitude), precision: 'street' };
+      }
+    }
+
+    if (postalCode) {
+      const [place] = await db
+        .select({ latitude: geocodePlaces.latitude, longitude: geocodePlaces.longitude })
+        .from(geocodePlaces)
+        .where(and(eq(geocodePlaces.postalCode, postalCode), isNull(geocodePlaces.streetKey)))
+        .limit(1);
+      if (place) {
+        return { ...place, precision: 'postal_code' };
+      }
+    }
+
+    return null;
+  }
+
+  async reverse(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null> {
+    const place = await this.nearestWithin(latitude, longitude, isNotNull(geocodePlaces.streetKey), REVERSE_STREET_RADII)
+      ?? await this.nearestWithin(latitude, longitude, isNull(geocodePlaces.streetKey), [REVERSE_POSTAL_CODE_RADIUS]);
+    if (!place) return null;
+
+    return {
+      address: place.street ? [place.street, place.houseNumber?.toUpperCase()].filter(Boolean).join(' ') : null,
+      postalCode: place.postalCode,
+      city: place.municipality,
+      latitude: place.latitude,
+      longitude: place.longitude,
+      distanceMetres: Math.round(distanceKm(latitude, longitude, place.latitude, place.longitude) * 1000),
+    };
+  }
+
+  // Nearest place in a box around the point, trying the smaller boxes first
+  private async nearestWithin(latitude: number, longitude: number, kind: SQL, radii: number[]) {
+    // A degree of longitude shrinks towards the poles
+    const lonScale = Math.max(Math.cos((latitude * Math.PI) / 180), 0.01);
+    for (const radius of radii) {
+      const [place] = await db
+        .select()
+        .from(geocodePlaces)
+        .where(and(
+          kind,
+          sql`${geocodePlaces.latitude} between ${latitude - radius} and ${latitude + radius}`,
+          sql`${geocodePlaces.longitude} between ${longitude - radius / lonScale} and ${longitude + radius / lonScale}`,
+        ))
+        .orderBy(sql`power(${geocodePlaces.latitude} - ${latitude}, 2) + power((${geocodePlaces.longitude} - ${longitude}) * ${lonScale}, 2)`)
+        .limit(1);
+      if (place) return place;
+    }
+    return undefined;
+  }
+}
+
+// Dataset columns and the header names they are recognised by, in English, Finnish and Swedish
+const DATASET_HEADERS: Record<string, 'postalCode' | 'municipality' | 'street' | 'houseNumber' | 'latitude' | 'longitude'> = {
+  postalcode: 'postalCode', postinumero: 'postalCode', postnummer: 'postalCode', zip: 'postalCode',
+  municipality: 'municipality', city: 'municipality', kunta: 'municipality', kommun: 'municipality',
+  street: 'street', katu: 'street', katunimi: 'street', gata: 'street', gatunamn: 'street',
+  housenumber: 'houseNumber', number: 'houseNumber', osoitenumero: 'houseNumber', numero: 'houseNumber', husnummer: 'houseNumber',
+  latitude: 'latitude', lat: 'latitude', leveysaste: 'latitude',
+  longitude: 'longitude', lon: 'longitude', lng: 'longitude', pituusaste: 'longitude',
+};
+
+// Finnish exports write decimals with a comma
+const parseCoordinate = (value: string | undefined, limit: number): number | null => {
+  const number = Number(value?.trim().replace(',', '.'));
+  return value?.trim() && Number.isFinite(number) && Math.abs(number) <= limit ? number : null;
+};
+
+/**
+ * Fills in listing coordinates from their address so listings appear on the map. Coordinates are
+ * looked up when a listing is saved, and a nightly backfill retries the listings still missing them.
+ */
+export class GeocodingService {
+  private static readonly BACKFILL_CRON = '30 3 * * *'; // Daily at 03:30
+
+  constructor(private provider: GeocodingProvider) {}
+
+  setProvider(provider: GeocodingProvider) {
+    this.provider = provider;
+  }
+
+  async geocode(query: AddressQuery): Promise<GeocodeResult | null> {
+    return this.provider.geocode(query);
+  }
+
+  async reverse(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null> {
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new GeocodingError('Valid lat and lon are required', 400);
+    }
+    return this.provider.reverse(latitude, longitude);
+  }
+
+  /**
+   * The values of a listing create or update, with coordinates looked up when the listing has none
+   * or its address changes. Coordinates entered with the update are kept as they are; an address
+   * that moves somewhere unknown clears the old coordinates. A failing geocoder never blocks the save.
+   */
+  async withCoordinates<T extends Partial<Located>>(values: T, current?: Located): Promise<T> {
+    const merged = { ...current, ...values };
+    const coordinatesEntered = values.latitude != null && values.longitude != null
+      && (values.latitude !== current?.latitude || values.longitude !== current?.longitude);
+    const addressChanged = !!current && (['address', 'postalCode', 'city'] as const)
+      .some((field) => values[field] !== undefined && values[field] !== current[field]);
+    if (coordinatesEntered || !merged.address || !merged.city) {
+      return values;
+    }
+    if (!addressChanged && merged.latitude != null && merged.longitude != null) {
+      return values;
+    }
+
+    try {
+      const result = await this.provider.geocode({ address: merged.address, postalCode: merged.postalCode, city: merged.city });
+      if (result) {
+        return { ...values, latitude: result.latitude, longitude: result.longitude };
+      }
+    } catch (error) {
+      console.error(`Geocoding: ${this.provider.name} provider failed for "${merged.address}, ${merged.city}":`, error);
+      return values;
+    }
+    return addressChanged ? { ...values, latitude: null, longitude: null } : values;
+  }
+
+  /**
+   * Looks up coordinates for every listing without them. The report lists the listings that
+   * could not be located, whose address needs fixing or is missing from the dataset.
+   */
+  async backfill(): Promise<BackfillReport> {
+    const report: BackfillReport = { checked: 0, resolved: 0, byPrecision: { address: 0, street: 0, postal_code: 0 }, unresolved: [] };
+    const missing = or(isNull(properties.latitude), isNull(properties.longitude))!;
+    let lastId = 0;
+
+    for (;;) {
+      const batch = await db
+        .select(propertyColumns)
+        .from(properties)
+        .where(and(missing, gt(properties.id, lastId)))
+        .orderBy(asc(properties.id))
+        .limit(BACKFILL_BATCH);
+      if (batch.length === 0) break;
+      lastId = batch[batch.length - 1].id;
+
+      for (const listing of batch) {
+        report.checked++;
+        const result = await this.provider.geocode(listing).catch((error) => {
+          console.error(`Geocoding: ${this.provider.name} provider failed for listing ${listing.id}:`, error);
+          return null;
+        });
+        if (!result) {
+          const { id, title, address, postalCode, city, moderationStatus } = listing;
+          report.unresolved.push({ id, title, address, postalCode, city, moderationStatus });
+          continue;
+        }
+        await db.transaction(async (tx) => {
+          // Skipped when the owner entered coordinates in the meantime
+          const [located] = await tx
+            .update(properties)
+            .set({ latitude: result.latitude, longitude: result.longitude })
+            .where(and(eq(properties.id, listing.id), missing))
+            .returning(propertyColumns);
+          if (located) {
+            await propertyRevisionService.record(tx, listing, located, { source: 'geocode' });
+          }
+        });
+        report.resolved++;
+        report.byPrecision[result.precision]++;
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Listings that still have no coordinates.
+   */
+  async unresolved(limit: number): Promise<{ listings: UnresolvedListing[]; total: number }> {
+    const missing = or(isNull(properties.latitude), isNull(properties.longitude));
+    const [listings, [{ total }]] = await Promise.all([
+      db.select({
+        id: properties.id,
+        title: properties.title,
+        address: properties.address,
+        postalCode: properties.postalCode,
+        city: properties.city,
+        moderationStatus: properties.moderationStatus,
+      })
+        .from(properties)
+        .where(missing)
+        .orderBy(asc(properties.id))
+        .limit(limit),
+      db.select({ total: count() }).from(properties).where(missing),
+    ]);
+    return { listings, total };
+  }
+
+  async datasetStatus(): Promise<{ provider: string; datasetFile: string | null; addresses: number; postalCodes: number }> {
+    const [{ addresses, postalCodes }] = await db
+      .select({
+        addresses: sql<number>`count(*) filter (where ${geocodePlaces.streetKey} is not null)`.mapWith(Number),
+        postalCodes: sql<number>`count(*) filter (where ${geocodePlaces.streetKey} is null)`.mapWith(Number),
+      })
+      .from(geocodePlaces);
+    return { provider: this.provider.name, datasetFile: env.GEOCODING_DATASET ?? null, addresses, postalCodes };
+  }
+
+  /**
+   * Replaces the local dataset with the places in a CSV file (comma or semicolon separated, WGS84
+   * coordinates). Rows with a street are addresses; rows with only a postal code are area centroids.
+   */
+  async loadDataset(filePath: string | undefined = env.GEOCODING_DATASET): Promise<{ places: number; skipped: number }> {
+    if (!filePath) {
+      throw new GeocodingError('No geocoding dataset is configured; set GEOCODING_DATASET to the path of a CSV file', 409);
+    }
+    if (!fs.existsSync(filePath)) {
+      throw new GeocodingError(`Geocoding dataset ${filePath} does not exist`, 409);
+    }
+
+    const firstLine = await this.readHeaderLine(filePath);
+    const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+    const records = fs.createReadStream(filePath).pipe(parseCsv({
+      bom: true,
+      delimiter,
+      relax_column_count: true,
+      trim: true,
+      columns: (header: string[]) => header.map((name) => DATASET_HEADERS[name.toLowerCase().replace(/[^a-z]/g, '')] ?? false),
+    }));
+
+    let places = 0;
+    let skipped = 0;
+    await db.transaction(async (tx) => {
+      await tx.delete(geocodePlaces);
+      let batch: (typeof geocodePlaces.$inferInsert)[] = [];
+      for await (const record of records as AsyncIterable<Record<string, string | undefined>>) {
+        const municipality = record.municipality?.trim();
+        const street = record.street?.trim() || null;
+        const postalCode = record.postalCode?.trim() || null;
+        const latitude = parseCoordinate(record.latitude, 90);
+        const longitude = parseCoordinate(record.longitude, 180);
+        if (!municipality || latitude === null || longitude === null || (!street && !postalCode)) {
+          skipped++;
+          continue;
+        }
+        batch.push({
+          postalCode,
+          municipality,
+          street,
+          houseNumber: street ? record.houseNumber?.trim().toLowerCase() || null : null,
+          municipalityKey: normalize(municipality),
+          streetKey: street ? normalize(street) : null,
+          latitude,
+          longitude,
+        });
+        if (batch.length === INSERT_BATCH) {
+          await tx.insert(geocodePlaces).values(batch);
+          places += batch.length;
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        await tx.insert(geocodePlaces).values(batch);
+        places += batch.length;
+      }
+    });
+
+    console.log(`Geocoding: loaded ${places} place(s) from ${filePath}, skipped ${skipped} invalid row(s)`);
+    return { places, skipped };
+  }
+
+  // Reads only the start of the file, which can be large
+  private async readHeaderLine(filePath: string): Promise<string> {
+    const file = await fs.promises.open(filePath, 'r');
+    try {
+      const { buffer, bytesRead } = await file.read(Buffer.alloc(4096), 0, 4096, 0);
+      return buffer.subarray(0, bytesRead).toString('utf8').split(/\r?\n/, 1)[0];
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Loads the configured dataset on the first start, then backfills missing coordinates nightly.
+   */
+  startScheduledBackfill(): void {
+    if (this.provider instanceof LocalGeocodingProvider && env.GEOCODING_DATASET) {
+      db.select({ total: count() }).from(geocodePlaces)
+        .then(([{ total }]) => (total === 0 ? this.loadDataset() : undefined))
+        .catch((error) => console.error('Geocoding: loading the dataset failed:', error));
+    }
+
+    const job = new CronJob(GeocodingService.BACKFILL_CRON, async () => {
+      try {
+        const { checked, resolved, unresolved } = await this.backfill();
+        console.log(`Geocoding: checked ${checked} listing(s) without coordinates, located ${resolved}, ${unresolved.length} unresolved`);
+      } catch (error) {
+        console.error('Geocoding: nightly backfill failed:', error);
+      }
+    });
+
+    job.start();
+    console.log('Geocoding backfill scheduler started (running daily)');
+  }
+}
+
+function createProviderFromEnv(): GeocodingProvider {
+  switch (env.GEOCODER) {
+    case 'local':
+      return new LocalGeocodingProvider();
+    default:
+      console.warn(`[Geocoding] Unknown GEOCODER "${env.GEOCODER}", falling back to local`);
+      return new LocalGeocodingProvider();
+  }
+}
+
+// Export a singleton instance
+export const geocodingService = new GeocodingService(createProviderFromEnv());
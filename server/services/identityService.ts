@@ -0,0 +1,199 @@
+import { and, eq, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  users,
+  userIdentities,
+  favorites,
+  messages,
+  properties,
+  propertyColumns,
+  posts,
+  securityEvents,
+  loginThrottles,
+  viewingBookings,
+  rentalApplications,
+  uploadedImages,
+  type User,
+  type UserIdentity,
+} from '@shared/schema';
+import type { FirebaseIdentity } from './firebaseTokenService';
+import { propertyRevisionService } from './propertyRevisionService';
+
+export const FIREBASE_PROVIDER = 'firebase';
+
+export interface SignInMethods {
+  hasPassword: boolean;
+  identities: Array<Omit<UserIdentity, 'userId'>>;
+}
+
+export interface MergeSummary {
+  favorites: number;
+  messages: number;
+  properties: number;
+  posts: number;
+  identities: number;
+  viewingBookings: number;
+  rentalApplications: number;
+}
+
+export class IdentityConflictError extends Error {
+  constructor(public conflictingUser: Pick<User, 'id' | 'name' | 'email' | 'role'>) {
+    super("This sign-in method belongs to another account");
+    this.name = 'IdentityConflictError';
+  }
+}
+
+/**
+ * Sign-in methods of a user: the password on `users.hashedPassword` plus any number of
+ * linked external identities. Also merges two accounts when an identity moves between them.
+ */
+export class IdentityService {
+  async findUserByFirebaseUid(uid: string): Promise<User | undefined> {
+    const [row] = await db.select({ user: users })
+      .from(userIdentities)
+      .innerJoin(users, eq(userIdentities.userId, users.id))
+      .where(and(eq(userIdentities.provider, FIREBASE_PROVIDER), eq(userIdentities.providerUid, uid)))
+      .limit(1);
+    return row?.user;
+  }
+
+  /**
+   * Links a verified Firebase identity to the user, or refreshes it if it is already linked.
+   * @throws IdentityConflictError if the identity is linked to a different user
+   */
+  async linkFirebase(userId: number, identity: FirebaseIdentity): Promise<UserIdentity> {
+    const owner = await this.findUserByFirebaseUid(identity.uid);
+    if (owner && owner.id !== userId) {
+      throw new IdentityConflictError(owner);
+    }
+
+    const [linked] = await db.insert(userIdentities)
+      .values({
+        userId,
+        provider: FIREBASE_PROVIDER,
+        providerUid: identity.uid,
+        signInProvider: identity.signInProvider ?? null,
+        email: identity.email,
+        lastUsedAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: [userIdentities.provider, userIdentities.providerUid],
+        set: { signInProvider: identity.signInProvider ?? null, email: identity.email, lastUsedAt: new Date() },
+      })
+      .returning();
+    return linked;
+  }
+
+  async getSignInMethods(userId: number): Promise<SignInMethods> {
+    const [user] = await db.select({ hashedPassword: users.hashedPassword }).from(users).where(eq(users.id, userId)).limit(1);
+    const rows = await db.select().from(userIdentities).where(eq(userIdentities.userId, userId)).orderBy(userIdentities.linkedAt);
+    return {
+      hasPassword: !!user?.hashedPassword,
+      identities: rows.map(({ userId: _userId, ...identity }) => identity),
+    };
+  }
+
+  /**
+   * Removes a linked identity, refusing to remove the user's last way to sign in.
+   */
+  async unlink(userId: number, identityId: number): Promise<'unlinked' | 'not_found' | 'last_method'> {
+    const methods = await this.getSignInMethods(userId);
+    if (!methods.identities.some((identity) => identity.id === identityId)) {
+      return 'not_found';
+    }
+    if (!methods.hasPassword && methods.identities.length === 1) {
+      return 'last_method';
+    }
+    await db.delete(userIdentities).where(and(eq(userIdentities.id, identityId), eq(userIdentities.userId, userId)));
+    return 'unlinked';
+  }
+
+  /**
+   * Moves everything owned by `sourceId` to `targetId` and deletes the source account.
+   * Favorites, viewing bookings and rental applications for listings the target already has one for
+   * are dropped instead of duplicated.
+   * The target keeps its own profile, role and credentials.
+   */
+  async mergeAccounts(targetId: number, sourceId: number): Promise<MergeSummary> {
+    if (targetId === sourceId) {
+      throw new Error("Cannot merge an account into itself");
+    }
+
+    return db.transaction(async (tx) => {
+      const targetFavorites = tx.select({ propertyId: favorites.propertyId }).from(favorites).where(eq(favorites.userId, targetId));
+      const movedFavorites = await tx.update(favorites)
+        .set({ userId: targetId })
+        .where(and(eq(favorites.userId, sourceId), sql`${favorites.propertyId} not in (${targetFavorites})`))
+        .returning({ id: favorites.id });
+      await tx.delete(favorites).where(eq(favorites.userId, sourceId));
+
+      const receivedMessages = await tx.update(messages)
+        .set({ userId: targetId })
+        .where(eq(messages.userId, sourceId))
+        .returning({ id: messages.id });
+      const sentMessages = await tx.update(messages)
+        .set({ senderUserId: targetId })
+        .where(eq(messages.senderUserId, sourceId))
+        .returning({ id: messages.id });
+
+      // The new owner of each listing goes into its history
+      const ownedListings = await tx.select(propertyColumns).from(properties).where(eq(properties.userId, sourceId)).for('update');
+      const movedProperties = await tx.update(properties)
+        .set({ userId: targetId })
+        .where(eq(properties.userId, sourceId))
+        .returning(propertyColumns);
+      const previous = new Map(ownedListings.map((listing) => [listing.id, listing]));
+      for (const listing of movedProperties) {
+        const before = previous.get(listing.id);
+        if (before) {
+          await propertyRevisionService.record(tx, before, listing, { actorId: targetId, source: 'merge' });
+        }
+      }
+      // Photos are released only by their uploader's listings, so they follow the listings
+      await tx.update(uploadedImages).set({ userId: targetId }).where(eq(uploadedImages.userId, sourceId));
+
+      const movedPosts = await tx.update(posts)
+        .set({ authorId: targetId })
+        .where(eq(posts.authorId, sourceId))
+        .returning({ id: posts.id });
+
+      const targetSlots = tx.select({ slotId: viewingBookings.slotId }).from(viewingBookings).where(eq(viewingBookings.userId, targetId));
+      const movedBookings = await tx.update(viewingBookings)
+        .set({ userId: targetId })
+        .where(and(eq(viewingBookings.userId, sourceId), sql`${viewingBookings.slotId} not in (${targetSlots})`))
+        .returning({ id: viewingBookings.id });
+      await tx.delete(viewingBookings).where(eq(viewingBookings.userId, sourceId));
+
+      const targetApplications = tx.select({ propertyId: rentalApplications.propertyId }).from(rentalApplications).where(eq(rentalApplications.userId, targetId));
+      const movedApplications = await tx.update(rentalApplications)
+        .set({ userId: targetId })
+        .where(and(eq(rentalApplications.userId, sourceId), sql`${rentalApplications.propertyId} not in (${targetApplications})`))
+        .returning({ id: rentalApplications.id });
+      await tx.delete(rentalApplications).where(eq(rentalApplications.userId, sourceId));
+
+      const movedIdentities = await tx.update(userIdentities)
+        .set({ userId: targetId })
+        .where(eq(userIdentities.userId, sourceId))
+        .returning({ id: userIdentities.id });
+
+      // Keep the audit trail attached to the surviving account
+      await tx.update(securityEvents).set({ userId: targetId }).where(eq(securityEvents.userId, sourceId));
+      await tx.delete(loginThrottles).where(eq(loginThrottles.key, `account:${sourceId}`));
+
+      await tx.delete(users).where(eq(users.id, sourceId));
+
+      return {
+        favorites: movedFavorites.length,
+        messages: receivedMessages.length + sentMessages.length,
+        properties: movedProperties.length,
+        posts: movedPosts.length,
+        identities: movedIdentities.length,
+        viewingBookings: movedBookings.length,
+        rentalApplications: movedApplications.length,
+      };
+    });
+  }
+}
+
+// Export a singleton instance
+export const identityService = new IdentityService();
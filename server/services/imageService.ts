@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import { CronJob } from 'cron';
+import sharp from 'sharp';
+import { and, arrayContains, eq, inArray, isNotNull, isNull, lt, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { properties, uploadedImages } from '@shared/schema';
+import { fileStorage, type FileStorage } from './fileStorageService';
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_IMAGES_PER_UPLOAD = 10;
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const ACCEPTED_FORMATS = ['jpeg', 'png', 'webp'];
+
+// Longest edge of each variant; listings store the URL of the large one
+const VARIANT_SIZES = {
+  large: 1920,
+  medium: 960,
+  thumb: 400,
+} as const;
+type Variant = keyof typeof VARIANT_SIZES;
+
+const VARIANT_SUFFIX = /-(large|medium|thumb)\.webp$/;
+const HASH_LOOKUP_BATCH = 1000;
+// Uploads from a listing form that was never saved are deleted after this long
+const ABANDONED_UPLOAD_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface ProcessedImage {
+  url: string;
+  mediumUrl: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
+
+export class ImageUploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ImageUploadError';
+  }
+}
+
+/**
+ * Listing photos: validates uploads, stores resized WebP variants and removes files
+ * once no listing uses them anymore, or when no listing ever used them.
+ */
+export class ImageService {
+  private static readonly CLEANUP_CRON = '30 4 * * *'; // Daily at 04:30
+
+  constructor(private storage: FileStorage) {}
+
+  /**
+   * Re-encodes an uploaded image into the size variants and records the upload.
+   * The output carries no metadata, so EXIF data such as GPS coordinates is dropped;
+   * the EXIF orientation is applied to the pixels first. The upload stays unattached until
+   * a listing with it is saved.
+   */
+  async processUpload(userId: number, data: Buffer): Promise<ProcessedImage> {
+    let format: string | undefined;
+    try {
+      format = (await sharp(data).metadata()).format;
+    } catch {
+      throw new ImageUploadError('File is not a readable image', 400);
+    }
+    if (!format || !ACCEPTED_FORMATS.includes(format)) {
+      throw new ImageUploadError('Only JPEG, PNG and WebP images are accepted', 400);
+    }
+
+    const now = new Date();
+    const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+    const storageKey = `properties/${now.getUTCFullYear()}/${month}/${crypto.randomUUID()}`;
+
+    const urls = {} as Record<Variant, string>;
+    let width = 0;
+    let height = 0;
+    for (const variant of Object.keys(VARIANT_SIZES) as Variant[]) {
+      const size = VARIANT_SIZES[variant];
+      const { data: output, info } = await sharp(data)
+        .rotate()
+        .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+      urls[variant] = await this.storage.put(`${storageKey}-${variant}.webp`, output, 'image/webp');
+      if (variant === 'large') {
+        width = info.width;
+        height = info.height;
+      }
+    }
+
+    const hash = await this.differenceHash(data);
+    await db.insert(uploadedImages).values({ userId, storageKey, width, height, hash });
+    return { url: urls.large, mediumUrl: urls.medium, thumbnailUrl: urls.thumb, width, height };
+  }
+
+  /**
+   * Difference hashes of listing images by URL. External images have none.
+   */
+  async imageHashes(urls: string[]): Promise<Map<string, string>> {
+    const urlsByKey = new Map<string, string[]>();
+    for (const url of urls) {
+      const key = this.uploadKey(url);
+      if (key) urlsByKey.set(key, [...(urlsByKey.get(key) ?? []), url]);
+    }
+
+    const hashes = new Map<string, string>();
+    const keys = Array.from(urlsByKey.keys());
+    for (let i = 0; i < keys.length; i += HASH_LOOKUP_BATCH) {
+      const uploads = await db.select({ storageKey: uploadedImages.storageKey, hash: uploadedImages.hash })
+        .from(uploadedImages)
+        .where(and(inArray(uploadedImages.storageKey, keys.slice(i, i + HASH_LOOKUP_BATCH)), isNotNull(uploadedImages.hash)));
+      for (const upload of uploads) {
+        urlsByKey.get(upload.storageKey)!.forEach((url) => hashes.set(url, upload.hash!));
+      }
+    }
+    return hashes;
+  }
+
+  /**
+   * Marks the uploads among a saved listing's images as attached, which keeps them from the
+   * cleanup of abandoned uploads. Runs in the transaction that saves the listing.
+   */
+  async markAttached(tx: Pick<typeof db, 'update'>, urls: string[]): Promise<void> {
+    const keys = urls.map((url) => this.uploadKey(url)).filter((key): key is string => !!key);
+    if (keys.length === 0) {
+      return;
+    }
+    await tx.update(uploadedImages)
+      .set({ attachedAt: new Date() })
+      .where(and(inArray(uploadedImages.storageKey, keys), isNull(uploadedImages.attachedAt)));
+  }
+
+  /**
+   * Deletes uploads that were dropped from a listing, as long as they were uploaded by the
+   * listing owner and no other listing still shows them. External URLs are ignored.
+   */
+  async releaseImages(urls: string[], ownerId: number): Promise<void> {
+    const keys = urls.map((url) => this.uploadKey(url)).filter((key): key is string => !!key);
+    if (keys.length === 0) {
+      return;
+    }
+
+    const uploads = await db.select().from(uploadedImages)
+      .where(and(inArray(uploadedImages.storageKey, keys), eq(uploadedImages.userId, ownerId)));
+    for (const upload of uploads) {
+      const url = urls.find((candidate) => this.uploadKey(candidate) === upload.storageKey)!;
+      const [stillUsed] = await db.select({ id: properties.id }).from(properties)
+        .where(arrayContains(properties.images, [url]))
+        .limit(1);
+      if (!stillUsed) {
+        await this.deleteUpload(upload.storageKey);
+      }
+    }
+  }
+
+  /**
+   * Deletes the files of uploads whose rows are already gone, e.g. after erasing their uploader.
+   */
+  async deleteFiles(storageKeys: string[]): Promise<void> {
+    for (const storageKey of storageKeys) {
+      await this.deleteVariants(storageKey);
+    }
+  }
+
+  /**
+   * Deletes uploads that no listing was saved with within a day, e.g. from an abandoned listing form.
+   * @returns the number of uploads deleted
+   */
+  async deleteAbandonedUploads(): Promise<number> {
+    const abandoned = await db.select({ storageKey: uploadedImages.storageKey })
+      .from(uploadedImages)
+      .where(and(isNull(uploadedImages.attachedAt), lt(uploadedImages.createdAt, new Date(Date.now() - ABANDONED_UPLOAD_AGE_MS))));
+    let deleted = 0;
+    for (const upload of abandoned) {
+      // A listing saved some other way may show it without having marked it
+      const [inUse] = await db.select({ id: properties.id }).from(properties)
+        .where(sql`array_to_string(${properties.images}, ' ') like ${`%${upload.storageKey}-%`}`)
+        .limit(1);
+      if (inUse) {
+        await db.update(uploadedImages).set({ attachedAt: new Date() }).where(eq(uploadedImages.storageKey, upload.storageKey));
+      } else {
+        await this.deleteUpload(upload.storageKey);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  startScheduledCleanup(): void {
+    const job = new CronJob(ImageService.CLEANUP_CRON, async () => {
+      try {
+        const deleted = await this.deleteAbandonedUploads();
+        console.log(`[ImageService] Deleted ${deleted} abandoned upload(s)`);
+      } catch (error) {
+        console.error('[ImageService] Abandoned upload cleanup failed:', error);
+      }
+    });
+
+    job.start();
+    console.log('Abandoned upload cleanup scheduler started (running daily)');
+  }
+
+  // Common key of the size variants behind a listing image URL; null for external images
+  private uploadKey(url: string): string | null {
+    return this.storage.keyFromUrl(url)?.replace(VARIANT_SUFFIX, '') ?? null;
+  }
+
+  // 64 bits, one per pixel of an 8x8 grayscale thumbnail: is it brighter than its right neighbour.
+  // Resizing and re-encoding the same photo changes few bits, so similar photos have a small Hamming distance.
+  private async differenceHash(data: Buffer): Promise<string> {
+    const pixels = await sharp(data).rotate().grayscale().resize(9, 8, { fit: 'fill' }).raw().toBuffer();
+    let hex = '';
+    for (let row = 0; row < 8; row++) {
+      for (let column = 0; column < 8; column += 4) {
+        let nibble = 0;
+        for (let bit = 0; bit < 4; bit++) {
+          const index = row * 9 + column + bit;
+          nibble = (nibble << 1) | (pixels[index] > pixels[index + 1] ? 1 : 0);
+        }
+        hex += nibble.toString(16);
+      }
+    }
+    return hex;
+  }
+
+  private async deleteUpload(storageKey: string): Promise<void> {
+    await this.deleteVariants(storageKey);
+    await db.delete(uploadedImages).where(eq(uploadedImages.storageKey, storageKey));
+  }
+
+  private async deleteVariants(storageKey: string): Promise<void> {
+    for (const variant of Object.keys(VARIANT_SIZES)) {
+      try {
+        await this.storage.delete(`${storageKey}-${variant}.webp`);
+      } catch (error) {
+        console.error(`[ImageService] Failed to delete ${storageKey}-${variant}.webp:`, error);
+      }
+    }
+  }
+}
+
+// Export a singleton instance
+export const imageService = new ImageService(fileStorage);
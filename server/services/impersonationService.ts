@@ -0,0 +1,55 @@
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { impersonationAuditLog, type ImpersonationAuditEntry } from '@shared/schema';
+
+export type ImpersonationAction = 'started' | 'ended' | 'expired' | 'write_blocked';
+
+// How long an admin may view the site as another user before the session reverts
+export const IMPERSONATION_TTL_MS = 1000 * 60 * 30; // 30 minutes
+
+export interface ImpersonationAuditFilters {
+  adminId?: number;
+  userId?: number;
+  limit?: number;
+}
+
+/**
+ * Audit trail for admin impersonation. Every entry carries both the admin's and the
+ * impersonated user's id; the session handling itself lives in server/session.ts.
+ */
+export class ImpersonationService {
+  async record(
+    action: ImpersonationAction,
+    adminId: number,
+    userId: number,
+    request?: { method?: string; path?: string; ip?: string },
+  ): Promise<void> {
+    try {
+      await db.insert(impersonationAuditLog).values({
+        adminId,
+        userId,
+        action,
+        method: request?.method ?? null,
+        path: request?.path ?? null,
+        ipAddress: request?.ip ?? null,
+      });
+    } catch (error) {
+      // Auditing must never break the request itself
+      console.error(`Failed to record impersonation event ${action}:`, error);
+    }
+  }
+
+  async listAudit(filters: ImpersonationAuditFilters = {}): Promise<ImpersonationAuditEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.adminId) conditions.push(eq(impersonationAuditLog.adminId, filters.adminId));
+    if (filters.userId) conditions.push(eq(impersonationAuditLog.userId, filters.userId));
+
+    return db.select().from(impersonationAuditLog)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(impersonationAuditLog.createdAt))
+      .limit(Math.min(filters.limit || 100, 500));
+  }
+}
+
+// Export a singleton instance
+export const impersonationService = new ImpersonationService();
@@ -0,0 +1,228 @@
+import { and, desc, eq, gt, inArray, like, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { loginThrottles, securityEvents, type SecurityEvent } from '@shared/schema';
+
+export type SecurityEventType =
+  | 'login_failed'
+  | 'login_blocked'
+  | 'account_locked'
+  | 'ip_locked'
+  | 'account_unlocked';
+
+interface ThrottlePolicy {
+  freeAttempts: number; // Failures allowed before backoff starts
+  baseDelayMs: number; // Delay after the first failure past the free attempts, doubled per failure
+  maxDelayMs: number;
+  lockoutThreshold: number; // Failures that trigger a temporary lockout
+  lockoutMs: number;
+}
+
+const ACCOUNT_POLICY: ThrottlePolicy = {
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 1000 * 60 * 5,
+  lockoutThreshold: 10,
+  lockoutMs: 1000 * 60 * 30,
+};
+
+// One address may serve many users (offices, NAT), so it gets more room
+const IP_POLICY: ThrottlePolicy = {
+  freeAttempts: 10,
+  baseDelayMs: 1000,
+  maxDelayMs: 1000 * 60 * 5,
+  lockoutThreshold: 50,
+  lockoutMs: 1000 * 60 * 60,
+};
+
+// Failures older than this no longer count
+const FAILURE_WINDOW_MS = 1000 * 60 * 60;
+
+export interface LoginAttempt {
+  identifier: string; // Username/email as typed, or a description for non-password steps
+  userId?: number | null;
+  ip: string;
+}
+
+export type ThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; retryAfterMs: number; locked: boolean };
+
+export interface SecurityEventFilters {
+  type?: SecurityEventType;
+  userId?: number;
+  ip?: string;
+  since?: Date;
+  limit?: number;
+}
+
+export interface LockedAccount {
+  userId: number;
+  failedCount: number;
+  lockedUntil: Date;
+}
+
+const backoffMs = (failedCount: number, policy: ThrottlePolicy) =>
+  failedCount < policy.freeAttempts
+    ? 0
+    : Math.min(policy.baseDelayMs * 2 ** (failedCount - policy.freeAttempts), policy.maxDelayMs);
+
+/**
+ * User-facing explanation for a rejected attempt.
+ */
+export function describeThrottle(decision: { retryAfterMs: number; locked: boolean }): string {
+  const minutes = Math.ceil(decision.retryAfterMs / 60000);
+  return decision.locked
+    ? `Too many failed login attempts. Sign-in is locked for ${minutes} minute${minutes === 1 ? '' : 's'}.`
+    : `Too many failed login attempts. Please wait ${Math.ceil(decision.retryAfterMs / 1000)} seconds before trying again.`;
+}
+
+/**
+ * Brute-force protection for the login endpoints. Failed attempts are counted per account
+ * and per client IP; repeated failures add an exponentially growing delay and eventually a
+ * temporary lockout. Every failure, block and lockout is written to `security_events`.
+ */
+export class LoginThrottleService {
+  /**
+   * Decides whether a login attempt may be evaluated at all. Rejected attempts are
+   * recorded but do not extend the backoff.
+   */
+  async check(attempt: LoginAttempt): Promise<ThrottleDecision> {
+    const now = Date.now();
+    const rows = await db.select().from(loginThrottles)
+      .where(inArray(loginThrottles.key, [this.accountKey(attempt), this.ipKey(attempt.ip)]));
+
+    let blockedUntil = 0;
+    let locked = false;
+    for (const row of rows) {
+      const policy = row.key.startsWith('ip:') ? IP_POLICY : ACCOUNT_POLICY;
+      if (row.lockedUntil && row.lockedUntil.getTime() > now) {
+        blockedUntil = Math.max(blockedUntil, row.lockedUntil.getTime());
+        locked = true;
+      }
+      if (row.lastFailedAt && now - row.lastFailedAt.getTime() < FAILURE_WINDOW_MS) {
+        blockedUntil = Math.max(blockedUntil, row.lastFailedAt.getTime() + backoffMs(row.failedCount, policy));
+      }
+    }
+
+    if (blockedUntil <= now) {
+      return { allowed: true };
+    }
+    await this.recordEvent('login_blocked', attempt, { retryAfterMs: blockedUntil - now, locked });
+    return { allowed: false, retryAfterMs: blockedUntil - now, locked };
+  }
+
+  /**
+   * Counts a failed attempt against the account and the IP, locking either one
+   * when it reaches its threshold.
+   */
+  async recordFailure(attempt: LoginAttempt, reason: string): Promise<void> {
+    await this.recordEvent('login_failed', attempt, { reason });
+
+    const account = await this.incrementFailures(this.accountKey(attempt), ACCOUNT_POLICY);
+    if (account.locked) {
+      console.warn(`Login: locked account ${this.accountKey(attempt)} until ${account.lockedUntil.toISOString()}`);
+      await this.recordEvent('account_locked', attempt, { lockedUntil: account.lockedUntil });
+    }
+
+    const ip = await this.incrementFailures(this.ipKey(attempt.ip), IP_POLICY);
+    if (ip.locked) {
+      console.warn(`Login: locked IP ${attempt.ip} until ${ip.lockedUntil.toISOString()}`);
+      await this.recordEvent('ip_locked', attempt, { lockedUntil: ip.lockedUntil });
+    }
+  }
+
+  /**
+   * Clears the account's failure counter after a successful login. The IP counter is
+   * left to expire so one valid account cannot be used to reset it.
+   */
+  async recordSuccess(attempt: LoginAttempt): Promise<void> {
+    await db.delete(loginThrottles).where(eq(loginThrottles.key, this.accountKey(attempt)));
+  }
+
+  /**
+   * Lifts a lockout (and any backoff) for an account.
+   */
+  async unlockAccount(userId: number, unlockedBy: { id: number; ip: string }): Promise<boolean> {
+    const removed = await db.delete(loginThrottles)
+      .where(eq(loginThrottles.key, `account:${userId}`))
+      .returning({ key: loginThrottles.key });
+    await this.recordEvent('account_unlocked', { identifier: `user:${userId}`, userId, ip: unlockedBy.ip }, {
+      unlockedBy: unlockedBy.id,
+    });
+    return removed.length > 0;
+  }
+
+  async getLockedAccounts(): Promise<LockedAccount[]> {
+    const rows = await db.select().from(loginThrottles)
+      .where(and(like(loginThrottles.key, 'account:%'), gt(loginThrottles.lockedUntil, new Date())));
+    return rows
+      .map((row) => ({ userId: parseInt(row.key.slice('account:'.length), 10), failedCount: row.failedCount, lockedUntil: row.lockedUntil! }))
+      .filter((row) => !isNaN(row.userId));
+  }
+
+  async listEvents(filters: SecurityEventFilters = {}): Promise<SecurityEvent[]> {
+    const conditions: SQL[] = [];
+    if (filters.type) conditions.push(eq(securityEvents.type, filters.type));
+    if (filters.userId) conditions.push(eq(securityEvents.userId, filters.userId));
+    if (filters.ip) conditions.push(eq(securityEvents.ipAddress, filters.ip));
+    if (filters.since) conditions.push(gt(securityEvents.createdAt, filters.since));
+
+    return db.select().from(securityEvents)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(securityEvents.createdAt))
+      .limit(Math.min(filters.limit || 100, 500));
+  }
+
+  // Known accounts are tracked by id so username and email logins share one counter;
+  // unknown identifiers get their own key space so they can never collide with an id
+  private accountKey(attempt: LoginAttempt): string {
+    return attempt.userId ? `account:${attempt.userId}` : `login:${attempt.identifier.trim().toLowerCase()}`;
+  }
+
+  private ipKey(ip: string): string {
+    return `ip:${ip}`;
+  }
+
+  private async incrementFailures(key: string, policy: ThrottlePolicy): Promise<{ locked: false } | { locked: true; lockedUntil: Date }> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - FAILURE_WINDOW_MS);
+    const [row] = await db.insert(loginThrottles)
+      .values({ key, failedCount: 1, lastFailedAt: now })
+      .onConflictDoUpdate({
+        target: loginThrottles.key,
+        set: {
+          failedCount: sql`case when ${loginThrottles.lastFailedAt} < ${windowStart.toISOString()} then 1 else ${loginThrottles.failedCount} + 1 end`,
+          lastFailedAt: now,
+        },
+      })
+      .returning();
+
+    if (row.failedCount < policy.lockoutThreshold) {
+      return { locked: false };
+    }
+    // Lock and start counting afresh, so the backoff restarts once the lockout ends
+    const lockedUntil = new Date(now.getTime() + policy.lockoutMs);
+    await db.update(loginThrottles)
+      .set({ failedCount: 0, lockedUntil })
+      .where(eq(loginThrottles.key, key));
+    return { locked: true, lockedUntil };
+  }
+
+  private async recordEvent(type: SecurityEventType, attempt: LoginAttempt, details?: Record<string, unknown>): Promise<void> {
+    try {
+      await db.insert(securityEvents).values({
+        type,
+        userId: attempt.userId ?? null,
+        identifier: attempt.identifier,
+        ipAddress: attempt.ip,
+        details: details ?? null,
+      });
+    } catch (error) {
+      // Auditing must never break the login itself
+      console.error(`Failed to record security event ${type}:`, error);
+    }
+  }
+}
+
+// Export a singleton instance
+export const loginThrottleService = new LoginThrottleService();
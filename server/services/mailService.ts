@@ -0,0 +1,114 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { db } from '../db';
+import { mailOutbox } from '@shared/schema';
+import { env } from '../config/env';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A mail transport delivers a fully addressed message.
+ * Implement this interface to plug in SMTP or a provider API.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Stores outgoing mail in the `mail_outbox` table so it can be inspected without a mail server.
+ */
+export class OutboxMailTransport implements MailTransport {
+  readonly name = 'outbox';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await db.insert(mailOutbox).values({
+      toAddress: message.to,
+      fromAddress: message.from,
+      subject: message.subject,
+      textBody: message.text,
+      htmlBody: message.html ?? null,
+    });
+  }
+}
+
+/**
+ * Writes each outgoing mail as a JSON file into a directory.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.json`;
+    const payload = { ...message, date: new Date().toISOString() };
+    await fs.writeFile(path.join(this.directory, fileName), JSON.stringify(payload, null, 2), 'utf8');
+  }
+}
+
+/**
+ * Sends application mail through the configured transport.
+ */
+export class MailService {
+  constructor(private transport: MailTransport, private from: string) {}
+
+  setTransport(transport: MailTransport) {
+    this.transport = transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: this.from });
+    console.log(`[MailService] "${message.subject}" to ${message.to} delivered via ${this.transport.name} transport`);
+  }
+
+  /**
+   * Sends a short notification greeting the user by name, with a link back into the app.
+   * Delivery problems are logged rather than thrown, so the change being announced still stands.
+   */
+  async notifyUser(email: string, name: string, subject: string, body: string, link: NotificationLink): Promise<void> {
+    const url = `${env.APP_BASE_URL}${link.path}`;
+    try {
+      await this.send({
+        to: email,
+        subject,
+        text: `Hi ${name},\n\n${body}\n\n${link.label}: ${url}`,
+        html: `<p>Hi ${escapeHtml(name)},</p><p>${escapeHtml(body).replace(/\n/g, '<br>')}</p><p><a href="${url}">${escapeHtml(link.label)}</a></p>`,
+      });
+    } catch (error) {
+      console.error(`[MailService] Failed to send "${subject}" to ${email}:`, error);
+    }
+  }
+}
+
+/** App page a notification links to, as a path below APP_BASE_URL. */
+export interface NotificationLink {
+  path: string;
+  label: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+function createTransportFromEnv(): MailTransport {
+  switch (env.MAIL_TRANSPORT) {
+    case 'file':
+      return new FileMailTransport(env.MAIL_OUTBOX_DIR);
+    case 'outbox':
+      return new OutboxMailTransport();
+    default:
+      console.warn(`[MailService] Unknown MAIL_TRANSPORT "${env.MAIL_TRANSPORT}", falling back to outbox`);
+      return new OutboxMailTransport();
+  }
+}
+
+// Export a singleton instance
+export const mailService = new MailService(createTransportFromEnv(), env.MAIL_FROM);
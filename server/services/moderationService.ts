@@ -0,0 +1,138 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { properties, propertyColumns, users, type ModerationStatus, type Property } from '@shared/schema';
+import { mailService } from './mailService';
+import { propertyRevisionService } from './propertyRevisionService';
+
+export class ModerationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+// Fields an owner may change on a reviewed listing without a new review: marking it sold or
+// rented, coordinates from the geocoder, their own reference, and what only admins can set
+const REVIEW_EXEMPT_FIELDS = new Set<string>([
+  'status', 'latitude', 'longitude', 'externalRef', 'userId', 'featured', 'verified', 'moderationStatus', 'rejectionReason',
+]);
+
+/**
+ * Review workflow of listings posted by users and agents. New listings start as a draft or
+ * pending review and become public once an admin publishes them; a rejected listing goes back
+ * to its owner with the reason, and the owner can fix it and submit it again.
+ * Listings created by admins are published directly.
+ */
+export class ModerationService {
+  /**
+   * Status of a listing created by a non-admin: a draft when asked for, otherwise pending review.
+   */
+  initialStatus(requested: unknown): ModerationStatus {
+    return requested === 'draft' ? 'draft' : 'pending';
+  }
+
+  async submit(propertyId: number, actorId: number): Promise<Property> {
+    return this.transition(propertyId, actorId, ['draft', 'rejected'], { moderationStatus: 'pending', rejectionReason: null });
+  }
+
+  async approve(propertyId: number, actorId: number): Promise<Property> {
+    const property = await this.transition(propertyId, actorId, ['pending', 'rejected'], {
+      moderationStatus: 'published',
+      rejectionReason: null,
+      moderatedAt: new Date(),
+    });
+    await this.notifyOwner(property);
+    return property;
+  }
+
+  async reject(propertyId: number, reason: string, actorId: number): Promise<Property> {
+    const property = await this.transition(propertyId, actorId, ['pending', 'published'], {
+      moderationStatus: 'rejected',
+      rejectionReason: reason,
+      moderatedAt: new Date(),
+    });
+    await this.notifyOwner(property);
+    return property;
+  }
+
+  /**
+   * Sends a published or rejected listing back to review when an owner's edit changed its content,
+   * so listings cannot be rewritten after approval. Runs in the edit's transaction with the listing
+   * before and after the edit; the status change is recorded as a moderation revision of its own.
+   */
+  async reviewEdit(tx: Pick<typeof db, 'update' | 'insert'>, before: Property, after: Property, actorId?: number | null): Promise<Property> {
+    if (after.moderationStatus !== 'published' && after.moderationStatus !== 'rejected') {
+      return after;
+    }
+    const contentChanged = Object.keys(propertyRevisionService.diff(before, after))
+      .some((field) => !REVIEW_EXEMPT_FIELDS.has(field));
+    if (!contentChanged) {
+      return after;
+    }
+    const [pending] = await tx.update(properties)
+      .set({ moderationStatus: 'pending', rejectionReason: null })
+      .where(eq(properties.id, after.id))
+      .returning(propertyColumns);
+    await propertyRevisionService.record(tx, after, pending, { actorId, source: 'moderation' });
+    return pending;
+  }
+
+  // Applies the change when the listing is in one of the `from` states, recording it as a revision
+  private async transition(
+    propertyId: number,
+    actorId: number,
+    from: ModerationStatus[],
+    changes: Partial<Pick<Property, 'moderationStatus' | 'rejectionReason' | 'moderatedAt'>>,
+  ): Promise<Property> {
+    const property = await db.transaction(async (tx) => {
+      const [current] = await tx.select(propertyColumns)
+        .from(properties)
+        .where(and(eq(properties.id, propertyId), inArray(properties.moderationStatus, from)))
+        .for('update');
+      if (!current) {
+        return undefined;
+      }
+      const [updated] = await tx.update(properties).set(changes).where(eq(properties.id, propertyId)).returning(propertyColumns);
+      await propertyRevisionService.record(tx, current, updated, { actorId, source: 'moderation' });
+      return updated;
+    });
+    if (property) {
+      return property;
+    }
+
+    const [existing] = await db.select({ moderationStatus: properties.moderationStatus })
+      .from(properties)
+      .where(eq(properties.id, propertyId))
+      .limit(1);
+    if (!existing) {
+      throw new ModerationError('Property not found', 404);
+    }
+    throw new ModerationError(`The listing is ${existing.moderationStatus} and cannot be ${changes.moderationStatus} now`, 409);
+  }
+
+  private async notifyOwner(property: Property): Promise<void> {
+    const [owner] = await db.select({ name: users.name, email: users.email })
+      .from(users)
+      .where(eq(users.id, property.userId))
+      .limit(1);
+    if (!owner) {
+      return;
+    }
+
+    const link = { path: '/my-properties', label: 'Your listings' };
+    if (property.moderationStatus === 'published') {
+      await mailService.notifyUser(owner.email, owner.name,
+        `Your listing "${property.title}" is published`,
+        `Your listing "${property.title}" was approved and is now visible on HomeHarbor.`,
+        link);
+    } else {
+      await mailService.notifyUser(owner.email, owner.name,
+        `Your listing "${property.title}" needs changes`,
+        `Your listing "${property.title}" was not published:\n\n${property.rejectionReason ?? ''}\n\nYou can edit the listing and submit it for review again.`,
+        link);
+    }
+  }
+}
+
+// Export a singleton instance
+export const moderationService = new ModerationService();
@@ -1,5 +1,6 @@
 import fetch from 'node-fetch';
 import { log } from '../vite';
+import { distanceKm } from './geo';
 
 // Define response types for the API
 interface OuluApiResponse<T> {
@@ -265,27 +266,12 @@ export class OuluDataService {
   async getNearbyAttractions(lat: number, lng: number, radius: number = 10): Promise<any[]> {
     const response = await fetch("https://opendata.zoneatlas.com/oulu/objects.json");
     const allAttractions = await response.json() as any[];
-    // Haversine function
-    function haversine(lat1: number, lon1: number, lat2: number, lon2: number) {
-      const toRad = (x: number) => (x * Math.PI) / 180;
-      const R = 6371;
-      const dLat = toRad(lat2 - lat1);
-      const dLon = toRad(lon2 - lon1);
-      const a =
-        Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.cos(toRad(lat1)) *
-          Math.cos(toRad(lat2)) *
-          Math.sin(dLon / 2) *
-          Math.sin(dLon / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      return R * c;
-    }
     // Filter by distance
     const filtered = allAttractions.filter((item: any) => {
       const coords = item.geo?.coordinates;
       if (!coords || coords.length !== 2) return false;
       const [itemLat, itemLng] = coords;
-      return haversine(lat, lng, itemLat, itemLng) <= radius;
+      return distanceKm(lat, lng, itemLat, itemLng) <= radius;
     });
     // Map to frontend format
     return filtered.map((item: any) => ({
@@ -0,0 +1,246 @@
+import { CronJob } from 'cron';
+import { and, between, eq, gt, ne, notInArray, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  properties,
+  propertyComparables,
+  type AreaPriceComparison,
+  type ComparableBasis,
+  type Property,
+} from '@shared/schema';
+import { distanceKm } from './geo';
+import { median } from './statistics';
+
+// The fields needed to compare asking prices
+type Comparable = Pick<Property,
+  'id' | 'listingType' | 'propertyType' | 'price' | 'area' | 'latitude' | 'longitude' | 'postalCode'>;
+
+interface ComparableStats {
+  medianPricePerSqm: number;
+  medianPrice: number;
+  comparableCount: number;
+  basis: ComparableBasis;
+  radiusKm: number | null;
+}
+
+// Searched in order; the smallest radius with enough comparables wins
+const RADII_KM = [1, 2, 5];
+// A median over fewer listings says more about those listings than about the area
+const MIN_COMPARABLES = 5;
+// Grid cells of the nightly run, about 5.5 km on each side in Finland; the 3x3 cells around a
+// listing cover the largest radius
+const CELL_LAT_DEGREES = 0.05;
+const CELL_LON_DEGREES = 0.1;
+const INSERT_BATCH_SIZE = 500;
+
+const comparableColumns = {
+  id: properties.id,
+  listingType: properties.listingType,
+  propertyType: properties.propertyType,
+  price: properties.price,
+  area: properties.area,
+  latitude: properties.latitude,
+  longitude: properties.longitude,
+  postalCode: properties.postalCode,
+};
+
+const cellKey = (latitude: number, longitude: number, dLat = 0, dLon = 0) =>
+  `${Math.floor(latitude / CELL_LAT_DEGREES) + dLat}:${Math.floor(longitude / CELL_LON_DEGREES) + dLon}`;
+
+/**
+ * Median asking price and price per m² of the listings comparable to a listing: active listings
+ * of the same listing and property type, nearest first by radius, else in the same postal code
+ * area. Null when neither has enough of them.
+ */
+export function comparablesOf(listing: Comparable, pool: Comparable[]): ComparableStats | null {
+  const comparable = pool.filter((other) =>
+    other.id !== listing.id
+    && other.listingType === listing.listingType
+    && other.propertyType === listing.propertyType
+    && other.area > 0
+    && other.price > 0);
+
+  const stats = (matches: Comparable[], basis: ComparableBasis, radiusKm: number | null): ComparableStats => ({
+    medianPricePerSqm: Math.round(median(matches.map((match) => match.price / match.area))),
+    medianPrice: Math.round(median(matches.map((match) => match.price))),
+    comparableCount: matches.length,
+    basis,
+    radiusKm,
+  });
+
+  if (listing.latitude != null && listing.longitude != null) {
+    const located = comparable
+      .filter((other) => other.latitude != null && other.longitude != null)
+      .map((other) => ({ other, km: distanceKm(listing.latitude!, listing.longitude!, other.latitude!, other.longitude!) }));
+    for (const radiusKm of RADII_KM) {
+      const within = located.filter(({ km }) => km <= radiusKm).map(({ other }) => other);
+      if (within.length >= MIN_COMPARABLES) {
+        return stats(within, 'radius', radiusKm);
+      }
+    }
+  }
+  if (listing.postalCode) {
+    const samePostalCode = comparable.filter((other) => other.postalCode === listing.postalCode);
+    if (samePostalCode.length >= MIN_COMPARABLES) {
+      return stats(samePostalCode, 'postal_code', null);
+    }
+  }
+  return null;
+}
+
+/**
+ * Area price statistics: for every published listing, the median asking price per m² of comparable
+ * listings around it. Recomputed for all listings nightly and for a single listing when it is saved.
+ * The median price is also kept in the listing's averageNearbyPrices.
+ */
+export class PriceComparablesService {
+  private static readonly COMPUTATION_CRON = '0 4 * * *'; // Daily at 04:00, after the geocoding backfill
+
+  /**
+   * Recomputes the comparables of every published listing from the active listings.
+   */
+  async computeAll(): Promise<{ listings: number; computed: number }> {
+    const [pool, targets] = await Promise.all([
+      db.select(comparableColumns).from(properties)
+        .where(and(eq(properties.moderationStatus, 'published'), eq(properties.status, 'active'), gt(properties.area, 0))),
+      db.select(comparableColumns).from(properties)
+        .where(and(eq(properties.moderationStatus, 'published'), gt(properties.area, 0))),
+    ]);
+
+    // Candidates come from the neighbouring grid cells and the same postal code, not the whole pool
+    const cells = new Map<string, Comparable[]>();
+    const postalCodes = new Map<string, Comparable[]>();
+    const addTo = (buckets: Map<string, Comparable[]>, key: string, listing: Comparable) => {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(listing);
+      else buckets.set(key, [listing]);
+    };
+    for (const listing of pool) {
+      if (listing.latitude != null && listing.longitude != null) {
+        addTo(cells, cellKey(listing.latitude, listing.longitude), listing);
+      }
+      if (listing.postalCode) {
+        addTo(postalCodes, listing.postalCode, listing);
+      }
+    }
+
+    const rows: (typeof propertyComparables.$inferInsert)[] = [];
+    for (const listing of targets) {
+      const candidates = new Map<number, Comparable>();
+      if (listing.latitude != null && listing.longitude != null) {
+        for (const dLat of [-1, 0, 1]) {
+          for (const dLon of [-1, 0, 1]) {
+            for (const other of cells.get(cellKey(listing.latitude, listing.longitude, dLat, dLon)) ?? []) {
+              candidates.set(other.id, other);
+            }
+          }
+        }
+      }
+      for (const other of (listing.postalCode && postalCodes.get(listing.postalCode)) || []) {
+        candidates.set(other.id, other);
+      }
+      const stats = comparablesOf(listing, Array.from(candidates.values()));
+      if (stats) {
+        rows.push({ propertyId: listing.id, ...stats });
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(propertyComparables);
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(propertyComparables).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+      }
+      await tx.execute(sql`
+        UPDATE ${properties} SET average_nearby_prices = ${propertyComparables.medianPrice}
+        FROM ${propertyComparables} WHERE ${propertyComparables.propertyId} = ${properties.id}`);
+      await tx.update(properties)
+        .set({ averageNearbyPrices: null })
+        .where(notInArray(properties.id, db.select({ id: propertyComparables.propertyId }).from(propertyComparables)));
+    });
+
+    return { listings: targets.length, computed: rows.length };
+  }
+
+  /**
+   * Recomputes the comparables of one listing, so a new or edited listing has them before the nightly run.
+   */
+  async computeFor(propertyId: number): Promise<void> {
+    const [listing] = await db.select(comparableColumns).from(properties).where(eq(properties.id, propertyId));
+    if (!listing) return;
+
+    let stats: ComparableStats | null = null;
+    if (listing.area > 0) {
+      const maxRadiusKm = RADII_KM[RADII_KM.length - 1];
+      const latDelta = maxRadiusKm / 111;
+      const lonDelta = latDelta / Math.cos((listing.latitude ?? 0) * Math.PI / 180);
+      const nearby = listing.latitude != null && listing.longitude != null
+        ? and(
+            between(properties.latitude, listing.latitude - latDelta, listing.latitude + latDelta),
+            between(properties.longitude, listing.longitude! - lonDelta, listing.longitude! + lonDelta),
+          )
+        : undefined;
+      const samePostalCode = listing.postalCode ? eq(properties.postalCode, listing.postalCode) : undefined;
+      if (nearby || samePostalCode) {
+        const pool = await db.select(comparableColumns).from(properties).where(and(
+          ne(properties.id, listing.id),
+          eq(properties.listingType, listing.listingType),
+          eq(properties.propertyType, listing.propertyType),
+          eq(properties.moderationStatus, 'published'),
+          eq(properties.status, 'active'),
+          gt(properties.area, 0),
+          or(nearby, samePostalCode),
+        ));
+        stats = comparablesOf(listing, pool);
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      if (stats) {
+        await tx.insert(propertyComparables)
+          .values({ propertyId, ...stats })
+          .onConflictDoUpdate({ target: propertyComparables.propertyId, set: { ...stats, computedAt: new Date() } });
+      } else {
+        await tx.delete(propertyComparables).where(eq(propertyComparables.propertyId, propertyId));
+      }
+      await tx.update(properties).set({ averageNearbyPrices: stats?.medianPrice ?? null }).where(eq(properties.id, propertyId));
+    });
+  }
+
+  /**
+   * How a listing's price per m² compares with the area median; null when it has no comparables.
+   */
+  async forProperty(property: Pick<Property, 'id' | 'price' | 'area'>): Promise<AreaPriceComparison | null> {
+    const [row] = await db.select().from(propertyComparables).where(eq(propertyComparables.propertyId, property.id));
+    if (!row || property.area <= 0) {
+      return null;
+    }
+    const pricePerSqm = property.price / property.area;
+    return {
+      pricePerSqm: Math.round(pricePerSqm),
+      medianPricePerSqm: row.medianPricePerSqm,
+      medianPrice: row.medianPrice,
+      comparableCount: row.comparableCount,
+      basis: row.basis as ComparableBasis,
+      radiusKm: row.radiusKm,
+      differencePercent: Math.round((pricePerSqm / row.medianPricePerSqm - 1) * 100),
+      computedAt: row.computedAt,
+    };
+  }
+
+  startScheduledComputation(): void {
+    const job = new CronJob(PriceComparablesService.COMPUTATION_CRON, async () => {
+      try {
+        const { listings, computed } = await this.computeAll();
+        console.log(`Comparables: computed area prices for ${computed} of ${listings} listing(s)`);
+      } catch (error) {
+        console.error('Comparables: nightly computation failed:', error);
+      }
+    });
+
+    job.start();
+    console.log('Area price comparables scheduler started (running daily)');
+  }
+}
+
+// Export a singleton instance
+export const priceComparablesService = new PriceComparablesService();
@@ -0,0 +1,171 @@
+import { type Property } from '@shared/schema';
+import { fromSquareMetres, type AreaUnit } from '@shared/units';
+import { storage } from '../storage';
+import { env } from '../config/env';
+import { escapeHtml } from './mailService';
+
+export const EXPORT_FORMATS = ['csv', 'jsonl', 'atom'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+// Entries in an Atom feed; subscribers only need the latest listings
+const DEFAULT_FEED_ENTRIES = 50;
+const MAX_FEED_ENTRIES = 200;
+const BATCH_SIZE = 500;
+
+// Public fields of an exported listing; owner details, the owner's own listing reference and
+// moderation data stay private
+const EXPORT_FIELDS = [
+  'id', 'title', 'description', 'price', 'previousPrice', 'address', 'city', 'postalCode',
+  'area', 'bedrooms', 'bathrooms', 'propertyType', 'listingType', 'status', 'features', 'images',
+  'latitude', 'longitude', 'transactionType', 'propertyOwnership', 'furnishingDetails',
+  'heatingAvailable', 'salesPrice', 'loanShare', 'maintenanceCharge', 'financingCharge', 'energyClass',
+  'buildYear', 'plotOwnership', 'deposit', 'availableFrom', 'minLeaseMonths', 'petsAllowed', 'smokingAllowed',
+  'createdAt',
+] as const satisfies readonly (keyof Property)[];
+
+type ExportedListing = Pick<Property, typeof EXPORT_FIELDS[number]> & { url: string };
+
+export interface FeedOptions {
+  // Absolute URL of the feed itself, used as its id and self link
+  selfUrl: string;
+  limit?: number;
+  // Unit of the areas in entry summaries; data fields are always in square metres
+  areaUnit?: AreaUnit;
+}
+
+const listingUrl = (id: number) => `${env.APP_BASE_URL}/property/${id}`;
+
+// Quotes cells when needed and defuses text that spreadsheets would run as a formula
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return csvCell(value.join('|'));
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'string') return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Listing exports for syndication: CSV, JSON Lines and Atom feeds of the listings matching
+ * the same filters as the listings page. Output is produced batch by batch as a stream of
+ * text chunks, so large exports never sit in memory. Only published listings are exported.
+ */
+export class PropertyExportService {
+  /**
+   * Text chunks of the export; pipe them to the response.
+   */
+  async *export(format: ExportFormat, filters: Record<string, unknown>, feed: FeedOptions): AsyncGenerator<string> {
+    const publicFilters = { ...filters, moderationStatus: 'published' };
+    switch (format) {
+      case 'csv':
+        yield* this.csv(publicFilters);
+        break;
+      case 'jsonl':
+        yield* this.jsonLines(publicFilters);
+        break;
+      case 'atom':
+        yield* this.atom(publicFilters, feed);
+        break;
+    }
+  }
+
+  private async *csv(filters: Record<string, unknown>): AsyncGenerator<string> {
+    // Byte order mark so spreadsheet programs read the file as UTF-8
+    yield '\uFEFF' + [...EXPORT_FIELDS, 'url'].join(',') + '\r\n';
+    for await (const batch of storage.streamProperties(filters, BATCH_SIZE)) {
+      yield batch
+        .map((property) => {
+          const listing = this.toExported(property);
+          return [...EXPORT_FIELDS, 'url' as const].map((field) => csvCell(listing[field])).join(',') + '\r\n';
+        })
+        .join('');
+    }
+  }
+
+  private async *jsonLines(filters: Record<string, unknown>): AsyncGenerator<string> {
+    for await (const batch of storage.streamProperties(filters, BATCH_SIZE)) {
+      yield batch.map((property) => JSON.stringify(this.toExported(property)) + '\n').join('');
+    }
+  }
+
+  private async *atom(filters: Record<string, unknown>, feed: FeedOptions): AsyncGenerator<string> {
+    const limit = Math.min(Math.max(feed.limit || DEFAULT_FEED_ENTRIES, 1), MAX_FEED_ENTRIES);
+    // The newest listings come first, so the first batch holds every entry of the feed
+    const batches = storage.streamProperties(filters, limit);
+    const first = await batches.next();
+    await batches.return(undefined);
+    const listings = first.done ? [] : first.value.slice(0, limit);
+
+    const updated = (listings[0]?.createdAt ?? new Date()).toISOString();
+    const alternate = `${env.APP_BASE_URL}/properties${feed.selfUrl.includes('?') ? feed.selfUrl.slice(feed.selfUrl.indexOf('?')) : ''}`;
+    yield '<?xml version="1.0" encoding="utf-8"?>\n'
+      + '<feed xmlns="http://www.w3.org/2005/Atom">\n'
+      + `  <title>${escapeHtml(this.feedTitle(filters))}</title>\n`
+      + `  <id>${escapeHtml(feed.selfUrl)}</id>\n`
+      + `  <updated>${updated}</updated>\n`
+      + `  <link rel="self" type="application/atom+xml" href="${escapeHtml(feed.selfUrl)}"/>\n`
+      + `  <link rel="alternate" type="text/html" href="${escapeHtml(alternate)}"/>\n`
+      + '  <author><name>HomeHarbor</name></author>\n';
+
+    for (const property of listings) {
+      const url = listingUrl(property.id);
+      const summary = `${property.city} · ${this.formatArea(property.area, feed.areaUnit ?? 'sqm')} · ${property.bedrooms} bedrooms · ${this.formatPrice(property.price)}`;
+      const image = property.images?.[0];
+      const content = (image ? `<p><img src="${escapeHtml(image)}" alt=""/></p>` : '')
+        + `<p>${escapeHtml(summary)}</p><p>${escapeHtml(property.description)}</p>`;
+      yield '  <entry>\n'
+        + `    <title>${escapeHtml(`${property.title} – ${this.formatPrice(property.price)}`)}</title>\n`
+        + `    <id>${escapeHtml(url)}</id>\n`
+        + `    <link rel="alternate" type="text/html" href="${escapeHtml(url)}"/>\n`
+        + `    <published>${property.createdAt.toISOString()}</published>\n`
+        + `    <updated>${property.createdAt.toISOString()}</updated>\n`
+        + `    <category term="${escapeHtml(property.propertyType)}"/>\n`
+        + `    <summary>${escapeHtml(summary)}</summary>\n`
+        + `    <content type="html">${escapeHtml(content)}</content>\n`
+        + '  </entry>\n';
+    }
+    yield '</feed>\n';
+  }
+
+  private toExported(property: Property): ExportedListing {
+    const listing = Object.fromEntries(EXPORT_FIELDS.map((field) => [field, property[field]])) as Pick<Property, typeof EXPORT_FIELDS[number]>;
+    return { ...listing, url: listingUrl(property.id) };
+  }
+
+  // e.g. "Apartments in Oulu under 200,000 €"
+  private feedTitle(filters: Record<string, unknown>): string {
+    const types = ([] as unknown[]).concat(filters.propertyType ?? []).map(String);
+    let title = types.length > 0
+      ? types.map((type) => type.charAt(0).toUpperCase() + type.slice(1) + 's').join(', ')
+      : 'Listings';
+    if (filters.city) title += ` in ${filters.city}`;
+    const minPrice = Number(filters.minPrice);
+    const maxPrice = Number(filters.maxPrice);
+    if (filters.minPrice && filters.maxPrice && !isNaN(minPrice) && !isNaN(maxPrice)) {
+      title += ` from ${this.formatPrice(minPrice)} to ${this.formatPrice(maxPrice)}`;
+    } else if (filters.maxPrice && !isNaN(maxPrice)) {
+      title += ` under ${this.formatPrice(maxPrice)}`;
+    } else if (filters.minPrice && !isNaN(minPrice)) {
+      title += ` over ${this.formatPrice(minPrice)}`;
+    }
+    return `HomeHarbor: ${title}`;
+  }
+
+  private formatPrice(price: number): string {
+    return `${Math.round(price).toLocaleString('en-US')} €`;
+  }
+
+  private formatArea(squareMetres: number, unit: AreaUnit): string {
+    const area = fromSquareMetres(squareMetres, unit).toLocaleString('en-US', { maximumFractionDigits: unit === 'sqft' ? 0 : 1 });
+    return unit === 'sqft' ? `${area} sq ft` : `${area} m²`;
+  }
+}
+
+// Export a singleton instance
+export const propertyExportService = new PropertyExportService();
@@ -0,0 +1,60 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { propertyEvents, type Property, type PropertyEvent } from '@shared/schema';
+
+type ListingState = Pick<Property, 'id' | 'price' | 'status'>;
+
+/**
+ * Price and status history of listings. Events are written by the storage layer
+ * in the same transaction as the change they describe.
+ */
+export class PropertyHistoryService {
+  async recordListed(tx: Pick<typeof db, 'insert'>, property: ListingState): Promise<void> {
+    await tx.insert(propertyEvents).values({
+      propertyId: property.id,
+      type: 'listed',
+      price: property.price,
+      status: property.status,
+    });
+  }
+
+  /**
+   * Records a price_changed and/or status_changed event for whatever differs between the two states.
+   */
+  async recordChanges(tx: Pick<typeof db, 'insert'>, before: ListingState, after: ListingState): Promise<void> {
+    const events: (typeof propertyEvents.$inferInsert)[] = [];
+    if (before.price !== after.price) {
+      events.push({
+        propertyId: after.id,
+        type: 'price_changed',
+        price: after.price,
+        previousPrice: before.price,
+        status: after.status,
+      });
+    }
+    if (before.status !== after.status) {
+      events.push({
+        propertyId: after.id,
+        type: 'status_changed',
+        price: after.price,
+        status: after.status,
+        previousStatus: before.status,
+      });
+    }
+    if (events.length > 0) {
+      await tx.insert(propertyEvents).values(events);
+    }
+  }
+
+  /**
+   * @returns the events of a listing, oldest first
+   */
+  async getHistory(propertyId: number): Promise<PropertyEvent[]> {
+    return db.select().from(propertyEvents)
+      .where(eq(propertyEvents.propertyId, propertyId))
+      .orderBy(asc(propertyEvents.createdAt), asc(propertyEvents.id));
+  }
+}
+
+// Export a singleton instance
+export const propertyHistoryService = new PropertyHistoryService();
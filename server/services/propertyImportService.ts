@@ -0,0 +1,448 @@
+import path from 'path';
+import ExcelJS from 'exceljs';
+import { parse as parseCsv } from 'csv-parse/sync';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { insertPropertySchema, properties, propertyColumns, type InsertProperty, type Property } from '@shared/schema';
+import { propertyHistoryService } from './propertyHistoryService';
+import { propertyRevisionService } from './propertyRevisionService';
+import { moderationService } from './moderationService';
+import { imageService } from './imageService';
+import { geocodingService } from './geocodingService';
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 1000;
+
+type ColumnKind = 'text' | 'number' | 'integer' | 'boolean' | 'date' | 'list';
+
+// Importable listing fields and how their cells are read. Lists are separated with "|".
+const IMPORT_COLUMNS = {
+  externalRef: 'text',
+  title: 'text',
+  description: 'text',
+  price: 'number',
+  address: 'text',
+  city: 'text',
+  postalCode: 'text',
+  area: 'number',
+  bedrooms: 'integer',
+  bathrooms: 'integer',
+  propertyType: 'text',
+  listingType: 'text',
+  status: 'text',
+  features: 'list',
+  images: 'list',
+  latitude: 'number',
+  longitude: 'number',
+  transactionType: 'text',
+  propertyOwnership: 'text',
+  flooringDetails: 'text',
+  furnishingDetails: 'text',
+  heatingAvailable: 'boolean',
+  waterDetails: 'text',
+  gasDetails: 'text',
+  registrationDetails: 'text',
+  salesPrice: 'number',
+  loanShare: 'number',
+  maintenanceCharge: 'number',
+  financingCharge: 'number',
+  energyClass: 'text',
+  buildYear: 'integer',
+  plotOwnership: 'text',
+  deposit: 'number',
+  availableFrom: 'date',
+  minLeaseMonths: 'integer',
+  petsAllowed: 'boolean',
+  smokingAllowed: 'boolean',
+} satisfies Partial<Record<keyof InsertProperty, ColumnKind>>;
+type ImportField = keyof typeof IMPORT_COLUMNS;
+
+export const IMPORT_FIELDS = Object.keys(IMPORT_COLUMNS) as ImportField[];
+const REQUIRED_FIELDS: ImportField[] = [
+  'title', 'description', 'price', 'address', 'city', 'area', 'bedrooms', 'bathrooms', 'propertyType', 'listingType',
+];
+
+// Other common spellings of column headers, after normalizeHeader
+const HEADER_ALIASES: Record<string, ImportField> = {
+  externalid: 'externalRef',
+  reference: 'externalRef',
+  ref: 'externalRef',
+  zip: 'postalCode',
+  zipcode: 'postalCode',
+  postcode: 'postalCode',
+  type: 'propertyType',
+  lat: 'latitude',
+  lng: 'longitude',
+  lon: 'longitude',
+  // Finnish column names used by agency systems
+  velatonhinta: 'price',
+  myyntihinta: 'salesPrice',
+  velkaosuus: 'loanShare',
+  hoitovastike: 'maintenanceCharge',
+  rahoitusvastike: 'financingCharge',
+  energialuokka: 'energyClass',
+  rakennusvuosi: 'buildYear',
+  vakuus: 'deposit',
+  vapautuu: 'availableFrom',
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'kyllä', 'ja'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'ei', 'nej'];
+
+export class PropertyImportError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'PropertyImportError';
+  }
+}
+
+export interface ImportFieldError {
+  field: string;
+  message: string;
+}
+
+export interface ImportRowResult {
+  row: number; // Row number in the spreadsheet; the header is row 1
+  externalRef: string | null;
+  title: string | null;
+  action: 'create' | 'update' | 'skip';
+  propertyId?: number;
+  errors: ImportFieldError[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  skipped: number;
+  ignoredColumns: string[];
+  rows: ImportRowResult[];
+}
+
+export interface ImportOptions {
+  userId: number;
+  // Publish new listings directly instead of sending them to review (admins)
+  publish: boolean;
+  dryRun: boolean;
+}
+
+interface ImportFile {
+  buffer: Buffer;
+  originalname: string;
+}
+
+interface ParsedRow {
+  row: number;
+  cells: Partial<Record<ImportField, string>>;
+}
+
+interface ValidatedRow {
+  result: ImportRowResult;
+  // Every required field for a new listing; only the filled-in cells for an update
+  data?: Partial<InsertProperty>;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const FIELD_BY_HEADER: Record<string, ImportField> = {
+  ...Object.fromEntries(IMPORT_FIELDS.map((field) => [normalizeHeader(field), field])),
+  ...HEADER_ALIASES,
+};
+
+// Accepts "1 234,5" as well as "1234.5"
+const parseNumber = (value: string): number | undefined => {
+  const compact = value.replace(/[\s ]/g, '');
+  const normalized = compact.includes('.') ? compact.replace(/,/g, '') : compact.replace(',', '.');
+  const number = Number(normalized);
+  return normalized !== '' && Number.isFinite(number) ? number : undefined;
+};
+
+const parseBoolean = (value: string): boolean | undefined => {
+  const lower = value.toLowerCase();
+  if (TRUE_VALUES.includes(lower)) return true;
+  if (FALSE_VALUES.includes(lower)) return false;
+  return undefined;
+};
+
+// Accepts ISO dates and the Finnish 31.12.2025; returns YYYY-MM-DD
+const parseDate = (value: string): string | undefined => {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+  const finnish = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(value);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : finnish ? [finnish[3], finnish[2], finnish[1]] : [];
+  if (!year) return undefined;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return date.getUTCDate() === Number(day) ? date.toISOString().slice(0, 10) : undefined;
+};
+
+/**
+ * Bulk import of listings from CSV or XLSX files. A dry run validates every row and reports
+ * what would happen; a real run writes the valid rows in one transaction. Rows carrying an
+ * external reference update the owner's listing with the same reference instead of creating
+ * a new one, so the same file can be imported again after changes.
+ */
+export class PropertyImportService {
+  /**
+   * Header row of an import file with every supported column, followed by an example row.
+   */
+  templateCsv(): string {
+    const example: Partial<Record<ImportField, string>> = {
+      externalRef: 'CRM-1001',
+      title: 'Bright two-room apartment',
+      description: 'Renovated apartment close to the market square.',
+      price: '189000',
+      address: 'Kauppurienkatu 10 A 5',
+      city: 'Oulu',
+      postalCode: '90100',
+      area: '54.5',
+      bedrooms: '1',
+      bathrooms: '1',
+      propertyType: 'apartment',
+      listingType: 'buy',
+      features: 'Sauna|Balcony',
+      heatingAvailable: 'yes',
+    };
+    const quote = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+    return [
+      IMPORT_FIELDS.join(','),
+      IMPORT_FIELDS.map((field) => quote(example[field] ?? '')).join(','),
+    ].join('\n') + '\n';
+  }
+
+  async import(file: ImportFile, options: ImportOptions): Promise<ImportReport> {
+    const { rows: parsedRows, ignoredColumns } = await this.parse(file);
+    const fileRefs = parsedRows.map((row) => row.cells.externalRef).filter((ref): ref is string => !!ref);
+    const current = await this.findExisting(db, options.userId, fileRefs, false);
+    const validated = this.validate(parsedRows, options.userId, new Set(current.keys()));
+    const valid = validated.filter((row): row is Required<ValidatedRow> => !!row.data);
+    const refs = valid.map((row) => row.data.externalRef).filter((ref): ref is string => !!ref);
+
+    if (options.dryRun) {
+      for (const row of valid) {
+        const match = row.data.externalRef ? current.get(row.data.externalRef) : undefined;
+        row.result.action = match ? 'update' : 'create';
+        row.result.propertyId = match?.id;
+      }
+    } else {
+      // Coordinates are looked up before the transaction, against the listings as they are now
+      for (const row of valid) {
+        const match = row.data.externalRef ? current.get(row.data.externalRef) : undefined;
+        row.data = await geocodingService.withCoordinates(row.data, match);
+      }
+
+      const removedImages: string[] = [];
+      await db.transaction(async (tx) => {
+        const existing = await this.findExisting(tx, options.userId, refs, true);
+        for (const row of valid) {
+          const match = row.data.externalRef ? existing.get(row.data.externalRef) : undefined;
+          if (match) {
+            // Blank cells keep the current value; ownership and moderation are not importable
+            const { userId: _userId, moderationStatus: _moderationStatus, ...changes } = row.data;
+            const priceChanged = changes.price !== undefined && changes.price !== match.price;
+            const [updated] = await tx
+              .update(properties)
+              .set(priceChanged ? { ...changes, previousPrice: match.price } : changes)
+              .where(eq(properties.id, match.id))
+              .returning(propertyColumns);
+            await propertyHistoryService.recordChanges(tx, match, updated);
+            await propertyRevisionService.record(tx, match, updated, { actorId: options.userId, source: 'import' });
+            await imageService.markAttached(tx, updated.images ?? []);
+            // Like an edit, re-imported content sends a reviewed listing back to review unless an admin imports it
+            const property = options.publish ? updated : await moderationService.reviewEdit(tx, match, updated, options.userId);
+            removedImages.push(...(match.images ?? []).filter((url) => !(property.images ?? []).includes(url)));
+            row.result.action = 'update';
+            row.result.propertyId = property.id;
+          } else {
+            // An update row is incomplete as a new listing; its listing was deleted during the import
+            const complete = insertPropertySchema.safeParse(row.data);
+            if (!complete.success) {
+              row.result.errors.push({ field: 'externalRef', message: 'The listing with this reference no longer exists' });
+              continue;
+            }
+            const [property] = await tx
+              .insert(properties)
+              .values({ ...complete.data, moderationStatus: options.publish ? 'published' : 'pending' })
+              .returning(propertyColumns);
+            await propertyHistoryService.recordListed(tx, property);
+            await imageService.markAttached(tx, property.images ?? []);
+            row.result.action = 'create';
+            row.result.propertyId = property.id;
+          }
+        }
+      });
+      await imageService.releaseImages(removedImages, options.userId);
+    }
+
+    const rows = validated.map((row) => row.result);
+    return {
+      dryRun: options.dryRun,
+      created: rows.filter((row) => row.action === 'create').length,
+      updated: rows.filter((row) => row.action === 'update').length,
+      skipped: rows.filter((row) => row.action === 'skip').length,
+      ignoredColumns,
+      rows,
+    };
+  }
+
+  private async parse(file: ImportFile): Promise<{ rows: ParsedRow[]; ignoredColumns: string[] }> {
+    const extension = path.extname(file.originalname).toLowerCase();
+    let table: { row: number; values: string[] }[];
+    try {
+      if (extension === '.csv') {
+        table = this.readCsv(file.buffer);
+      } else if (extension === '.xlsx') {
+        table = await this.readXlsx(file.buffer);
+      } else {
+        throw new PropertyImportError('Upload a .csv or .xlsx file', 400);
+      }
+    } catch (error) {
+      if (error instanceof PropertyImportError) throw error;
+      throw new PropertyImportError(`The file could not be read: ${(error as Error).message}`, 400);
+    }
+
+    const [header, ...records] = table;
+    if (!header) {
+      throw new PropertyImportError('The file is empty', 400);
+    }
+    const columns = header.values.map((title) => FIELD_BY_HEADER[normalizeHeader(title)]);
+    const ignoredColumns = header.values.filter((title, index) => title && !columns[index]);
+    const missing = REQUIRED_FIELDS.filter((field) => !columns.includes(field));
+    if (missing.length > 0) {
+      throw new PropertyImportError(`Missing required columns: ${missing.join(', ')}`, 400);
+    }
+
+    const rows = records
+      .filter((record) => record.values.some((value) => value !== ''))
+      .map((record) => {
+        const cells: ParsedRow['cells'] = {};
+        columns.forEach((field, index) => {
+          if (field) cells[field] = record.values[index] ?? '';
+        });
+        return { row: record.row, cells };
+      });
+    if (rows.length === 0) {
+      throw new PropertyImportError('The file has no listing rows', 400);
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new PropertyImportError(`Import at most ${MAX_IMPORT_ROWS} listings at a time`, 400);
+    }
+    return { rows, ignoredColumns };
+  }
+
+  // Spreadsheet programs in Finnish and Swedish locales save CSV with semicolons
+  private readCsv(buffer: Buffer): { row: number; values: string[] }[] {
+    const text = buffer.toString('utf8');
+    const headerLine = text.split('\n', 1)[0];
+    const delimiter = headerLine.split(';').length > headerLine.split(',').length ? ';' : ',';
+    const records: string[][] = parseCsv(text, { bom: true, delimiter, relax_column_count: true, trim: true });
+    return records.map((values, index) => ({ row: index + 1, values }));
+  }
+
+  // Reads the first worksheet, using the displayed text of each cell
+  private async readXlsx(buffer: Buffer): Promise<{ row: number; values: string[] }[]> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const table: { row: number; values: string[] }[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      const values: string[] = [];
+      for (let column = 1; column <= sheet.columnCount; column++) {
+        values.push(row.getCell(column).text.trim());
+      }
+      table.push({ row: rowNumber, values });
+    });
+    return table;
+  }
+
+  // Rows whose reference is in `existingRefs` update that listing, so blank cells are allowed
+  private validate(rows: ParsedRow[], userId: number, existingRefs: Set<string>): ValidatedRow[] {
+    const rowByRef = new Map<string, number>();
+    return rows.map(({ row, cells }) => {
+      const values: Record<string, unknown> = {};
+      const errors: ImportFieldError[] = [];
+      for (const field of IMPORT_FIELDS) {
+        const value = cells[field];
+        if (!value) continue;
+        const kind: ColumnKind = IMPORT_COLUMNS[field];
+        if (kind === 'number' || kind === 'integer') {
+          const number = parseNumber(value);
+          if (number === undefined || (kind === 'integer' && !Number.isInteger(number))) {
+            errors.push({ field, message: kind === 'integer' ? 'Must be a whole number' : 'Must be a number' });
+          } else {
+            values[field] = number;
+          }
+        } else if (kind === 'boolean') {
+          const flag = parseBoolean(value);
+          if (flag === undefined) {
+            errors.push({ field, message: 'Must be yes or no' });
+          } else {
+            values[field] = flag;
+          }
+        } else if (kind === 'date') {
+          const date = parseDate(value);
+          if (date === undefined) {
+            errors.push({ field, message: 'Must be a date (YYYY-MM-DD)' });
+          } else {
+            values[field] = date;
+          }
+        } else if (kind === 'list') {
+          values[field] = value.split('|').map((item) => item.trim()).filter(Boolean);
+        } else {
+          values[field] = value;
+        }
+      }
+
+      const externalRef = cells.externalRef || null;
+      if (externalRef) {
+        const firstRow = rowByRef.get(externalRef);
+        if (firstRow !== undefined) {
+          errors.push({ field: 'externalRef', message: `Same reference as row ${firstRow}` });
+        } else {
+          rowByRef.set(externalRef, row);
+        }
+      }
+
+      const schema = externalRef && existingRefs.has(externalRef) ? insertPropertySchema.partial() : insertPropertySchema;
+      const parsed = schema.safeParse({ ...values, userId });
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          const field = String(issue.path[0] ?? '');
+          if (!errors.some((error) => error.field === field)) {
+            errors.push({ field, message: issue.message });
+          }
+        }
+      }
+
+      const result: ImportRowResult = {
+        row,
+        externalRef,
+        title: cells.title || null,
+        action: 'skip',
+        errors,
+      };
+      return errors.length === 0 && parsed.success ? { result, data: parsed.data } : { result };
+    });
+  }
+
+  private async findExisting(
+    executor: Pick<typeof db, 'select'>,
+    userId: number,
+    refs: string[],
+    lock: boolean,
+  ): Promise<Map<string, Property>> {
+    if (refs.length === 0) return new Map();
+    // The whole listing, as the revision of an update records every field it changes
+    const query = executor
+      .select(propertyColumns)
+      .from(properties)
+      .where(and(eq(properties.userId, userId), inArray(properties.externalRef, refs)));
+    const listings = lock ? await query.for('update') : await query;
+    return new Map(listings.map((listing) => [listing.externalRef!, listing]));
+  }
+}
+
+// Export a singleton instance
+export const propertyImportService = new PropertyImportService();
@@ -0,0 +1,139 @@
+import { count, desc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  properties, propertyRevisions, users,
+  type Property, type PropertyRevision, type PropertyRevisionChanges, type PropertyRevisionSource,
+} from '@shared/schema';
+
+export class PropertyRevisionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'PropertyRevisionError';
+  }
+}
+
+// Who made a listing change and through what, passed along with the update
+export interface RevisionAudit {
+  actorId?: number | null;
+  source?: PropertyRevisionSource;
+  revertedRevisionId?: number;
+}
+
+export interface RevisionView extends PropertyRevision {
+  actorName: string | null;
+  propertyTitle: string;
+}
+
+// Maintained by the system rather than edited, so not part of the audit trail
+const UNTRACKED_FIELDS = new Set<string>(['id', 'createdAt', 'previousPrice', 'imageHashes', 'moderatedAt', 'averageNearbyPrices', 'searchVector']);
+// Photos dropped from a listing are deleted from file storage, so they cannot be brought back;
+// moderation goes through the review workflow, and a restored status could contradict a rental
+const UNREVERTABLE_FIELDS = new Set<string>(['images', 'moderationStatus', 'rejectionReason', 'status']);
+// Changes made by a workflow, which reverting a field would leave half undone: a moderation
+// decision (and its mail to the owner), a merged-away account, an accepted rental application
+const UNREVERTABLE_SOURCES = new Set<string>(['moderation', 'merge', 'rental']);
+
+// Dates and arrays compare by value; JSON is also how the values are stored
+const comparable = (value: unknown) => JSON.stringify(value ?? null);
+
+/**
+ * Revisions of listings: every update (edits through the storage layer, the bulk import,
+ * moderation, account merges, rentals and geocoding) records the fields it changed with their
+ * old and new values, in the same transaction as the change.
+ * Admins browse the trail to settle disputes and can revert a revision.
+ */
+export class PropertyRevisionService {
+  /**
+   * Fields that differ between two states of a listing.
+   */
+  diff(before: Property, after: Property): PropertyRevisionChanges {
+    const changes: PropertyRevisionChanges = {};
+    for (const field of Object.keys(after) as (keyof Property)[]) {
+      if (UNTRACKED_FIELDS.has(field)) continue;
+      if (comparable(before[field]) !== comparable(after[field])) {
+        changes[field] = { from: before[field] ?? null, to: after[field] ?? null };
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Stores a revision for whatever differs between the two states; nothing when nothing changed.
+   */
+  async record(tx: Pick<typeof db, 'insert'>, before: Property, after: Property, audit: RevisionAudit = {}): Promise<void> {
+    const changes = this.diff(before, after);
+    if (Object.keys(changes).length === 0) {
+      return;
+    }
+    await tx.insert(propertyRevisions).values({
+      propertyId: after.id,
+      actorId: audit.actorId ?? null,
+      source: audit.source ?? 'edit',
+      changes,
+      revertedRevisionId: audit.revertedRevisionId ?? null,
+    });
+  }
+
+  /**
+   * Revisions newest first, of one listing or of all listings.
+   */
+  async list(options: { propertyId?: number; page: number; limit: number }): Promise<{
+    revisions: RevisionView[];
+    pagination: { total: number; page: number; limit: number; totalPages: number };
+  }> {
+    const where = options.propertyId !== undefined ? eq(propertyRevisions.propertyId, options.propertyId) : undefined;
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ revision: propertyRevisions, actorName: users.name, propertyTitle: properties.title })
+        .from(propertyRevisions)
+        .innerJoin(properties, eq(properties.id, propertyRevisions.propertyId))
+        .leftJoin(users, eq(users.id, propertyRevisions.actorId))
+        .where(where)
+        .orderBy(desc(propertyRevisions.createdAt), desc(propertyRevisions.id))
+        .limit(options.limit)
+        .offset((options.page - 1) * options.limit),
+      db.select({ total: count() }).from(propertyRevisions).where(where),
+    ]);
+    return {
+      revisions: rows.map(({ revision, actorName, propertyTitle }) => ({ ...revision, actorName, propertyTitle })),
+      pagination: { total, page: options.page, limit: options.limit, totalPages: Math.ceil(total / options.limit) },
+    };
+  }
+
+  /**
+   * The update that undoes a revision: its fields set back to their old values. Later edits
+   * to the same fields are overwritten; photos, moderation and status are left as they are and
+   * reported as skipped. Revisions made by moderation, account merges and rentals are not reverted.
+   */
+  async revertUpdate(revisionId: number): Promise<{ propertyId: number; values: Partial<Property>; skipped: string[] }> {
+    const [revision] = await db.select().from(propertyRevisions).where(eq(propertyRevisions.id, revisionId)).limit(1);
+    if (!revision) {
+      throw new PropertyRevisionError('Revision not found', 404);
+    }
+    if (UNREVERTABLE_SOURCES.has(revision.source)) {
+      throw new PropertyRevisionError('Moderation decisions, account merges and accepted rental applications cannot be reverted', 409);
+    }
+    const values: Record<string, unknown> = {};
+    const skipped: string[] = [];
+    for (const [field, { from }] of Object.entries(revision.changes)) {
+      if (UNREVERTABLE_FIELDS.has(field)) {
+        skipped.push(field);
+      } else {
+        values[field] = from;
+      }
+    }
+    if (Object.keys(values).length === 0) {
+      throw new PropertyRevisionError('Nothing in this revision can be reverted', 409);
+    }
+    // The listing would be left without an owner
+    if (typeof values.userId === 'number') {
+      const [owner] = await db.select({ id: users.id }).from(users).where(eq(users.id, values.userId)).limit(1);
+      if (!owner) {
+        throw new PropertyRevisionError('The previous owner of the listing no longer exists', 409);
+      }
+    }
+    return { propertyId: revision.propertyId, values: values as Partial<Property>, skipped };
+  }
+}
+
+// Export a singleton instance
+export const propertyRevisionService = new PropertyRevisionService();
@@ -0,0 +1,193 @@
+import { aliasedTable, and, between, countDistinct, desc, eq, inArray, ne, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  favorites,
+  properties,
+  propertyColumns,
+  type Property,
+  type RecommendationReason,
+  type RecommendedProperty,
+} from '@shared/schema';
+import { distanceKm } from './geo';
+
+// Weight of each similarity signal; they add up to 1
+const WEIGHTS = {
+  price: 0.25,
+  distance: 0.25,
+  type: 0.15,
+  area: 0.15,
+  bedrooms: 0.1,
+  features: 0.1,
+};
+// Share of the final score taken by co-favorites when the listing has any
+const CO_FAVORITE_WEIGHT = 0.3;
+// Fewer users than this saving both listings is not reported, so one user's favorites are not revealed
+const MIN_CO_FAVORITE_USERS = 2;
+// Relative difference at which price and area stop counting, and below which they are called similar
+const DIFFERENCE_LIMIT = 0.3;
+const SIMILAR_DIFFERENCE = 0.15;
+const DISTANCE_LIMIT_KM = 10;
+const NEARBY_KM = 5;
+const MIN_SCORE = 0.3;
+const MAX_CANDIDATES = 500;
+// Candidate search box around the listing, about 25 km north-south
+const CANDIDATE_BOX_DEGREES = 0.25;
+
+const relativeDifference = (a: number, b: number) => (a > 0 ? Math.abs(a - b) / a : a === b ? 0 : 1);
+
+/**
+ * How similar a candidate is to a listing, from 0 to 1, and the signals that made it similar,
+ * strongest first. Only listings of the same listing type are comparable.
+ */
+export function scoreSimilarity(source: Property, candidate: Property): { score: number; reasons: RecommendationReason[] } {
+  if (source.listingType !== candidate.listingType) {
+    return { score: 0, reasons: [] };
+  }
+  const signals: { weight: number; reason?: RecommendationReason }[] = [];
+
+  const priceDifference = relativeDifference(source.price, candidate.price);
+  signals.push({
+    weight: WEIGHTS.price * Math.max(0, 1 - priceDifference / DIFFERENCE_LIMIT),
+    reason: priceDifference <= SIMILAR_DIFFERENCE ? { kind: 'price' } : undefined,
+  });
+
+  if (source.latitude != null && source.longitude != null && candidate.latitude != null && candidate.longitude != null) {
+    const km = distanceKm(source.latitude, source.longitude, candidate.latitude, candidate.longitude);
+    signals.push({
+      weight: WEIGHTS.distance * Math.max(0, 1 - km / DISTANCE_LIMIT_KM),
+      reason: km <= NEARBY_KM ? { kind: 'distance', km: Math.round(km * 10) / 10 } : undefined,
+    });
+  } else if (source.city === candidate.city) {
+    // Without coordinates the same city is as good as a few kilometres away
+    signals.push({ weight: WEIGHTS.distance * 0.5 });
+  }
+
+  if (source.propertyType === candidate.propertyType) {
+    signals.push({ weight: WEIGHTS.type, reason: { kind: 'type' } });
+  }
+
+  const areaDifference = relativeDifference(source.area, candidate.area);
+  signals.push({
+    weight: WEIGHTS.area * Math.max(0, 1 - areaDifference / DIFFERENCE_LIMIT),
+    reason: areaDifference <= SIMILAR_DIFFERENCE ? { kind: 'area' } : undefined,
+  });
+
+  const bedroomDifference = Math.abs(source.bedrooms - candidate.bedrooms);
+  if (bedroomDifference <= 1) {
+    signals.push({
+      weight: WEIGHTS.bedrooms * (bedroomDifference === 0 ? 1 : 0.5),
+      reason: bedroomDifference === 0 ? { kind: 'bedrooms' } : undefined,
+    });
+  }
+
+  const sourceFeatures = new Set(source.features ?? []);
+  const candidateFeatures = new Set(candidate.features ?? []);
+  const shared = Array.from(candidateFeatures).filter((feature) => sourceFeatures.has(feature)).length;
+  const union = new Set([...Array.from(sourceFeatures), ...Array.from(candidateFeatures)]).size;
+  if (shared > 0) {
+    signals.push({
+      weight: WEIGHTS.features * (shared / union),
+      reason: shared >= 2 ? { kind: 'features', shared } : undefined,
+    });
+  }
+
+  return {
+    score: signals.reduce((sum, signal) => sum + signal.weight, 0),
+    reasons: signals
+      .filter((signal) => signal.reason)
+      .sort((a, b) => b.weight - a.weight)
+      .map((signal) => signal.reason!),
+  };
+}
+
+/**
+ * The candidates most similar to a listing, with co-favorites (users who saved the listing and also
+ * saved the candidate) blended into the score when there are any.
+ */
+export function rankRecommendations(
+  source: Property,
+  candidates: Property[],
+  coFavorites: Map<number, number>,
+  limit: number,
+): RecommendedProperty[] {
+  const maxUsers = Math.max(0, ...Array.from(coFavorites.values()));
+  return candidates
+    .filter((candidate) => candidate.id !== source.id)
+    .map((candidate) => {
+      const { score, reasons } = scoreSimilarity(source, candidate);
+      const users = coFavorites.get(candidate.id) ?? 0;
+      if (maxUsers === 0 || score === 0) {
+        return { ...candidate, score, reasons };
+      }
+      return {
+        ...candidate,
+        score: (1 - CO_FAVORITE_WEIGHT) * score + CO_FAVORITE_WEIGHT * (users / maxUsers),
+        reasons: users > 0 ? [...reasons, { kind: 'coFavorites' as const, users }] : reasons,
+      };
+    })
+    .filter((recommendation) => recommendation.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((recommendation) => ({ ...recommendation, score: Math.round(recommendation.score * 100) / 100 }));
+}
+
+/**
+ * Recommends published, available listings similar to a listing: close in price, size and location,
+ * of the same type and with the same features, and saved by the same users.
+ */
+export class RecommendationService {
+  async recommend(propertyId: number, limit: number, options: { coFavorites: boolean }): Promise<RecommendedProperty[]> {
+    const [source] = await db.select(propertyColumns).from(properties).where(eq(properties.id, propertyId));
+    if (!source) return [];
+
+    const coFavorites = options.coFavorites ? await this.coFavorites(propertyId) : new Map<number, number>();
+    const available = and(
+      ne(properties.id, propertyId),
+      eq(properties.listingType, source.listingType),
+      eq(properties.moderationStatus, 'published'),
+      eq(properties.status, 'active'),
+    );
+    const nearby = source.latitude != null && source.longitude != null
+      ? or(
+          eq(properties.city, source.city),
+          and(
+            between(properties.latitude, source.latitude - CANDIDATE_BOX_DEGREES, source.latitude + CANDIDATE_BOX_DEGREES),
+            between(properties.longitude, source.longitude - CANDIDATE_BOX_DEGREES * 2, source.longitude + CANDIDATE_BOX_DEGREES * 2),
+          ),
+        )
+      : eq(properties.city, source.city);
+    // Anything outside this band scores nothing on price
+    const priceBand = between(properties.price, source.price * (1 - DIFFERENCE_LIMIT), source.price * (1 + DIFFERENCE_LIMIT));
+
+    const [similar, coFavorited] = await Promise.all([
+      db.select(propertyColumns).from(properties)
+        .where(and(available, nearby, priceBand))
+        .orderBy(desc(properties.createdAt))
+        .limit(MAX_CANDIDATES),
+      coFavorites.size > 0
+        ? db.select(propertyColumns).from(properties).where(and(available, inArray(properties.id, Array.from(coFavorites.keys()))))
+        : Promise.resolve([]),
+    ]);
+
+    const candidates = new Map([...similar, ...coFavorited].map((candidate) => [candidate.id, candidate]));
+    return rankRecommendations(source, Array.from(candidates.values()), coFavorites, limit);
+  }
+
+  // Listings saved by users who saved this one, with how many such users saved each
+  private async coFavorites(propertyId: number): Promise<Map<number, number>> {
+    const other = aliasedTable(favorites, 'other_favorites');
+    const rows = await db
+      .select({ propertyId: other.propertyId, users: countDistinct(other.userId) })
+      .from(favorites)
+      .innerJoin(other, and(eq(other.userId, favorites.userId), ne(other.propertyId, propertyId)))
+      .where(eq(favorites.propertyId, propertyId))
+      .groupBy(other.propertyId)
+      .having(sql`count(distinct ${other.userId}) >= ${MIN_CO_FAVORITE_USERS}`)
+      .orderBy(desc(countDistinct(other.userId)))
+      .limit(MAX_CANDIDATES);
+    return new Map(rows.map((row) => [row.propertyId, row.users]));
+  }
+}
+
+// Export a singleton instance
+export const recommendationService = new RecommendationService();
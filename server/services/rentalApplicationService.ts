@@ -0,0 +1,247 @@
+import { and, desc, eq, inArray, ne } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  properties, propertyColumns, users, rentalApplications, INCOME_RANGES,
+  type RentalApplication, type RentalApplicationStatus,
+} from '@shared/schema';
+import { mailService } from './mailService';
+import { propertyHistoryService } from './propertyHistoryService';
+import { propertyRevisionService } from './propertyRevisionService';
+import type { SessionUser } from '../session';
+
+export class RentalApplicationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RentalApplicationError';
+  }
+}
+
+const RENTAL_LISTING_TYPES = ['rent', 'pg'];
+// Applications the landlord has not decided on yet
+const OPEN_STATUSES: RentalApplicationStatus[] = ['submitted', 'shortlisted'];
+
+const applicationInputSchema = z.object({
+  householdSize: z.coerce.number().int().min(1).max(20),
+  incomeRange: z.enum(INCOME_RANGES),
+  moveInDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use the format YYYY-MM-DD'),
+  pets: z.boolean().default(false),
+  message: z.string().trim().max(2000).nullish(),
+});
+
+export type RentalApplicationInput = z.input<typeof applicationInputSchema>;
+
+export interface ApplicationView extends RentalApplication {
+  property: { id: number; title: string; address: string; city: string; price: number; status: string };
+  // The other side: the landlord for an applicant, the applicant for a landlord
+  contact: { name: string; email: string; phone: string | null };
+}
+
+// Status changes the landlord (or an admin) may make, by current status
+const LANDLORD_TRANSITIONS: Partial<Record<RentalApplicationStatus, RentalApplicationStatus[]>> = {
+  submitted: ['shortlisted', 'accepted', 'declined'],
+  shortlisted: ['submitted', 'accepted', 'declined'],
+};
+
+/**
+ * Rental applications. A prospective tenant applies for a rent or pg listing once; the
+ * landlord shortlists, declines or accepts. Accepting one application marks the listing
+ * rented and declines the other open applications, and applicants are told by mail.
+ */
+export class RentalApplicationService {
+  async apply(propertyId: number, user: SessionUser, input: RentalApplicationInput): Promise<RentalApplication> {
+    const parsed = applicationInputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new RentalApplicationError(parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '), 400);
+    }
+    const [property] = await db.select(propertyColumns).from(properties).where(eq(properties.id, propertyId)).limit(1);
+    if (!property || property.moderationStatus !== 'published') {
+      throw new RentalApplicationError('Property not found', 404);
+    }
+    if (!RENTAL_LISTING_TYPES.includes(property.listingType)) {
+      throw new RentalApplicationError('Only rental listings take applications', 400);
+    }
+    if (property.status !== 'active') {
+      throw new RentalApplicationError('This listing is no longer available', 409);
+    }
+    if (property.userId === user.id) {
+      throw new RentalApplicationError('You cannot apply for your own listing', 400);
+    }
+
+    const [existing] = await db.select({ status: rentalApplications.status })
+      .from(rentalApplications)
+      .where(and(eq(rentalApplications.propertyId, propertyId), eq(rentalApplications.userId, user.id)))
+      .limit(1);
+    if (existing && existing.status !== 'withdrawn') {
+      throw new RentalApplicationError('You have already applied for this listing', 409);
+    }
+
+    // Applying again after withdrawing reuses the earlier row
+    const now = new Date();
+    const values = { ...parsed.data, message: parsed.data.message || null, status: 'submitted', decidedAt: null, createdAt: now, updatedAt: now };
+    const [application] = await db.insert(rentalApplications)
+      .values({ propertyId, userId: user.id, ...values })
+      .onConflictDoUpdate({ target: [rentalApplications.propertyId, rentalApplications.userId], set: values })
+      .returning();
+
+    const [landlord] = await db.select({ name: users.name, email: users.email }).from(users).where(eq(users.id, property.userId)).limit(1);
+    if (landlord) {
+      await mailService.notifyUser(landlord.email, landlord.name,
+        `New rental application: ${property.title}`,
+        `${user.name} applied to rent "${property.title}" from ${application.moveInDate} for a household of ${application.householdSize}.`
+          + (application.message ? `\n\nTheir message: ${application.message}` : ''),
+        { path: '/my-properties', label: 'Your rental applications' });
+    }
+    return application;
+  }
+
+  /**
+   * Owner of the listing an application is for, for ownership checks; undefined when it does not exist.
+   */
+  async applicationOwner(applicationId: number): Promise<number | undefined> {
+    const [row] = await db.select({ userId: properties.userId })
+      .from(rentalApplications)
+      .innerJoin(properties, eq(properties.id, rentalApplications.propertyId))
+      .where(eq(rentalApplications.id, applicationId))
+      .limit(1);
+    return row?.userId;
+  }
+
+  /**
+   * Applications the user made, newest first.
+   */
+  async applicationsBy(userId: number): Promise<ApplicationView[]> {
+    const rows = await this.select(properties.userId)
+      .where(eq(rentalApplications.userId, userId))
+      .orderBy(desc(rentalApplications.createdAt));
+    return rows.map((row) => ({ ...row.application, property: row.property, contact: row.contact }));
+  }
+
+  /**
+   * Applications for the landlord's listings, optionally for one listing, newest first.
+   * Withdrawn applications are left out.
+   */
+  async applicationsFor(landlordId: number, propertyId?: number): Promise<ApplicationView[]> {
+    const rows = await this.select(rentalApplications.userId)
+      .where(and(
+        eq(properties.userId, landlordId),
+        ne(rentalApplications.status, 'withdrawn'),
+        propertyId !== undefined ? eq(rentalApplications.propertyId, propertyId) : undefined,
+      ))
+      .orderBy(desc(rentalApplications.createdAt));
+    return rows.map((row) => ({ ...row.application, property: row.property, contact: row.contact }));
+  }
+
+  /**
+   * Shortlists, declines or accepts an application as the landlord or an admin.
+   * Accepting locks the listing, marks it rented and declines the other open applications.
+   */
+  async decide(applicationId: number, status: RentalApplicationStatus, actor: SessionUser): Promise<RentalApplication> {
+    if (status === 'withdrawn') {
+      throw new RentalApplicationError('Only the applicant can withdraw an application', 400);
+    }
+    const { application, property, declined } = await db.transaction(async (tx) => {
+      const [target] = await tx.select({ propertyId: rentalApplications.propertyId })
+        .from(rentalApplications)
+        .where(eq(rentalApplications.id, applicationId))
+        .limit(1);
+      if (!target) {
+        throw new RentalApplicationError('Application not found', 404);
+      }
+      // Decisions on one listing run one at a time, so two applications cannot both be accepted
+      const [listing] = await tx.select(propertyColumns).from(properties).where(eq(properties.id, target.propertyId)).for('update');
+      const [current] = await tx.select().from(rentalApplications).where(eq(rentalApplications.id, applicationId));
+      if (!(LANDLORD_TRANSITIONS[current.status as RentalApplicationStatus] ?? []).includes(status)) {
+        throw new RentalApplicationError(`A ${current.status} application cannot be ${status}`, 409);
+      }
+      if (status === 'accepted' && listing.status !== 'active') {
+        throw new RentalApplicationError('The listing is no longer available', 409);
+      }
+
+      const now = new Date();
+      const decided = status === 'accepted' || status === 'declined';
+      const [application] = await tx.update(rentalApplications)
+        .set({ status, decidedAt: decided ? now : null, updatedAt: now })
+        .where(eq(rentalApplications.id, applicationId))
+        .returning();
+      if (status !== 'accepted') {
+        return { application, property: listing, declined: [] as number[] };
+      }
+
+      const others = await tx.update(rentalApplications)
+        .set({ status: 'declined', decidedAt: now, updatedAt: now })
+        .where(and(
+          eq(rentalApplications.propertyId, listing.id),
+          ne(rentalApplications.id, applicationId),
+          inArray(rentalApplications.status, OPEN_STATUSES),
+        ))
+        .returning({ userId: rentalApplications.userId });
+      const [rented] = await tx.update(properties)
+        .set({ status: 'rented' })
+        .where(eq(properties.id, listing.id))
+        .returning(propertyColumns);
+      await propertyHistoryService.recordChanges(tx, listing, rented);
+      await propertyRevisionService.record(tx, listing, rented, { actorId: actor.id, source: 'rental' });
+      return { application, property: listing, declined: others.map((other) => other.userId) };
+    });
+
+    if (status === 'accepted' || status === 'declined') {
+      const recipients = await db.select({ id: users.id, name: users.name, email: users.email })
+        .from(users)
+        .where(inArray(users.id, [application.userId, ...declined]));
+      for (const recipient of recipients) {
+        const accepted = recipient.id === application.userId && status === 'accepted';
+        await mailService.notifyUser(recipient.email, recipient.name,
+          `${accepted ? 'Application accepted' : 'Application declined'}: ${property.title}`,
+          accepted
+            ? `Good news: your application to rent "${property.title}" was accepted. The landlord will contact you about the lease.`
+            : `Your application to rent "${property.title}" was not successful this time.`,
+          { path: '/messages', label: 'Your rental applications' });
+      }
+    }
+    return application;
+  }
+
+  /**
+   * Withdraws the user's own open application.
+   */
+  async withdraw(applicationId: number, user: SessionUser): Promise<RentalApplication> {
+    const [withdrawn] = await db.update(rentalApplications)
+      .set({ status: 'withdrawn', updatedAt: new Date() })
+      .where(and(
+        eq(rentalApplications.id, applicationId),
+        eq(rentalApplications.userId, user.id),
+        inArray(rentalApplications.status, OPEN_STATUSES),
+      ))
+      .returning();
+    if (!withdrawn) {
+      const [existing] = await db.select({ userId: rentalApplications.userId })
+        .from(rentalApplications)
+        .where(eq(rentalApplications.id, applicationId))
+        .limit(1);
+      if (!existing || existing.userId !== user.id) {
+        throw new RentalApplicationError('Application not found', 404);
+      }
+      throw new RentalApplicationError('Only open applications can be withdrawn', 409);
+    }
+    return withdrawn;
+  }
+
+  // Applications joined with their listing and the user on the other side
+  private select(contactId: typeof properties.userId | typeof rentalApplications.userId) {
+    return db.select({
+      application: rentalApplications,
+      property: {
+        id: properties.id, title: properties.title, address: properties.address,
+        city: properties.city, price: properties.price, status: properties.status,
+      },
+      contact: { name: users.name, email: users.email, phone: users.phone },
+    })
+      .from(rentalApplications)
+      .innerJoin(properties, eq(properties.id, rentalApplications.propertyId))
+      .innerJoin(users, eq(users.id, contactId));
+  }
+}
+
+// Export a singleton instance
+export const rentalApplicationService = new RentalApplicationService();
@@ -0,0 +1,24 @@
+/**
+ * Middle value of a non-empty list, the mean of the two middle values for an even count.
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * The value below which the given share (0–1) of the total weight lies, of a non-empty list.
+ */
+export function weightedQuantile(items: { value: number; weight: number }[], quantile: number): number {
+  const sorted = [...items].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, item) => sum + item.weight, 0);
+  let cumulative = 0;
+  for (const item of sorted) {
+    cumulative += item.weight;
+    if (cumulative >= quantile * total) {
+      return item.value;
+    }
+  }
+  return sorted[sorted.length - 1].value;
+}
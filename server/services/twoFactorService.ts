@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { and, eq, isNull, lt, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { users, userTwoFactor, twoFactorBackupCodes, type User } from '@shared/schema';
+
+// RFC 6238 defaults understood by every authenticator app
+const TOTP_ISSUER = 'HomeHarbor';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_WINDOW = 1; // Accept one step of clock drift either way
+const BACKUP_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  canEnrol: boolean;
+  backupCodesRemaining: number;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (let i = 0; i < clean.length; i++) {
+    const index = BASE32_ALPHABET.indexOf(clean[i]);
+    if (index === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hotp(secret: Buffer, counter: number): string {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', secret).update(buffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return code.toString().padStart(TOTP_DIGITS, '0');
+}
+
+const currentStep = () => Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+const normalizeBackupCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+const hashBackupCode = (code: string) => crypto.createHash('sha256').update(normalizeBackupCode(code)).digest('hex');
+
+/**
+ * TOTP second factor: enrolment with a provisioning URI/QR code, code verification
+ * and single-use backup codes. Mandatory for admins, optional for agents.
+ */
+export class TwoFactorService {
+  isRequiredFor(user: Pick<User, 'role'>): boolean {
+    return user.role === 'admin';
+  }
+
+  canEnrol(user: Pick<User, 'role'>): boolean {
+    return user.role === 'admin' || user.role === 'agent';
+  }
+
+  async getStatus(user: Pick<User, 'id' | 'role' | 'twoFactorEnabled'>): Promise<TwoFactorStatus> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(twoFactorBackupCodes)
+      .where(and(eq(twoFactorBackupCodes.userId, user.id), isNull(twoFactorBackupCodes.usedAt)));
+    return {
+      enabled: user.twoFactorEnabled,
+      required: this.isRequiredFor(user),
+      canEnrol: this.canEnrol(user),
+      backupCodesRemaining: user.twoFactorEnabled ? count : 0,
+    };
+  }
+
+  /**
+   * Creates a new (unconfirmed) secret for the user, replacing any pending one.
+   * The second factor only becomes active once a code is confirmed with `confirmEnrolment`.
+   */
+  async beginEnrolment(user: Pick<User, 'id' | 'email'>): Promise<TwoFactorEnrolment> {
+    const secret = base32Encode(crypto.randomBytes(20));
+    await db.insert(userTwoFactor)
+      .values({ userId: user.id, secret })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secret, lastUsedStep: null, confirmedAt: null, createdAt: new Date() },
+      });
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}` +
+      `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+    return { secret, otpauthUrl, qrCodeDataUrl };
+  }
+
+  /**
+   * Activates a pending enrolment if the code matches its secret.
+   * @returns freshly generated backup codes, or null if the code is wrong or nothing is pending
+   */
+  async confirmEnrolment(userId: number, code: string): Promise<string[] | null> {
+    const [row] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId)).limit(1);
+    if (!row || row.confirmedAt) return null;
+
+    const step = this.matchTotp(row.secret, code);
+    if (step === null) return null;
+
+    return db.transaction(async (tx) => {
+      await tx.update(userTwoFactor)
+        .set({ confirmedAt: new Date(), lastUsedStep: step })
+        .where(eq(userTwoFactor.userId, userId));
+      await tx.update(users)
+        .set({ twoFactorEnabled: true, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+      return this.replaceBackupCodes(tx, userId);
+    });
+  }
+
+  /**
+   * Checks a TOTP code or an unused backup code for a user with an active second factor.
+   * Accepted codes cannot be used again.
+   */
+  async verify(userId: number, code: string): Promise<boolean> {
+    const [row] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId)).limit(1);
+    if (!row || !row.confirmedAt) return false;
+
+    const step = this.matchTotp(row.secret, code);
+    if (step !== null) {
+      // Only move forward in time, so a code that was just accepted is rejected on replay
+      const [updated] = await db.update(userTwoFactor)
+        .set({ lastUsedStep: step })
+        .where(and(
+          eq(userTwoFactor.userId, userId),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step)),
+        ))
+        .returning({ userId: userTwoFactor.userId });
+      return !!updated;
+    }
+
+    const [usedBackupCode] = await db.update(twoFactorBackupCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorBackupCodes.userId, userId),
+        eq(twoFactorBackupCodes.codeHash, hashBackupCode(code)),
+        isNull(twoFactorBackupCodes.usedAt),
+      ))
+      .returning({ id: twoFactorBackupCodes.id });
+    return !!usedBackupCode;
+  }
+
+  async regenerateBackupCodes(userId: number): Promise<string[]> {
+    return db.transaction((tx) => this.replaceBackupCodes(tx, userId));
+  }
+
+  async disable(userId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+      await tx.update(users)
+        .set({ twoFactorEnabled: false, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+    });
+  }
+
+  /**
+   * @returns the matching time step, or null when the code is not a valid TOTP code right now
+   */
+  private matchTotp(secret: string, code: string): number | null {
+    const candidate = code.replace(/\s/g, '');
+    if (!/^\d+$/.test(candidate) || candidate.length !== TOTP_DIGITS) return null;
+
+    const key = base32Decode(secret);
+    const now = currentStep();
+    for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+      const expected = hotp(key, now + offset);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(candidate))) {
+        return now + offset;
+      }
+    }
+    return null;
+  }
+
+  private async replaceBackupCodes(tx: Pick<typeof db, 'insert' | 'delete'>, userId: number): Promise<string[]> {
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    await tx.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+    await tx.insert(twoFactorBackupCodes).values(codes.map((code) => ({ userId, codeHash: hashBackupCode(code) })));
+    return codes;
+  }
+}
+
+// Export a singleton instance
+export const twoFactorService = new TwoFactorService();
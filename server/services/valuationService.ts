@@ -0,0 +1,269 @@
+import { z } from 'zod';
+import { and, between, desc, eq, gt, inArray, ne, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  properties,
+  type Property,
+  type Valuation,
+  type ValuationComparable,
+  type ValuationConfidence,
+} from '@shared/schema';
+import { geocodingService } from './geocodingService';
+import { distanceKm } from './geo';
+import { weightedQuantile } from './statistics';
+
+// The home to value: a listing, or the details entered in the "estimate my home" form
+export interface ValuationSubject {
+  listingType: string;
+  propertyType: string;
+  area: number; // Square metres
+  buildYear?: number | null;
+  features?: string[] | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  postalCode?: string | null;
+  city: string;
+  // A listing is not its own comparable
+  excludeId?: number;
+}
+
+export const valuationRequestSchema = z.object({
+  address: z.string().trim().max(200).optional(),
+  postalCode: z.string().trim().max(10).optional(),
+  city: z.string().trim().min(1).max(100),
+  listingType: z.string().default('buy'),
+  propertyType: z.string().min(1),
+  area: z.number().positive().max(100000),
+  buildYear: z.number().int().min(1800).max(new Date().getFullYear() + 5).optional(),
+  features: z.array(z.string().max(50)).max(50).optional(),
+});
+export type ValuationRequest = z.infer<typeof valuationRequestSchema>;
+
+type Candidate = Pick<Property,
+  'id' | 'title' | 'address' | 'city' | 'postalCode' | 'price' | 'area' | 'propertyType' | 'buildYear'
+  | 'status' | 'features' | 'latitude' | 'longitude'>;
+
+// Asking prices of listings still for sale and the last prices of sold and rented ones
+const COMPARABLE_STATUSES = ['active', 'sold', 'rented'];
+const MIN_COMPARABLES = 3;
+const MAX_CANDIDATES = 500;
+const SHOWN_COMPARABLES = 10;
+// Farther listings are not comparable; nearer ones count for half every DISTANCE_HALVING_KM
+const MAX_DISTANCE_KM = 10;
+const DISTANCE_HALVING_KM = 2;
+// Listings more than twice or less than half the size are not comparable
+const MAX_SIZE_RATIO = 2;
+// Build years this far apart count for the least
+const AGE_SPAN_YEARS = 50;
+// Weight kept by a listing of another property type, e.g. a townhouse valuing an apartment
+const OTHER_TYPE_WEIGHT = 0.3;
+// Without coordinates, the same postal code or city stands in for distance
+const SAME_POSTAL_CODE_WEIGHT = 0.5;
+const SAME_CITY_WEIGHT = 0.25;
+// Thresholds on the effective number of comparables and the spread of their prices per m²
+const CONFIDENCE_LEVELS: { confidence: ValuationConfidence; minComparables: number; maxSpread: number }[] = [
+  { confidence: 'high', minComparables: 8, maxSpread: 0.2 },
+  { confidence: 'medium', minComparables: 4, maxSpread: 0.35 },
+];
+
+const candidateColumns = {
+  id: properties.id,
+  title: properties.title,
+  address: properties.address,
+  city: properties.city,
+  postalCode: properties.postalCode,
+  price: properties.price,
+  area: properties.area,
+  propertyType: properties.propertyType,
+  buildYear: properties.buildYear,
+  status: properties.status,
+  features: properties.features,
+  latitude: properties.latitude,
+  longitude: properties.longitude,
+};
+
+// Sale prices to the nearest thousand, rents to the nearest ten
+const roundPrice = (price: number) => (price >= 10000 ? Math.round(price / 1000) * 1000 : Math.round(price / 10) * 10);
+
+/**
+ * How much a candidate says about the subject's value, from 0 to 1: nearer, closer in size and age,
+ * of the same type and with the same features counts for more.
+ */
+export function comparableWeight(subject: ValuationSubject, candidate: Candidate): { weight: number; distanceKm: number | null } {
+  const sizeRatio = Math.abs(Math.log(candidate.area / subject.area));
+  const size = Math.max(0, 1 - sizeRatio / Math.log(MAX_SIZE_RATIO));
+
+  let km: number | null = null;
+  let distance = 0;
+  if (subject.latitude != null && subject.longitude != null && candidate.latitude != null && candidate.longitude != null) {
+    km = distanceKm(subject.latitude, subject.longitude, candidate.latitude, candidate.longitude);
+    distance = km <= MAX_DISTANCE_KM ? 0.5 ** (km / DISTANCE_HALVING_KM) : 0;
+  } else if (subject.postalCode && subject.postalCode === candidate.postalCode) {
+    distance = SAME_POSTAL_CODE_WEIGHT;
+  } else if (subject.city.toLowerCase() === candidate.city.toLowerCase()) {
+    distance = SAME_CITY_WEIGHT;
+  }
+
+  const age = subject.buildYear != null && candidate.buildYear != null
+    ? Math.max(0.2, 1 - Math.abs(subject.buildYear - candidate.buildYear) / AGE_SPAN_YEARS)
+    : 0.6;
+
+  const type = subject.propertyType === candidate.propertyType ? 1 : OTHER_TYPE_WEIGHT;
+
+  let features = 1;
+  if (subject.features && subject.features.length > 0) {
+    const wanted = new Set(subject.features.map((feature) => feature.toLowerCase()));
+    const offered = new Set((candidate.features ?? []).map((feature) => feature.toLowerCase()));
+    const shared = Array.from(offered).filter((feature) => wanted.has(feature)).length;
+    const union = new Set([...Array.from(wanted), ...Array.from(offered)]).size;
+    features = 0.7 + 0.3 * (shared / union);
+  }
+
+  return { weight: size * distance * age * type * features, distanceKm: km === null ? null : Math.round(km * 10) / 10 };
+}
+
+/**
+ * A value range for the subject from the prices per m² of its comparables: the weighted median,
+ * between the weighted quartiles. With too few comparables nearby it falls back to the median of
+ * the city's listings of the same type with low confidence, and to no estimate when even those are too few.
+ */
+export function estimateFromComparables(subject: ValuationSubject, candidates: Candidate[]): Valuation {
+  const comparable = candidates.filter((candidate) => candidate.id !== subject.excludeId && candidate.area > 0 && candidate.price > 0);
+
+  const weighted = comparable
+    .map((candidate) => ({ candidate, ...comparableWeight(subject, candidate) }))
+    .filter(({ weight }) => weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  let basis: Valuation['basis'] = 'nearby';
+  let used = weighted;
+  if (weighted.length < MIN_COMPARABLES) {
+    const sameCity = comparable
+      .filter((candidate) => candidate.propertyType === subject.propertyType && candidate.city.toLowerCase() === subject.city.toLowerCase())
+      .map((candidate) => ({ candidate, weight: 1, distanceKm: comparableWeight(subject, candidate).distanceKm }));
+    if (sameCity.length >= MIN_COMPARABLES) {
+      basis = 'city';
+      used = sameCity;
+    }
+  }
+
+  const totalWeight = used.reduce((sum, item) => sum + item.weight, 0);
+  const comparables: ValuationComparable[] = used.slice(0, SHOWN_COMPARABLES).map(({ candidate, weight, distanceKm: km }) => ({
+    id: candidate.id,
+    title: candidate.title,
+    address: candidate.address,
+    city: candidate.city,
+    price: candidate.price,
+    area: candidate.area,
+    propertyType: candidate.propertyType,
+    buildYear: candidate.buildYear,
+    status: candidate.status,
+    pricePerSqm: Math.round(candidate.price / candidate.area),
+    distanceKm: km,
+    weight: Math.round((weight / totalWeight) * 100) / 100,
+  }));
+
+  if (used.length < MIN_COMPARABLES) {
+    // The few comparables there are still show why there is no estimate
+    return { estimate: null, confidence: null, basis: null, comparables, comparableCount: used.length };
+  }
+
+  const pricesPerSqm = used.map(({ candidate, weight }) => ({ value: candidate.price / candidate.area, weight }));
+  const median = weightedQuantile(pricesPerSqm, 0.5);
+  const lower = weightedQuantile(pricesPerSqm, 0.25);
+  const upper = weightedQuantile(pricesPerSqm, 0.75);
+
+  // Kish's effective sample size: a few heavy comparables count as few, however many light ones there are
+  const effectiveCount = totalWeight ** 2 / used.reduce((sum, item) => sum + item.weight ** 2, 0);
+  const spread = (upper - lower) / median;
+  const confidence = basis === 'city'
+    ? 'low'
+    : CONFIDENCE_LEVELS.find((level) => effectiveCount >= level.minComparables && spread <= level.maxSpread)?.confidence ?? 'low';
+
+  return {
+    estimate: {
+      low: roundPrice(lower * subject.area),
+      value: roundPrice(median * subject.area),
+      high: roundPrice(upper * subject.area),
+      pricePerSqm: Math.round(median),
+    },
+    confidence,
+    basis,
+    comparables,
+    comparableCount: used.length,
+  };
+}
+
+/**
+ * Automated valuations: what a listing or a home described by its owner would fetch, estimated
+ * from comparable active, sold and rented listings of the same listing type around it.
+ */
+export class ValuationService {
+  /**
+   * The estimate for a published listing, with its asking price against it.
+   */
+  async forProperty(property: Property): Promise<Valuation> {
+    const valuation = await this.valuate({ ...property, excludeId: property.id });
+    if (!valuation.estimate) {
+      return valuation;
+    }
+    return {
+      ...valuation,
+      askingPrice: property.price,
+      differencePercent: Math.round((property.price / valuation.estimate.value - 1) * 100),
+    };
+  }
+
+  /**
+   * The estimate for a home entered in the form. Its address is geocoded so nearby listings weigh more;
+   * without a known address the postal code and city stand in.
+   */
+  async estimate(request: ValuationRequest): Promise<Valuation> {
+    let location: { latitude: number; longitude: number } | null = null;
+    if (request.address || request.postalCode) {
+      try {
+        location = await geocodingService.geocode({ address: request.address ?? '', postalCode: request.postalCode, city: request.city });
+      } catch (error) {
+        console.error('Valuation: geocoding failed, estimating without coordinates:', error);
+      }
+    }
+    return this.valuate({ ...request, postalCode: request.postalCode || null, ...location });
+  }
+
+  private async valuate(subject: ValuationSubject): Promise<Valuation> {
+    const place: SQL[] = [eq(sql`lower(${properties.city})`, subject.city.toLowerCase())];
+    if (subject.postalCode) {
+      place.push(eq(properties.postalCode, subject.postalCode));
+    }
+    const located = subject.latitude != null && subject.longitude != null;
+    if (located) {
+      const latDelta = MAX_DISTANCE_KM / 111;
+      const lonDelta = latDelta / Math.cos((subject.latitude! * Math.PI) / 180);
+      place.push(and(
+        between(properties.latitude, subject.latitude! - latDelta, subject.latitude! + latDelta),
+        between(properties.longitude, subject.longitude! - lonDelta, subject.longitude! + lonDelta),
+      )!);
+    }
+
+    const candidates = await db.select(candidateColumns).from(properties)
+      .where(and(
+        subject.excludeId !== undefined ? ne(properties.id, subject.excludeId) : undefined,
+        eq(properties.listingType, subject.listingType),
+        eq(properties.moderationStatus, 'published'),
+        inArray(properties.status, COMPARABLE_STATUSES),
+        gt(properties.area, 0),
+        gt(properties.price, 0),
+        or(...place),
+      ))
+      // Nearest first when the home has coordinates, so the cap drops the farthest
+      .orderBy(located
+        ? sql`abs(${properties.latitude} - ${subject.latitude}) + abs(${properties.longitude} - ${subject.longitude}) nulls last`
+        : desc(properties.createdAt))
+      .limit(MAX_CANDIDATES);
+
+    return estimateFromComparables(subject, candidates);
+  }
+}
+
+// Export a singleton instance
+export const valuationService = new ValuationService();
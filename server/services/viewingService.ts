@@ -0,0 +1,429 @@
+import { and, asc, count, eq, gt, gte, inArray, isNull, lt, ne, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  properties, propertyColumns, users, viewingSlots, viewingBookings, VIEWING_SLOT_TYPES,
+  type ViewingSlot, type ViewingBooking,
+} from '@shared/schema';
+import { env } from '../config/env';
+import { mailService } from './mailService';
+import type { SessionUser } from '../session';
+
+export class ViewingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ViewingError';
+  }
+}
+
+const MAX_SLOT_CAPACITY = 100;
+const MAX_SLOT_HOURS = 12;
+// Past viewings stay in the calendar and booking lists for this long
+const HISTORY_DAYS = 30;
+// Times in mails are written in the local time of the listings
+const TIME_ZONE = 'Europe/Helsinki';
+const VIEWINGS_LINK = { path: '/messages', label: 'Your viewings' };
+
+const slotInputSchema = z.object({
+  type: z.enum(VIEWING_SLOT_TYPES).default('private'),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  capacity: z.coerce.number().int().min(1).max(MAX_SLOT_CAPACITY).default(1),
+  notes: z.string().trim().max(500).nullish(),
+});
+
+export type ViewingSlotInput = z.input<typeof slotInputSchema>;
+
+export interface SlotView extends ViewingSlot {
+  booked: number;
+  remaining: number;
+  // The viewer's active booking in the slot
+  myBookingId: number | null;
+}
+
+export interface BookingView {
+  id: number;
+  status: string;
+  note: string | null;
+  createdAt: Date;
+  cancelledAt: Date | null;
+  slot: Pick<ViewingSlot, 'id' | 'type' | 'startsAt' | 'endsAt' | 'notes'>;
+  property: { id: number; title: string; address: string; city: string };
+  // The other side: the listing owner for a buyer, the buyer for an owner
+  contact: { name: string; email: string; phone: string | null };
+}
+
+const formatTime = (date: Date) =>
+  date.toLocaleString('en-GB', { timeZone: TIME_ZONE, dateStyle: 'medium', timeStyle: 'short' });
+
+// iCalendar text values escape backslashes, separators and line breaks
+const icsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const icsTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Content lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string): string => {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (parts.length === 0 ? 75 : 74), bytes.length);
+    // Do not split a multi-byte character
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(bytes.subarray(start, end).toString('utf8'));
+    start = end;
+  }
+  return parts.join('\r\n ');
+};
+
+/**
+ * Viewings and open houses. Listing owners publish slots with a capacity, signed-in buyers
+ * book a place and either side can cancel it. A cancelled booking is kept so both sides still
+ * see it, and both sides are told by mail when a booking is made or cancelled.
+ */
+export class ViewingService {
+  /**
+   * Upcoming slots of a listing with their free places, earliest first.
+   */
+  async slotsForProperty(propertyId: number, viewerId?: number): Promise<SlotView[]> {
+    const rows = await db.select({
+      slot: viewingSlots,
+      booked: sql<number>`count(${viewingBookings.id}) filter (where ${viewingBookings.status} = 'booked')`.mapWith(Number),
+    })
+      .from(viewingSlots)
+      .leftJoin(viewingBookings, eq(viewingBookings.slotId, viewingSlots.id))
+      .where(and(eq(viewingSlots.propertyId, propertyId), gt(viewingSlots.endsAt, new Date()), isNull(viewingSlots.cancelledAt)))
+      .groupBy(viewingSlots.id)
+      .orderBy(asc(viewingSlots.startsAt));
+
+    const mine = new Map<number, number>();
+    if (viewerId && rows.length > 0) {
+      const bookings = await db.select({ id: viewingBookings.id, slotId: viewingBookings.slotId })
+        .from(viewingBookings)
+        .where(and(
+          eq(viewingBookings.userId, viewerId),
+          eq(viewingBookings.status, 'booked'),
+          inArray(viewingBookings.slotId, rows.map((row) => row.slot.id)),
+        ));
+      bookings.forEach((booking) => mine.set(booking.slotId, booking.id));
+    }
+
+    return rows.map(({ slot, booked }) => ({
+      ...slot,
+      booked,
+      remaining: Math.max(slot.capacity - booked, 0),
+      myBookingId: mine.get(slot.id) ?? null,
+    }));
+  }
+
+  async createSlot(propertyId: number, input: ViewingSlotInput): Promise<ViewingSlot> {
+    const parsed = slotInputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ViewingError(parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '), 400);
+    }
+    const { type, startsAt, endsAt, capacity, notes } = parsed.data;
+    if (startsAt <= new Date()) {
+      throw new ViewingError('A viewing must start in the future', 400);
+    }
+    if (endsAt <= startsAt) {
+      throw new ViewingError('A viewing must end after it starts', 400);
+    }
+    if (endsAt.getTime() - startsAt.getTime() > MAX_SLOT_HOURS * 60 * 60 * 1000) {
+      throw new ViewingError(`A viewing can last at most ${MAX_SLOT_HOURS} hours`, 400);
+    }
+
+    const [overlapping] = await db.select({ id: viewingSlots.id })
+      .from(viewingSlots)
+      .where(and(
+        eq(viewingSlots.propertyId, propertyId),
+        lt(viewingSlots.startsAt, endsAt),
+        gt(viewingSlots.endsAt, startsAt),
+        isNull(viewingSlots.cancelledAt),
+      ))
+      .limit(1);
+    if (overlapping) {
+      throw new ViewingError('The listing already has a viewing at that time', 409);
+    }
+
+    const [slot] = await db.insert(viewingSlots)
+      .values({ propertyId, type, startsAt, endsAt, capacity, notes: notes || null })
+      .returning();
+    return slot;
+  }
+
+  /**
+   * Owner of the listing a slot belongs to, for ownership checks; undefined when the slot does not exist.
+   */
+  async slotOwner(slotId: number): Promise<number | undefined> {
+    const [row] = await db.select({ userId: properties.userId })
+      .from(viewingSlots)
+      .innerJoin(properties, eq(properties.id, viewingSlots.propertyId))
+      .where(and(eq(viewingSlots.id, slotId), isNull(viewingSlots.cancelledAt)))
+      .limit(1);
+    return row?.userId;
+  }
+
+  /**
+   * Removes a slot. Its active bookings are cancelled by `actorId`, and a slot that has bookings is
+   * only marked cancelled so they stay in both sides' lists; buyers of upcoming viewings are told.
+   */
+  async deleteSlot(slotId: number, actorId: number): Promise<void> {
+    const attendees = await db.transaction(async (tx) => {
+      const [row] = await tx.select({ slot: viewingSlots, title: properties.title })
+        .from(viewingSlots)
+        .innerJoin(properties, eq(properties.id, viewingSlots.propertyId))
+        .where(and(eq(viewingSlots.id, slotId), isNull(viewingSlots.cancelledAt)))
+        .for('update', { of: viewingSlots });
+      if (!row) {
+        throw new ViewingError('Viewing not found', 404);
+      }
+
+      const now = new Date();
+      const cancelled = await tx.update(viewingBookings)
+        .set({ status: 'cancelled', cancelledBy: actorId, cancelledAt: now })
+        .where(and(eq(viewingBookings.slotId, slotId), eq(viewingBookings.status, 'booked')))
+        .returning({ userId: viewingBookings.userId });
+
+      const [{ bookings }] = await tx.select({ bookings: count() }).from(viewingBookings).where(eq(viewingBookings.slotId, slotId));
+      if (bookings > 0) {
+        await tx.update(viewingSlots).set({ cancelledAt: now }).where(eq(viewingSlots.id, slotId));
+      } else {
+        await tx.delete(viewingSlots).where(eq(viewingSlots.id, slotId));
+      }
+
+      if (cancelled.length === 0 || row.slot.endsAt <= now) {
+        return [];
+      }
+      const buyers = await tx.select({ name: users.name, email: users.email })
+        .from(users)
+        .where(inArray(users.id, cancelled.map((booking) => booking.userId)));
+      return buyers.map((buyer) => ({ ...buyer, title: row.title, startsAt: row.slot.startsAt }));
+    });
+
+    for (const attendee of attendees) {
+      await mailService.notifyUser(attendee.email, attendee.name,
+        `Viewing cancelled: ${attendee.title}`,
+        `The viewing of "${attendee.title}" on ${formatTime(attendee.startsAt)} was cancelled by the seller.`,
+        VIEWINGS_LINK);
+    }
+  }
+
+  /**
+   * Books a place in a slot. The slot row is locked while the places are counted,
+   * so two buyers cannot take the last place at the same time.
+   */
+  async book(slotId: number, user: SessionUser, note?: string | null): Promise<ViewingBooking> {
+    const { booking, slot, property } = await db.transaction(async (tx) => {
+      const [row] = await tx.select({ slot: viewingSlots, property: propertyColumns })
+        .from(viewingSlots)
+        .innerJoin(properties, eq(properties.id, viewingSlots.propertyId))
+        .where(and(eq(viewingSlots.id, slotId), isNull(viewingSlots.cancelledAt)))
+        .for('update', { of: viewingSlots });
+      if (!row || row.property.moderationStatus !== 'published') {
+        throw new ViewingError('Viewing not found', 404);
+      }
+      if (row.property.userId === user.id) {
+        throw new ViewingError('You cannot book a viewing of your own listing', 400);
+      }
+      if (row.slot.startsAt <= new Date()) {
+        throw new ViewingError('This viewing has already started', 409);
+      }
+
+      const active = await tx.select({ userId: viewingBookings.userId })
+        .from(viewingBookings)
+        .where(and(eq(viewingBookings.slotId, slotId), eq(viewingBookings.status, 'booked')));
+      if (active.some((booking) => booking.userId === user.id)) {
+        throw new ViewingError('You have already booked this viewing', 409);
+      }
+      if (active.length >= row.slot.capacity) {
+        throw new ViewingError('This viewing is fully booked', 409);
+      }
+
+      // Booking again after cancelling reuses the earlier row
+      const values = { status: 'booked', note: note?.trim() || null, cancelledBy: null, cancelledAt: null, createdAt: new Date() };
+      const [booking] = await tx.insert(viewingBookings)
+        .values({ slotId, userId: user.id, ...values })
+        .onConflictDoUpdate({ target: [viewingBookings.slotId, viewingBookings.userId], set: values })
+        .returning();
+      return { booking, slot: row.slot, property: row.property };
+    });
+
+    const [owner] = await db.select({ name: users.name, email: users.email }).from(users).where(eq(users.id, property.userId)).limit(1);
+    if (owner) {
+      await mailService.notifyUser(owner.email, owner.name,
+        `New viewing booking: ${property.title}`,
+        `${user.name} booked the viewing of "${property.title}" on ${formatTime(slot.startsAt)}.`
+          + (booking.note ? `\n\nTheir note: ${booking.note}` : ''),
+        VIEWINGS_LINK);
+    }
+    return booking;
+  }
+
+  /**
+   * Cancels a booking, as the buyer who made it or the owner of the listing.
+   */
+  async cancel(bookingId: number, user: SessionUser): Promise<ViewingBooking> {
+    const [row] = await db.select({ booking: viewingBookings, slot: viewingSlots, property: propertyColumns })
+      .from(viewingBookings)
+      .innerJoin(viewingSlots, eq(viewingSlots.id, viewingBookings.slotId))
+      .innerJoin(properties, eq(properties.id, viewingSlots.propertyId))
+      .where(eq(viewingBookings.id, bookingId))
+      .limit(1);
+    if (!row) {
+      throw new ViewingError('Booking not found', 404);
+    }
+    const { booking, slot, property } = row;
+    const isBuyer = user.id === booking.userId;
+    if (!isBuyer && user.id !== property.userId && user.role !== 'admin') {
+      throw new ViewingError('You cannot cancel this booking', 403);
+    }
+    if (booking.status === 'cancelled') {
+      throw new ViewingError('The booking is already cancelled', 409);
+    }
+    if (slot.endsAt <= new Date()) {
+      throw new ViewingError('The viewing has already taken place', 409);
+    }
+
+    const [cancelled] = await db.update(viewingBookings)
+      .set({ status: 'cancelled', cancelledBy: user.id, cancelledAt: new Date() })
+      .where(and(eq(viewingBookings.id, bookingId), eq(viewingBookings.status, 'booked')))
+      .returning();
+    if (!cancelled) {
+      throw new ViewingError('The booking is already cancelled', 409);
+    }
+
+    // Tell the side that did not cancel
+    const [recipient] = await db.select({ name: users.name, email: users.email })
+      .from(users)
+      .where(eq(users.id, isBuyer ? property.userId : booking.userId))
+      .limit(1);
+    if (recipient) {
+      await mailService.notifyUser(recipient.email, recipient.name,
+        `Viewing booking cancelled: ${property.title}`,
+        isBuyer
+          ? `${user.name} cancelled their booking for the viewing of "${property.title}" on ${formatTime(slot.startsAt)}.`
+          : `Your booking for the viewing of "${property.title}" on ${formatTime(slot.startsAt)} was cancelled by the seller.`,
+        VIEWINGS_LINK);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Bookings a user made as a buyer, and bookings on the user's own listings.
+   * Upcoming viewings and those of the last days are included, earliest first.
+   */
+  async bookingsFor(userId: number): Promise<{ booked: BookingView[]; hosted: BookingView[] }> {
+    const buyers = alias(users, 'buyers');
+    const owners = alias(users, 'owners');
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const select = (contact: typeof buyers | typeof owners) => db.select({
+      booking: viewingBookings,
+      slot: viewingSlots,
+      property: { id: properties.id, title: properties.title, address: properties.address, city: properties.city },
+      contact: { name: contact.name, email: contact.email, phone: contact.phone },
+    })
+      .from(viewingBookings)
+      .innerJoin(viewingSlots, eq(viewingSlots.id, viewingBookings.slotId))
+      .innerJoin(properties, eq(properties.id, viewingSlots.propertyId))
+      .innerJoin(buyers, eq(buyers.id, viewingBookings.userId))
+      .innerJoin(owners, eq(owners.id, properties.userId));
+
+    const [booked, hosted] = await Promise.all([
+      select(owners)
+        .where(and(eq(viewingBookings.userId, userId), gte(viewingSlots.endsAt, since)))
+        .orderBy(asc(viewingSlots.startsAt)),
+      select(buyers)
+        .where(and(eq(properties.userId, userId), ne(viewingBookings.userId, userId), gte(viewingSlots.endsAt, since)))
+        .orderBy(asc(viewingSlots.startsAt)),
+    ]);
+
+    const toView = ({ booking, slot, property, contact }: (typeof booked)[number]): BookingView => ({
+      id: booking.id,
+      status: booking.status,
+      note: booking.note,
+      createdAt: booking.createdAt,
+      cancelledAt: booking.cancelledAt,
+      slot: { id: slot.id, type: slot.type, startsAt: slot.startsAt, endsAt: slot.endsAt, notes: slot.notes },
+      property,
+      contact,
+    });
+    return { booked: booked.map(toView), hosted: hosted.map(toView) };
+  }
+
+  /**
+   * iCalendar file of a user's viewings: every slot on their listings with its attendees,
+   * and the viewings they booked themselves.
+   */
+  async calendar(userId: number): Promise<string> {
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const hostedSlots = await db.select({ slot: viewingSlots, property: propertyColumns })
+      .from(viewingSlots)
+      .innerJoin(properties, eq(properties.id, viewingSlots.propertyId))
+      .where(and(eq(properties.userId, userId), gte(viewingSlots.endsAt, since)))
+      .orderBy(asc(viewingSlots.startsAt));
+
+    const attendees = new Map<number, string[]>();
+    if (hostedSlots.length > 0) {
+      const rows = await db.select({ slotId: viewingBookings.slotId, name: users.name, phone: users.phone, email: users.email })
+        .from(viewingBookings)
+        .innerJoin(users, eq(users.id, viewingBookings.userId))
+        .where(and(inArray(viewingBookings.slotId, hostedSlots.map((row) => row.slot.id)), eq(viewingBookings.status, 'booked')));
+      for (const row of rows) {
+        const list = attendees.get(row.slotId) ?? [];
+        list.push([row.name, row.phone, row.email].filter(Boolean).join(', '));
+        attendees.set(row.slotId, list);
+      }
+    }
+
+    const { booked } = await this.bookingsFor(userId);
+    const domain = new URL(env.APP_BASE_URL).hostname;
+    const stamp = icsTime(new Date());
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//HomeHarbor//Viewings//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH', 'X-WR-CALNAME:HomeHarbor viewings'];
+    const event = (uid: string, start: Date, end: Date, summary: string, location: string, description: string, url: string, cancelled = false) => {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${uid}@${domain}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsTime(start)}`,
+        `DTEND:${icsTime(end)}`,
+        `SUMMARY:${icsText(summary)}`,
+        `LOCATION:${icsText(location)}`,
+        `DESCRIPTION:${icsText(description)}`,
+        `URL:${url}`,
+        `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+        'END:VEVENT',
+      );
+    };
+
+    for (const { slot, property } of hostedSlots) {
+      const names = attendees.get(slot.id) ?? [];
+      const label = slot.type === 'open_house' ? 'Open house' : 'Viewing';
+      event(
+        `viewing-slot-${slot.id}`, slot.startsAt, slot.endsAt,
+        `${label}: ${property.title}`,
+        `${property.address}, ${property.city}`,
+        [`${names.length}/${slot.capacity} booked`, ...names, slot.notes ?? ''].filter(Boolean).join('\n'),
+        `${env.APP_BASE_URL}/property/${property.id}`,
+        slot.cancelledAt !== null,
+      );
+    }
+    for (const booking of booked) {
+      event(
+        `viewing-booking-${booking.id}`, booking.slot.startsAt, booking.slot.endsAt,
+        `Viewing: ${booking.property.title}`,
+        `${booking.property.address}, ${booking.property.city}`,
+        [`Seller: ${booking.contact.name}`, booking.contact.phone ?? '', booking.slot.notes ?? ''].filter(Boolean).join('\n'),
+        `${env.APP_BASE_URL}/property/${booking.property.id}`,
+        booking.status === 'cancelled',
+      );
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+}
+
+// Export a singleton instance
+export const viewingService = new ViewingService();
@@ -0,0 +1,267 @@
+// server/session.ts
+import { Request, Response, NextFunction } from 'express';
+import session from 'express-session';
+import connectPgSimple from 'connect-pg-simple';
+import crypto from 'crypto';
+import { eq, sql } from 'drizzle-orm';
+import { users, userSessions, type User, type ApiKeyScope } from '@shared/schema';
+import { db, pool } from './db';
+import { env } from './config/env';
+import { impersonationService, IMPERSONATION_TTL_MS } from './services/impersonationService';
+
+// The user as exposed to route handlers and the client (never includes the password hash)
+export type SessionUser = Omit<User, 'hashedPassword'>;
+
+// A password (or Firebase) check that passed but still waits for the second factor
+export interface PendingTwoFactor {
+  userId: number;
+  setup: boolean; // true when the user must enrol before the session can start
+  expiresAt: number;
+  attempts: number;
+}
+
+// An admin viewing the site as another user; `userId` of the session is the impersonated user
+export interface Impersonation {
+  adminId: number;
+  expiresAt: number;
+}
+
+// Who is behind an impersonated request, as exposed to route handlers and the client
+export interface Impersonator {
+  id: number;
+  name: string;
+  expiresAt: number;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    userId?: number;
+    pendingTwoFactor?: PendingTwoFactor;
+    impersonation?: Impersonation;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SessionUser;
+      impersonator?: Impersonator;
+      apiKey?: { id: number; scopes: ApiKeyScope[] }; // Set when the request authenticated with a partner API key
+    }
+  }
+}
+
+export const SESSION_COOKIE_NAME = 'hh.sid';
+const SESSION_MAX_AGE_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
+const TWO_FACTOR_CHALLENGE_TTL_MS = 1000 * 60 * 5; // 5 minutes
+export const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+if (!env.SESSION_SECRET) {
+  if (env.NODE_ENV === 'production') {
+    throw new Error("SESSION_SECRET environment variable must be set in production.");
+  }
+  console.warn("SESSION_SECRET is not set. Using a random secret; sessions will not survive a restart.");
+}
+
+const PgSessionStore = connectPgSimple(session);
+
+/**
+ * Cookie-based session middleware backed by the `user_sessions` table.
+ */
+export const sessionMiddleware = session({
+  name: SESSION_COOKIE_NAME,
+  secret: env.SESSION_SECRET || crypto.randomBytes(32).toString('hex'),
+  store: new PgSessionStore({
+    pool,
+    tableName: 'user_sessions',
+  }),
+  resave: false,
+  saveUninitialized: false,
+  rolling: true,
+  cookie: {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: env.NODE_ENV === 'production',
+    maxAge: SESSION_MAX_AGE_MS,
+  },
+});
+
+/**
+ * Strips the password hash from a user row.
+ */
+export function toSessionUser(user: User): SessionUser {
+  const { hashedPassword, ...rest } = user;
+  return rest;
+}
+
+/**
+ * Loads the user referenced by the session into `req.user`.
+ * Sessions pointing at a deleted user are cleared.
+ */
+export async function loadSessionUser(req: Request, res: Response, next: NextFunction) {
+  const userId = req.session?.userId;
+  if (!userId) {
+    return next();
+  }
+
+  try {
+    const impersonation = req.session.impersonation;
+    let admin: User | undefined;
+    if (impersonation) {
+      admin = await resolveImpersonatingAdmin(req, impersonation);
+      if (!admin) {
+        return next();
+      }
+      if (impersonation.expiresAt <= Date.now()) {
+        // Time is up: continue as the admin
+        await impersonationService.record('expired', admin.id, userId, { ip: req.ip });
+        delete req.session.impersonation;
+        req.session.userId = admin.id;
+        req.user = toSessionUser(admin);
+        return next();
+      }
+      req.impersonator = { id: admin.id, name: admin.name, expiresAt: impersonation.expiresAt };
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user && admin) {
+      // The impersonated account was deleted meanwhile
+      await impersonationService.record('ended', admin.id, userId, { ip: req.ip });
+      delete req.session.impersonation;
+      req.session.userId = admin.id;
+      req.user = toSessionUser(admin);
+      req.impersonator = undefined;
+    } else if (!user) {
+      delete req.session.userId;
+    } else if (user.role === 'admin' && !user.twoFactorEnabled) {
+      // Admin sessions require a second factor; signing in again runs the enrolment
+      console.warn(`Dropping session of admin ${user.id} without two-factor authentication`);
+      delete req.session.userId;
+    } else {
+      req.user = toSessionUser(user);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * The admin behind an impersonated session. Drops the whole session user if that account
+ * is gone or no longer an admin with a second factor.
+ */
+async function resolveImpersonatingAdmin(req: Request, impersonation: Impersonation): Promise<User | undefined> {
+  const [admin] = await db.select().from(users).where(eq(users.id, impersonation.adminId)).limit(1);
+  if (admin && admin.role === 'admin' && admin.twoFactorEnabled) {
+    return admin;
+  }
+  console.warn(`Dropping impersonation session of former admin ${impersonation.adminId}`);
+  delete req.session.impersonation;
+  delete req.session.userId;
+  return undefined;
+}
+
+/**
+ * Switches the admin's session to the given user until `endImpersonation` or until
+ * `IMPERSONATION_TTL_MS` has passed, whichever comes first.
+ */
+export function startImpersonation(req: Request, target: User): Promise<Impersonator> {
+  const admin = req.user!;
+  return new Promise((resolve, reject) => {
+    const impersonation = { adminId: admin.id, expiresAt: Date.now() + IMPERSONATION_TTL_MS };
+    req.session.impersonation = impersonation;
+    req.session.userId = target.id;
+    req.user = toSessionUser(target);
+    req.impersonator = { id: admin.id, name: admin.name, expiresAt: impersonation.expiresAt };
+    req.session.save((saveError) => (saveError ? reject(saveError) : resolve(req.impersonator!)));
+  });
+}
+
+/**
+ * Returns an impersonated session to the admin who started it.
+ * @returns the admin, or undefined if the session was not impersonating anyone
+ */
+export async function endImpersonation(req: Request): Promise<SessionUser | undefined> {
+  const impersonation = req.session.impersonation;
+  if (!impersonation) {
+    return undefined;
+  }
+
+  const [admin] = await db.select().from(users).where(eq(users.id, impersonation.adminId)).limit(1);
+  delete req.session.impersonation;
+  req.session.userId = admin?.id;
+  req.user = admin ? toSessionUser(admin) : undefined;
+  req.impersonator = undefined;
+  await new Promise<void>((resolve, reject) => req.session.save((error) => (error ? reject(error) : resolve())));
+  return req.user;
+}
+
+/**
+ * Starts a fresh session for the given user. The session id is regenerated
+ * to prevent session fixation.
+ */
+export function startUserSession(req: Request, user: User): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((regenerateError) => {
+      if (regenerateError) return reject(regenerateError);
+      req.session.userId = user.id;
+      req.user = toSessionUser(user);
+      req.session.save((saveError) => (saveError ? reject(saveError) : resolve()));
+    });
+  });
+}
+
+/**
+ * Starts a fresh session that only remembers a pending second-factor challenge.
+ * The user is not signed in until `startUserSession` is called after the challenge.
+ */
+export function startTwoFactorChallenge(req: Request, user: User, setup: boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((regenerateError) => {
+      if (regenerateError) return reject(regenerateError);
+      req.session.pendingTwoFactor = {
+        userId: user.id,
+        setup,
+        expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS,
+        attempts: 0,
+      };
+      req.session.save((saveError) => (saveError ? reject(saveError) : resolve()));
+    });
+  });
+}
+
+/**
+ * Returns the pending second-factor challenge of this session, dropping it once expired.
+ */
+export function getPendingTwoFactor(req: Request): PendingTwoFactor | undefined {
+  const pending = req.session?.pendingTwoFactor;
+  if (!pending) {
+    return undefined;
+  }
+  if (pending.expiresAt < Date.now() || pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+    delete req.session.pendingTwoFactor;
+    return undefined;
+  }
+  return pending;
+}
+
+/**
+ * Destroys the current session and clears the session cookie.
+ */
+export function endUserSession(req: Request, res: Response): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.user = undefined;
+    req.session.destroy((error) => {
+      if (error) return reject(error);
+      res.clearCookie(SESSION_COOKIE_NAME);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Revokes every stored session of a user, e.g. after a password reset.
+ */
+export async function destroyAllUserSessions(userId: number): Promise<void> {
+  await db.delete(userSessions).where(sql`(${userSessions.sess}->>'userId')::int = ${userId}`);
+}
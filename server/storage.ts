@@ -4,6 +4,7 @@ import {
   type User,
   type InsertUser,
   properties,
+  propertyColumns,
   type Property,
   type InsertProperty,
   locations,
@@ -21,8 +22,20 @@ import {
   pageContents,
   type PageContent,
   type InsertPageContent,
+  ENERGY_CLASSES,
+  type RecommendedProperty,
+  type PropertySearchResult,
 } from "@shared/schema";
 import { db } from "./db";
+import { dataPrivacyService } from "./services/dataPrivacyService";
+import { propertyHistoryService } from "./services/propertyHistoryService";
+import { propertyRevisionService, type RevisionAudit } from "./services/propertyRevisionService";
+import { geocodingService } from "./services/geocodingService";
+import { moderationService } from "./services/moderationService";
+import { imageService } from "./services/imageService";
+import { recommendationService, rankRecommendations } from "./services/recommendationService";
+import { matchesSearch, searchRank, searchSnippet } from "./services/fullTextSearch";
+import { distanceKm } from "./services/geo";
 // Make sure 'ilike' is imported if you want case-insensitive search
 import {
   eq,
@@ -33,6 +46,7 @@ import {
   desc,
   gte,
   lte,
+  lt,
   ne,
   inArray,
   count,
@@ -40,6 +54,7 @@ import {
   asc,
   getTableColumns,
   isNotNull,
+  isNull,
   SQL,
 } from "drizzle-orm";
 import { log } from "console";
@@ -57,23 +72,32 @@ export interface IStorage {
   getAllUsers(): Promise<User[]>;
 
   // Property operations
+  // With a search filter, listings carry a description snippet and rank by relevance unless sorted otherwise
   getProperties(
     filters?: any
-  ): Promise<{ properties: Property[]; total: number }>;
+  ): Promise<{ properties: PropertySearchResult[]; total: number }>;
+  // Every listing matching the getProperties filters (pagination and sorting ignored), in batches
+  streamProperties(filters?: any, batchSize?: number): AsyncGenerator<Property[]>;
   getProperty(id: number): Promise<Property | undefined>;
   createProperty(property: InsertProperty): Promise<Property>;
+  // Records a revision of the changed fields, attributed to the audit's actor; with `review`
+  // (owners' edits), content changes send a published or rejected listing back to review
   updateProperty(
     id: number,
-    property: Partial<Property>
+    property: Partial<Property>,
+    audit?: RevisionAudit,
+    options?: { review?: boolean }
   ): Promise<Property | undefined>;
   deleteProperty(id: number): Promise<boolean>;
   getPropertiesByUser(userId: number): Promise<Property[]>;
   getFeaturedProperties(limit?: number): Promise<Property[]>;
-  searchProperties(query: string): Promise<Property[]>;
+  searchProperties(query: string): Promise<PropertySearchResult[]>;
+  // Similar listings with the reasons they are similar; co-favorites are blended in unless disabled
   getRecommendedProperties(
     propertyId: number,
-    limit?: number
-  ): Promise<Property[]>;
+    limit?: number,
+    options?: { coFavorites?: boolean }
+  ): Promise<RecommendedProperty[]>;
 
   // Location operations
   getLocations(): Promise<Location[]>;
@@ -337,6 +361,40 @@ export class MemStorage implements IStorage {
         if (!isNaN(max)) result = result.filter((p) => p.area <= max);
       }
 
+      // Housing company filters
+      if (filters.maxMaintenanceCharge !== undefined) {
+        const max = parseFloat(filters.maxMaintenanceCharge);
+        if (!isNaN(max)) result = result.filter((p) => p.maintenanceCharge !== null && p.maintenanceCharge <= max);
+      }
+      if (filters.minEnergyClass) {
+        const index = ENERGY_CLASSES.indexOf(String(filters.minEnergyClass).toUpperCase() as typeof ENERGY_CLASSES[number]);
+        if (index >= 0) result = result.filter((p) => p.energyClass !== null && ENERGY_CLASSES.indexOf(p.energyClass as typeof ENERGY_CLASSES[number]) <= index);
+      }
+      if (filters.minBuildYear !== undefined) {
+        const min = parseInt(filters.minBuildYear, 10);
+        if (!isNaN(min)) result = result.filter((p) => p.buildYear !== null && p.buildYear >= min);
+      }
+
+      // Rental terms
+      if (filters.maxDeposit !== undefined) {
+        const max = parseFloat(filters.maxDeposit);
+        if (!isNaN(max)) result = result.filter((p) => (p.deposit ?? 0) <= max);
+      }
+      if (filters.availableBy) {
+        const by = String(filters.availableBy);
+        result = result.filter((p) => p.availableFrom === null || p.availableFrom <= by);
+      }
+      if (filters.maxLeaseMonths !== undefined) {
+        const max = parseInt(filters.maxLeaseMonths, 10);
+        if (!isNaN(max)) result = result.filter((p) => p.minLeaseMonths === null || p.minLeaseMonths <= max);
+      }
+      if (filters.petsAllowed === true || filters.petsAllowed === 'true') {
+        result = result.filter((p) => p.petsAllowed === true);
+      }
+      if (filters.smokingAllowed === true || filters.smokingAllowed === 'true') {
+        result = result.filter((p) => p.smokingAllowed === true);
+      }
+
       // Amenities filter
       if (
         filters.amenities &&
@@ -358,13 +416,8 @@ export class MemStorage implements IStorage {
         if (lat !== undefined && lng !== undefined && radius !== undefined) {
           result = result.filter((p) => {
             if (!p.latitude || !p.longitude) return false;
-            const distance = this.calculateDistance(
-              lat,
-              lng,
-              p.latitude,
-              p.longitude
-            );
-            return distance <= radius * 1000; // radius in km
+            const distance = distanceKm(lat, lng, p.latitude, p.longitude);
+            return distance <= radius; // radius in km
           });
         }
       }
@@ -382,23 +435,12 @@ export class MemStorage implements IStorage {
     return { properties: result, total: totalCount };
   }
 
-  // Haversine formula
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number {
-    const R = 6371e3; // metres
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return (R * c) / 1000; // distance in km
+  async *streamProperties(filters?: any, batchSize: number = 500): AsyncGenerator<Property[]> {
+    const { properties } = await this.getProperties({ ...filters, page: 1, limit: Number.MAX_SAFE_INTEGER });
+    const newestFirst = [...properties].sort((a, b) => b.id - a.id);
+    for (let i = 0; i < newestFirst.length; i += batchSize) {
+      yield newestFirst.slice(i, i + batchSize);
+    }
   }
 
   async getProperty(id: number): Promise<Property | undefined> {
@@ -430,6 +472,24 @@ export class MemStorage implements IStorage {
       ownerDetails: insertProperty.ownerDetails || null,
       averageNearbyPrices: insertProperty.averageNearbyPrices || null,
       registrationDetails: insertProperty.registrationDetails || null,
+      previousPrice: null,
+      moderationStatus: insertProperty.moderationStatus || "published",
+      rejectionReason: null,
+      moderatedAt: null,
+      externalRef: insertProperty.externalRef || null,
+      imageHashes: null,
+      salesPrice: insertProperty.salesPrice ?? null,
+      loanShare: insertProperty.loanShare ?? null,
+      maintenanceCharge: insertProperty.maintenanceCharge ?? null,
+      financingCharge: insertProperty.financingCharge ?? null,
+      energyClass: insertProperty.energyClass || null,
+      buildYear: insertProperty.buildYear ?? null,
+      plotOwnership: insertProperty.plotOwnership || null,
+      deposit: insertProperty.deposit ?? null,
+      availableFrom: insertProperty.availableFrom || null,
+      minLeaseMonths: insertProperty.minLeaseMonths ?? null,
+      petsAllowed: insertProperty.petsAllowed ?? null,
+      smokingAllowed: insertProperty.smokingAllowed ?? null,
     };
     this.properties.set(id, property);
     return property;
@@ -437,7 +497,9 @@ export class MemStorage implements IStorage {
 
   async updateProperty(
     id: number,
-    propertyUpdate: Partial<Property>
+    propertyUpdate: Partial<Property>,
+    _audit?: RevisionAudit,
+    _options?: { review?: boolean }
   ): Promise<Property | undefined> {
     const property = this.properties.get(id);
     if (!property) return undefined;
@@ -462,7 +524,7 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
-  async searchProperties(query: string): Promise<Property[]> {
+  async searchProperties(query: string): Promise<PropertySearchResult[]> {
     const lowercaseQuery = query.toLowerCase();
     return Array.from(this.properties.values()).filter(
       (p) =>
@@ -475,57 +537,25 @@ export class MemStorage implements IStorage {
 
   async getRecommendedProperties(
     propertyId: number,
-    limit: number = 5
-  ): Promise<Property[]> {
+    limit: number = 5,
+    options: { coFavorites?: boolean } = {}
+  ): Promise<RecommendedProperty[]> {
     const sourceProperty = this.properties.get(propertyId);
     if (!sourceProperty) return [];
-    const allProperties = Array.from(this.properties.values()).filter(
-      (p) => p.id !== propertyId
+    const candidates = Array.from(this.properties.values()).filter(
+      (p) => p.moderationStatus === "published" && p.status === "active"
     );
-    const propertiesWithScores = allProperties.map((property) => ({
-      property,
-      score: this.calculateSimilarityScore(sourceProperty, property),
-    }));
-    return propertiesWithScores
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map((item) => item.property);
-  }
-
-  private calculateSimilarityScore(source: Property, target: Property): number {
-    let score = 0;
-    if (
-      source.latitude &&
-      source.longitude &&
-      target.latitude &&
-      target.longitude
-    ) {
-      const distance = this.calculateDistance(
-        source.latitude,
-        source.longitude,
-        target.latitude,
-        target.longitude
-      );
-      if (distance < 5) score += 30;
-      else if (distance < 10) score += 20;
-      else if (distance < 15) score += 10;
-    }
-    if (source.propertyType === target.propertyType) score += 15;
-    if (source.listingType === target.listingType) score += 15;
-    if (Math.abs(source.price - target.price) <= source.price * 0.2)
-      score += 15;
-    if (Math.abs(source.area - target.area) <= source.area * 0.2) score += 10;
-    if (source.bedrooms === target.bedrooms) score += 10;
-    else if (Math.abs(source.bedrooms - target.bedrooms) === 1) score += 5;
-    if (source.bathrooms === target.bathrooms) score += 5;
-    else if (Math.abs(source.bathrooms - target.bathrooms) === 1) score += 2;
-    if (source.features && target.features) {
-      const commonFeatures = source.features.filter((f) =>
-        target.features!.includes(f)
-      );
-      score += Math.min(commonFeatures.length * 2, 10);
+    const coFavorites = new Map<number, number>();
+    if (options.coFavorites !== false) {
+      const favs = Array.from(this.favorites.values());
+      const savers = new Set(favs.filter((f) => f.propertyId === propertyId).map((f) => f.userId));
+      for (const fav of favs) {
+        if (fav.propertyId !== propertyId && savers.has(fav.userId)) {
+          coFavorites.set(fav.propertyId, (coFavorites.get(fav.propertyId) ?? 0) + 1);
+        }
+      }
     }
-    return score;
+    return rankRecommendations(sourceProperty, candidates, coFavorites, limit);
   }
 
   // Location methods
@@ -911,11 +941,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteUser(id: number): Promise<boolean> {
-    const result = await db
-      .delete(users)
-      .where(eq(users.id, id))
-      .returning({ id: users.id });
-    return result.length > 0;
+    // Applies the erasure policy so related rows are removed or anonymized, not orphaned
+    return (await dataPrivacyService.eraseUser(id)) !== null;
   }
 
   async getAllUsers(): Promise<User[]> {
@@ -925,15 +952,18 @@ export class DatabaseStorage implements IStorage {
   // Property operations
   async getProperties(
     filters?: any
-  ): Promise<{ properties: Property[]; total: number }> {
+  ): Promise<{ properties: PropertySearchResult[]; total: number }> {
+    const search: string | undefined = filters?.search || undefined;
+
     // Base queries for selecting properties and counting them
     // We might need to join with users later based on filters
     let query = db
       .select({
         // Select specific columns to avoid fetching everything if joining
-        property: properties,
+        property: propertyColumns,
         // Optionally include user data if needed directly, but getProperty handles this better for single items
         // user: { id: users.id, name: users.name, role: users.role }
+        searchSnippet: search ? searchSnippet(properties.description, search) : sql<null>`null`,
       })
       .from(properties);
 
@@ -941,23 +971,92 @@ export class DatabaseStorage implements IStorage {
       .select({ count: sql<number>`count(distinct ${properties.id})` }) // Count distinct properties
       .from(properties);
 
+    log("Applying filters:", filters); // Log received filters
+    const { conditions, needsUserJoin } = this.buildPropertyConditions(filters);
+
+    // --- Apply Joins if Needed ---
+    if (needsUserJoin) {
+      query = query.innerJoin(users, eq(properties.userId, users.id));
+      countQuery = countQuery.innerJoin(users, eq(properties.userId, users.id));
+    }
+
+    // --- Apply Conditions ---
+    if (conditions.length > 0) {
+      const combinedCondition = and(...conditions);
+      // Apply where clause to both queries
+      // Need to handle potential type issues if query/countQuery structure changes
+      query = query.where(combinedCondition);
+      countQuery = countQuery.where(combinedCondition);
+    }
+
+    // --- Get Total Count (before pagination) ---
+    const [countResult] = await countQuery;
+    const total = Number(countResult?.count) || 0;
+
+    // --- Apply Sorting ---
+    // Default sort: best text match first when searching, otherwise createdAt descending.
+    let orderBy: SQL[] = search
+      ? [desc(searchRank(properties.searchVector, search)), desc(properties.createdAt)]
+      : [desc(properties.createdAt)];
+    if (filters?.sortBy) {
+      const direction = filters.sortDir === "asc" ? asc : desc;
+      switch (filters.sortBy) {
+        case "price":
+          orderBy = [direction(properties.price)];
+          break;
+        case "area":
+          orderBy = [direction(properties.area)];
+          break;
+        // Housing-company details are often missing; those listings sort last either way
+        case "salesPrice":
+          orderBy = [sql`${direction(properties.salesPrice)} nulls last`];
+          break;
+        case "maintenanceCharge":
+          orderBy = [sql`${direction(properties.maintenanceCharge)} nulls last`];
+          break;
+        case "buildYear":
+          orderBy = [sql`${direction(properties.buildYear)} nulls last`];
+          break;
+        case "energyClass": // Ascending is best class first
+          orderBy = [sql`${direction(properties.energyClass)} nulls last`];
+          break;
+        case "date":
+          orderBy = [desc(properties.createdAt)];
+          break;
+      }
+    }
+    query = query.orderBy(...orderBy);
+
+    // --- Apply Pagination ---
+    const page = filters?.page ? parseInt(filters.page as string, 10) : 1;
+    const limit = filters?.limit ? parseInt(filters.limit as string, 10) : 10;
+    const offset = (page - 1) * limit;
+    query = query.limit(limit).offset(offset);
+
+    // --- Execute the Main Query ---
+    const results = await query;
+
+    // Extract the property data, handling potential joins
+    let propertyList: PropertySearchResult[] = results.map((r) =>
+      r.searchSnippet !== null ? { ...r.property, searchSnippet: r.searchSnippet } : r.property
+    );
+
+    // --- Geolocation Filtering (Post-Query) ---
+    propertyList = this.filterByDistance(propertyList, filters);
+
+    return { properties: propertyList, total: total };
+  }
+
+  // WHERE conditions of the getProperties filters, shared with streamProperties
+  private buildPropertyConditions(filters?: any): { conditions: SQL[]; needsUserJoin: boolean } {
     const conditions: SQL[] = []; // Use SQL[] type for conditions
     let needsUserJoin = false; // Flag to track if user join is needed
 
-    log("Applying filters:", filters); // Log received filters
-
     if (filters) {
       // --- Search Filter ---
+      // Full-text match on title, address, city and description, with Finnish and Swedish stemming
       if (filters.search) {
-        const searchTerm = `%${filters.search}%`;
-        conditions.push(
-          or(
-            ilike(properties.title, searchTerm),
-            ilike(properties.city, searchTerm),
-            ilike(properties.address, searchTerm), // Added address search
-            ilike(properties.description, searchTerm) // Added description search
-          )! // Add '!' to assert that the result is not null/undefined if needed
-        );
+        conditions.push(matchesSearch(properties.searchVector, filters.search));
       }
 
       // --- Basic Filters ---
@@ -1020,6 +1119,65 @@ export class DatabaseStorage implements IStorage {
         if (!isNaN(max)) conditions.push(lte(properties.area, max));
       }
 
+      // --- Housing Company Details ---
+      if (filters.maxSalesPrice !== undefined) {
+        const max = parseFloat(filters.maxSalesPrice);
+        if (!isNaN(max)) conditions.push(lte(properties.salesPrice, max));
+      }
+      if (filters.maxLoanShare !== undefined) {
+        const max = parseFloat(filters.maxLoanShare);
+        if (!isNaN(max)) conditions.push(lte(sql`coalesce(${properties.loanShare}, 0)`, max));
+      }
+      if (filters.maxMaintenanceCharge !== undefined) {
+        const max = parseFloat(filters.maxMaintenanceCharge);
+        if (!isNaN(max)) conditions.push(lte(properties.maintenanceCharge, max));
+      }
+      if (filters.maxFinancingCharge !== undefined) {
+        const max = parseFloat(filters.maxFinancingCharge);
+        if (!isNaN(max)) conditions.push(lte(sql`coalesce(${properties.financingCharge}, 0)`, max));
+      }
+      // "Energy class C or better" includes A, B and C
+      if (filters.minEnergyClass) {
+        const index = ENERGY_CLASSES.indexOf(String(filters.minEnergyClass).toUpperCase() as typeof ENERGY_CLASSES[number]);
+        if (index >= 0) conditions.push(inArray(properties.energyClass, ENERGY_CLASSES.slice(0, index + 1)));
+      }
+      if (filters.minBuildYear !== undefined) {
+        const min = parseInt(filters.minBuildYear, 10);
+        if (!isNaN(min)) conditions.push(gte(properties.buildYear, min));
+      }
+      if (filters.maxBuildYear !== undefined) {
+        const max = parseInt(filters.maxBuildYear, 10);
+        if (!isNaN(max)) conditions.push(lte(properties.buildYear, max));
+      }
+      if (filters.plotOwnership) {
+        const plots = Array.isArray(filters.plotOwnership)
+          ? filters.plotOwnership
+          : String(filters.plotOwnership).split(",");
+        if (plots.length > 0)
+          conditions.push(inArray(properties.plotOwnership, plots));
+      }
+
+      // --- Rental Terms ---
+      if (filters.maxDeposit !== undefined) {
+        const max = parseFloat(filters.maxDeposit);
+        if (!isNaN(max)) conditions.push(lte(sql`coalesce(${properties.deposit}, 0)`, max));
+      }
+      // Available on the given date (YYYY-MM-DD); listings without a date are available now
+      if (filters.availableBy && /^\d{4}-\d{2}-\d{2}$/.test(String(filters.availableBy))) {
+        conditions.push(or(isNull(properties.availableFrom), lte(properties.availableFrom, String(filters.availableBy)))!);
+      }
+      // Leases of at most this many months are accepted by the landlord
+      if (filters.maxLeaseMonths !== undefined) {
+        const max = parseInt(filters.maxLeaseMonths, 10);
+        if (!isNaN(max)) conditions.push(or(isNull(properties.minLeaseMonths), lte(properties.minLeaseMonths, max))!);
+      }
+      if (filters.petsAllowed === true || filters.petsAllowed === "true") {
+        conditions.push(eq(properties.petsAllowed, true));
+      }
+      if (filters.smokingAllowed === true || filters.smokingAllowed === "true") {
+        conditions.push(eq(properties.smokingAllowed, true));
+      }
+
       // --- Ownership Filter ---
       if (filters.ownership) {
         const ownerships = Array.isArray(filters.ownership)
@@ -1066,6 +1224,11 @@ export class DatabaseStorage implements IStorage {
         );
       }
 
+      // --- Price Reduced Filter ---
+      if (filters.priceDropped === "true" || filters.priceDropped === true) {
+        conditions.push(sql`${properties.price} < ${properties.previousPrice}`);
+      }
+
       // --- Media Filters ---
       if (
         filters.onlyWithPhotos === "true" ||
@@ -1098,58 +1261,19 @@ export class DatabaseStorage implements IStorage {
       }
     } // End if(filters)
 
-    // --- Apply Joins if Needed ---
-    if (needsUserJoin) {
-      query = query.innerJoin(users, eq(properties.userId, users.id));
-      countQuery = countQuery.innerJoin(users, eq(properties.userId, users.id));
-    }
-
-    // --- Apply Conditions ---
-    if (conditions.length > 0) {
-      const combinedCondition = and(...conditions);
-      // Apply where clause to both queries
-      // Need to handle potential type issues if query/countQuery structure changes
-      query = query.where(combinedCondition);
-      countQuery = countQuery.where(combinedCondition);
-    }
-
-    // --- Get Total Count (before pagination) ---
-    const [countResult] = await countQuery;
-    const total = Number(countResult?.count) || 0;
-
-    // --- Apply Sorting ---
-    // Default sort: createdAt descending. Add more options based on filters if needed.
-    let orderBy: SQL[] = [desc(properties.createdAt)];
-    if (filters?.sortBy) {
-      const direction = filters.sortDir === "asc" ? asc : desc;
-      switch (filters.sortBy) {
-        case "price":
-          orderBy = [direction(properties.price)];
-          break;
-        case "area":
-          orderBy = [direction(properties.area)];
-          break;
-        case "date": // Already default
-        default:
-          orderBy = [desc(properties.createdAt)];
-          break;
-      }
+    // --- Moderation Filter ---
+    // Only published listings unless a moderation status, or "all", is asked for.
+    // Public routes strip this filter so unpublished listings never leak.
+    const moderationStatus = filters?.moderationStatus || "published";
+    if (moderationStatus !== "all") {
+      conditions.push(eq(properties.moderationStatus, moderationStatus));
     }
-    query = query.orderBy(...orderBy);
-
-    // --- Apply Pagination ---
-    const page = filters?.page ? parseInt(filters.page as string, 10) : 1;
-    const limit = filters?.limit ? parseInt(filters.limit as string, 10) : 10;
-    const offset = (page - 1) * limit;
-    query = query.limit(limit).offset(offset);
-
-    // --- Execute the Main Query ---
-    const results = await query;
 
-    // Extract the property data, handling potential joins
-    let propertyList = results.map((r) => r.property);
+    return { conditions, needsUserJoin };
+  }
 
-    // --- Geolocation Filtering (Post-Query) ---
+  // The coordinates filter runs after the query; see getProperties
+  private filterByDistance<T extends Property>(propertyList: T[], filters?: any): T[] {
     // This runs *after* the database query and pagination.
     // For large datasets, DB-level filtering using PostGIS is much more efficient.
     if (filters?.coordinates) {
@@ -1170,12 +1294,7 @@ export class DatabaseStorage implements IStorage {
         );
         propertyList = propertyList.filter((p) => {
           if (p.latitude == null || p.longitude == null) return false; // Use == null to check for null or undefined
-          const distance = this.calculateDistance(
-            numLat,
-            numLng,
-            p.latitude,
-            p.longitude
-          );
+          const distance = distanceKm(numLat, numLng, p.latitude, p.longitude);
           return distance <= numRadius; // Assuming radius is in km
         });
         // IMPORTANT: The 'total' count returned will NOT reflect this post-query filtering.
@@ -1186,34 +1305,37 @@ export class DatabaseStorage implements IStorage {
         log("Invalid coordinates or radius provided for geo-filtering.");
       }
     }
-
-    return { properties: propertyList, total: total };
+    return propertyList;
   }
 
-  // Haversine formula
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number {
-    const R = 6371; // Radius of the Earth in km
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLon = ((lon2 - lon1) * Math.PI) / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos((lat1 * Math.PI) / 180) *
-        Math.cos((lat2 * Math.PI) / 180) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c; // Distance in km
+  // Walks the matches in keyset-paginated batches, newest first, so the whole result set is never in memory
+  async *streamProperties(filters?: any, batchSize: number = 500): AsyncGenerator<Property[]> {
+    const { conditions, needsUserJoin } = this.buildPropertyConditions(filters);
+    let lastId: number | undefined;
+    while (true) {
+      let query = db.select({ property: propertyColumns }).from(properties).$dynamic();
+      if (needsUserJoin) {
+        query = query.innerJoin(users, eq(properties.userId, users.id));
+      }
+      const batchConditions = lastId === undefined ? conditions : [...conditions, lt(properties.id, lastId)];
+      if (batchConditions.length > 0) {
+        query = query.where(and(...batchConditions));
+      }
+      const rows = await query.orderBy(desc(properties.id)).limit(batchSize);
+      if (rows.length === 0) return;
+
+      const batch = this.filterByDistance(rows.map((r) => r.property), filters);
+      if (batch.length > 0) yield batch;
+      if (rows.length < batchSize) return;
+      lastId = rows[rows.length - 1].property.id;
+    }
   }
 
   async getProperty(id: number): Promise<any | undefined> {
     // Use db.query for relational fetching
     const propertyData = await db.query.properties.findFirst({
       where: eq(properties.id, id),
+      columns: { searchVector: false },
       with: {
         // Include the related 'user' based on the relation defined in schema.ts
         user: {
@@ -1253,28 +1375,66 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createProperty(insertProperty: InsertProperty): Promise<Property> {
-    const [property] = await db
-      .insert(properties)
-      .values({
-        ...insertProperty,
-        featured: false, // Ensure defaults are set if not in schema/payload
-        verified: false,
-        status: insertProperty.status || "active",
-      })
-      .returning();
-    return property;
+    const located = await geocodingService.withCoordinates(insertProperty);
+    return await db.transaction(async (tx) => {
+      const [property] = await tx
+        .insert(properties)
+        .values({
+          ...located,
+          featured: false, // Ensure defaults are set if not in schema/payload
+          verified: false,
+          status: insertProperty.status || "active",
+        })
+        .returning(propertyColumns);
+      await propertyHistoryService.recordListed(tx, property);
+      await imageService.markAttached(tx, property.images ?? []);
+      return property;
+    });
   }
 
+  // Price and status changes are recorded in the listing's history
   async updateProperty(
     id: number,
-    propertyUpdate: Partial<Property>
+    propertyUpdate: Partial<Property>,
+    audit?: RevisionAudit,
+    options: { review?: boolean } = {}
   ): Promise<Property | undefined> {
-    const [property] = await db
-      .update(properties)
-      .set(propertyUpdate)
-      .where(eq(properties.id, id))
-      .returning();
-    return property;
+    // Looked up before the transaction so a slow geocoder does not hold the row lock
+    const [location] = await db
+      .select({
+        address: properties.address,
+        postalCode: properties.postalCode,
+        city: properties.city,
+        latitude: properties.latitude,
+        longitude: properties.longitude,
+      })
+      .from(properties)
+      .where(eq(properties.id, id));
+    const located = location ? await geocodingService.withCoordinates(propertyUpdate, location) : propertyUpdate;
+
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select(propertyColumns)
+        .from(properties)
+        .where(eq(properties.id, id))
+        .for("update");
+      if (!current) return undefined;
+
+      const { previousPrice: _previousPrice, ...changes } = located;
+      const priceChanged = changes.price !== undefined && Number(changes.price) !== current.price;
+      const [property] = await tx
+        .update(properties)
+        .set(priceChanged ? { ...changes, previousPrice: current.price } : changes)
+        .where(eq(properties.id, id))
+        .returning(propertyColumns);
+      await propertyHistoryService.recordChanges(tx, current, property);
+      await propertyRevisionService.record(tx, current, property, audit);
+      await imageService.markAttached(tx, property.images ?? []);
+      if (options.review) {
+        return await moderationService.reviewEdit(tx, current, property, audit?.actorId);
+      }
+      return property;
+    });
   }
 
   async deleteProperty(id: number): Promise<boolean> {
@@ -1287,7 +1447,7 @@ export class DatabaseStorage implements IStorage {
 
   async getPropertiesByUser(userId: number): Promise<Property[]> {
     return await db
-      .select()
+      .select(propertyColumns)
       .from(properties)
       .where(eq(properties.userId, userId))
       .orderBy(desc(properties.createdAt));
@@ -1295,54 +1455,35 @@ export class DatabaseStorage implements IStorage {
 
   async getFeaturedProperties(limit: number = 16): Promise<Property[]> {
     return await db
-      .select()
+      .select(propertyColumns)
       .from(properties)
-      .where(eq(properties.featured, true))
+      .where(and(eq(properties.featured, true), eq(properties.moderationStatus, "published")))
       .orderBy(desc(properties.createdAt))
       .limit(limit);
     // Note: Removed the logic to supplement with non-featured as it complicates things.
     // The frontend can fetch more if needed.
   }
 
-  async searchProperties(query: string): Promise<Property[]> {
-    const searchTerm = `%${query}%`;
-    return await db
-      .select()
+  async searchProperties(query: string): Promise<PropertySearchResult[]> {
+    const results = await db
+      .select({ property: propertyColumns, searchSnippet: searchSnippet(properties.description, query) })
       .from(properties)
       .where(
-        or(
-          ilike(properties.title, searchTerm),
-          ilike(properties.description, searchTerm),
-          ilike(properties.address, searchTerm),
-          ilike(properties.city, searchTerm)
+        and(
+          eq(properties.moderationStatus, "published"),
+          matchesSearch(properties.searchVector, query)
         )
       )
-      .orderBy(desc(properties.createdAt));
+      .orderBy(desc(searchRank(properties.searchVector, query)), desc(properties.createdAt));
+    return results.map((r) => ({ ...r.property, searchSnippet: r.searchSnippet }));
   }
 
   async getRecommendedProperties(
     propertyId: number,
-    limit: number = 5
-  ): Promise<Property[]> {
-    const [sourceProperty] = await db
-      .select()
-      .from(properties)
-      .where(eq(properties.id, propertyId));
-    if (!sourceProperty) return [];
-
-    // Simplified recommendation: properties in the same city, different ID, ordered by creation date
-    // A real recommendation engine would be much more complex (similarity scores, user history etc.)
-    return await db
-      .select()
-      .from(properties)
-      .where(
-        and(
-          eq(properties.city, sourceProperty.city),
-          ne(properties.id, propertyId) // Exclude the source property itself
-        )
-      )
-      .orderBy(desc(properties.createdAt))
-      .limit(limit);
+    limit: number = 5,
+    options: { coFavorites?: boolean } = {}
+  ): Promise<RecommendedProperty[]> {
+    return await recommendationService.recommend(propertyId, limit, { coFavorites: options.coFavorites !== false });
   }
 
   // Location operations
@@ -1458,10 +1599,10 @@ export class DatabaseStorage implements IStorage {
   // Favorites methods
   async getFavoritesByUser(userId: number): Promise<Property[]> {
     const favoriteProperties = await db
-      .select({ property: properties })
+      .select({ property: propertyColumns })
       .from(favorites)
       .innerJoin(properties, eq(favorites.propertyId, properties.id))
-      .where(eq(favorites.userId, userId));
+      .where(and(eq(favorites.userId, userId), eq(properties.moderationStatus, "published")));
     return favoriteProperties.map((result) => result.property);
   }
 
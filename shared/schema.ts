@@ -1,8 +1,26 @@
-import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, jsonb, varchar,uniqueIndex, decimal   } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, jsonb, json, varchar,uniqueIndex, index, decimal, date, customType   } from "drizzle-orm/pg-core";
+import { relations, sql, getTableColumns } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema  } from "drizzle-zod";
 import { z } from "zod";
 
+// Full-text search document, generated by Postgres and only used in queries (server/services/fullTextSearch.ts).
+// Listings and posts are read through propertyColumns and postColumns, which leave it out; a query that
+// still selects it reads it back as undefined so the lexemes are never sent to clients.
+const tsvector = customType<{ data: undefined; driverData: string }>({
+  dataType() {
+    return "tsvector";
+  },
+  fromDriver() {
+    return undefined;
+  },
+});
+
+// Columns of a searchable table for selects and returning(): all but the search vector
+function withoutSearchVector<T extends { searchVector: unknown }>(columns: T): Omit<T, 'searchVector'> {
+  const { searchVector: _searchVector, ...rest } = columns;
+  return rest;
+}
+
 // User model
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -13,7 +31,9 @@ export const users = pgTable("users", {
   phone: text("phone"),
   role: text("role").default('user').notNull(), // 'user', 'agent', 'admin'
   photoURL: text("photo_url"), // For profile pictures (e.g., from Google)
-  firebaseUid: text("firebase_uid").unique(), // For linking Firebase accounts
+  firebaseUid: text("firebase_uid").unique(), // Legacy Firebase link; sign-in methods now live in user_identities
+  emailVerified: boolean("email_verified").default(false).notNull(), // Set once the user proves ownership of the email
+  twoFactorEnabled: boolean("two_factor_enabled").default(false).notNull(), // TOTP second factor, see user_two_factor
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => {
@@ -38,17 +58,190 @@ export const insertUserSchema = createInsertSchema(users, {
   phone: z.string().optional(),
   photoURL: z.string().url().optional(),
   firebaseUid: z.string().optional(),
-}).omit({ id: true, hashedPassword: true, createdAt: true, updatedAt: true });
+}).omit({ id: true, hashedPassword: true, twoFactorEnabled: true, createdAt: true, updatedAt: true });
+
+// External sign-in identities linked to a user (the password credential stays on users.hashedPassword)
+export const userIdentities = pgTable("user_identities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  provider: text("provider").notNull(), // 'firebase'
+  providerUid: text("provider_uid").notNull(), // Firebase uid
+  signInProvider: text("sign_in_provider"), // Upstream provider reported by Firebase, e.g. 'google.com'
+  email: text("email"), // Email reported by the provider when linked
+  linkedAt: timestamp("linked_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+}, (table) => {
+  return {
+    providerUidIdx: uniqueIndex("user_identities_provider_uid_idx").on(table.provider, table.providerUid),
+    userIdx: index("user_identities_user_idx").on(table.userId),
+  };
+});
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
+
+// One-time tokens for password reset and email verification (only a hash of the token is stored)
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  purpose: text("purpose").notNull(), // 'password_reset', 'email_verification'
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AuthToken = typeof authTokens.$inferSelect;
+
+// TOTP secrets, kept out of the users table so they never end up in a user payload
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  secret: text("secret").notNull(), // base32
+  lastUsedStep: integer("last_used_step"), // Rejects replay of an already accepted code
+  confirmedAt: timestamp("confirmed_at"), // Null while enrolment is pending
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+
+// Single-use backup codes for the second factor (only a hash of the code is stored)
+export const twoFactorBackupCodes = pgTable("two_factor_backup_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index("two_factor_backup_codes_user_idx").on(table.userId),
+  };
+});
+
+// Failed login counters for brute-force protection, keyed by 'account:<userId>', 'login:<unknown identifier>' or 'ip:<address>'
+export const loginThrottles = pgTable("login_throttles", {
+  key: text("key").primaryKey(),
+  failedCount: integer("failed_count").default(0).notNull(),
+  lastFailedAt: timestamp("last_failed_at"),
+  lockedUntil: timestamp("locked_until"),
+});
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+
+// Audit trail of authentication security events (failed logins, lockouts, unlocks)
+export const securityEvents = pgTable("security_events", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // 'login_failed', 'login_blocked', 'account_locked', 'ip_locked', 'account_unlocked'
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  identifier: text("identifier"), // Username/email as typed at login
+  ipAddress: text("ip_address"),
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    typeCreatedIdx: index("security_events_type_created_idx").on(table.type, table.createdAt),
+    userIdx: index("security_events_user_idx").on(table.userId),
+  };
+});
+
+export type SecurityEvent = typeof securityEvents.$inferSelect;
+
+// Permissions an API key can be granted
+export const API_KEY_SCOPES = ['properties:read', 'properties:write', 'messages:read'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Partner API keys of agents (only a hash of the key is stored)
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(), // e.g. the CRM the key is used by
+  prefix: text("prefix").notNull(), // First characters of the key, shown to identify it
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: text("scopes").array().notNull(),
+  rateLimitPerMinute: integer("rate_limit_per_minute").default(60).notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index("api_keys_user_idx").on(table.userId),
+  };
+});
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+// Audit trail of admins viewing the site as another user
+export const impersonationAuditLog = pgTable("impersonation_audit_log", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").references(() => users.id, { onDelete: 'set null' }),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }), // The impersonated user
+  action: text("action").notNull(), // 'started', 'ended', 'expired', 'write_blocked'
+  method: text("method"), // HTTP method and path of a blocked write
+  path: text("path"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    adminCreatedIdx: index("impersonation_audit_log_admin_created_idx").on(table.adminId, table.createdAt),
+    userIdx: index("impersonation_audit_log_user_idx").on(table.userId),
+  };
+});
+
+export type ImpersonationAuditEntry = typeof impersonationAuditLog.$inferSelect;
+
+// GDPR erasure requests. The row outlives the erased user as a record that the request was handled,
+// so it keeps no personal data of its own (userId is nulled when the account is erased).
+export const dataErasureRequests = pgTable("data_erasure_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  status: text("status").default('pending').notNull(), // 'pending', 'completed', 'cancelled', 'rejected'
+  reason: text("reason"), // Optional reason given by the user
+  dueAt: timestamp("due_at").notNull(), // Erased automatically once due
+  processedBy: integer("processed_by").references(() => users.id, { onDelete: 'set null' }), // Admin who completed or rejected it
+  rejectionReason: text("rejection_reason"),
+  summary: jsonb("summary"), // Counts of erased and anonymized rows
+  requestedAt: timestamp("requested_at").defaultNow().notNull(),
+  processedAt: timestamp("processed_at"),
+}, (table) => {
+  return {
+    statusDueIdx: index("data_erasure_requests_status_due_idx").on(table.status, table.dueAt),
+    userIdx: index("data_erasure_requests_user_idx").on(table.userId),
+  };
+});
+
+export type DataErasureRequest = typeof dataErasureRequests.$inferSelect;
+
+// Outgoing mail stored by the outbox mail transport
+export const mailOutbox = pgTable("mail_outbox", {
+  id: serial("id").primaryKey(),
+  toAddress: text("to_address").notNull(),
+  fromAddress: text("from_address").notNull(),
+  subject: text("subject").notNull(),
+  textBody: text("text_body").notNull(),
+  htmlBody: text("html_body"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type MailOutboxEntry = typeof mailOutbox.$inferSelect;
+
+// Session store used by express-session (connect-pg-simple layout)
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => {
+  return {
+    expireIdx: index("user_sessions_expire_idx").on(table.expire),
+  };
+});
 
 // Property model
 export const properties = pgTable("properties", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   description: text("description").notNull(),
-  price: doublePrecision("price").notNull(),
+  price: doublePrecision("price").notNull(), // Asking price; for housing-company apartments the debt-free price (velaton hinta)
   address: text("address").notNull(),
   city: text("city").notNull(),
-  area: doublePrecision("area").notNull(), // in sq.ft
+  area: doublePrecision("area").notNull(), // Living area in square metres (shared/units.ts converts for display)
   bedrooms: integer("bedrooms").notNull(),
   bathrooms: integer("bathrooms").notNull(),
   postalCode: text('postal_code'),
@@ -70,18 +263,313 @@ export const properties = pgTable("properties", {
   waterDetails: text("water_details"), // e.g., "24x7 water supply, corporation water"
   gasDetails: text("gas_details"), // e.g., "Piped gas, LPG connection"
   ownerDetails: jsonb("owner_details"), // JSON containing owner information
-  averageNearbyPrices: doublePrecision("average_nearby_prices"), // Average price of nearby properties
+  averageNearbyPrices: doublePrecision("average_nearby_prices"), // Median asking price of comparable listings, maintained by the comparables job
   registrationDetails: text("registration_details"), // Property registration information
+  previousPrice: doublePrecision("previous_price"), // Price before the latest price change, maintained by updateProperty
+  moderationStatus: text("moderation_status").default("published").notNull(), // One of MODERATION_STATUSES; only published listings are public
+  rejectionReason: text("rejection_reason"), // Shown to the owner while the listing is rejected
+  moderatedAt: timestamp("moderated_at"),
+  externalRef: text("external_ref"), // Owner's own listing id (e.g. from an agency CRM), used to match re-imported rows
+  imageHashes: text("image_hashes").array(), // Difference hashes of the uploaded images, maintained by duplicate detection
+  // Finnish housing-company (asunto-osakeyhtiö) details
+  salesPrice: doublePrecision("sales_price"), // Myyntihinta: the price without the loan share
+  loanShare: doublePrecision("loan_share"), // Velkaosuus: the apartment's share of the housing company's loans
+  maintenanceCharge: doublePrecision("maintenance_charge"), // Hoitovastike, € per month
+  financingCharge: doublePrecision("financing_charge"), // Rahoitusvastike, € per month
+  energyClass: text("energy_class"), // One of ENERGY_CLASSES, from the energy certificate
+  buildYear: integer("build_year"),
+  plotOwnership: text("plot_ownership"), // One of PLOT_OWNERSHIPS
+  // Rental terms of rent and pg listings, whose price is the monthly rent
+  deposit: doublePrecision("deposit"), // Security deposit in €
+  availableFrom: date("available_from", { mode: "string" }), // YYYY-MM-DD; empty means available now
+  minLeaseMonths: integer("min_lease_months"), // Shortest lease the landlord accepts; empty means no minimum
+  petsAllowed: boolean("pets_allowed"), // Empty when the listing does not say
+  smokingAllowed: boolean("smoking_allowed"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Title, location and description stemmed as both Finnish and Swedish, weighted in that order for ranking
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`
+    setweight(to_tsvector('finnish', title), 'A') || setweight(to_tsvector('swedish', title), 'A') ||
+    setweight(to_tsvector('finnish', address || ' ' || city), 'B') || setweight(to_tsvector('swedish', address || ' ' || city), 'B') ||
+    setweight(to_tsvector('finnish', description), 'C') || setweight(to_tsvector('swedish', description), 'C')`),
+}, (table) => {
+  return {
+    userExternalRefIdx: uniqueIndex("properties_user_external_ref_idx").on(table.userId, table.externalRef),
+    searchVectorIdx: index("properties_search_vector_idx").using("gin", table.searchVector),
+  };
 });
 
-export const insertPropertySchema = createInsertSchema(properties).omit({
+export const propertyColumns = withoutSearchVector(getTableColumns(properties));
+
+// Energy certificate classes, best first
+export const ENERGY_CLASSES = ['A', 'B', 'C', 'D', 'E', 'F', 'G'] as const;
+export type EnergyClass = typeof ENERGY_CLASSES[number];
+// Own plot (oma tontti) or leased from e.g. the city (vuokratontti)
+export const PLOT_OWNERSHIPS = ['own', 'leased'] as const;
+export type PlotOwnership = typeof PLOT_OWNERSHIPS[number];
+
+// Review workflow of listings: draft -> pending -> published or rejected
+export const MODERATION_STATUSES = ['draft', 'pending', 'published', 'rejected'] as const;
+export type ModerationStatus = typeof MODERATION_STATUSES[number];
+
+export const insertPropertySchema = createInsertSchema(properties, {
+  salesPrice: (schema) => schema.nonnegative(),
+  loanShare: (schema) => schema.nonnegative(),
+  maintenanceCharge: (schema) => schema.nonnegative(),
+  financingCharge: (schema) => schema.nonnegative(),
+  energyClass: z.string().toUpperCase().pipe(z.enum(ENERGY_CLASSES)).nullish(),
+  buildYear: (schema) => schema.min(1800).max(new Date().getFullYear() + 5),
+  plotOwnership: z.enum(PLOT_OWNERSHIPS).nullish(),
+  deposit: (schema) => schema.nonnegative(),
+  availableFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the format YYYY-MM-DD").nullish(),
+  minLeaseMonths: (schema) => schema.int().min(1).max(120),
+}).omit({
   id: true,
   createdAt: true,
   featured: true,
   verified: true,
+  previousPrice: true,
+  rejectionReason: true,
+  moderatedAt: true,
+  imageHashes: true,
 });
 
+export const PROPERTY_EVENT_TYPES = ['listed', 'price_changed', 'status_changed'] as const;
+export type PropertyEventType = typeof PROPERTY_EVENT_TYPES[number];
+
+// Price and status history of listings; one row per change
+export const propertyEvents = pgTable("property_events", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  type: text("type").notNull(), // One of PROPERTY_EVENT_TYPES
+  price: doublePrecision("price").notNull(), // Price after the event
+  previousPrice: doublePrecision("previous_price"), // For price_changed
+  status: text("status").notNull(), // Status after the event
+  previousStatus: text("previous_status"), // For status_changed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    propertyCreatedIdx: index("property_events_property_created_idx").on(table.propertyId, table.createdAt),
+  };
+});
+
+export type PropertyEvent = typeof propertyEvents.$inferSelect;
+
+export const PROPERTY_REVISION_SOURCES = ['edit', 'admin', 'import', 'revert', 'rental', 'geocode', 'moderation', 'merge'] as const;
+export type PropertyRevisionSource = typeof PROPERTY_REVISION_SOURCES[number];
+// Old and new value of each field a revision changed
+export type PropertyRevisionChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Audit trail of listing edits: who changed which fields, and from what to what
+export const propertyRevisions = pgTable("property_revisions", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  actorId: integer("actor_id").references(() => users.id, { onDelete: 'set null' }), // Empty for system changes or erased users
+  source: text("source").default("edit").notNull(), // One of PROPERTY_REVISION_SOURCES
+  changes: jsonb("changes").$type<PropertyRevisionChanges>().notNull(),
+  revertedRevisionId: integer("reverted_revision_id"), // For source 'revert': the revision that was undone
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    propertyCreatedIdx: index("property_revisions_property_created_idx").on(table.propertyId, table.createdAt),
+  };
+});
+
+export type PropertyRevision = typeof propertyRevisions.$inferSelect;
+
+export const GEOCODE_PRECISIONS = ['address', 'street', 'postal_code'] as const;
+export type GeocodePrecision = typeof GEOCODE_PRECISIONS[number];
+
+// Offline geocoding dataset: coordinates of street addresses, and postal code area centroids (rows without a street)
+export const geocodePlaces = pgTable("geocode_places", {
+  id: serial("id").primaryKey(),
+  postalCode: text("postal_code"),
+  municipality: text("municipality").notNull(),
+  street: text("street"),
+  houseNumber: text("house_number"),
+  municipalityKey: text("municipality_key").notNull(), // Normalized for matching
+  streetKey: text("street_key"), // Normalized for matching
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+}, (table) => {
+  return {
+    streetIdx: index("geocode_places_street_idx").on(table.streetKey, table.municipalityKey),
+    postalCodeIdx: index("geocode_places_postal_code_idx").on(table.postalCode),
+    coordinatesIdx: index("geocode_places_coordinates_idx").on(table.latitude, table.longitude),
+  };
+});
+
+export type GeocodePlace = typeof geocodePlaces.$inferSelect;
+
+// Comparables found within a radius of the listing, else in its postal code area
+export const COMPARABLE_BASES = ['radius', 'postal_code'] as const;
+export type ComparableBasis = typeof COMPARABLE_BASES[number];
+
+// Asking prices of comparable listings around a listing, recomputed nightly
+export const propertyComparables = pgTable("property_comparables", {
+  propertyId: integer("property_id").primaryKey().references(() => properties.id, { onDelete: 'cascade' }),
+  medianPricePerSqm: doublePrecision("median_price_per_sqm").notNull(),
+  medianPrice: doublePrecision("median_price").notNull(),
+  comparableCount: integer("comparable_count").notNull(),
+  basis: text("basis").notNull(), // One of COMPARABLE_BASES
+  radiusKm: doublePrecision("radius_km"), // For basis 'radius'
+  computedAt: timestamp("computed_at").defaultNow().notNull(),
+});
+
+export type PropertyComparables = typeof propertyComparables.$inferSelect;
+
+// A listing's asking price per m² against the median of its comparables, as returned with the listing
+export type AreaPriceComparison = Pick<PropertyComparables,
+  'medianPricePerSqm' | 'medianPrice' | 'comparableCount' | 'radiusKm' | 'computedAt'> & {
+  basis: ComparableBasis;
+  pricePerSqm: number;
+  // Positive when the listing asks more per m² than the median
+  differencePercent: number;
+};
+
+// How sure a valuation is, from how many comparables it rests on and how much their prices agree
+export const VALUATION_CONFIDENCES = ['high', 'medium', 'low'] as const;
+export type ValuationConfidence = typeof VALUATION_CONFIDENCES[number];
+
+// A listing a valuation was based on, with its share of the estimate
+export type ValuationComparable = Pick<Property,
+  'id' | 'title' | 'address' | 'city' | 'price' | 'area' | 'propertyType' | 'buildYear' | 'status'> & {
+  pricePerSqm: number;
+  distanceKm: number | null;
+  // The weights of all comparables add up to 1
+  weight: number;
+};
+
+export type Valuation = {
+  // Null when there were too few comparables to estimate from
+  estimate: { low: number; value: number; high: number; pricePerSqm: number } | null;
+  confidence: ValuationConfidence | null;
+  // 'nearby' weighs the comparables around the home; 'city' is the plain median of the city's
+  // listings of the same type, used when too few are nearby
+  basis: 'nearby' | 'city' | null;
+  // The most relevant comparables, of comparableCount in all
+  comparables: ValuationComparable[];
+  comparableCount: number;
+  // For a listing: its asking price against the estimate
+  askingPrice?: number;
+  differencePercent?: number;
+};
+
+export const DUPLICATE_STATUSES = ['open', 'dismissed'] as const;
+export type DuplicateStatus = typeof DUPLICATE_STATUSES[number];
+export const DUPLICATE_REASONS = ['address', 'coordinates', 'area_bedrooms', 'images'] as const;
+export type DuplicateReason = typeof DUPLICATE_REASONS[number];
+
+// Likely duplicate listing pairs found by duplicate detection; propertyId is always the lower id
+export const propertyDuplicates = pgTable("property_duplicates", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  duplicateId: integer("duplicate_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  score: doublePrecision("score").notNull(), // 0-1, sum of the weights of the matching reasons
+  reasons: text("reasons").array().notNull(), // DUPLICATE_REASONS that matched
+  status: text("status").default("open").notNull(), // One of DUPLICATE_STATUSES; dismissed pairs are not reported again
+  resolvedBy: integer("resolved_by").references(() => users.id, { onDelete: 'set null' }),
+  resolvedAt: timestamp("resolved_at"),
+  detectedAt: timestamp("detected_at").defaultNow().notNull(), // Last time detection found the pair
+}, (table) => {
+  return {
+    pairIdx: uniqueIndex("property_duplicates_pair_idx").on(table.propertyId, table.duplicateId),
+    statusIdx: index("property_duplicates_status_idx").on(table.status),
+  };
+});
+
+export type PropertyDuplicate = typeof propertyDuplicates.$inferSelect;
+
+export const VIEWING_SLOT_TYPES = ['private', 'open_house'] as const;
+export type ViewingSlotType = typeof VIEWING_SLOT_TYPES[number];
+export const VIEWING_BOOKING_STATUSES = ['booked', 'cancelled'] as const;
+export type ViewingBookingStatus = typeof VIEWING_BOOKING_STATUSES[number];
+
+// Viewing times and open houses the owner of a listing offers
+export const viewingSlots = pgTable("viewing_slots", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  type: text("type").default("private").notNull(), // One of VIEWING_SLOT_TYPES
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  capacity: integer("capacity").default(1).notNull(), // Bookings the slot takes
+  notes: text("notes"), // Shown to buyers, e.g. where to meet
+  cancelledAt: timestamp("cancelled_at"), // Set instead of deleting a slot that has bookings, so they stay visible
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    propertyStartsIdx: index("viewing_slots_property_starts_idx").on(table.propertyId, table.startsAt),
+  };
+});
+
+export type ViewingSlot = typeof viewingSlots.$inferSelect;
+
+// A buyer's place in a viewing slot; cancelling keeps the row so both sides see what happened
+export const viewingBookings = pgTable("viewing_bookings", {
+  id: serial("id").primaryKey(),
+  slotId: integer("slot_id").notNull().references(() => viewingSlots.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  status: text("status").default("booked").notNull(), // One of VIEWING_BOOKING_STATUSES
+  note: text("note"), // From the buyer to the owner
+  cancelledBy: integer("cancelled_by").references(() => users.id, { onDelete: 'set null' }),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    slotUserIdx: uniqueIndex("viewing_bookings_slot_user_idx").on(table.slotId, table.userId),
+    userIdx: index("viewing_bookings_user_idx").on(table.userId),
+  };
+});
+
+export type ViewingBooking = typeof viewingBookings.$inferSelect;
+
+// submitted -> shortlisted -> accepted, or declined by the landlord / withdrawn by the applicant
+export const RENTAL_APPLICATION_STATUSES = ['submitted', 'shortlisted', 'accepted', 'declined', 'withdrawn'] as const;
+export type RentalApplicationStatus = typeof RENTAL_APPLICATION_STATUSES[number];
+// Net monthly household income in €, asked as a range rather than an exact figure
+export const INCOME_RANGES = ['under_2000', '2000_3000', '3000_4500', '4500_6000', 'over_6000'] as const;
+export type IncomeRange = typeof INCOME_RANGES[number];
+
+// A prospective tenant's application for a rent or pg listing; one per applicant and listing
+export const rentalApplications = pgTable("rental_applications", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }), // Applicant
+  householdSize: integer("household_size").notNull(),
+  incomeRange: text("income_range").notNull(), // One of INCOME_RANGES
+  moveInDate: date("move_in_date", { mode: "string" }).notNull(),
+  pets: boolean("pets").default(false).notNull(),
+  message: text("message"), // From the applicant to the landlord
+  status: text("status").default("submitted").notNull(), // One of RENTAL_APPLICATION_STATUSES
+  decidedAt: timestamp("decided_at"), // When the landlord accepted or declined
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    propertyUserIdx: uniqueIndex("rental_applications_property_user_idx").on(table.propertyId, table.userId),
+    userIdx: index("rental_applications_user_idx").on(table.userId),
+  };
+});
+
+export type RentalApplication = typeof rentalApplications.$inferSelect;
+
+// Images uploaded for listings; the files live in the configured file storage
+export const uploadedImages = pgTable("uploaded_images", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }), // Uploader
+  storageKey: text("storage_key").notNull().unique(), // Common key of all size variants, e.g. properties/2025/05/<uuid>
+  width: integer("width").notNull(), // Of the large variant
+  height: integer("height").notNull(),
+  hash: text("hash"), // 64-bit difference hash (hex) for spotting the same photo in other listings
+  attachedAt: timestamp("attached_at"), // When a listing first showed the photo; uploads never attached are cleaned up
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index("uploaded_images_user_idx").on(table.userId),
+  };
+});
+
+export type UploadedImage = typeof uploadedImages.$inferSelect;
+
 // Location model (for popular locations)
 export const locations = pgTable("locations", {
   id: serial("id").primaryKey(),
@@ -191,9 +679,19 @@ export const locationsRelations = relations(locations, ({ many }) => ({
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
-export type Property = typeof properties.$inferSelect;
+export type Property = Omit<typeof properties.$inferSelect, 'searchVector'>;
 export type InsertProperty = z.infer<typeof insertPropertySchema>;
 
+// Why a listing is recommended as similar to another, strongest first; the client renders them as text
+export type RecommendationReason =
+  | { kind: 'price' | 'area' | 'bedrooms' | 'type' }
+  | { kind: 'distance'; km: number }
+  | { kind: 'features'; shared: number }
+  | { kind: 'coFavorites'; users: number };
+export type RecommendedProperty = Property & { score: number; reasons: RecommendationReason[] };
+// Listings matched by a text search carry the best-matching part of their description, <mark> around matched words
+export type PropertySearchResult = Property & { searchSnippet?: string };
+
 export type Location = typeof locations.$inferSelect;
 export type InsertLocation = z.infer<typeof insertLocationSchema>;
 
@@ -344,9 +842,21 @@ export const posts = pgTable('posts', {
   publishedAt: timestamp('published_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow(), // Remove .onUpdateNow()
+  // Title, excerpt and tags, then the body, stemmed as both Finnish and Swedish
+  searchVector: tsvector('search_vector').generatedAlwaysAs(sql`
+    setweight(to_tsvector('finnish', title), 'A') || setweight(to_tsvector('swedish', title), 'A') ||
+    setweight(to_tsvector('finnish', coalesce(excerpt, '') || ' ' || coalesce(tags, '')), 'B') ||
+    setweight(to_tsvector('swedish', coalesce(excerpt, '') || ' ' || coalesce(tags, '')), 'B') ||
+    setweight(to_tsvector('finnish', content), 'C') || setweight(to_tsvector('swedish', content), 'C')`),
+}, (table) => {
+  return {
+    searchVectorIdx: index('posts_search_vector_idx').using('gin', table.searchVector),
+  };
 });
 
-export type Post = typeof posts.$inferSelect;
+export const postColumns = withoutSearchVector(getTableColumns(posts));
+
+export type Post = Omit<typeof posts.$inferSelect, 'searchVector'>;
 export type InsertPost = typeof posts.$inferInsert;
 
 // Zod schemas for validation
@@ -0,0 +1,17 @@
+// Units of living area. Listings store their area in square metres; other units are converted
+// only for display and input.
+export const AREA_UNITS = ['sqm', 'sqft'] as const;
+export type AreaUnit = typeof AREA_UNITS[number];
+
+export const SQUARE_FEET_PER_SQUARE_METRE = 10.7639;
+
+export const isAreaUnit = (value: unknown): value is AreaUnit =>
+  typeof value === 'string' && (AREA_UNITS as readonly string[]).includes(value);
+
+// An area in square metres expressed in the given unit
+export const fromSquareMetres = (squareMetres: number, unit: AreaUnit): number =>
+  unit === 'sqft' ? squareMetres * SQUARE_FEET_PER_SQUARE_METRE : squareMetres;
+
+// An area in the given unit expressed in square metres
+export const toSquareMetres = (value: number, unit: AreaUnit): number =>
+  unit === 'sqft' ? value / SQUARE_FEET_PER_SQUARE_METRE : value;